@@ -20,6 +20,7 @@ jest.mock('../src/utils/logger', () => ({
     warn: jest.fn(),
     info: jest.fn(),
     debug: jest.fn(),
+    getRedactor: () => jest.requireActual('../src/utils/redaction').defaultRedactor,
   },
 }));
 
@@ -0,0 +1,183 @@
+import { internalApi } from '../../src/api';
+import { TransportRequest, TransportResponse } from '../../src/api/transport';
+import { createEaseClient } from '../../src/client';
+import { getCountries } from '../../src/phone';
+import { ErrorCode, ValidationError } from '../../src/utils/errors';
+import { LogLevel } from '../../src/utils/logger';
+
+const jsonResponse = (status: number, data: unknown = {}, headers: Record<string, string> = {}): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: new Headers(headers),
+  json: async () => data,
+});
+
+const ADDRESSES = '/transaction/keys/addresses';
+const auth = (accessToken: string) => ({ Authorization: `Bearer ${accessToken}` });
+
+describe('Response cache', () => {
+  const createClient = (send: (request: TransportRequest) => Promise<TransportResponse>) =>
+    createEaseClient({ logLevel: LogLevel.SILENT, transport: { send } });
+  const getAddresses = (client: ReturnType<typeof createClient>, accessToken = 'token-a', options = {}) =>
+    internalApi.call(client, ADDRESSES, 'GET', null, auth(accessToken), false, false, options);
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should send identical reads in flight once, whether a rule caches them or not', async () => {
+    const send = jest.fn(async (request: TransportRequest) => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return jsonResponse(200, [request.url]);
+    });
+    const client = createClient(send);
+    const getContacts = () => internalApi.call(client, '/contacts', 'GET');
+
+    const [first, second, third, fourth] = await Promise.all([
+      getAddresses(client),
+      getAddresses(client),
+      getContacts(),
+      getContacts(),
+    ]);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(first).toEqual(second);
+    expect(third).toEqual(fourth);
+
+    await getContacts();
+    expect(send).toHaveBeenCalledTimes(3); // not cached without a rule
+  });
+
+  it('should serve fresh responses, and stale ones while revalidating them in the background', async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z'), doNotFake: ['setTimeout', 'queueMicrotask'] });
+    const send = jest.fn<Promise<TransportResponse>, [TransportRequest]>(async () => jsonResponse(200, ['bc1q']));
+    const client = createClient(send);
+
+    await getAddresses(client);
+    jest.setSystemTime(new Date('2025-01-01T00:00:59Z'));
+    expect((await getAddresses(client)).data).toEqual(['bc1q']);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    send.mockImplementation(async () => jsonResponse(200, ['bc1q', 'bc1r']));
+    jest.setSystemTime(new Date('2025-01-01T00:02:00Z'));
+    expect((await getAddresses(client)).data).toEqual(['bc1q']); // stale, refreshed in the background
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(send).toHaveBeenCalledTimes(2);
+    expect((await getAddresses(client)).data).toEqual(['bc1q', 'bc1r']);
+
+    jest.setSystemTime(new Date('2025-01-01T00:10:00Z'));
+    send.mockImplementation(async () => jsonResponse(200, []));
+    expect((await getAddresses(client)).data).toEqual([]); // too old to serve
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('should revalidate expired responses with their ETag', async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z'), doNotFake: ['setTimeout', 'queueMicrotask'] });
+    const send = jest
+      .fn<Promise<TransportResponse>, [TransportRequest]>()
+      .mockResolvedValueOnce(jsonResponse(200, [{ code: 'US' }], { ETag: '"v1"' }))
+      .mockResolvedValueOnce(jsonResponse(304));
+    const client = createClient(send);
+
+    await getCountries.call(client);
+    jest.setSystemTime(new Date('2025-01-02T00:00:01Z'));
+    const countries = await getCountries.call(client);
+
+    expect(countries).toEqual([{ code: 'US' }]);
+    expect(send.mock.calls[0][0].headers['If-None-Match']).toBeUndefined();
+    expect(send.mock.calls[1][0].headers['If-None-Match']).toBe('"v1"');
+  });
+
+  it('should give every caller its own copy of a shared response', async () => {
+    const send = jest.fn<Promise<TransportResponse>, [TransportRequest]>(async () => jsonResponse(200, ['bc1q']));
+    const client = createClient(send);
+
+    const [first, joined] = await Promise.all([getAddresses(client), getAddresses(client)]);
+    (first.data as string[]).push('changed');
+    (joined.data as string[]).length = 0;
+    const cached = await getAddresses(client);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(cached.data).toEqual(['bc1q']);
+    expect(cached.data).not.toBe(first.data);
+  });
+
+  it('should keep the responses of each session apart, and drop them on sign-out', async () => {
+    const send = jest.fn<Promise<TransportResponse>, [TransportRequest]>(async (request) =>
+      jsonResponse(200, [request.headers.Authorization]),
+    );
+    const client = createClient(send);
+    const scope = client.createScope();
+    await scope.session.set({ accessToken: 'token-b', refreshToken: 'refresh-b' });
+
+    expect((await getAddresses(client, 'token-a')).data).toEqual(['Bearer token-a']);
+    expect((await getAddresses(scope, 'token-b')).data).toEqual(['Bearer token-b']);
+    await getAddresses(scope, 'token-b');
+    expect(send).toHaveBeenCalledTimes(2);
+
+    await scope.session.clear();
+    await getAddresses(scope, 'token-b');
+    await getAddresses(client, 'token-a');
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('should drop the responses of a service after a successful write to it', async () => {
+    const send = jest.fn<Promise<TransportResponse>, [TransportRequest]>(async () => jsonResponse(200, []));
+    const client = createClient(send);
+
+    await getAddresses(client);
+    await internalApi.call(client, 'https://mempool.space/api/tx', 'POST', {}, undefined, false, true);
+    await getAddresses(client);
+    expect(send).toHaveBeenCalledTimes(2); // a write to another service keeps it
+
+    await internalApi.call(client, '/transaction/keys', 'POST', {}, auth('token-a'));
+    await getAddresses(client);
+    expect(send).toHaveBeenCalledTimes(4);
+  });
+
+  it('should follow the cache mode of the call, and the configured rules', async () => {
+    const send = jest.fn<Promise<TransportResponse>, [TransportRequest]>(async () => jsonResponse(200, []));
+    const client = createClient(send);
+
+    await getAddresses(client);
+    await getAddresses(client, 'token-a', { cache: 'reload' });
+    await getAddresses(client, 'token-a', { cache: 'no-store' });
+    await getAddresses(client);
+    expect(send).toHaveBeenCalledTimes(3);
+
+    client.configure({ cache: { rules: [{ path: '/contacts', ttlMs: 1000 }], defaults: false } });
+    await getAddresses(client);
+    await getAddresses(client);
+    await internalApi.call(client, '/contacts', 'GET');
+    await internalApi.call(client, '/contacts', 'GET');
+    expect(send).toHaveBeenCalledTimes(6);
+
+    client.configure({ cache: false });
+    await internalApi.call(client, '/contacts', 'GET');
+    expect(send).toHaveBeenCalledTimes(7);
+
+    expect(() => client.configure({ cache: { rules: [{ path: '/contacts', ttlMs: -1 }] } })).toThrow(ValidationError);
+  });
+
+  it('should not cancel a caller along with the one whose request it joined', async () => {
+    const send = jest.fn(
+      (request: TransportRequest) =>
+        new Promise<TransportResponse>((resolve, reject) => {
+          request.signal?.addEventListener('abort', () =>
+            reject(new DOMException('The operation was aborted', 'AbortError')),
+          );
+          setTimeout(() => resolve(jsonResponse(200, ['bc1q'])), 10);
+        }),
+    );
+    const client = createClient(send);
+    const controller = new AbortController();
+
+    const cancelled = getAddresses(client, 'token-a', { signal: controller.signal });
+    const joined = getAddresses(client);
+    controller.abort();
+
+    expect((await cancelled).errorDetails?.code).toBe(ErrorCode.REQUEST_ABORTED);
+    expect((await joined).data).toEqual(['bc1q']);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,127 @@
+import { internalApi } from '../../src/api';
+import { TransportRequest, TransportResponse } from '../../src/api/transport';
+import { createEaseClient } from '../../src/client';
+import { ErrorCode, ValidationError } from '../../src/utils/errors';
+import { LogLevel } from '../../src/utils/logger';
+
+const jsonResponse = (status: number, data: unknown = {}): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: new Headers(),
+  json: async () => data,
+});
+
+const MEMPOOL = 'https://mempool.space/api/address/tb1q/txs';
+
+describe('Circuit breakers', () => {
+  const createClient = (send: (request: TransportRequest) => Promise<TransportResponse>) =>
+    createEaseClient({
+      logLevel: LogLevel.SILENT,
+      transport: { send },
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 1000 },
+    });
+  const getMempool = (client: ReturnType<typeof createClient>) =>
+    internalApi.call(client, MEMPOOL, 'GET', null, undefined, false, true);
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should fail fast once a service failed too often, and keep the other services going', async () => {
+    const send = jest.fn(async (request: TransportRequest) =>
+      request.url.includes('mempool') ? jsonResponse(503) : jsonResponse(200),
+    );
+    const client = createClient(send);
+
+    await getMempool(client);
+    await getMempool(client);
+    const result = await getMempool(client);
+    await internalApi.call(client, '/contacts', 'GET');
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(result.success).toBe(false);
+    expect(result.errorDetails?.code).toBe(ErrorCode.SERVICE_UNAVAILABLE);
+    expect(result.errorDetails?.context?.retryAfterMs).toBeGreaterThan(0);
+    expect(client.circuitBreakers.getState('MEMPOOL_SPACE')).toBe('open');
+    expect(client.circuitBreakers.getState('EASE_API')).toBe('closed');
+  });
+
+  it('should let a trial request through after the reset timeout and close or reopen on its outcome', async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+    const send = jest.fn(async () => jsonResponse(503));
+    const client = createClient(send);
+    await getMempool(client);
+    await getMempool(client);
+
+    jest.setSystemTime(new Date('2025-01-01T00:00:01Z'));
+    await getMempool(client); // the trial fails
+    await getMempool(client);
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(client.circuitBreakers.getState('MEMPOOL_SPACE')).toBe('open');
+
+    jest.setSystemTime(new Date('2025-01-01T00:00:02Z'));
+    send.mockImplementation(async () => jsonResponse(200));
+    await getMempool(client);
+    await getMempool(client);
+    expect(send).toHaveBeenCalledTimes(5);
+    expect(client.circuitBreakers.getState('MEMPOOL_SPACE')).toBe('closed');
+  });
+
+  it('should report state changes to transport observers', async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+    const send = jest.fn(async () => jsonResponse(503));
+    const client = createClient(send);
+    const onCircuitStateChange = jest.fn();
+    client.addTransportObserver({ onCircuitStateChange });
+
+    await getMempool(client);
+    await getMempool(client);
+    jest.setSystemTime(new Date('2025-01-01T00:00:01Z'));
+    send.mockImplementation(async () => jsonResponse(200));
+    await getMempool(client);
+
+    expect(onCircuitStateChange.mock.calls.map(([ctx]) => [ctx.from, ctx.to])).toEqual([
+      ['closed', 'open'],
+      ['open', 'half-open'],
+      ['half-open', 'closed'],
+    ]);
+    expect(onCircuitStateChange).toHaveBeenCalledWith(
+      expect.objectContaining({ service: 'MEMPOOL_SPACE', failures: 2, timestamp: expect.any(Number) }),
+    );
+  });
+
+  it('should not count client errors or cancelled calls against a service', async () => {
+    const send = jest.fn(async () => jsonResponse(404));
+    const client = createClient(send);
+    const controller = new AbortController();
+    controller.abort();
+
+    await getMempool(client);
+    await getMempool(client);
+    await internalApi.call(client, MEMPOOL, 'GET', null, undefined, false, true, { signal: controller.signal });
+    await getMempool(client);
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(client.circuitBreakers.getState('MEMPOOL_SPACE')).toBe('closed');
+  });
+
+  it('should apply per-service settings, and stop failing fast once turned off', async () => {
+    const send = jest.fn(async () => jsonResponse(503));
+    const client = createClient(send);
+    client.configure({ circuitBreaker: { failureThreshold: 2, services: { MEMPOOL_SPACE: false } } });
+
+    for (let i = 0; i < 3; i++) {
+      await getMempool(client);
+      await internalApi.call(client, '/contacts', 'GET');
+    }
+    expect(send).toHaveBeenCalledTimes(5);
+
+    client.configure({ circuitBreaker: false });
+    expect(client.circuitBreakers.getState('EASE_API')).toBe('closed');
+    await internalApi.call(client, '/contacts', 'GET');
+    expect(send).toHaveBeenCalledTimes(6);
+
+    expect(() => client.configure({ circuitBreaker: { failureThreshold: 0 } })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,127 @@
+import { internalApi } from '../../src/api';
+import { TransportRequest, TransportResponse } from '../../src/api/transport';
+import { createEaseClient } from '../../src/client';
+import { ApiMiddleware } from '../../src/core/middleware';
+import { ErrorCode } from '../../src/utils/errors';
+import { LogLevel } from '../../src/utils/logger';
+
+const jsonResponse = (status: number, data: unknown): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: new Headers(),
+  json: async () => data,
+});
+
+const setup = (status = 200, data: unknown = { ok: true }) => {
+  const send = jest.fn<Promise<TransportResponse>, [TransportRequest]>(async () => jsonResponse(status, data));
+  const client = createEaseClient({ environment: 'staging', logLevel: LogLevel.SILENT, transport: { send } });
+  return { client, send };
+};
+
+describe('Middleware', () => {
+  it('should let middleware mutate the outgoing request', async () => {
+    const { client, send } = setup();
+    client.addMiddleware((request, next) => {
+      request.headers['X-Locale'] = 'pt-BR';
+      request.body = { ...(request.body as object), appVersion: '1.2.3' };
+      return next(request);
+    });
+
+    await internalApi.call(client, '/contacts', 'POST', { name: 'Ana' });
+
+    const request = send.mock.calls[0][0];
+    expect(request.headers['X-Locale']).toBe('pt-BR');
+    expect(request.headers['Content-Type']).toBe('application/json');
+    expect(request.body).toBe(JSON.stringify({ name: 'Ana', appVersion: '1.2.3' }));
+  });
+
+  it('should run middleware in registration order and unwind in reverse', async () => {
+    const { client } = setup();
+    const calls: string[] = [];
+    const track =
+      (name: string): ApiMiddleware =>
+      async (request, next) => {
+        calls.push(`${name}:request`);
+        const response = await next(request);
+        calls.push(`${name}:response`);
+        return response;
+      };
+    client.addMiddleware(track('a'));
+    client.addMiddleware(track('b'));
+
+    await internalApi.call(client, '/contacts', 'GET');
+
+    expect(calls).toEqual(['a:request', 'b:request', 'b:response', 'a:response']);
+  });
+
+  it('should short-circuit with a synthetic response', async () => {
+    const { client, send } = setup();
+    const onRequest = jest.fn();
+    client.addTransportObserver({ onRequest });
+    client.addMiddleware(async () => ({ success: true, data: { cached: true } }));
+
+    const result = await internalApi.call(client, '/contacts', 'GET');
+
+    expect(result).toEqual({ success: true, data: { cached: true } });
+    expect(send).not.toHaveBeenCalled();
+    expect(onRequest).not.toHaveBeenCalled();
+  });
+
+  it('should let middleware transform responses and errors', async () => {
+    const { client } = setup(500, { error: 'boom' });
+    client.addMiddleware(async (request, next) => {
+      const response = await next(request);
+      return response.success ? response : { ...response, error: `Wrapped: ${response.error}` };
+    });
+
+    const result = await internalApi.call(client, '/contacts', 'GET');
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBe(500);
+    expect(result.error).toBe('Wrapped: boom');
+  });
+
+  it('should return a failed response when a middleware throws', async () => {
+    const { client, send } = setup();
+    client.addMiddleware(async () => {
+      throw new Error('fingerprint unavailable');
+    });
+
+    const result = await internalApi.call(client, '/contacts', 'GET');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('fingerprint unavailable');
+    expect(result.errorDetails?.code).toBe(ErrorCode.UNKNOWN_ERROR);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should remove middleware individually', async () => {
+    const { client, send } = setup();
+    const removeA = client.addMiddleware((request, next) => {
+      request.headers['X-A'] = '1';
+      return next(request);
+    });
+    client.addMiddleware((request, next) => {
+      request.headers['X-B'] = '1';
+      return next(request);
+    });
+
+    removeA();
+    await internalApi.call(client, '/contacts', 'GET');
+
+    expect(send.mock.calls[0][0].headers).not.toHaveProperty('X-A');
+    expect(send.mock.calls[0][0].headers['X-B']).toBe('1');
+  });
+
+  it('should keep middleware isolated per client', async () => {
+    const a = setup();
+    const b = setup();
+    a.client.addMiddleware(async () => ({ success: false, error: 'blocked' }));
+
+    const result = await internalApi.call(b.client, '/contacts', 'GET');
+
+    expect(result.success).toBe(true);
+    expect(b.send).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+import { internalApi } from '../../src/api';
+import { TransportRequest, TransportResponse } from '../../src/api/transport';
+import { createEaseClient } from '../../src/client';
+import { getContacts } from '../../src/contacts';
+import { ErrorCode, NetworkError } from '../../src/utils/errors';
+import { LogLevel } from '../../src/utils/logger';
+
+const jsonResponse = (status: number, data: unknown, headers: Record<string, string> = {}): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: new Headers(headers),
+  json: async () => data,
+});
+
+// Never answers, and fails like fetch once the request is aborted
+const hangingSend = (request: TransportRequest) =>
+  new Promise<TransportResponse>((_resolve, reject) => {
+    request.signal?.addEventListener('abort', () =>
+      reject(new DOMException('The operation was aborted', 'AbortError')),
+    );
+  });
+
+describe('Request options', () => {
+  it('should cancel an in-flight call with the caller signal', async () => {
+    const send = jest.fn(hangingSend);
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send } });
+    const controller = new AbortController();
+
+    const pending = internalApi.call(client, '/contacts', 'GET', null, undefined, false, false, {
+      signal: controller.signal,
+    });
+    controller.abort();
+    const result = await pending;
+
+    expect(result.success).toBe(false);
+    expect(result.errorDetails?.code).toBe(ErrorCode.REQUEST_ABORTED);
+  });
+
+  it('should not send a call whose signal is already aborted', async () => {
+    const send = jest.fn(async () => jsonResponse(200, {}));
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send } });
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await internalApi.call(client, '/contacts', 'GET', null, undefined, false, false, {
+      signal: controller.signal,
+    });
+
+    expect(result.errorDetails?.code).toBe(ErrorCode.REQUEST_ABORTED);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should time out each call after timeoutMs', async () => {
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send: hangingSend } });
+
+    const result = await internalApi.call(client, '/contacts', 'GET', null, undefined, false, false, {
+      timeoutMs: 10,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Request timed out');
+    expect(result.errorDetails).toBeInstanceOf(NetworkError);
+  });
+
+  it('should retry failed attempts with the same idempotency key', async () => {
+    const send = jest
+      .fn<Promise<TransportResponse>, [TransportRequest]>()
+      .mockResolvedValueOnce(jsonResponse(503, { error: 'Unavailable' }))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send } });
+
+    const result = await internalApi.call(client, '/transaction/create', 'POST', {}, undefined, false, false, {
+      retry: { retries: 2, delay: 1 },
+      idempotencyKey: 'transfer-1',
+    });
+
+    expect(result).toEqual(expect.objectContaining({ success: true, data: { ok: true } }));
+    expect(send).toHaveBeenCalledTimes(2);
+    send.mock.calls.forEach(([request]) => expect(request.headers['Idempotency-Key']).toBe('transfer-1'));
+  });
+
+  it('should not retry client errors, or retry at all unless asked to', async () => {
+    const send = jest.fn(async () => jsonResponse(400, { error: 'Bad request' }));
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send } });
+
+    const result = await internalApi.call(client, '/contacts', 'GET', null, undefined, false, false, {
+      retry: { retries: 2, delay: 1 },
+    });
+    send.mockImplementation(async () => jsonResponse(503, {}));
+    await internalApi.call(client, '/contacts', 'GET');
+
+    expect(result.statusCode).toBe(400);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give mutating calls to EASE services an idempotency key shared by their attempts', async () => {
+    const send = jest
+      .fn<Promise<TransportResponse>, [TransportRequest]>()
+      .mockResolvedValueOnce(jsonResponse(429, {}, { 'Retry-After': '0' }))
+      .mockResolvedValue(jsonResponse(200, {}));
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send } });
+
+    await internalApi.call(client, '/contacts', 'POST', {}, undefined, false, false, { retry: { delay: 1 } });
+    await internalApi.call(client, '/contacts', 'GET');
+    await internalApi.call(client, 'https://example.com/api', 'POST', {}, undefined, false, true);
+
+    const [first, second, read, external] = send.mock.calls.map(([request]) => request.headers['Idempotency-Key']);
+    expect(first).toEqual(expect.any(String));
+    expect(second).toBe(first);
+    expect(read).toBeUndefined();
+    expect(external).toBeUndefined();
+  });
+
+  it('should not retry non-idempotent requests without an idempotency key', async () => {
+    const send = jest.fn(async () => jsonResponse(503, {}));
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send } });
+    client.addMiddleware(async (request, next) => {
+      delete request.headers['Idempotency-Key'];
+      return next(request);
+    });
+
+    await internalApi.call(client, '/transaction/create', 'POST', {}, undefined, false, false, { retry: { delay: 1 } });
+    await internalApi.call(client, '/contacts/1', 'DELETE', null, undefined, false, false, {
+      retry: { retries: 1, delay: 1 },
+    });
+
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop retrying when Retry-After asks for longer than maxDelay', async () => {
+    const send = jest
+      .fn<Promise<TransportResponse>, [TransportRequest]>()
+      .mockResolvedValueOnce(jsonResponse(503, {}, { 'Retry-After': '120' }));
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send } });
+
+    const result = await internalApi.call(client, '/contacts', 'GET', null, undefined, false, false, {
+      retry: { maxDelay: 1000 },
+    });
+
+    expect(result.errorDetails?.context?.retryAfterMs).toBe(120000);
+    expect(send).toHaveBeenCalledTimes(1); // longer than the caller is willing to wait
+  });
+
+  it('should pass the options of public functions to the transport', async () => {
+    const send = jest.fn<Promise<TransportResponse>, [TransportRequest]>(async () => jsonResponse(200, []));
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send } });
+    const signal = new AbortController().signal;
+
+    await getContacts.call(client, 'access-token-123', { signal, idempotencyKey: 'list-1' });
+
+    const [request] = send.mock.calls[0];
+    expect(request.headers['Idempotency-Key']).toBe('list-1');
+    expect(request.signal).not.toBe(signal); // linked to it, and to the timeout of the attempt
+  });
+});
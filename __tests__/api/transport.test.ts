@@ -0,0 +1,144 @@
+import { internalApi } from '../../src/api';
+import {
+  createAxiosTransport,
+  createFetchTransport,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from '../../src/api/transport';
+import { createEaseClient } from '../../src/client';
+import { ErrorCode, NetworkError } from '../../src/utils/errors';
+import { LogLevel } from '../../src/utils/logger';
+
+const jsonResponse = (status: number, data: unknown, headers: Record<string, string> = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: new Headers(headers),
+  json: async () => data,
+});
+
+describe('Transport', () => {
+  describe('internalApi', () => {
+    it('should send every request through the configured transport', async () => {
+      const send = jest.fn<Promise<TransportResponse>, [TransportRequest]>(async () =>
+        jsonResponse(200, { ok: 1 }, { 'X-Session-Id': 's' }),
+      );
+      const client = createEaseClient({ environment: 'staging', logLevel: LogLevel.SILENT, transport: { send } });
+
+      const result = await internalApi.call(client, '/contacts', 'POST', { a: 1 }, { Authorization: 'Bearer t' });
+
+      expect(result).toEqual({ success: true, data: { ok: 1 }, headers: expect.any(Headers) });
+      expect(result.headers?.get('X-Session-Id')).toBe('s');
+      const request = send.mock.calls[0][0];
+      expect(request.url).toBe('https://staging.api.ease.tech/contacts');
+      expect(request.method).toBe('POST');
+      expect(request.body).toBe(JSON.stringify({ a: 1 }));
+      expect(request.headers).toMatchObject({
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer t',
+        'x-client-request-id': expect.any(String),
+      });
+      expect(request.signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('should keep notifying transport observers', async () => {
+      const transport: Transport = { send: async () => jsonResponse(404, { error: 'Not found' }) };
+      const client = createEaseClient({ logLevel: LogLevel.SILENT, transport });
+      const observer = { onRequest: jest.fn(), onResponse: jest.fn(), onError: jest.fn() };
+      client.addTransportObserver(observer);
+
+      const result = await internalApi.call(client, '/missing', 'GET');
+
+      expect(result.success).toBe(false);
+      expect(result.statusCode).toBe(404);
+      expect(result.errorDetails?.code).toBe(ErrorCode.API_ERROR);
+      expect(observer.onRequest).toHaveBeenCalledWith(expect.objectContaining({ method: 'GET', service: 'EASE_API' }));
+      expect(observer.onError).toHaveBeenCalledWith(expect.objectContaining({ status: 404 }));
+      expect(observer.onResponse).not.toHaveBeenCalled();
+    });
+
+    it('should map transport failures to network errors', async () => {
+      const transport: Transport = {
+        send: async () => {
+          throw new TypeError('socket hang up');
+        },
+      };
+      const client = createEaseClient({ logLevel: LogLevel.SILENT, transport });
+
+      const result = await internalApi.call(client, '/contacts', 'GET');
+
+      expect(result.success).toBe(false);
+      expect(result.errorDetails).toBeInstanceOf(NetworkError);
+      expect(result.error).toBe('socket hang up');
+    });
+  });
+
+  describe('createFetchTransport', () => {
+    it('should call the provided fetch implementation', async () => {
+      const fetchImpl = jest.fn(async () => jsonResponse(200, {})) as unknown as typeof fetch;
+      const signal = new AbortController().signal;
+
+      await createFetchTransport(fetchImpl).send({ url: 'https://x.test', method: 'GET', headers: { a: 'b' }, signal });
+
+      expect(fetchImpl).toHaveBeenCalledWith('https://x.test', {
+        method: 'GET',
+        headers: { a: 'b' },
+        body: undefined,
+        signal,
+      });
+    });
+  });
+
+  describe('createAxiosTransport', () => {
+    const signal = new AbortController().signal;
+
+    it('should adapt axios responses', async () => {
+      const instance = {
+        request: jest.fn(async () => ({
+          status: 201,
+          statusText: 'Created',
+          headers: { 'x-session-id': 'abc', 'set-cookie': ['a=1', 'b=2'] },
+          data: '{"id":1}',
+        })),
+      };
+
+      const response = await createAxiosTransport(instance as any).send({
+        url: 'https://x.test',
+        method: 'POST',
+        headers: {},
+        body: '{}',
+        signal,
+      });
+
+      expect(instance.request).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://x.test', method: 'POST', data: '{}', signal }),
+      );
+      expect(response.ok).toBe(true);
+      expect(response.status).toBe(201);
+      expect(response.headers.get('X-Session-Id')).toBe('abc');
+      await expect(response.json()).resolves.toEqual({ id: 1 });
+    });
+
+    it('should surface cancellations as AbortError', async () => {
+      const instance = { request: jest.fn().mockRejectedValue({ code: 'ERR_CANCELED', message: 'canceled' }) };
+
+      const error = await createAxiosTransport(instance as any)
+        .send({ url: 'https://x.test', method: 'GET', headers: {}, signal })
+        .catch((e) => e);
+
+      expect(error.name).toBe('AbortError');
+    });
+
+    it('should surface connection failures as TypeError', async () => {
+      const instance = { request: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')) };
+
+      const error = await createAxiosTransport(instance as any)
+        .send({ url: 'https://x.test', method: 'GET', headers: {}, signal })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(TypeError);
+      expect(error.message).toBe('ECONNREFUSED');
+    });
+  });
+});
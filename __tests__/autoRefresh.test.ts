@@ -0,0 +1,117 @@
+import { TransportRequest, TransportResponse } from '../src/api/transport';
+import { createEaseClient } from '../src/client';
+import { ErrorCode } from '../src/utils/errors';
+import { LogLevel } from '../src/utils/logger';
+
+const jsonResponse = (status: number, data: unknown): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: new Headers(),
+  json: async () => data,
+});
+
+const bearer = (request: TransportRequest) => request.headers.Authorization?.replace('Bearer ', '');
+
+describe('Session-aware mode', () => {
+  const setup = (
+    refresh: () => TransportResponse = () =>
+      jsonResponse(200, { accessToken: 'fresh-access-token', refreshToken: 'fresh-refresh-token' }),
+  ) => {
+    const send = jest.fn(async (request: TransportRequest) => {
+      if (request.url.endsWith('/refresh')) return refresh();
+      return bearer(request) === 'fresh-access-token'
+        ? jsonResponse(200, [{ id: 'contact-1', accountName: 'ana' }])
+        : jsonResponse(401, { error: 'Token expired' });
+    });
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send }, autoRefresh: true });
+    client.session.set({ accessToken: 'stale-access-token', refreshToken: 'stale-refresh-token' });
+    return { client, send };
+  };
+
+  it('should refresh once and replay concurrent requests with the new token', async () => {
+    const { client, send } = setup();
+
+    const results = await Promise.all([
+      client.contacts.getContacts('stale-access-token'),
+      client.contacts.getContacts('stale-access-token'),
+      client.contacts.getContacts('stale-access-token'),
+    ]);
+
+    expect(results).toEqual([
+      [{ id: 'contact-1', accountName: 'ana' }],
+      [{ id: 'contact-1', accountName: 'ana' }],
+      [{ id: 'contact-1', accountName: 'ana' }],
+    ]);
+    const refreshCalls = send.mock.calls.filter(([request]) => request.url.endsWith('/refresh'));
+    expect(refreshCalls).toHaveLength(1);
+    expect(bearer(refreshCalls[0][0])).toBe('stale-refresh-token');
+    expect(client.session.accessToken).toBe('fresh-access-token');
+    expect(client.session.refreshToken).toBe('fresh-refresh-token');
+  });
+
+  it('should emit sessionExpired and surface the 401 when the refresh fails', async () => {
+    const { client } = setup(() => jsonResponse(401, { error: 'Refresh token revoked' }));
+    const onExpired = jest.fn();
+    client.session.on('sessionExpired', onExpired);
+
+    await expect(client.websocket.getWSToken('stale-access-token')).rejects.toMatchObject({
+      code: ErrorCode.UNAUTHORIZED,
+    });
+
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(onExpired.mock.calls[0][0].error.code).toBe(ErrorCode.TOKEN_REFRESH_FAILED);
+    expect(client.session.isAuthenticated).toBe(false);
+  });
+
+  it('should keep the session when the refresh fails without being rejected', async () => {
+    const { client } = setup(() => jsonResponse(503, { error: 'Unavailable' }));
+    const onExpired = jest.fn();
+    client.session.on('sessionExpired', onExpired);
+
+    await expect(client.websocket.getWSToken('stale-access-token')).rejects.toMatchObject({
+      code: ErrorCode.UNAUTHORIZED,
+    });
+    await expect(
+      client.session.refresh((refreshToken) => client.refresh.refreshToken(refreshToken)),
+    ).rejects.toMatchObject({ code: ErrorCode.SERVICE_UNAVAILABLE });
+
+    expect(onExpired).not.toHaveBeenCalled();
+    expect(client.session.accessToken).toBe('stale-access-token');
+    expect(client.session.refreshToken).toBe('stale-refresh-token');
+  });
+
+  it('should store the refreshed tokens once', async () => {
+    const { client } = setup();
+    const onTokensChanged = jest.fn();
+    client.session.on('tokensChanged', onTokensChanged);
+
+    await client.contacts.getContacts('stale-access-token');
+
+    expect(onTokensChanged).toHaveBeenCalledTimes(1);
+    expect(onTokensChanged).toHaveBeenCalledWith({
+      tokens: { accessToken: 'fresh-access-token', refreshToken: 'fresh-refresh-token' },
+    });
+  });
+
+  it('should leave requests with foreign tokens untouched', async () => {
+    const { client, send } = setup();
+
+    await expect(client.websocket.getWSToken('someone-elses-token')).rejects.toMatchObject({
+      code: ErrorCode.UNAUTHORIZED,
+    });
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not refresh when session-aware mode is off', async () => {
+    const { client, send } = setup();
+    client.setAutoRefresh(false);
+
+    await expect(client.websocket.getWSToken('stale-access-token')).rejects.toMatchObject({
+      code: ErrorCode.UNAUTHORIZED,
+    });
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
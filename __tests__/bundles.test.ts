@@ -0,0 +1,105 @@
+import { build } from 'esbuild';
+import { rmSync } from 'fs';
+import { join } from 'path';
+import { TransportResponse } from '../src/api/transport';
+
+const root = join(__dirname, '..');
+// Inside node_modules, so the bundles resolve their dependencies like an installed SDK does
+const outDir = join(root, 'node_modules', '.cache', 'ease-sdk-bundles');
+const { dependencies } = require('../package.json');
+
+// Bundles an entry point on its own, like tsup does without code splitting
+const bundle = async (entry: string) => {
+  const outfile = join(outDir, `${entry.replace(/\W/g, '_')}.js`);
+  await build({
+    entryPoints: [join(root, entry)],
+    outfile,
+    bundle: true,
+    format: 'cjs',
+    platform: 'node',
+    external: Object.keys(dependencies),
+    logLevel: 'silent',
+  });
+  return require(outfile);
+};
+
+const jsonResponse = (data: unknown): TransportResponse => ({
+  ok: true,
+  status: 200,
+  statusText: '',
+  headers: new Headers(),
+  json: async () => data,
+});
+
+describe('Entry point bundles', () => {
+  afterAll(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('should share the configuration and the default client between entry points', async () => {
+    const config = await bundle('src/config.ts');
+    const wallet = await bundle('src/wallet/index.ts');
+    const client = await bundle('src/client/index.ts');
+    const send = jest.fn(async () => jsonResponse({ chain_stats: { funded_txo_sum: 150000000, spent_txo_sum: 0 } }));
+
+    config.configure({ transport: { send }, logLevel: 4, appName: 'bundles-test' });
+    const balance = await wallet.getWalletBalance('BTC', 'tb1qaddress');
+
+    expect(balance).toBe('1.50000000');
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(client.getDefaultClient().getAppName()).toBe('bundles-test');
+  }, 30000);
+
+  it('should resolve clients created by another entry point', async () => {
+    const wallet = await bundle('src/wallet/index.ts');
+    const client = await bundle('src/client/index.ts');
+    const send = jest.fn(async () => jsonResponse({ chain_stats: { funded_txo_sum: 0, spent_txo_sum: 0 } }));
+    const scoped = client.createEaseClient({ transport: { send }, logLevel: 4 });
+
+    await wallet.getWalletBalance.call(scoped, 'BTC', 'tb1qother');
+
+    expect(send).toHaveBeenCalledTimes(1);
+  }, 30000);
+
+  it('should share the registered chains between entry points', async () => {
+    const chains = await bundle('src/chains/index.ts');
+    const index = await bundle('src/index.ts');
+
+    const unregister = chains.registerChain({
+      id: '0002',
+      name: 'EASE Partner',
+      apiURL: 'https://a',
+      tokenSymbol: 'P',
+    });
+
+    expect(index.getChains().map(({ id }: { id: string }) => id)).toEqual(['0001', '0002']);
+    unregister();
+  }, 30000);
+
+  it('should accept environments registered by another entry point', async () => {
+    const urls = await bundle('src/utils/urls.ts');
+    const client = await bundle('src/client/index.ts');
+
+    const unregister = urls.registerEnvironment('bundles-local', { EASE_API: 'http://localhost:8080' });
+    const local = client.createEaseClient({ logLevel: 4, environment: 'bundles-local' });
+
+    expect(local.getUrl('EASE_API')).toBe('http://localhost:8080');
+    unregister();
+    expect(() => local.getUrl('EASE_API')).toThrow('Unknown environment: bundles-local');
+  }, 30000);
+
+  it('should share the registered OAuth providers between entry points', async () => {
+    const oauth = await bundle('src/oauth/index.ts');
+    const index = await bundle('src/index.ts');
+
+    const unregister = oauth.registerOAuthProvider({
+      id: 'apple',
+      name: 'Apple',
+      authURLEndpoint: '/oauth/apple/url',
+      callbackEndpoint: '/oauth/apple/callback',
+    });
+
+    expect(index.getOAuthProviders().map(({ id }: { id: string }) => id)).toEqual(['google', 'apple']);
+    unregister();
+  }, 30000);
+});
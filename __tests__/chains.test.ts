@@ -0,0 +1,136 @@
+import { TransportRequest, TransportResponse } from '../src/api/transport';
+import { Chain, DEFAULT_CHAIN_ID, getChain, getChains, registerChain } from '../src/chains';
+import { createEaseClient } from '../src/client';
+import { ValidationError } from '../src/utils/errors';
+import { LogLevel } from '../src/utils/logger';
+
+const jsonResponse = (status: number, data: unknown): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: new Headers(),
+  json: async () => data,
+});
+
+const partner: Chain = {
+  id: '0002',
+  name: 'EASE Partner',
+  apiURL: 'https://chain.partner.example',
+  explorerURL: 'https://explorer.partner.example',
+  tokenSymbol: 'PEASE',
+  environments: ['production'],
+};
+
+describe('Chains', () => {
+  let unregister: () => void;
+
+  const setup = (respond: (request: TransportRequest) => TransportResponse) => {
+    const send = jest.fn(async (request: TransportRequest) => respond(request));
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, environment: 'production', transport: { send } });
+    return { client, send };
+  };
+
+  beforeEach(() => {
+    unregister = registerChain(partner);
+  });
+
+  afterEach(() => {
+    unregister();
+  });
+
+  it('should list the built-in chain of the environment and the chains registered for it', () => {
+    const { client } = setup(() => jsonResponse(200, {}));
+
+    expect(client.chains.getChains()).toEqual([
+      {
+        id: DEFAULT_CHAIN_ID,
+        name: 'EASE Mainnet',
+        apiURL: 'https://ease-mainnet.ease.tech',
+        tokenSymbol: 'EASE',
+      },
+      partner,
+    ]);
+
+    client.configure({ environment: 'staging' });
+
+    expect(client.chains.getChains().map(({ id, name }) => [id, name])).toEqual([[DEFAULT_CHAIN_ID, 'EASE Testnet']]);
+    expect(() => client.chains.getChain('0002')).toThrow(ValidationError);
+  });
+
+  it('should default to the selected chain', () => {
+    const { client } = setup(() => jsonResponse(200, {}));
+
+    expect(client.chains.getChain().id).toBe(DEFAULT_CHAIN_ID);
+
+    client.configure({ chainID: '0002' });
+
+    expect(client.getChainID()).toBe('0002');
+    expect(client.chains.getChain()).toBe(partner);
+    expect(getChain().id).toBe(DEFAULT_CHAIN_ID); // other clients keep theirs
+    expect(() => client.setChainID('')).toThrow(ValidationError);
+  });
+
+  it('should reject incomplete chains and keep replacements when unregistering', () => {
+    expect(() => registerChain({ ...partner, apiURL: '' })).toThrow(ValidationError);
+
+    const replacement = { ...partner, environments: undefined };
+    const unregisterReplacement = registerChain(replacement);
+    unregister();
+
+    expect(getChains().map(({ id }) => id)).toEqual([DEFAULT_CHAIN_ID, '0002']);
+    unregisterReplacement();
+    expect(getChains().map(({ id }) => id)).toEqual([DEFAULT_CHAIN_ID]);
+  });
+
+  it('should register users on the selected chain', async () => {
+    const { client, send } = setup(() => jsonResponse(200, { accessToken: 'access', refreshToken: 'refresh' }));
+    client.configure({ chainID: '0002' });
+
+    await client.phone.verifyOtp('+1', '5551234567', '123456');
+    await client.email.verifyEmailOtp('ada@example.com', '123456', DEFAULT_CHAIN_ID);
+
+    expect(JSON.parse(send.mock.calls[0][0].body!)).toMatchObject({ chainID: '0002' });
+    expect(JSON.parse(send.mock.calls[1][0].body!)).toMatchObject({ chainID: DEFAULT_CHAIN_ID });
+  });
+
+  it("should read balances, history and explorer links from the chain's endpoints", async () => {
+    const { client, send } = setup((request) =>
+      request.url.endsWith('/get_currency_balance')
+        ? jsonResponse(200, ['12.5000 PEASE'])
+        : jsonResponse(200, {
+            actions: [
+              {
+                trx_id: 'tx1',
+                act: {
+                  account: 'eosio.token',
+                  name: 'transfer',
+                  data: { to: 'ada', quantity: '1.0000 PEASE', symbol: 'PEASE' },
+                },
+              },
+              {
+                trx_id: 'tx2',
+                act: {
+                  account: 'eosio.token',
+                  name: 'transfer',
+                  data: { to: 'ada', quantity: '1.0000 EASE', symbol: 'EASE' },
+                },
+              },
+            ],
+          }),
+    );
+
+    const balance = await client.wallet.getWalletBalance('EASE', 'ada', '0002');
+    const history = await client.wallet.getWalletHistory('EASE', 'ada', '0002');
+
+    expect(balance).toBe('12.5000');
+    expect(send.mock.calls[0][0].url).toBe('https://chain.partner.example/v1/chain/get_currency_balance');
+    expect(JSON.parse(send.mock.calls[0][0].body!)).toMatchObject({ symbol: 'PEASE' });
+    expect(history).toEqual([
+      { id: 'tx1', type: 'in', amount: '1.0000', explorerURL: 'https://explorer.partner.example/tx/tx1' },
+    ]);
+    expect(client.wallet.explorerUrlFromResponse('EASE', 'tx1')).toBe('');
+    expect(client.wallet.explorerUrlFromResponse('EASE', 'tx1', '0002')).toBe(
+      'https://explorer.partner.example/tx/tx1',
+    );
+  });
+});
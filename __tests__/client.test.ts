@@ -0,0 +1,108 @@
+import { createEaseClient, getDefaultClient, EaseClient } from '../src/client';
+import { login } from '../src/login';
+import { internalApi } from '../src/api';
+import { ValidationError } from '../src/utils/errors';
+import { logger, LogLevel } from '../src/utils/logger';
+
+jest.mock('../src/api', () => ({
+  internalApi: jest.fn(),
+}));
+
+const mockApi = internalApi as jest.MockedFunction<typeof internalApi>;
+
+describe('EaseClient', () => {
+  beforeEach(() => {
+    mockApi.mockReset();
+    logger.configure({ level: LogLevel.SILENT });
+  });
+
+  it('should keep environments and URLs isolated per client', () => {
+    const staging = createEaseClient({ environment: 'staging', logLevel: LogLevel.SILENT });
+    const production = createEaseClient({ environment: 'production', logLevel: LogLevel.SILENT });
+
+    expect(staging.getEnvironment()).toBe('staging');
+    expect(production.getEnvironment()).toBe('production');
+    expect(staging.getUrl('EASE_API')).toBe('https://staging.api.ease.tech');
+    expect(production.getUrl('EASE_API')).toBe('https://api.ease.tech');
+  });
+
+  it('should keep app names isolated per client', () => {
+    const client = createEaseClient({ appName: 'Reconciler', logLevel: LogLevel.SILENT });
+
+    expect(client.getAppName()).toBe('Reconciler');
+    expect(getDefaultClient().getAppName()).not.toBe('Reconciler');
+  });
+
+  it('should reject invalid environments', () => {
+    expect(() => createEaseClient({ environment: 'qa' as any })).toThrow(ValidationError);
+  });
+
+  it('should send namespaced calls on behalf of the client', async () => {
+    const client = createEaseClient({ environment: 'production', logLevel: LogLevel.SILENT });
+    mockApi.mockResolvedValueOnce({
+      success: true,
+      data: { publicKey: { challenge: 'challenge' } },
+      headers: new Headers({ 'X-Session-Id': 'session-123' }),
+    });
+
+    await client.login.login();
+
+    expect(mockApi).toHaveBeenCalledWith('/login/options', 'POST', null, undefined, false, false, undefined);
+    expect(mockApi.mock.contexts[0]).toBe(client);
+  });
+
+  it('should route free functions through the default client', async () => {
+    mockApi.mockResolvedValueOnce({
+      success: true,
+      data: { publicKey: { challenge: 'challenge' } },
+      headers: new Headers({ 'X-Session-Id': 'session-123' }),
+    });
+
+    await login();
+
+    expect(mockApi.mock.contexts[0]).toBe(getDefaultClient());
+  });
+
+  it('should store tokens in the client session', async () => {
+    const client = createEaseClient({ logLevel: LogLevel.SILENT });
+    mockApi.mockResolvedValueOnce({
+      success: true,
+      data: { accessToken: 'access-token', refreshToken: 'refresh-token' },
+    });
+
+    await client.login.loginCallback({ id: 'cred', rawId: 'raw', type: 'public-key', response: {} as any }, 'session');
+
+    expect(client.session.accessToken).toBe('access-token');
+    expect(client.session.refreshToken).toBe('refresh-token');
+    expect(getDefaultClient().session.accessToken).toBeUndefined();
+  });
+
+  it('should keep transport observers isolated per client', () => {
+    const a = createEaseClient({ logLevel: LogLevel.SILENT });
+    const b = createEaseClient({ logLevel: LogLevel.SILENT });
+    const onRequest = jest.fn();
+
+    const remove = a.addTransportObserver({ onRequest });
+    b.telemetry._notify.request({ requestId: '1', method: 'GET', url: 'u', startTs: 0, origin: 'internal' });
+    expect(onRequest).not.toHaveBeenCalled();
+
+    a.telemetry._notify.request({ requestId: '2', method: 'GET', url: 'u', startTs: 0, origin: 'internal' });
+    expect(onRequest).toHaveBeenCalledTimes(1);
+
+    remove();
+    a.telemetry._notify.request({ requestId: '3', method: 'GET', url: 'u', startTs: 0, origin: 'internal' });
+    expect(onRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should expose every module as a namespace', () => {
+    const client = createEaseClient({ logLevel: LogLevel.SILENT });
+
+    expect(client).toBeInstanceOf(EaseClient);
+    expect(typeof client.join.joinCallback).toBe('function');
+    expect(typeof client.wallet.getWalletBalance).toBe('function');
+    expect(typeof client.transaction.createTransaction).toBe('function');
+    expect(typeof client.contacts.getContacts).toBe('function');
+    expect(typeof client.websocket.connectToWebSocket).toBe('function');
+    expect(typeof client.analytics.logEvents).toBe('function');
+  });
+});
@@ -26,9 +26,17 @@ describe('Contacts Module', () => {
       const result = await getContacts('access-token');
 
       expect(result).toEqual(mockResponse.data);
-      expect(mockApi).toHaveBeenCalledWith('/contacts', 'GET', null, {
-        Authorization: 'Bearer access-token',
-      });
+      expect(mockApi).toHaveBeenCalledWith(
+        '/contacts',
+        'GET',
+        null,
+        {
+          Authorization: 'Bearer access-token',
+        },
+        false,
+        false,
+        undefined,
+      );
     });
 
     it('should handle API error responses', async () => {
@@ -59,6 +67,9 @@ describe('Contacts Module', () => {
         {
           Authorization: 'Bearer access-token',
         },
+        false,
+        false,
+        undefined,
       );
     });
 
@@ -84,9 +95,17 @@ describe('Contacts Module', () => {
       const result = await deleteContact('access-token', 'contact-id');
 
       expect(result).toEqual({ success: true });
-      expect(mockApi).toHaveBeenCalledWith('/contacts/contact-id', 'DELETE', null, {
-        Authorization: 'Bearer access-token',
-      });
+      expect(mockApi).toHaveBeenCalledWith(
+        '/contacts/contact-id',
+        'DELETE',
+        null,
+        {
+          Authorization: 'Bearer access-token',
+        },
+        false,
+        false,
+        undefined,
+      );
     });
 
     it('should handle API error responses', async () => {
@@ -114,9 +133,17 @@ describe('Contacts Module', () => {
       const result = await searchContacts('access-token', 'test');
 
       expect(result).toEqual(mockResponse.data);
-      expect(mockApi).toHaveBeenCalledWith('/contacts/search?query=test', 'GET', null, {
-        Authorization: 'Bearer access-token',
-      });
+      expect(mockApi).toHaveBeenCalledWith(
+        '/contacts/search?query=test',
+        'GET',
+        null,
+        {
+          Authorization: 'Bearer access-token',
+        },
+        false,
+        false,
+        undefined,
+      );
     });
 
     it('should handle API error responses', async () => {
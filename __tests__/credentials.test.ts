@@ -0,0 +1,271 @@
+import {
+  getPasskeys,
+  renamePasskey,
+  revokePasskey,
+  addPasskey,
+  addPasskeyCallback,
+  performAddPasskey,
+} from '../src/credentials';
+import { internalApi } from '../src/api';
+import { logger, LogLevel } from '../src/utils/logger';
+import { APIError, AuthenticationError, ErrorCode, ValidationError, WebAuthnError } from '../src/utils/errors';
+
+jest.mock('../src/api', () => ({
+  internalApi: jest.fn(),
+}));
+
+const mockApi = internalApi as jest.MockedFunction<typeof internalApi>;
+
+const passkey = {
+  id: 'credential-id',
+  name: 'MacBook',
+  authenticatorName: 'iCloud Keychain',
+  transports: ['internal', 'hybrid'],
+  createdAt: '2025-07-28T12:00:00.000Z',
+  lastUsedAt: null,
+};
+
+describe('Credentials Module', () => {
+  beforeEach(() => {
+    mockApi.mockClear();
+    logger.configure({ level: LogLevel.DEBUG });
+  });
+
+  describe('getPasskeys', () => {
+    it('should list passkeys successfully', async () => {
+      mockApi.mockResolvedValueOnce({ success: true, data: [passkey] } as any);
+
+      const result = await getPasskeys('access-token');
+
+      expect(result).toEqual([passkey]);
+      expect(mockApi).toHaveBeenCalledWith(
+        '/credentials',
+        'GET',
+        null,
+        {
+          Authorization: 'Bearer access-token',
+        },
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should rethrow mapped API errors', async () => {
+      logger.configure({ level: LogLevel.SILENT });
+      const unauthorized = new AuthenticationError('Unauthorized', ErrorCode.UNAUTHORIZED);
+      mockApi.mockResolvedValueOnce({ success: false, statusCode: 401, errorDetails: unauthorized });
+
+      await expect(getPasskeys('access-token')).rejects.toBe(unauthorized);
+    });
+
+    it('should validate access token', async () => {
+      await expect(getPasskeys('')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('renamePasskey', () => {
+    it('should rename a passkey successfully', async () => {
+      mockApi.mockResolvedValueOnce({ success: true, data: { ...passkey, name: 'Work laptop' } } as any);
+
+      const result = await renamePasskey('access-token', 'credential/id', '  Work laptop ');
+
+      expect(result.name).toBe('Work laptop');
+      expect(mockApi).toHaveBeenCalledWith(
+        '/credentials/credential%2Fid',
+        'PATCH',
+        { name: 'Work laptop' },
+        { Authorization: 'Bearer access-token' },
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should fail with an APIError when the passkey does not exist', async () => {
+      logger.configure({ level: LogLevel.SILENT });
+      mockApi.mockResolvedValueOnce({ success: false, error: 'Not found', statusCode: 404 });
+
+      const error = await renamePasskey('access-token', 'missing', 'Name').catch((e) => e);
+
+      expect(error).toBeInstanceOf(APIError);
+      expect(error.statusCode).toBe(404);
+    });
+
+    it('should validate the name', async () => {
+      await expect(renamePasskey('access-token', 'credential-id', '   ')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('revokePasskey', () => {
+    it('should revoke a passkey successfully', async () => {
+      mockApi.mockResolvedValueOnce({ success: true } as any);
+
+      const result = await revokePasskey('access-token', 'credential-id');
+
+      expect(result).toEqual({ success: true });
+      expect(mockApi).toHaveBeenCalledWith(
+        '/credentials/credential-id',
+        'DELETE',
+        null,
+        {
+          Authorization: 'Bearer access-token',
+        },
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should handle API error responses', async () => {
+      logger.configure({ level: LogLevel.SILENT });
+      mockApi.mockResolvedValueOnce({ success: false, error: 'Cannot revoke the last passkey', statusCode: 409 });
+
+      await expect(revokePasskey('access-token', 'credential-id')).rejects.toThrow('Cannot revoke the last passkey');
+    });
+
+    it('should validate the passkey ID', async () => {
+      await expect(revokePasskey('access-token', '')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('addPasskey', () => {
+    const publicKey = {
+      challenge: 'AQID',
+      rp: { name: 'Ease' },
+      user: { id: 'BAU', name: 'user', displayName: 'User' },
+      pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+      excludeCredentials: [{ type: 'public-key', id: 'credential-id' }],
+    };
+
+    it('should get passkey creation options with the session ID', async () => {
+      mockApi.mockResolvedValueOnce({
+        success: true,
+        data: { publicKey },
+        headers: new Headers({ 'X-Session-Id': 'session-123' }),
+      } as any);
+
+      const result = await addPasskey('access-token');
+
+      expect(result).toEqual({ publicKey, sessionId: 'session-123' });
+      expect(mockApi).toHaveBeenCalledWith(
+        '/credentials/options',
+        'POST',
+        null,
+        {
+          Authorization: 'Bearer access-token',
+        },
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should fail when the session ID is missing', async () => {
+      logger.configure({ level: LogLevel.SILENT });
+      mockApi.mockResolvedValueOnce({ success: true, data: { publicKey }, headers: new Headers() } as any);
+
+      const error = await addPasskey('access-token').catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebAuthnError);
+      expect(error.code).toBe(ErrorCode.PASSKEY_CREATION_FAILED);
+    });
+
+    it('should map 401 to UNAUTHORIZED', async () => {
+      logger.configure({ level: LogLevel.SILENT });
+      mockApi.mockResolvedValueOnce({ success: false, statusCode: 401 });
+
+      const error = await addPasskey('access-token').catch((e) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.code).toBe(ErrorCode.UNAUTHORIZED);
+    });
+  });
+
+  describe('addPasskeyCallback', () => {
+    const credential = {
+      id: 'new-credential-id',
+      rawId: 'new-credential-id',
+      response: { clientDataJSON: 'client-data', attestationObject: 'attestation' },
+      type: 'public-key' as const,
+    };
+
+    it('should register the passkey with the session ID', async () => {
+      mockApi.mockResolvedValueOnce({ success: true, data: { ...passkey, id: 'new-credential-id' } } as any);
+
+      const result = await addPasskeyCallback(credential, 'access-token', 'session-123', 'Security key');
+
+      expect(result.id).toBe('new-credential-id');
+      expect(mockApi).toHaveBeenCalledWith(
+        '/credentials/callback',
+        'POST',
+        { response: credential, name: 'Security key' },
+        { Authorization: 'Bearer access-token', 'X-Session-Id': 'session-123' },
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should map an invalid attestation to PASSKEY_CREATION_FAILED', async () => {
+      logger.configure({ level: LogLevel.SILENT });
+      mockApi.mockResolvedValueOnce({ success: false, statusCode: 400 });
+
+      const error = await addPasskeyCallback(credential, 'access-token', 'session-123').catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebAuthnError);
+      expect(error.code).toBe(ErrorCode.PASSKEY_CREATION_FAILED);
+      expect(error.message).toBe('Invalid WebAuthn attestation');
+    });
+
+    it('should validate the credential format', async () => {
+      await expect(
+        addPasskeyCallback({ ...credential, type: 'other' } as any, 'access-token', 'session-123'),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('performAddPasskey', () => {
+    it('should run the ceremony end to end', async () => {
+      mockApi.mockResolvedValueOnce({
+        success: true,
+        data: {
+          publicKey: {
+            challenge: 'AQID',
+            rp: { name: 'Ease' },
+            user: { id: 'BAU', name: 'user', displayName: 'User' },
+            pubKeyCredParams: [],
+          },
+        },
+        headers: new Headers({ 'X-Session-Id': 'session-123' }),
+      } as any);
+      mockApi.mockResolvedValueOnce({ success: true, data: passkey } as any);
+      const credentials = {
+        create: jest.fn().mockResolvedValue({
+          id: 'credential-id',
+          rawId: new Uint8Array([1, 2, 3]).buffer,
+          type: 'public-key',
+          response: { clientDataJSON: new Uint8Array([4]).buffer, attestationObject: new Uint8Array([5]).buffer },
+          getClientExtensionResults: () => ({}),
+        }),
+        get: jest.fn(),
+      };
+
+      const result = await performAddPasskey('access-token', 'MacBook', { credentials });
+
+      expect(result).toEqual(passkey);
+      expect(mockApi).toHaveBeenLastCalledWith(
+        '/credentials/callback',
+        'POST',
+        {
+          response: expect.objectContaining({ id: 'credential-id', rawId: 'AQID' }),
+          name: 'MacBook',
+        },
+        { Authorization: 'Bearer access-token', 'X-Session-Id': 'session-123' },
+        false,
+        false,
+        { credentials },
+      );
+    });
+  });
+});
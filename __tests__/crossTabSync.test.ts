@@ -0,0 +1,213 @@
+import { TransportRequest, TransportResponse } from '../src/api/transport';
+import { createEaseClient, createSessionManager, EaseClient } from '../src/client';
+import { createMemoryTokenStore, createWebStorageTokenStore, TokenStore } from '../src/storage';
+import { LogLevel } from '../src/utils/logger';
+
+const jsonResponse = (status: number, data: unknown): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: new Headers(),
+  json: async () => data,
+});
+
+const tokens = { accessToken: 'access-token-1', refreshToken: 'refresh-token-1' };
+const refreshed = { accessToken: 'access-token-2', refreshToken: 'refresh-token-2' };
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 50 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+// A shared in-memory localStorage that dispatches `storage` events to every other "tab", like browsers do
+const createBrowser = () => {
+  const data = new Map<string, string>();
+  const tabs: EventTarget[] = [];
+  const openTab = () => {
+    const window = new EventTarget();
+    tabs.push(window);
+    const storage = {
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, newValue: string) => {
+        data.set(key, newValue);
+        tabs
+          .filter((tab) => tab !== window)
+          .forEach((tab) => tab.dispatchEvent(Object.assign(new Event('storage'), { key, newValue })));
+      },
+      removeItem: (key: string) => {
+        data.delete(key);
+        tabs
+          .filter((tab) => tab !== window)
+          .forEach((tab) => tab.dispatchEvent(Object.assign(new Event('storage'), { key, newValue: null })));
+      },
+    } as unknown as Storage;
+    return { window, storage };
+  };
+  return { openTab, data };
+};
+
+describe('Cross-tab sync', () => {
+  const clients: EaseClient[] = [];
+
+  const openClient = (crossTabSync: Parameters<EaseClient['setCrossTabSync']>[0], tokenStore?: TokenStore) => {
+    const send = jest.fn(async (request: TransportRequest) =>
+      request.url.endsWith('/refresh') ? jsonResponse(200, refreshed) : jsonResponse(200, {}),
+    );
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send }, crossTabSync, tokenStore });
+    clients.push(client);
+    return { client, send };
+  };
+
+  afterEach(() => {
+    clients.splice(0).forEach((client) => client.setCrossTabSync(false));
+  });
+
+  describe('over BroadcastChannel', () => {
+    it('should have the other tabs reload refreshed tokens from the token store', async () => {
+      const tokenStore = createMemoryTokenStore(); // e.g. the localStorage of the origin
+      const a = openClient({ name: 'sync-refresh' }, tokenStore);
+      const b = openClient({ name: 'sync-refresh' }, tokenStore);
+      await a.client.session.set(tokens);
+      await waitFor(() => b.client.session.accessToken === tokens.accessToken);
+
+      await a.client.refresh.refreshToken(tokens.refreshToken);
+      await waitFor(() => b.client.session.accessToken === refreshed.accessToken);
+
+      expect(b.client.session.accessToken).toBe(refreshed.accessToken);
+      expect(b.client.session.refreshToken).toBe(refreshed.refreshToken);
+    });
+
+    it('should propagate logouts to the other tabs', async () => {
+      const tokenStore = createMemoryTokenStore();
+      const a = openClient({ name: 'sync-logout' }, tokenStore);
+      const b = openClient({ name: 'sync-logout' }, tokenStore);
+      await a.client.session.set(tokens);
+      await waitFor(() => b.client.session.isAuthenticated);
+
+      await a.client.logout.logout(tokens.accessToken);
+      await waitFor(() => !b.client.session.isAuthenticated);
+
+      expect(b.client.session.isAuthenticated).toBe(false);
+    });
+
+    it('should send notices only, and sync logouts even without a token store', async () => {
+      const posted: unknown[] = [];
+      const listener = new BroadcastChannel('sync-notices');
+      listener.onmessage = (event) => posted.push(event.data);
+      const a = openClient({ name: 'sync-notices' });
+      const b = openClient({ name: 'sync-notices' });
+      await b.client.session.set(refreshed);
+
+      await a.client.session.set(tokens);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(b.client.session.accessToken).toBe(refreshed.accessToken); // nothing stored to reload
+
+      await a.client.session.clear();
+      await waitFor(() => !b.client.session.isAuthenticated);
+      listener.close();
+
+      expect(b.client.session.isAuthenticated).toBe(false);
+      expect(JSON.stringify(posted)).not.toMatch(/token-/);
+      expect(posted).toContainEqual(expect.objectContaining({ change: 'tokensChanged' }));
+      expect(posted).toContainEqual(expect.objectContaining({ change: 'logout' }));
+    });
+
+    it('should ignore sessions with another name', async () => {
+      const a = openClient({ name: 'sync-personal' });
+      const b = openClient({ name: 'sync-business' });
+
+      await a.client.session.set(tokens);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(b.client.session.isAuthenticated).toBe(false);
+    });
+
+    it('should sync the accounts of session managers on channels of their own, also when turned on later', async () => {
+      const tokenStore = createMemoryTokenStore();
+      const a = openClient(false);
+      const b = openClient(false);
+      const [managerA, managerB] = [createSessionManager(a.client), createSessionManager(b.client)];
+      const businessA = await managerA.add('business', { tokenStore });
+      const businessB = await managerB.add('business', { tokenStore });
+      const personalB = await managerB.add('personal', { tokenStore: createMemoryTokenStore() });
+
+      a.client.setCrossTabSync({ name: 'sync-accounts' });
+      b.client.setCrossTabSync({ name: 'sync-accounts' });
+      await businessA.session.set(tokens);
+      await waitFor(() => businessB.session.isAuthenticated);
+
+      expect(businessB.session.accessToken).toBe(tokens.accessToken);
+      expect(personalB.session.isAuthenticated).toBe(false);
+      expect(b.client.session.isAuthenticated).toBe(false);
+      [businessA, businessB, personalB].forEach((scope) => scope.setCrossTabSync(false));
+    });
+  });
+
+  describe('over storage events', () => {
+    it('should propagate token changes when BroadcastChannel is unavailable, without writing tokens', async () => {
+      const browser = createBrowser();
+      const tab1 = browser.openTab();
+      const tab2 = browser.openTab();
+      const messages: string[] = [];
+      tab2.window.addEventListener('storage', (event) => {
+        const { key, newValue } = event as StorageEvent;
+        if (key === 'ease-sdk-session:message' && newValue) messages.push(newValue);
+      });
+      const sync = { BroadcastChannel: null, storage: tab1.storage, eventTarget: tab1.window };
+      const a = openClient(sync, createWebStorageTokenStore(tab1.storage));
+      const b = openClient(
+        { ...sync, storage: tab2.storage, eventTarget: tab2.window },
+        createWebStorageTokenStore(tab2.storage),
+      );
+
+      await a.client.session.set(tokens);
+      await waitFor(() => b.client.session.isAuthenticated);
+      expect(b.client.session.accessToken).toBe(tokens.accessToken);
+
+      await a.client.session.clear();
+      await waitFor(() => !b.client.session.isAuthenticated);
+      expect(b.client.session.isAuthenticated).toBe(false);
+      expect(browser.data.size).toBe(0);
+      expect(messages).toHaveLength(2);
+      expect(messages.join()).not.toMatch(/token-/);
+    });
+  });
+
+  describe('refresh lock', () => {
+    it('should let only one tab refresh and reuse its tokens in the others', async () => {
+      const browser = createBrowser();
+      const tab1 = browser.openTab();
+      const tab2 = browser.openTab();
+      const a = openClient(
+        { BroadcastChannel: null, storage: tab1.storage, eventTarget: tab1.window },
+        createWebStorageTokenStore(tab1.storage),
+      );
+      const b = openClient(
+        { BroadcastChannel: null, storage: tab2.storage, eventTarget: tab2.window },
+        createWebStorageTokenStore(tab2.storage),
+      );
+      await a.client.session.set(tokens);
+      await waitFor(() => b.client.session.isAuthenticated);
+
+      const [fromA, fromB] = await Promise.all([
+        a.client.session.refresh((refreshToken) => a.client.refresh.refreshToken(refreshToken)),
+        b.client.session.refresh((refreshToken) => b.client.refresh.refreshToken(refreshToken)),
+      ]);
+
+      expect(fromA).toEqual(refreshed);
+      expect(fromB).toEqual(refreshed);
+      expect(a.send.mock.calls.length + b.send.mock.calls.length).toBe(1);
+    });
+
+    it('should use the Web Locks API when available', async () => {
+      const request = jest.fn((_name: string, _options: unknown, callback: () => Promise<unknown>) => callback());
+      const { client } = openClient({ name: 'sync-locks', locks: { request } as unknown as LockManager });
+      await client.session.set(tokens);
+
+      await client.session.refresh((refreshToken) => client.refresh.refreshToken(refreshToken));
+
+      expect(request).toHaveBeenCalledWith('sync-locks:refresh', { mode: 'exclusive' }, expect.any(Function));
+    });
+  });
+});
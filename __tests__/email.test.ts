@@ -0,0 +1,175 @@
+import { sendEmailOtp, verifyEmailOtp, isValidEmail, EmailOtpSession } from '../src/email';
+import { internalApi } from '../src/api';
+import { ValidationError, OTPError, handleUnknownError, EaseSDKError, ErrorCode } from '../src/utils/errors';
+import { logger, LogLevel } from '../src/utils/logger';
+
+jest.mock('../src/api', () => ({
+  internalApi: jest.fn(),
+}));
+
+const mockApi = internalApi as jest.MockedFunction<typeof internalApi>;
+
+describe('Email Service', () => {
+  const validEmail = 'Ada.Lovelace+ease@Example.COM';
+  const normalizedEmail = 'Ada.Lovelace+ease@example.com';
+
+  // Every test starts an hour later, past the resend cooldown and expiry of codes sent by the previous ones
+  let now = Date.now();
+
+  beforeEach(() => {
+    mockApi.mockClear();
+    logger.configure({ level: LogLevel.SILENT });
+    now += 60 * 60_000;
+    jest.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('isValidEmail', () => {
+    it('should accept common addresses', () => {
+      ['ada@example.com', 'a.b-c_d+tag@mail.example.co.uk', "o'brien@example.ie", ' ada@example.com '].forEach(
+        (email) => expect(isValidEmail(email)).toBe(true),
+      );
+    });
+
+    it('should reject malformed addresses', () => {
+      [
+        'ada',
+        'ada@',
+        '@example.com',
+        'ada@example',
+        'ada..lovelace@example.com',
+        '.ada@example.com',
+        'ada@-example.com',
+        'ada lovelace@example.com',
+        `${'a'.repeat(65)}@example.com`,
+        `ada@${'a'.repeat(250)}.com`,
+      ].forEach((email) => expect(isValidEmail(email)).toBe(false));
+    });
+  });
+
+  describe('sendEmailOtp', () => {
+    it('should send OTP successfully', async () => {
+      mockApi.mockResolvedValueOnce({ success: true, data: { success: true } });
+
+      const result = await sendEmailOtp(` ${validEmail} `);
+
+      expect(result).toBeInstanceOf(EmailOtpSession);
+      expect(result.success).toBe(true);
+      expect(result.email).toBe(normalizedEmail);
+      expect(mockApi).toHaveBeenCalledWith(
+        '/email/send-otp',
+        'POST',
+        { email: normalizedEmail },
+        undefined,
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should reject invalid addresses without calling the API', async () => {
+      await expect(sendEmailOtp('')).rejects.toThrow(ValidationError);
+
+      const error = await sendEmailOtp('ada@example').catch((e) => e);
+      expect(error).toBeInstanceOf(OTPError);
+      expect(error.code).toBe(ErrorCode.INVALID_EMAIL);
+      expect(mockApi).not.toHaveBeenCalled();
+    });
+
+    it('should map rate limiting to RATE_LIMIT_ERROR', async () => {
+      mockApi.mockResolvedValueOnce({
+        success: false,
+        error: 'Too many requests',
+        statusCode: 429,
+        headers: new Headers({ 'Retry-After': '60' }),
+      });
+
+      const error = await sendEmailOtp(validEmail).catch((e) => e);
+
+      expect(error).toBeInstanceOf(OTPError);
+      expect(error.code).toBe(ErrorCode.RATE_LIMIT_ERROR);
+      expect(error.context.retryAfterMs).toBe(60_000);
+    });
+
+    it('should handle API errors', async () => {
+      mockApi.mockResolvedValueOnce({ success: false, error: 'Mailer unavailable', statusCode: 502 });
+
+      const error = await sendEmailOtp(validEmail).catch((e) => e);
+      expect(error).toBeInstanceOf(OTPError);
+      expect(error.code).toBe(ErrorCode.OTP_SEND_FAILED);
+    });
+
+    it('should handle unexpected errors', async () => {
+      const error = new Error('Network error');
+      mockApi.mockRejectedValueOnce(error);
+
+      await expect(sendEmailOtp(validEmail)).rejects.toThrow(handleUnknownError(error, { operation: 'sendEmailOtp' }));
+    });
+  });
+
+  describe('verifyEmailOtp', () => {
+    const validOtp = '123456';
+
+    it('should verify OTP successfully and start a session', async () => {
+      mockApi.mockResolvedValueOnce({
+        success: true,
+        data: { accessToken: 'access-token', refreshToken: 'refresh-token' },
+      });
+
+      const result = await verifyEmailOtp(validEmail, ` ${validOtp} `);
+
+      expect(result).toEqual({ accessToken: 'access-token', refreshToken: 'refresh-token' });
+      expect(mockApi).toHaveBeenCalledWith(
+        '/email/verify-otp',
+        'POST',
+        { email: normalizedEmail, otpCode: validOtp, chainID: '0001' },
+        undefined,
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should validate the code and chain ID', async () => {
+      await expect(verifyEmailOtp(validEmail, '12')).rejects.toThrow(ValidationError);
+      await expect(verifyEmailOtp(validEmail, validOtp, '')).rejects.toThrow(ValidationError);
+      expect(mockApi).not.toHaveBeenCalled();
+    });
+
+    it('should report the attempts left on a wrong code', async () => {
+      mockApi.mockResolvedValueOnce({
+        success: false,
+        error: 'Invalid OTP',
+        statusCode: 400,
+        errorDetails: new EaseSDKError({
+          code: ErrorCode.INVALID_INPUT,
+          message: 'Invalid OTP',
+          context: { responseData: { attemptsRemaining: 2 } },
+        }),
+      });
+
+      const error = await verifyEmailOtp(validEmail, validOtp).catch((e) => e);
+
+      expect(error).toBeInstanceOf(OTPError);
+      expect(error.code).toBe(ErrorCode.INVALID_OTP);
+      expect(error.context.attemptsRemaining).toBe(2);
+    });
+
+    it('should handle expired OTP error', async () => {
+      mockApi.mockResolvedValueOnce({ success: false, error: 'OTP code has expired', statusCode: 401 });
+
+      const error = await verifyEmailOtp(validEmail, validOtp).catch((e) => e);
+      expect(error.code).toBe(ErrorCode.OTP_EXPIRED);
+    });
+
+    it('should reject responses without tokens', async () => {
+      mockApi.mockResolvedValueOnce({ success: true, data: { accessToken: 'access-token' } as any });
+
+      const error = await verifyEmailOtp(validEmail, validOtp).catch((e) => e);
+      expect(error.code).toBe(ErrorCode.OTP_VERIFY_FAILED);
+    });
+  });
+});
@@ -51,6 +51,8 @@ describe('Enclave Module', () => {
         null,
         undefined,
         true,
+        false,
+        undefined,
       );
       expect(mockCrypto.parseAttestationDocument).toHaveBeenCalledWith('mockBase64EncodedDocument');
     });
@@ -1,6 +1,13 @@
-import { getGoogleOAuthURL, verifyGoogleOAuthCallback } from '../src/google';
+import {
+  getGoogleOAuthURL,
+  verifyGoogleOAuthCallback,
+  startGoogleOAuth,
+  completeGoogleOAuth,
+  parseGoogleOAuthRedirect,
+} from '../src/google';
 import { internalApi } from '../src/api';
 import { AuthenticationError, ErrorCode } from '../src/utils/errors';
+import { createHash } from 'crypto';
 import { logger, LogLevel } from '../src/utils/logger';
 
 jest.mock('../src/api', () => ({
@@ -29,7 +36,15 @@ describe('Google OAuth', () => {
       const result = await getGoogleOAuthURL('web');
 
       expect(result).toEqual(mockResponse.data);
-      expect(internalApi).toHaveBeenCalledWith('/oauth/google?platform=web', 'GET');
+      expect(internalApi).toHaveBeenCalledWith(
+        '/oauth/google?platform=web',
+        'GET',
+        undefined,
+        undefined,
+        false,
+        false,
+        undefined,
+      );
     });
 
     it('should throw an AuthenticationError on failure', async () => {
@@ -67,7 +82,15 @@ describe('Google OAuth', () => {
       const result = await verifyGoogleOAuthCallback(mockCallbackData);
 
       expect(result).toEqual(mockResponse.data);
-      expect(internalApi).toHaveBeenCalledWith('/oauth/google', 'POST', mockCallbackData, undefined, false);
+      expect(internalApi).toHaveBeenCalledWith(
+        '/oauth/google',
+        'POST',
+        mockCallbackData,
+        undefined,
+        false,
+        false,
+        undefined,
+      );
     });
 
     it('should throw an AuthenticationError on failure', async () => {
@@ -89,4 +112,128 @@ describe('Google OAuth', () => {
       );
     });
   });
+
+  describe('PKCE flow', () => {
+    const createStorage = () => {
+      const items = new Map<string, string>();
+      return {
+        getItem: jest.fn((key: string) => items.get(key) ?? null),
+        setItem: jest.fn((key: string, value: string) => void items.set(key, value)),
+        removeItem: jest.fn((key: string) => void items.delete(key)),
+      };
+    };
+    const tokens = { accessToken: 'test_access_token', refreshToken: 'test_refresh_token' };
+
+    const start = async (storage = createStorage()) => {
+      mockInternalApi.mockResolvedValueOnce({
+        success: true,
+        data: { authURL: 'https://accounts.google.com/o/oauth2/v2/auth?client_id=ease' },
+      });
+      const { authURL, state } = await startGoogleOAuth('web', { storage });
+      return { storage, authURL: new URL(authURL), state };
+    };
+
+    beforeEach(() => {
+      logger.configure({ level: LogLevel.SILENT });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should bind the auth URL to a fresh state and S256 challenge', async () => {
+      const { storage, authURL, state } = await start();
+
+      const pending = JSON.parse(storage.setItem.mock.calls[0][1]);
+      const challenge = createHash('sha256').update(pending.codeVerifier).digest('base64url');
+      expect(pending).toMatchObject({ state, platform: 'web' });
+      expect(pending.codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(authURL.searchParams.get('client_id')).toBe('ease');
+      expect(authURL.searchParams.get('state')).toBe(state);
+      expect(authURL.searchParams.get('code_challenge')).toBe(challenge);
+      expect(authURL.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(internalApi).toHaveBeenCalledWith(
+        `/oauth/google?platform=web&state=${state}&code_challenge=${challenge}&code_challenge_method=S256`,
+        'GET',
+        undefined,
+        undefined,
+        false,
+        false,
+        { storage },
+      );
+    });
+
+    it('should exchange the code with the verifier when the state matches', async () => {
+      const { storage, state } = await start();
+      const { codeVerifier } = JSON.parse(storage.setItem.mock.calls[0][1]);
+      mockInternalApi.mockResolvedValueOnce({ success: true, data: tokens });
+
+      const result = await completeGoogleOAuth(`https://app.ease.tech/oauth?code=abc&state=${state}`, '0001', {
+        storage,
+      });
+
+      expect(result).toEqual(tokens);
+      expect(internalApi).toHaveBeenLastCalledWith(
+        '/oauth/google',
+        'POST',
+        { code: 'abc', state, chainID: '0001', codeVerifier },
+        undefined,
+        false,
+        false,
+        { storage },
+      );
+      expect(storage.removeItem).toHaveBeenCalledWith('ease.oauth.google');
+    });
+
+    it('should reject a state that does not match, and only accept a redirect once', async () => {
+      const { storage, state } = await start();
+
+      const mismatch = await completeGoogleOAuth('https://app.ease.tech/oauth?code=abc&state=forged', '0001', {
+        storage,
+      }).catch((e) => e);
+      expect(mismatch).toBeInstanceOf(AuthenticationError);
+      expect(mismatch.code).toBe(ErrorCode.OAUTH_STATE_MISMATCH);
+
+      const replay = await completeGoogleOAuth(`https://app.ease.tech/oauth?code=abc&state=${state}`, '0001', {
+        storage,
+      }).catch((e) => e);
+      expect(replay.code).toBe(ErrorCode.OAUTH_STATE_MISMATCH);
+      expect(internalApi).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report denied consent', async () => {
+      const { storage, state } = await start();
+
+      const error = await completeGoogleOAuth(`myapp://oauth?error=access_denied&state=${state}`, '0001', {
+        storage,
+      }).catch((e) => e);
+
+      expect(error.code).toBe(ErrorCode.OAUTH_ACCESS_DENIED);
+    });
+
+    it('should expire flows that took too long', async () => {
+      const now = Date.now();
+      const { storage, state } = await start();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 11 * 60_000);
+
+      const error = await completeGoogleOAuth(`myapp://oauth?code=abc&state=${state}`, '0001', { storage }).catch(
+        (e) => e,
+      );
+
+      expect(error.code).toBe(ErrorCode.OAUTH_EXPIRED);
+    });
+
+    it('should parse web redirects and mobile deep links', () => {
+      expect(parseGoogleOAuthRedirect('https://app.ease.tech/oauth?code=4%2F0Ab&state=xyz&scope=email')).toEqual({
+        code: '4/0Ab',
+        state: 'xyz',
+        error: undefined,
+        errorDescription: undefined,
+      });
+      expect(parseGoogleOAuthRedirect('myapp://oauth#code=abc&state=xyz')).toMatchObject({ code: 'abc', state: 'xyz' });
+      expect(
+        parseGoogleOAuthRedirect('com.ease.app:/oauth?error=access_denied&error_description=Denied#state=xyz'),
+      ).toEqual({ code: undefined, state: 'xyz', error: 'access_denied', errorDescription: 'Denied' });
+    });
+  });
 });
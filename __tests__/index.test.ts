@@ -49,6 +49,17 @@ describe('Main Index Exports', () => {
       expect(typeof EaseSDK.verifyOtp).toBe('function');
     });
 
+    it('should have email module with expected functions', () => {
+      expect(typeof EaseSDK.sendEmailOtp).toBe('function');
+      expect(typeof EaseSDK.verifyEmailOtp).toBe('function');
+    });
+
+    it('should have oauth module with expected functions', () => {
+      expect(typeof EaseSDK.registerOAuthProvider).toBe('function');
+      expect(typeof EaseSDK.startOAuth).toBe('function');
+      expect(typeof EaseSDK.completeOAuth).toBe('function');
+    });
+
     it('should have login module with expected functions', () => {
       expect(typeof EaseSDK.login).toBe('function');
       expect(typeof EaseSDK.loginCallback).toBe('function');
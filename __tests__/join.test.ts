@@ -1,4 +1,4 @@
-import { join, joinCallback } from '../src/join';
+import { join, joinCallback, performJoin } from '../src/join';
 import { internalApi } from '../src/api';
 import { ValidationError, AuthenticationError, WebAuthnError, ErrorCode } from '../src/utils/errors';
 import { RecipientData } from '../src/utils/type';
@@ -45,6 +45,8 @@ describe('Join Module', () => {
         { displayName: validDisplayName },
         { Authorization: `Bearer ${validAccessToken}` },
         false,
+        false,
+        undefined,
       );
     });
 
@@ -135,6 +137,8 @@ describe('Join Module', () => {
         { displayName: validDisplayName },
         { Authorization: `Bearer ${validAccessToken}` },
         false,
+        false,
+        undefined,
       );
     });
   });
@@ -201,6 +205,7 @@ describe('Join Module', () => {
         },
         false,
         false,
+        undefined,
       );
     });
 
@@ -309,4 +314,95 @@ describe('Join Module', () => {
       ).rejects.toThrow(WebAuthnError);
     });
   });
+
+  describe('performJoin', () => {
+    const validAccessToken = 'valid-access-token-12345';
+    const recipientData: RecipientData = { data: 'encrypted-data', encryptedKey: 'encrypted-key' };
+    const attestation = {
+      id: 'credential-id',
+      rawId: new Uint8Array([1, 2, 3]).buffer,
+      type: 'public-key',
+      response: {
+        clientDataJSON: new Uint8Array([4, 5]).buffer,
+        attestationObject: new Uint8Array([6]).buffer,
+        getTransports: () => ['internal'],
+      },
+      getClientExtensionResults: () => ({}),
+    };
+
+    const mockOptions = () =>
+      mockApi.mockResolvedValueOnce({
+        success: true,
+        data: {
+          publicKey: {
+            challenge: 'AQID',
+            rp: { name: 'Ease' },
+            user: { id: 'BAU', name: 'user', displayName: 'User' },
+            pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+          },
+        },
+        headers: new Headers({ 'X-Session-Id': 'session-123' }),
+      });
+
+    it('should create a passkey and send the serialized attestation', async () => {
+      mockOptions();
+      mockApi.mockResolvedValueOnce({
+        success: true,
+        data: {
+          accessToken: 'new-access-token',
+          refreshToken: 'new-refresh-token',
+          recipientData,
+          mnemonic: 'test-mnemonic',
+        },
+      });
+      const credentials = { create: jest.fn().mockResolvedValue(attestation), get: jest.fn() };
+
+      const result = await performJoin(
+        validAccessToken,
+        'Test User',
+        'test-account',
+        'recipient-public-key',
+        recipientData,
+        undefined,
+        undefined,
+        { credentials },
+      );
+
+      expect(result.accessToken).toBe('new-access-token');
+      const [{ publicKey }] = credentials.create.mock.calls[0];
+      expect(new Uint8Array(publicKey.user.id)).toEqual(new Uint8Array([4, 5]));
+      expect(mockApi.mock.calls[1][2]).toMatchObject({
+        response: {
+          id: 'credential-id',
+          rawId: 'AQID',
+          response: { clientDataJSON: 'BAU', attestationObject: 'Bg', transports: ['internal'] },
+        },
+        accountName: 'test-account',
+      });
+    });
+
+    it('should map authenticator failures to WEBAUTHN_NOT_SUPPORTED', async () => {
+      logger.configure({ level: LogLevel.SILENT });
+      mockOptions();
+      const credentials = {
+        create: jest.fn().mockRejectedValue(new DOMException('Not supported', 'NotSupportedError')),
+        get: jest.fn(),
+      };
+
+      const error = await performJoin(
+        validAccessToken,
+        'Test User',
+        'test-account',
+        'recipient-public-key',
+        recipientData,
+        undefined,
+        undefined,
+        { credentials },
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebAuthnError);
+      expect(error.code).toBe(ErrorCode.WEBAUTHN_NOT_SUPPORTED);
+      expect(mockApi).toHaveBeenCalledTimes(1);
+    });
+  });
 });
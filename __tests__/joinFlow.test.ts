@@ -0,0 +1,208 @@
+import { JoinFlow, JoinFlowEvents } from '../src/join/flow';
+import { createEaseClient, EaseClient } from '../src/client';
+import { ErrorCode, NetworkError, ValidationError, WebAuthnError } from '../src/utils/errors';
+import { LogLevel } from '../src/utils/logger';
+
+const publicKey = {
+  challenge: 'AQID',
+  rp: { name: 'Ease' },
+  user: { id: 'BAU', name: 'ada', displayName: 'Ada' },
+  pubKeyCredParams: [{ type: 'public-key' as const, alg: -7 }],
+};
+const attestation = {
+  id: 'credential-id',
+  rawId: new Uint8Array([1, 2, 3]).buffer,
+  type: 'public-key',
+  response: { clientDataJSON: new Uint8Array([4]).buffer, attestationObject: new Uint8Array([5]).buffer },
+  getClientExtensionResults: () => ({}),
+};
+const input = { displayName: 'Ada', accountName: 'ada', password: 'secret' };
+
+const stubSteps = (client: EaseClient) => ({
+  sendOtp: jest.spyOn(client.phone, 'sendOtp').mockResolvedValue({ success: true }),
+  verifyOtp: jest
+    .spyOn(client.phone, 'verifyOtp')
+    .mockResolvedValue({ accessToken: 'otp-access-token', refreshToken: 'otp-refresh-token' }),
+  join: jest.spyOn(client.join, 'join').mockResolvedValue({ publicKey, sessionId: 'session-123' }),
+  generateRsaKeyPair: jest
+    .spyOn(client.crypto, 'generateRsaKeyPair')
+    .mockResolvedValue({ publicKey: 'user-public-key', privateKey: 'user-private-key' }),
+  getAttestation: jest
+    .spyOn(client.enclave, 'getAttestation')
+    .mockResolvedValue({ public_key: 'enclave-public-key' } as any),
+  encryptRecipientData: jest
+    .spyOn(client.crypto, 'encryptRecipientData')
+    .mockResolvedValue({ data: 'encrypted', encryptedKey: 'key' }),
+  joinCallback: jest.spyOn(client.join, 'joinCallback').mockResolvedValue({
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+    recipientData: { data: 'encrypted-mnemonic', encryptedKey: 'key' },
+    mnemonic: '',
+  }),
+  decryptRecipientData: jest.spyOn(client.crypto, 'decryptRecipientData').mockResolvedValue({ mnemonic: 'abandon' }),
+});
+
+describe('JoinFlow', () => {
+  let client: EaseClient;
+  let steps: ReturnType<typeof stubSteps>;
+  let credentials: { create: jest.Mock; get: jest.Mock };
+
+  beforeEach(() => {
+    client = createEaseClient({ logLevel: LogLevel.SILENT });
+    steps = stubSteps(client);
+    credentials = { create: jest.fn().mockResolvedValue(attestation), get: jest.fn() };
+  });
+
+  const verifiedFlow = async (options = {}) => {
+    const flow = new JoinFlow(client, undefined, { credentials, retryDelayMs: 0, ...options });
+    await flow.sendOtp('+1', '5551234567');
+    await flow.verifyOtp('123456');
+    return flow;
+  };
+
+  it('should run every step with the data of the previous ones', async () => {
+    const flow = await verifiedFlow();
+
+    const result = await flow.register(input);
+
+    expect(result).toEqual({ accessToken: 'access-token', refreshToken: 'refresh-token', mnemonic: 'abandon' });
+    expect(flow.state).toBe('completed');
+    expect(steps.verifyOtp).toHaveBeenCalledWith('+1', '5551234567', '123456', '0001');
+    expect(steps.join).toHaveBeenCalledWith('otp-access-token', 'Ada');
+    expect(steps.encryptRecipientData).toHaveBeenCalledWith('enclave-public-key', {
+      mnemonic: undefined,
+      password: 'secret',
+    });
+    expect(steps.joinCallback).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'credential-id', rawId: 'AQID' }),
+      'otp-access-token',
+      'session-123',
+      'ada',
+      'user-public-key',
+      { data: 'encrypted', encryptedKey: 'key' },
+    );
+    expect(steps.decryptRecipientData).toHaveBeenCalledWith('user-private-key', {
+      data: 'encrypted-mnemonic',
+      encryptedKey: 'key',
+    });
+  });
+
+  it('should keep the secrets out of the snapshots once they are encrypted', async () => {
+    const flow = await verifiedFlow();
+    const snapshots: string[] = [];
+    let completed: unknown;
+    flow.on('stateChanged', ({ snapshot }) => snapshots.push(JSON.stringify(snapshot)));
+    flow.on('completed', ({ result }) => (completed = result));
+
+    const result = await flow.register({ ...input, mnemonic: 'abandon ability' });
+
+    expect(result.mnemonic).toBe('abandon');
+    expect(snapshots.findIndex((snapshot) => !snapshot.includes('secret'))).toBe(3); // from recipientDataEncrypted
+    expect(snapshots.slice(3).join()).not.toMatch(/secret|abandon/);
+    expect(snapshots[snapshots.length - 1]).not.toContain('user-private-key');
+    expect(flow.snapshot()).toEqual({
+      version: 1,
+      state: 'completed',
+      countryCode: '+1',
+      phone: '5551234567',
+      chainID: '0001',
+      accessToken: 'otp-access-token',
+      input: { displayName: 'Ada', accountName: 'ada' },
+      sessionId: 'session-123',
+      publicKey: expect.any(Object),
+      credential: expect.any(Object),
+      result: { accessToken: 'access-token', refreshToken: 'refresh-token' },
+    });
+    expect(completed).toEqual({ accessToken: 'access-token', refreshToken: 'refresh-token' });
+  });
+
+  it('should emit state changes and progress', async () => {
+    const flow = new JoinFlow(client, undefined, { credentials });
+    const states: string[] = [];
+    const progress: JoinFlowEvents['progress'][] = [];
+    flow.on('stateChanged', ({ to }) => states.push(to));
+    flow.on('progress', (event) => progress.push(event));
+
+    await flow.sendOtp('+1', '5551234567');
+    await flow.verifyOtp('123456');
+    await flow.register(input);
+
+    expect(states).toEqual([
+      'otpSent',
+      'otpVerified',
+      'passkeyOptionsReceived',
+      'passkeyCreated',
+      'keysGenerated',
+      'recipientDataEncrypted',
+      'registered',
+      'completed',
+    ]);
+    expect(progress[0]).toEqual({ step: 'sendOtp', status: 'started', completedSteps: 0, totalSteps: 8 });
+    expect(progress[progress.length - 1]).toEqual({
+      step: 'decryptMnemonic',
+      status: 'succeeded',
+      completedSteps: 8,
+      totalSteps: 8,
+    });
+  });
+
+  it('should reject transitions the current state does not allow', async () => {
+    const flow = new JoinFlow(client);
+
+    await expect(flow.verifyOtp('123456')).rejects.toThrow(ValidationError);
+    await expect(flow.register(input)).rejects.toThrow('Cannot register in state "idle"');
+    expect(steps.verifyOtp).not.toHaveBeenCalled();
+  });
+
+  it('should retry network failures of a step', async () => {
+    steps.generateRsaKeyPair
+      .mockRejectedValueOnce(new NetworkError('offline'))
+      .mockResolvedValueOnce({ publicKey: 'user-public-key', privateKey: 'user-private-key' });
+    const flow = await verifiedFlow();
+
+    await flow.register(input);
+
+    expect(steps.generateRsaKeyPair).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop at a failed step and continue from it on retry()', async () => {
+    credentials.create.mockRejectedValueOnce(new DOMException('Cancelled', 'NotAllowedError'));
+    const flow = await verifiedFlow();
+
+    const error = await flow.register(input).catch((e) => e);
+
+    expect(error).toBeInstanceOf(WebAuthnError);
+    expect(error.code).toBe(ErrorCode.USER_CANCELLED);
+    expect(flow.state).toBe('passkeyOptionsReceived');
+    expect(flow.snapshot().error).toEqual({
+      step: 'createPasskey',
+      code: ErrorCode.USER_CANCELLED,
+      message: error.message,
+    });
+    expect(credentials.create).toHaveBeenCalledTimes(1);
+
+    await expect(flow.retry()).resolves.toMatchObject({ mnemonic: 'abandon' });
+    expect(steps.join).toHaveBeenCalledTimes(1);
+    expect(flow.snapshot().error).toBeUndefined();
+  });
+
+  it('should resume from a serialized snapshot', async () => {
+    steps.joinCallback.mockRejectedValueOnce(new ValidationError('Session expired'));
+    const flow = await verifiedFlow();
+    await flow.register(input).catch(() => undefined);
+    const saved = JSON.stringify(flow.snapshot());
+
+    const resumed = new JoinFlow(client, JSON.parse(saved), { credentials });
+    const result = await resumed.resume();
+
+    expect(resumed.state).toBe('completed');
+    expect(result.mnemonic).toBe('abandon');
+    expect(steps.generateRsaKeyPair).toHaveBeenCalledTimes(1);
+    expect(resumed.snapshot().keyPair).toBeUndefined();
+  });
+
+  it('should refuse snapshots it cannot resume', () => {
+    expect(() => new JoinFlow(client, { version: 2, state: 'idle' } as any)).toThrow(ValidationError);
+    expect(() => new JoinFlow(client, { version: 1, state: 'unknown' } as any)).toThrow(ValidationError);
+  });
+});
@@ -1,4 +1,4 @@
-import { login, loginCallback } from '../src/login';
+import { login, loginCallback, performConditionalLogin, performLogin } from '../src/login';
 import { internalApi } from '../src/api';
 import { AuthenticationError, WebAuthnError, ValidationError, ErrorCode } from '../src/utils/errors';
 import { logger, LogLevel } from '../src/utils/logger';
@@ -34,7 +34,7 @@ describe('Login Module', () => {
 
       expect(result.sessionId).toBe('session-123');
       expect(result.publicKey).toEqual(mockResponse.data.publicKey);
-      expect(mockApi).toHaveBeenCalledWith('/login/options', 'POST', null, undefined, false);
+      expect(mockApi).toHaveBeenCalledWith('/login/options', 'POST', null, undefined, false, false, undefined);
     });
 
     it('should handle API error responses', async () => {
@@ -135,6 +135,8 @@ describe('Login Module', () => {
           'X-Session-Id': validSessionId,
         },
         false,
+        false,
+        undefined,
       );
     });
 
@@ -224,4 +226,166 @@ describe('Login Module', () => {
       await expect(loginCallback(mockCredential, validSessionId)).rejects.toThrow();
     });
   });
+
+  describe('performLogin', () => {
+    const assertion = {
+      id: 'credential-id',
+      rawId: new Uint8Array([1, 2, 3]).buffer,
+      type: 'public-key',
+      response: {
+        clientDataJSON: new Uint8Array([4, 5]).buffer,
+        authenticatorData: new Uint8Array([6]).buffer,
+        signature: new Uint8Array([7]).buffer,
+        userHandle: new Uint8Array([8]).buffer,
+      },
+      getClientExtensionResults: () => ({}),
+    };
+
+    const mockOptions = () =>
+      mockApi.mockResolvedValueOnce({
+        success: true,
+        data: { publicKey: { challenge: 'AQID', userVerification: 'preferred' } },
+        headers: new Headers({ 'X-Session-Id': 'session-123' }),
+      });
+
+    it('should run the ceremony and send the serialized assertion', async () => {
+      mockOptions();
+      mockApi.mockResolvedValueOnce({
+        success: true,
+        data: { accessToken: 'access-token', refreshToken: 'refresh-token' },
+      });
+      const credentials = { create: jest.fn(), get: jest.fn().mockResolvedValue(assertion) };
+
+      const result = await performLogin({ credentials });
+
+      expect(result).toEqual({ accessToken: 'access-token', refreshToken: 'refresh-token' });
+      expect(mockApi).toHaveBeenLastCalledWith(
+        '/login/callback',
+        'POST',
+        {
+          response: {
+            id: 'credential-id',
+            rawId: 'AQID',
+            type: 'public-key',
+            response: { clientDataJSON: 'BAU', authenticatorData: 'Bg', signature: 'Bw', userHandle: 'CA' },
+            clientExtensionResults: {},
+          },
+        },
+        { 'X-Session-Id': 'session-123' },
+        false,
+        false,
+        { credentials },
+      );
+    });
+
+    it('should fail with USER_CANCELLED without calling back when the user dismisses the prompt', async () => {
+      logger.configure({ level: LogLevel.SILENT });
+      mockOptions();
+      const credentials = {
+        create: jest.fn(),
+        get: jest.fn().mockRejectedValue(new DOMException('Not allowed', 'NotAllowedError')),
+      };
+
+      const error = await performLogin({ credentials }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebAuthnError);
+      expect(error.code).toBe(ErrorCode.USER_CANCELLED);
+      expect(mockApi).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('performConditionalLogin', () => {
+    const supported = { isConditionalMediationAvailable: async () => true };
+    const assertion = {
+      id: 'credential-id',
+      rawId: new Uint8Array([1]).buffer,
+      type: 'public-key',
+      response: {
+        clientDataJSON: new Uint8Array([2]).buffer,
+        authenticatorData: new Uint8Array([3]).buffer,
+        signature: new Uint8Array([4]).buffer,
+        userHandle: null,
+      },
+      getClientExtensionResults: () => ({}),
+    };
+
+    const mockOptions = () =>
+      mockApi.mockResolvedValueOnce({
+        success: true,
+        data: { publicKey: { challenge: 'AQID' } },
+        headers: new Headers({ 'X-Session-Id': 'session-123' }),
+      });
+
+    // Resolves with the assertion when the user picks a passkey, rejects like a browser when the signal aborts
+    const autofill = () => ({
+      create: jest.fn(),
+      get: jest.fn(
+        ({ signal }: CredentialRequestOptions) =>
+          new Promise((_resolve, reject) =>
+            signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError'))),
+          ),
+      ),
+    });
+
+    it('should request the credential with conditional mediation and complete the login', async () => {
+      mockOptions();
+      mockApi.mockResolvedValueOnce({
+        success: true,
+        data: { accessToken: 'access-token', refreshToken: 'refresh-token' },
+      });
+      const credentials = { create: jest.fn(), get: jest.fn().mockResolvedValue(assertion) };
+
+      const result = await performConditionalLogin({ credentials, PublicKeyCredential: supported });
+
+      expect(result).toEqual({ accessToken: 'access-token', refreshToken: 'refresh-token' });
+      expect(credentials.get).toHaveBeenCalledWith(expect.objectContaining({ mediation: 'conditional' }));
+    });
+
+    it('should resolve with undefined when the page aborts the request', async () => {
+      mockOptions();
+      const credentials = autofill();
+      const controller = new AbortController();
+
+      const pending = performConditionalLogin({
+        credentials,
+        signal: controller.signal,
+        PublicKeyCredential: supported,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      controller.abort();
+
+      await expect(pending).resolves.toBeUndefined();
+      expect(credentials.get).toHaveBeenCalledTimes(1);
+      expect(mockApi).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not prompt when aborted before the options arrive', async () => {
+      mockOptions();
+      const credentials = autofill();
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await performConditionalLogin({
+        credentials,
+        signal: controller.signal,
+        PublicKeyCredential: supported,
+      });
+
+      expect(result).toBeUndefined();
+      expect(credentials.get).not.toHaveBeenCalled();
+    });
+
+    it('should fail with WEBAUTHN_NOT_SUPPORTED when the browser cannot autofill passkeys', async () => {
+      const credentials = autofill();
+
+      const error = await performConditionalLogin({
+        credentials,
+        PublicKeyCredential: { isConditionalMediationAvailable: async () => false },
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebAuthnError);
+      expect(error.code).toBe(ErrorCode.WEBAUTHN_NOT_SUPPORTED);
+      expect(mockApi).not.toHaveBeenCalled();
+    });
+  });
 });
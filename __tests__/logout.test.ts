@@ -1,5 +1,6 @@
 import { logout } from '../src/logout';
 import { internalApi } from '../src/api';
+import { createEaseClient } from '../src/client';
 import { ValidationError, AuthenticationError, ErrorCode } from '../src/utils/errors';
 import { logger, LogLevel } from '../src/utils/logger';
 
@@ -32,9 +33,23 @@ describe('Logout Module', () => {
         {},
         { Authorization: `Bearer ${validAccessToken}` },
         false,
+        false,
+        undefined,
       );
     });
 
+    it('should clear the session only when it holds the logged out token', async () => {
+      const client = createEaseClient({ logLevel: LogLevel.SILENT });
+      await client.session.set({ accessToken: validAccessToken, refreshToken: 'refresh-token' });
+      mockApi.mockResolvedValue({ success: true, data: { success: true } });
+
+      await client.logout.logout('another-account-token');
+      expect(client.session.accessToken).toBe(validAccessToken);
+
+      await client.logout.logout(validAccessToken);
+      expect(client.session.isAuthenticated).toBe(false);
+    });
+
     it('should validate access token', async () => {
       logger.configure({ level: LogLevel.SILENT });
       await expect(logout('')).rejects.toThrow(ValidationError);
@@ -89,6 +104,8 @@ describe('Logout Module', () => {
         {},
         { Authorization: `Bearer ${validAccessToken}` },
         false,
+        false,
+        undefined,
       );
     });
 
@@ -0,0 +1,202 @@
+import {
+  registerOAuthProvider,
+  getOAuthProvider,
+  getOAuthProviders,
+  getOAuthURL,
+  startOAuth,
+  completeOAuth,
+  verifyOAuthCallback,
+  OAuthProvider,
+} from '../src/oauth';
+import { internalApi } from '../src/api';
+import { getDefaultClient } from '../src/client';
+import { AuthenticationError, ErrorCode, ValidationError } from '../src/utils/errors';
+import { logger, LogLevel } from '../src/utils/logger';
+
+jest.mock('../src/api', () => ({
+  internalApi: jest.fn(),
+}));
+
+const mockInternalApi = internalApi as jest.Mock;
+
+const apple: OAuthProvider = {
+  id: 'apple',
+  name: 'Apple',
+  authURLEndpoint: '/oauth/apple/url',
+  callbackEndpoint: '/oauth/apple/callback',
+  scopes: ['name', 'email'],
+  platforms: { web: { pkce: false, params: { response_mode: 'form_post' } } },
+};
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: jest.fn((key: string) => items.get(key) ?? null),
+    setItem: jest.fn((key: string, value: string) => void items.set(key, value)),
+    removeItem: jest.fn((key: string) => void items.delete(key)),
+  };
+};
+
+describe('OAuth providers', () => {
+  let unregister: () => void;
+
+  beforeEach(() => {
+    logger.configure({ level: LogLevel.SILENT });
+    unregister = registerOAuthProvider(apple);
+  });
+
+  afterEach(() => {
+    unregister();
+    jest.clearAllMocks();
+    logger.configure({ level: LogLevel.DEBUG });
+  });
+
+  describe('registry', () => {
+    it('should register Google first and custom providers at runtime', () => {
+      expect(getOAuthProviders().map(({ id }) => id)).toEqual(['google', 'apple']);
+      expect(getOAuthProvider('apple')).toBe(apple);
+
+      unregister();
+
+      expect(getOAuthProviders().map(({ id }) => id)).toEqual(['google']);
+    });
+
+    it('should keep a replacement when the replaced provider is unregistered', () => {
+      const replacement = { ...apple, name: 'Sign in with Apple' };
+      const unregisterReplacement = registerOAuthProvider(replacement);
+
+      unregister();
+
+      expect(getOAuthProvider('apple')).toBe(replacement);
+      unregisterReplacement();
+    });
+
+    it('should reject unknown and malformed providers', async () => {
+      expect(() => getOAuthProvider('github')).toThrow(ValidationError);
+      await expect(getOAuthURL('github', 'web')).rejects.toThrow('Unknown OAuth provider: github');
+      expect(() => registerOAuthProvider({ ...apple, authURLEndpoint: 'oauth/apple' })).toThrow(ValidationError);
+      expect(mockInternalApi).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('flow', () => {
+    it("should use the provider's endpoints and name", async () => {
+      mockInternalApi.mockResolvedValueOnce({ success: false, error: undefined, statusCode: 500 });
+
+      await expect(getOAuthURL('apple', 'mobile')).rejects.toThrow(
+        new AuthenticationError('Failed to get Apple OAuth URL', ErrorCode.AUTHENTICATION_FAILED),
+      );
+      expect(internalApi).toHaveBeenCalledWith(
+        '/oauth/apple/url?platform=mobile',
+        'GET',
+        undefined,
+        undefined,
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should not store a callback response that is missing a token', async () => {
+      mockInternalApi.mockResolvedValueOnce({ success: true, data: { accessToken: 'access-token' } });
+
+      await expect(verifyOAuthCallback('apple', { code: 'code', state: 'state', chainID: '0001' })).rejects.toThrow(
+        new AuthenticationError('Invalid response: missing tokens', ErrorCode.AUTHENTICATION_FAILED),
+      );
+      expect(getDefaultClient().session.isAuthenticated).toBe(false);
+    });
+
+    it('should apply the platform differences to the auth URL', async () => {
+      const storage = createStorage();
+      mockInternalApi.mockResolvedValueOnce({
+        success: true,
+        data: { authURL: 'https://appleid.apple.com/auth/authorize?client_id=ease' },
+      });
+
+      const { authURL, state } = await startOAuth('apple', 'web', { storage });
+      const url = new URL(authURL);
+
+      expect(internalApi).toHaveBeenCalledWith(
+        `/oauth/apple/url?platform=web&state=${state}`,
+        'GET',
+        undefined,
+        undefined,
+        false,
+        false,
+        { storage },
+      );
+      expect(url.searchParams.get('scope')).toBe('name email');
+      expect(url.searchParams.get('response_mode')).toBe('form_post');
+      expect(url.searchParams.get('state')).toBe(state);
+      expect(url.searchParams.has('code_challenge')).toBe(false);
+      expect(storage.setItem).toHaveBeenCalledWith('ease.oauth.apple', expect.any(String));
+    });
+
+    it('should keep the state the API put in the auth URL, and check the redirect against it', async () => {
+      const storage = createStorage();
+      const tokens = { accessToken: 'test_access_token', refreshToken: 'test_refresh_token' };
+      mockInternalApi
+        .mockResolvedValueOnce({
+          success: true,
+          data: { authURL: 'https://appleid.apple.com/auth/authorize?state=signed-by-the-api' },
+        })
+        .mockResolvedValueOnce({ success: true, data: tokens });
+
+      const { authURL, state } = await startOAuth('apple', 'web', { storage });
+
+      expect(state).toBe('signed-by-the-api');
+      expect(new URL(authURL).searchParams.getAll('state')).toEqual(['signed-by-the-api']);
+      await expect(completeOAuth('apple', { code: 'abc', state }, '0001', { storage })).resolves.toEqual(tokens);
+    });
+
+    it('should keep the scope the API put in the auth URL', async () => {
+      mockInternalApi.mockResolvedValueOnce({
+        success: true,
+        data: { authURL: 'https://appleid.apple.com/auth/authorize?scope=email' },
+      });
+
+      const { authURL } = await startOAuth('apple', 'mobile', { storage: createStorage() });
+
+      expect(new URL(authURL).searchParams.get('scope')).toBe('email');
+      expect(new URL(authURL).searchParams.get('code_challenge_method')).toBe('S256');
+    });
+
+    it('should complete a flow without PKCE at the callback endpoint', async () => {
+      const storage = createStorage();
+      const tokens = { accessToken: 'test_access_token', refreshToken: 'test_refresh_token' };
+      mockInternalApi
+        .mockResolvedValueOnce({ success: true, data: { authURL: 'https://appleid.apple.com/auth/authorize' } })
+        .mockResolvedValueOnce({ success: true, data: tokens });
+      const { state } = await startOAuth('apple', 'web', { storage });
+
+      const result = await completeOAuth('apple', { code: 'abc', state }, '0001', { storage });
+
+      expect(result).toEqual(tokens);
+      expect(internalApi).toHaveBeenLastCalledWith(
+        '/oauth/apple/callback',
+        'POST',
+        { code: 'abc', state, chainID: '0001', codeVerifier: undefined },
+        undefined,
+        false,
+        false,
+        { storage },
+      );
+    });
+
+    it('should not complete a flow started with another provider', async () => {
+      const storage = createStorage();
+      mockInternalApi.mockResolvedValueOnce({
+        success: true,
+        data: { authURL: 'https://appleid.apple.com/auth/authorize' },
+      });
+      const { state } = await startOAuth('apple', 'web', { storage, key: 'ease.oauth' });
+
+      const error = await completeOAuth('google', { code: 'abc', state }, '0001', { storage, key: 'ease.oauth' }).catch(
+        (e) => e,
+      );
+
+      expect(error.code).toBe(ErrorCode.OAUTH_STATE_MISMATCH);
+      expect(internalApi).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { TransportRequest, TransportResponse } from '../src/api/transport';
+import { createEaseClient } from '../src/client';
+import { EmailOtpSession } from '../src/email';
+import { OtpSession } from '../src/phone';
+import { ErrorCode, OTPError } from '../src/utils/errors';
+import { LogLevel } from '../src/utils/logger';
+import { parseRetryAfter } from '../src/utils/retry';
+
+const jsonResponse = (status: number, data: unknown, headers: Record<string, string> = {}): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: new Headers(headers),
+  json: async () => data,
+});
+
+const now = new Date('2026-03-01T12:00:00Z').getTime();
+
+describe('OTP sessions', () => {
+  const setup = (respond: (request: TransportRequest) => TransportResponse) => {
+    const send = jest.fn(async (request: TransportRequest) => respond(request));
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send } });
+    return { client, send };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should track the cooldown, attempts and expiry reported by the API', async () => {
+    const { client } = setup(() =>
+      jsonResponse(200, { success: true, expiresIn: 600, resendAfter: 60, attemptsRemaining: 5 }),
+    );
+
+    const otp = await client.phone.sendOtp('US', '(555) 123-4567');
+
+    expect(otp).toBeInstanceOf(OtpSession);
+    expect(otp.toJSON()).toEqual({
+      countryCode: '+1',
+      phone: '5551234567',
+      e164: '+15551234567',
+      sentAt: new Date(now),
+      expiresAt: new Date(now + 600_000),
+      resendAvailableAt: new Date(now + 60_000),
+      attemptsRemaining: 5,
+    });
+    expect(otp.canResend).toBe(false);
+
+    jest.advanceTimersByTime(45_000);
+    expect(otp.resendCooldownMs).toBe(15_000);
+    expect(otp.expiresInMs).toBe(555_000);
+  });
+
+  it('should refuse to resend during the cooldown without calling the API', async () => {
+    const { client, send } = setup(() => jsonResponse(200, { success: true }));
+    const otp = await client.phone.sendOtp('+1', '5551234567');
+
+    jest.advanceTimersByTime(10_000);
+    const error = await client.phone.sendOtp('+1', '+1 555 123 4567').catch((e) => e);
+
+    expect(error).toBeInstanceOf(OTPError);
+    expect(error.code).toBe(ErrorCode.RATE_LIMIT_ERROR);
+    expect(error.context.retryAfterMs).toBe(20_000);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(20_000);
+    const resent = await otp.resend();
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(otp.sentAt).toEqual(resent.sentAt);
+    expect(otp.resendCooldownMs).toBe(30_000);
+  });
+
+  it('should map 429 responses to RATE_LIMIT_ERROR honouring Retry-After', async () => {
+    const { client } = setup(() => jsonResponse(429, { error: 'Too many requests' }, { 'Retry-After': '120' }));
+
+    const error = await client.phone.sendOtp('+1', '5551234567').catch((e) => e);
+
+    expect(error).toBeInstanceOf(OTPError);
+    expect(error.code).toBe(ErrorCode.RATE_LIMIT_ERROR);
+    expect(error.context.retryAfterMs).toBe(120_000);
+  });
+
+  it('should count down the attempts left on wrong codes', async () => {
+    let verify = () => jsonResponse(400, { error: 'Invalid OTP' });
+    const { client } = setup((request) =>
+      request.url.endsWith('/verify-otp') ? verify() : jsonResponse(200, { success: true, attemptsRemaining: 3 }),
+    );
+    const otp = await client.phone.sendOtp('+1', '5551234567');
+
+    const first = await otp.verify('111111').catch((e) => e);
+    expect(first.code).toBe(ErrorCode.INVALID_OTP);
+    expect(first.context.attemptsRemaining).toBe(2);
+
+    verify = () => jsonResponse(400, { error: 'Invalid OTP', attemptsRemaining: 0 });
+    const second = await otp.verify('222222').catch((e) => e);
+    expect(second.context.attemptsRemaining).toBe(0);
+    expect(otp.attemptsRemaining).toBe(0);
+
+    verify = () => jsonResponse(200, { accessToken: 'access-token', refreshToken: 'refresh-token' });
+    await expect(otp.verify('333333')).resolves.toEqual({ accessToken: 'access-token', refreshToken: 'refresh-token' });
+  });
+
+  it('should track codes sent by email the same way', async () => {
+    let verify = () => jsonResponse(400, { error: 'Invalid OTP' });
+    const { client, send } = setup((request) =>
+      request.url.endsWith('/verify-otp')
+        ? verify()
+        : jsonResponse(200, { success: true, expiresIn: 600, resendAfter: 60, attemptsRemaining: 3 }),
+    );
+
+    const otp = await client.email.sendEmailOtp('Ada@Example.com');
+
+    expect(otp).toBeInstanceOf(EmailOtpSession);
+    expect(otp.toJSON()).toEqual({
+      email: 'Ada@example.com',
+      sentAt: new Date(now),
+      expiresAt: new Date(now + 600_000),
+      resendAvailableAt: new Date(now + 60_000),
+      attemptsRemaining: 3,
+    });
+
+    jest.advanceTimersByTime(15_000);
+    const early = await otp.resend().catch((e) => e);
+    expect(early.code).toBe(ErrorCode.RATE_LIMIT_ERROR);
+    expect(early.context.retryAfterMs).toBe(45_000);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    const wrong = await otp.verify('111111').catch((e) => e);
+    expect(wrong.code).toBe(ErrorCode.INVALID_OTP);
+    expect(wrong.context.attemptsRemaining).toBe(2);
+    expect(otp.attemptsRemaining).toBe(2);
+
+    verify = () => jsonResponse(200, { accessToken: 'access-token', refreshToken: 'refresh-token' });
+    await otp.verify('222222');
+    await expect(client.email.sendEmailOtp('ada@example.com')).resolves.toBeInstanceOf(EmailOtpSession); // verified
+  });
+
+  it('should tick until the cooldown and expiry have run out', async () => {
+    const { client } = setup(() => jsonResponse(200, { success: true, expiresIn: 3, resendAfter: 2 }));
+    const otp = await client.phone.sendOtp('+1', '5551234567');
+    const ticks: number[] = [];
+
+    otp.onTick(({ resendCooldownMs, expiresInMs }) => ticks.push(resendCooldownMs + expiresInMs));
+    jest.advanceTimersByTime(10_000);
+
+    expect(ticks).toEqual([5_000, 3_000, 1_000, 0]);
+  });
+
+  it('should parse Retry-After in seconds and as a date', () => {
+    expect(parseRetryAfter('30')).toBe(30_000);
+    expect(parseRetryAfter(1.5)).toBe(1_500);
+    expect(parseRetryAfter(new Date(now + 90_000).toUTCString(), now)).toBe(90_000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
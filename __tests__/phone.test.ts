@@ -1,4 +1,4 @@
-import { sendOtp, verifyOtp, getCountries } from '../src/phone';
+import { sendOtp, verifyOtp, getCountries, OtpSession } from '../src/phone';
 import { internalApi } from '../src/api';
 import { ValidationError, OTPError, handleUnknownError, AuthenticationError, ErrorCode } from '../src/utils/errors';
 import { logger, LogLevel } from '../src/utils/logger';
@@ -10,9 +10,18 @@ jest.mock('../src/api', () => ({
 const mockApi = internalApi as jest.MockedFunction<typeof internalApi>;
 
 describe('Phone Service', () => {
+  // Every test starts an hour later, past the resend cooldown and expiry of codes sent by the previous ones
+  let now = Date.now();
+
   beforeEach(() => {
     mockApi.mockClear();
     logger.configure({ level: LogLevel.DEBUG });
+    now += 60 * 60_000;
+    jest.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
   });
 
   describe('sendOtp', () => {
@@ -24,13 +33,16 @@ describe('Phone Service', () => {
 
       const result = await sendOtp(validCountryCode, validPhone);
 
-      expect(result).toEqual({ success: true });
+      expect(result).toBeInstanceOf(OtpSession);
+      expect(result.success).toBe(true);
       expect(mockApi).toHaveBeenCalledWith(
         '/phone/send-otp',
         'POST',
         { phone: validPhone, countryCode: validCountryCode },
         undefined,
         false,
+        false,
+        undefined,
       );
     });
 
@@ -55,6 +67,30 @@ describe('Phone Service', () => {
       );
     });
 
+    it('should send the normalized number', async () => {
+      mockApi.mockResolvedValueOnce({ success: true, data: { success: true } });
+
+      await sendOtp('US', '+1 (555) 123-4567');
+
+      expect(mockApi).toHaveBeenCalledWith(
+        '/phone/send-otp',
+        'POST',
+        { phone: '5551234567', countryCode: '+1' },
+        undefined,
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should reject invalid phone numbers without calling the API', async () => {
+      const error = await sendOtp(validCountryCode, '555-123').catch((e) => e);
+
+      expect(error).toBeInstanceOf(OTPError);
+      expect(error.code).toBe(ErrorCode.INVALID_PHONE_NUMBER);
+      expect(mockApi).not.toHaveBeenCalled();
+    });
+
     it('should validate phone and country code', async () => {
       logger.configure({ level: LogLevel.SILENT });
       await expect(sendOtp('', validCountryCode)).rejects.toThrow(ValidationError);
@@ -92,6 +128,8 @@ describe('Phone Service', () => {
         },
         undefined,
         false,
+        false,
+        undefined,
       );
     });
 
@@ -132,6 +170,8 @@ describe('Phone Service', () => {
         },
         undefined,
         false,
+        false,
+        undefined,
       );
     });
 
@@ -158,6 +198,8 @@ describe('Phone Service', () => {
         },
         undefined,
         false,
+        false,
+        undefined,
       );
     });
   });
@@ -170,7 +212,7 @@ describe('Phone Service', () => {
       const result = await getCountries();
 
       expect(result).toEqual(mockCountries);
-      expect(mockApi).toHaveBeenCalledWith('/phone/countries', 'GET', null, undefined, false);
+      expect(mockApi).toHaveBeenCalledWith('/phone/countries', 'GET', null, undefined, false, false, undefined);
     });
 
     it('should handle API errors', async () => {
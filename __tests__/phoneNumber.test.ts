@@ -0,0 +1,91 @@
+import { parsePhoneNumber, toE164, isValidPhoneNumber, formatPhoneNumber } from '../src/phone/number';
+import { ErrorCode, OTPError } from '../src/utils/errors';
+
+describe('Phone numbers', () => {
+  describe('parsePhoneNumber', () => {
+    it('should parse international numbers', () => {
+      expect(parsePhoneNumber('+1 (555) 123-4567')).toEqual({
+        country: 'US',
+        dialCode: '+1',
+        nationalNumber: '5551234567',
+        e164: '+15551234567',
+      });
+      expect(parsePhoneNumber('+44 (0)20 7946 0958').e164).toBe('+442079460958');
+    });
+
+    it('should parse national numbers with a country', () => {
+      expect(toE164('5551234567', '+1')).toBe('+15551234567');
+      expect(toE164('1 555 123 4567', 'US')).toBe('+15551234567');
+      expect(toE164('020 7946 0958', 'gb')).toBe('+442079460958');
+      expect(toE164('8 (912) 345-67-89', { code: 'RU', name: 'Russia', dial_code: '+7' })).toBe('+79123456789');
+    });
+
+    it('should keep leading zeros that are part of the number', () => {
+      expect(toE164('06 1234 5678', 'IT')).toBe('+390612345678');
+    });
+
+    it('should prefer the given country for shared dial codes', () => {
+      expect(parsePhoneNumber('+1 416 555 0123', 'CA').country).toBe('CA');
+      expect(parsePhoneNumber('+1 416 555 0123').country).toBe('US');
+    });
+
+    it('should reject invalid numbers with INVALID_PHONE_NUMBER', () => {
+      const cases: [string, string?][] = [
+        ['555-CALL-NOW', 'US'],
+        ['555123', 'US'],
+        ['5551234567'],
+        ['+999 1234567'],
+        ['5551234567', 'XX'],
+      ];
+      for (const [input, country] of cases) {
+        const error = (() => {
+          try {
+            parsePhoneNumber(input, country);
+          } catch (e) {
+            return e;
+          }
+        })();
+        expect(error).toBeInstanceOf(OTPError);
+        expect(error).toHaveProperty('code', ErrorCode.INVALID_PHONE_NUMBER);
+      }
+    });
+
+    it('should be driven by the supported countries', () => {
+      const countries = [
+        { code: 'US', name: 'United States', dial_code: '+1' },
+        { code: 'IS', name: 'Iceland', dial_code: '+354' },
+      ];
+
+      expect(toE164('+354 611 1234', undefined, countries)).toBe('+3546111234');
+      expect(toE164('611 1234', 'IS', countries)).toBe('+3546111234');
+      expect(isValidPhoneNumber('+44 20 7946 0958', undefined, countries)).toBe(false);
+      expect(isValidPhoneNumber('020 7946 0958', 'GB', countries)).toBe(false);
+    });
+  });
+
+  describe('formatPhoneNumber', () => {
+    it('should format national numbers as they are typed', () => {
+      expect(['5', '555', '5551', '555123', '5551234567'].map((input) => formatPhoneNumber(input, 'US'))).toEqual([
+        '(5',
+        '(555',
+        '(555) 1',
+        '(555) 123',
+        '(555) 123-4567',
+      ]);
+      expect(formatPhoneNumber('0612345678', 'FR')).toBe('06 12 34 56 78');
+    });
+
+    it('should format international numbers as they are typed', () => {
+      expect(formatPhoneNumber('+')).toBe('+');
+      expect(formatPhoneNumber('+4')).toBe('+4');
+      expect(formatPhoneNumber('+44')).toBe('+44');
+      expect(formatPhoneNumber('+4420794')).toBe('+44 2079 4');
+      expect(formatPhoneNumber('+1 (555) 1234567')).toBe('+1 555 123 4567');
+    });
+
+    it('should return digits when the input does not fit the format', () => {
+      expect(formatPhoneNumber('555123456789', 'US')).toBe('555123456789');
+      expect(formatPhoneNumber('6111234')).toBe('6111234');
+    });
+  });
+});
@@ -37,6 +37,8 @@ describe('Token Refresh', () => {
       null,
       { Authorization: `Bearer ${validRefreshToken}` },
       false,
+      false,
+      undefined,
     );
   });
 
@@ -0,0 +1,124 @@
+import { TransportRequest, TransportResponse } from '../src/api/transport';
+import { createEaseClient } from '../src/client';
+import { ValidationError } from '../src/utils/errors';
+import { LogLevel } from '../src/utils/logger';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const makeJwt = (exp: number) => `${encode({ alg: 'HS256' })}.${encode({ sub: 'user-1', exp })}.signature`;
+
+const jsonResponse = (status: number, data: unknown): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: new Headers(),
+  json: async () => data,
+});
+
+describe('Proactive refresh', () => {
+  const NOW = new Date('2026-01-01T00:00:00Z').getTime();
+  const nowSeconds = NOW / 1000;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const setup = (respond: () => TransportResponse) => {
+    const send = jest.fn<Promise<TransportResponse>, [TransportRequest]>(async () => respond());
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, transport: { send }, refreshBeforeExpiry: 60 });
+    const refreshCalls = () => send.mock.calls.filter(([request]) => request.url.endsWith('/refresh')).length;
+    return { client, refreshCalls };
+  };
+
+  it('should refresh the configured number of seconds before exp', async () => {
+    const fresh = { accessToken: makeJwt(nowSeconds + 1800), refreshToken: 'refresh-2' };
+    const { client, refreshCalls } = setup(() => jsonResponse(200, fresh));
+
+    await client.session.set({ accessToken: makeJwt(nowSeconds + 900), refreshToken: 'refresh-1' });
+
+    await jest.advanceTimersByTimeAsync((900 - 60) * 1000 - 1);
+    expect(refreshCalls()).toBe(0);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(refreshCalls()).toBe(1);
+    expect(client.session.accessToken).toBe(fresh.accessToken);
+
+    // The new token (960s left) is scheduled in turn
+    await jest.advanceTimersByTimeAsync(900 * 1000 - 1);
+    expect(refreshCalls()).toBe(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(refreshCalls()).toBe(2);
+  });
+
+  it('should stop when the session is cleared', async () => {
+    const { client, refreshCalls } = setup(() => jsonResponse(200, {}));
+
+    await client.session.set({ accessToken: makeJwt(nowSeconds + 900), refreshToken: 'refresh-1' });
+    await client.session.clear();
+    await jest.advanceTimersByTimeAsync(900 * 1000);
+
+    expect(refreshCalls()).toBe(0);
+  });
+
+  it('should not loop on tokens that live shorter than the lead time', async () => {
+    const { client, refreshCalls } = setup(() =>
+      jsonResponse(200, { accessToken: makeJwt(Date.now() / 1000 + 30), refreshToken: 'refresh-2' }),
+    );
+
+    await client.session.set({ accessToken: makeJwt(nowSeconds + 30), refreshToken: 'refresh-1' });
+    await jest.advanceTimersByTimeAsync(14 * 1000);
+
+    expect(refreshCalls()).toBe(0);
+  });
+
+  it('should emit sessionExpired when the scheduled refresh fails', async () => {
+    const { client } = setup(() => jsonResponse(401, { error: 'Refresh token revoked' }));
+    const onExpired = jest.fn();
+    client.session.on('sessionExpired', onExpired);
+
+    await client.session.set({ accessToken: makeJwt(nowSeconds + 120), refreshToken: 'refresh-1' });
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(client.session.isAuthenticated).toBe(false);
+  });
+
+  it('should keep the session and try again later when the refresh fails while offline', async () => {
+    let online = false;
+    const fresh = { accessToken: makeJwt(nowSeconds + 1800), refreshToken: 'refresh-2' };
+    const { client, refreshCalls } = setup(() => {
+      if (!online) throw new TypeError('Failed to fetch');
+      return jsonResponse(200, fresh);
+    });
+    const onExpired = jest.fn();
+    client.session.on('sessionExpired', onExpired);
+
+    await client.session.set({ accessToken: makeJwt(nowSeconds + 120), refreshToken: 'refresh-1' });
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(refreshCalls()).toBe(1);
+    expect(onExpired).not.toHaveBeenCalled();
+    expect(client.session.refreshToken).toBe('refresh-1');
+
+    online = true;
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+    expect(refreshCalls()).toBe(2);
+    expect(client.session.accessToken).toBe(fresh.accessToken);
+  });
+
+  it('should be possible to turn off', async () => {
+    const { client, refreshCalls } = setup(() => jsonResponse(200, {}));
+    client.setRefreshBeforeExpiry(false);
+
+    await client.session.set({ accessToken: makeJwt(nowSeconds + 120), refreshToken: 'refresh-1' });
+    await jest.advanceTimersByTimeAsync(120 * 1000);
+
+    expect(refreshCalls()).toBe(0);
+  });
+
+  it('should reject negative lead times', () => {
+    expect(() => createEaseClient({ refreshBeforeExpiry: -1 })).toThrow(ValidationError);
+  });
+});
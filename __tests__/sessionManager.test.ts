@@ -0,0 +1,194 @@
+import { TransportRequest, TransportResponse } from '../src/api/transport';
+import { createEaseClient, createSessionManager } from '../src/client';
+import { createMemoryTokenStore } from '../src/storage';
+import { AuthenticationError, ValidationError } from '../src/utils/errors';
+import { LogLevel } from '../src/utils/logger';
+
+const jsonResponse = (status: number, data: unknown): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: new Headers(),
+  json: async () => data,
+});
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const personal = { accessToken: 'personal-access-token', refreshToken: 'personal-refresh-token' };
+const business = { accessToken: 'business-access-token', refreshToken: 'business-refresh-token' };
+
+describe('SessionManager', () => {
+  const setup = (respond: (request: TransportRequest) => TransportResponse = () => jsonResponse(200, [])) => {
+    const send = jest.fn(async (request: TransportRequest) => respond(request));
+    const client = createEaseClient({ environment: 'staging', logLevel: LogLevel.SILENT, transport: { send } });
+    return { client, send, manager: createSessionManager(client) };
+  };
+
+  it('should keep a token pair per account', async () => {
+    const { manager } = setup();
+
+    const personalClient = await manager.add('personal', { tokens: personal, accountName: 'ana' });
+    const businessClient = await manager.add('business', { tokens: business });
+
+    expect(personalClient.session.accessToken).toBe(personal.accessToken);
+    expect(businessClient.session.accessToken).toBe(business.accessToken);
+    expect(manager.get('personal')?.accountName).toBe('ana');
+    expect(manager.list().map((account) => account.name)).toEqual(['personal', 'business']);
+  });
+
+  it('should share the configuration of the parent client', async () => {
+    const { client, manager, send } = setup();
+    const onRequest = jest.fn();
+    client.addTransportObserver({ onRequest });
+
+    const scoped = await manager.add('personal', { tokens: personal });
+    await scoped.contacts.getContacts(personal.accessToken);
+
+    expect(scoped.getEnvironment()).toBe('staging');
+    expect(send.mock.calls[0][0].url).toBe('https://staging.api.ease.tech/contacts');
+    expect(onRequest).toHaveBeenCalledTimes(1);
+    expect(client.session.accessToken).toBeUndefined();
+  });
+
+  it('should switch the active account', async () => {
+    const { manager } = setup();
+    const onChange = jest.fn();
+    manager.on('activeAccountChanged', onChange);
+
+    await manager.add('personal', { tokens: personal });
+    await manager.add('business', { tokens: business });
+    expect(manager.active?.name).toBe('personal');
+
+    manager.setActive('business');
+
+    expect(manager.active?.name).toBe('business');
+    expect(manager.use().session.accessToken).toBe(business.accessToken);
+    expect(onChange.mock.calls).toEqual([[{ name: 'personal' }], [{ name: 'business' }]]);
+    expect(() => manager.setActive('unknown')).toThrow(ValidationError);
+  });
+
+  it('should send scoped calls with the account credentials', async () => {
+    const { manager, send } = setup();
+    await manager.add('personal', { tokens: personal });
+    await manager.add('business', { tokens: business });
+
+    await manager.run('business', (client, accessToken) => client.contacts.getContacts(accessToken));
+    await manager.run(undefined, (client, accessToken) => client.contacts.getContacts(accessToken));
+
+    expect(send.mock.calls[0][0].headers.Authorization).toBe(`Bearer ${business.accessToken}`);
+    expect(send.mock.calls[1][0].headers.Authorization).toBe(`Bearer ${personal.accessToken}`);
+  });
+
+  it('should refuse scoped calls for signed-out accounts', async () => {
+    const { manager } = setup();
+    await manager.add('business');
+
+    await expect(manager.run('business', async () => 'never')).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('should store tokens from sign-in flows in the account session', async () => {
+    const { manager } = setup(() => jsonResponse(200, business));
+    const scoped = await manager.add('business');
+
+    await scoped.login.loginCallback(
+      { id: 'credential-id', rawId: 'raw', type: 'public-key', response: {} as any },
+      'session-id',
+    );
+
+    expect(manager.use('business').session.refreshToken).toBe(business.refreshToken);
+  });
+
+  it('should refresh the session of the account whose call failed', async () => {
+    const { client, manager } = setup((request) => {
+      if (request.url.endsWith('/refresh')) {
+        return jsonResponse(200, { accessToken: 'business-access-token-2', refreshToken: 'business-refresh-token-2' });
+      }
+      return request.headers.Authorization === `Bearer ${business.accessToken}`
+        ? jsonResponse(401, { error: 'Token expired' })
+        : jsonResponse(200, []);
+    });
+    client.setAutoRefresh(true);
+    await manager.add('personal', { tokens: personal });
+    await manager.add('business', { tokens: business });
+
+    await manager.run('business', (scoped, accessToken) => scoped.contacts.getContacts(accessToken));
+
+    expect(manager.use('business').session.accessToken).toBe('business-access-token-2');
+    expect(manager.use('personal').session.accessToken).toBe(personal.accessToken);
+  });
+
+  it('should cache addresses per account', async () => {
+    const addresses = [{ address: 'bc1q', derivationPath: "m/84'/0'/0'/0/0", coin: 'BTC' }];
+    const { manager, send } = setup(() => jsonResponse(200, addresses));
+    await manager.add('personal', { tokens: personal });
+
+    expect(await manager.getAddresses('personal')).toEqual(addresses);
+    expect(await manager.getAddresses('personal')).toEqual(addresses);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await manager.getAddresses('personal', { refresh: true });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop the cached addresses when the account session changes', async () => {
+    const { manager, send } = setup((request) =>
+      jsonResponse(200, [{ address: request.headers.Authorization, derivationPath: "m/84'/0'/0'/0/0", coin: 'BTC' }]),
+    );
+    const client = await manager.add('slot', { tokens: personal });
+    await manager.getAddresses('slot');
+
+    await client.session.set(business);
+    expect((await manager.getAddresses('slot'))[0].address).toBe(`Bearer ${business.accessToken}`);
+
+    await client.session.clear();
+    expect(manager.get('slot')?.addresses).toBeUndefined();
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should clear tokens and pick the next active account on remove', async () => {
+    const { manager } = setup();
+    const tokenStore = createMemoryTokenStore();
+    await manager.add('personal', { tokens: personal, tokenStore });
+    await manager.add('business', { tokens: business });
+
+    await manager.remove('personal');
+
+    expect(await tokenStore.get()).toBeNull();
+    expect(manager.has('personal')).toBe(false);
+    expect(manager.active?.name).toBe('business');
+  });
+
+  it('should restore tokens from the account token store', async () => {
+    const { manager } = setup();
+    const tokenStore = createMemoryTokenStore();
+    await tokenStore.set(business);
+
+    const scoped = await manager.add('business', { tokenStore });
+
+    expect(scoped.session.accessToken).toBe(business.accessToken);
+  });
+
+  it('should pass later proactive refresh settings on to the accounts', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const exp = Date.now() / 1000 + 120;
+    const accessToken = `${encode({ alg: 'HS256' })}.${encode({ sub: 'user-1', exp })}.signature`;
+    const { client, manager, send } = setup((request) =>
+      jsonResponse(200, request.url.endsWith('/refresh') ? business : []),
+    );
+    const scoped = await manager.add('personal', { tokens: { accessToken, refreshToken: 'refresh-token' } });
+
+    client.configure({ refreshBeforeExpiry: 60 });
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(scoped.session.accessToken).toBe(business.accessToken);
+    jest.useRealTimers();
+  });
+
+  it('should reject duplicate account names', async () => {
+    const { manager } = setup();
+    await manager.add('personal');
+
+    await expect(manager.add('personal')).rejects.toBeInstanceOf(ValidationError);
+  });
+});
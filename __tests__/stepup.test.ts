@@ -0,0 +1,215 @@
+import { requireFreshAuth, stepUpCallback, stepUpOptions, withFreshAuth } from '../src/stepup';
+import { createKeys } from '../src/transaction';
+import { deleteContact } from '../src/contacts';
+import { internalApi } from '../src/api';
+import { getDefaultClient } from '../src/client';
+import { AuthenticationError, EaseSDKError, ErrorCode, ValidationError } from '../src/utils/errors';
+import { logger, LogLevel } from '../src/utils/logger';
+
+jest.mock('../src/api', () => ({
+  internalApi: jest.fn(),
+}));
+
+const mockApi = internalApi as jest.MockedFunction<typeof internalApi>;
+
+const accessToken = 'access-token-12345';
+const assertion = {
+  id: 'credential-id',
+  rawId: new Uint8Array([1]).buffer,
+  type: 'public-key',
+  response: {
+    clientDataJSON: new Uint8Array([2]).buffer,
+    authenticatorData: new Uint8Array([3]).buffer,
+    signature: new Uint8Array([4]).buffer,
+    userHandle: null,
+  },
+  getClientExtensionResults: () => ({}),
+};
+
+const mockStepUp = (elevatedToken = 'elevated-token', expiresIn: number | undefined = 300) => {
+  mockApi.mockResolvedValueOnce({
+    success: true,
+    data: { publicKey: { challenge: 'AQID', userVerification: 'required' } },
+    headers: new Headers({ 'X-Session-Id': 'session-123' }),
+  });
+  mockApi.mockResolvedValueOnce({ success: true, data: { elevatedToken, expiresIn } });
+};
+
+const authenticator = () => ({ create: jest.fn(), get: jest.fn().mockResolvedValue(assertion) });
+
+describe('Step-up Module', () => {
+  const { session } = getDefaultClient();
+
+  beforeEach(async () => {
+    mockApi.mockReset();
+    logger.configure({ level: LogLevel.SILENT });
+    await session.set({ accessToken, refreshToken: 'refresh-token' });
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await session.clear();
+  });
+
+  describe('stepUpOptions', () => {
+    it('should request options for the operation', async () => {
+      mockStepUp();
+
+      const result = await stepUpOptions(accessToken, 'createKeys');
+
+      expect(result.sessionId).toBe('session-123');
+      expect(mockApi).toHaveBeenCalledWith(
+        '/step-up/options',
+        'POST',
+        { operation: 'createKeys' },
+        { Authorization: `Bearer ${accessToken}` },
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should validate the operation', async () => {
+      await expect(stepUpOptions(accessToken, '')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('stepUpCallback', () => {
+    it('should map a rejected assertion to INVALID_CREDENTIALS', async () => {
+      mockApi.mockResolvedValueOnce({ success: false, statusCode: 401 });
+
+      const error = await stepUpCallback(
+        { id: 'credential-id', rawId: 'raw', type: 'public-key', response: { clientDataJSON: 'data' } },
+        accessToken,
+        'session-123',
+        'createKeys',
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.code).toBe(ErrorCode.INVALID_CREDENTIALS);
+      expect(session.getElevatedToken('createKeys')).toBeUndefined();
+    });
+  });
+
+  describe('requireFreshAuth', () => {
+    it('should run the ceremony with the session access token and attach the elevated token', async () => {
+      mockStepUp();
+      const credentials = authenticator();
+
+      const token = await requireFreshAuth('createKeys', { credentials });
+
+      expect(token).toBe('elevated-token');
+      expect(mockApi).toHaveBeenLastCalledWith(
+        '/step-up/callback',
+        'POST',
+        { response: expect.objectContaining({ id: 'credential-id' }) },
+        { Authorization: `Bearer ${accessToken}`, 'X-Session-Id': 'session-123' },
+        false,
+        false,
+        { credentials },
+      );
+
+      mockApi.mockResolvedValueOnce({ success: true, data: { recipientData: {} } });
+      await createKeys(accessToken, { accountName: 'a', recipientPublicKey: 'k', recipientData: {} } as any);
+      expect(mockApi).toHaveBeenLastCalledWith(
+        '/transaction/keys/create',
+        'POST',
+        expect.anything(),
+        { Authorization: `Bearer ${accessToken}`, 'X-Step-Up-Token': 'elevated-token' },
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should only attach the token to the elevated operation', async () => {
+      mockStepUp();
+      await requireFreshAuth('createKeys', { credentials: authenticator() });
+
+      mockApi.mockResolvedValueOnce({ success: true });
+      await deleteContact(accessToken, 'contact-id');
+
+      expect(mockApi).toHaveBeenLastCalledWith(
+        '/contacts/contact-id',
+        'DELETE',
+        null,
+        { Authorization: `Bearer ${accessToken}` },
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should reuse an elevated token until it expires, unless forced', async () => {
+      jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z'), doNotFake: ['queueMicrotask'] });
+      mockStepUp('first', 60);
+      const credentials = authenticator();
+      await requireFreshAuth('deleteContact', { credentials });
+
+      await expect(requireFreshAuth('deleteContact', { credentials })).resolves.toBe('first');
+      expect(credentials.get).toHaveBeenCalledTimes(1);
+
+      mockStepUp('forced', 60);
+      await expect(requireFreshAuth('deleteContact', { credentials, force: true })).resolves.toBe('forced');
+
+      jest.setSystemTime(new Date('2025-01-01T00:01:00Z'));
+      expect(session.getElevatedToken('deleteContact')).toBeUndefined();
+    });
+
+    it('should fail with UNAUTHORIZED without a signed-in session', async () => {
+      await session.clear();
+
+      const error = await requireFreshAuth('logout', { credentials: authenticator() }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error.code).toBe(ErrorCode.UNAUTHORIZED);
+      expect(mockApi).not.toHaveBeenCalled();
+    });
+
+    it('should drop elevated tokens when the session is cleared', async () => {
+      mockStepUp();
+      await requireFreshAuth('logout', { credentials: authenticator() });
+
+      await session.clear();
+
+      expect(session.getElevatedToken('logout')).toBeUndefined();
+    });
+  });
+
+  describe('withFreshAuth', () => {
+    const stepUpRequired = new EaseSDKError({
+      code: ErrorCode.STEP_UP_REQUIRED,
+      message: 'Step-up required',
+      statusCode: 403,
+    });
+
+    it('should re-authenticate and retry once when the API requires a step-up', async () => {
+      mockApi.mockResolvedValueOnce({ success: false, statusCode: 403, errorDetails: stepUpRequired });
+      mockStepUp();
+      mockApi.mockResolvedValueOnce({ success: true });
+
+      const result = await withFreshAuth('deleteContact', () => deleteContact(accessToken, 'contact-id'), {
+        credentials: authenticator(),
+      });
+
+      expect(result).toEqual({ success: true });
+      expect(mockApi).toHaveBeenLastCalledWith(
+        '/contacts/contact-id',
+        'DELETE',
+        null,
+        { Authorization: `Bearer ${accessToken}`, 'X-Step-Up-Token': 'elevated-token' },
+        false,
+        false,
+        undefined,
+      );
+    });
+
+    it('should pass other errors through without re-authenticating', async () => {
+      const credentials = authenticator();
+      const failure = new AuthenticationError('Unauthorized', ErrorCode.UNAUTHORIZED);
+
+      await expect(withFreshAuth('logout', () => Promise.reject(failure), { credentials })).rejects.toBe(failure);
+      expect(credentials.get).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { TransportRequest, TransportResponse } from '../src/api/transport';
+import { createEaseClient } from '../src/client';
+import {
+  createEncryptedTokenStore,
+  createKeyValueTokenStore,
+  createMemoryTokenStore,
+  createWebStorageTokenStore,
+  KeyValueStorage,
+  TokenStore,
+} from '../src/storage';
+import { ValidationError } from '../src/utils/errors';
+import { LogLevel } from '../src/utils/logger';
+
+const tokens = { accessToken: 'access-token-123', refreshToken: 'refresh-token-456' };
+
+const createMapStorage = (): KeyValueStorage & { data: Map<string, string> } => {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: async (key) => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: async (key) => {
+      data.delete(key);
+    },
+  };
+};
+
+const generateKey = () =>
+  globalThis.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+describe('Token stores', () => {
+  it('should keep tokens in memory', async () => {
+    const store = createMemoryTokenStore();
+
+    await store.set(tokens);
+    expect(await store.get()).toEqual(tokens);
+
+    await store.clear();
+    expect(await store.get()).toBeNull();
+  });
+
+  it('should save tokens in a key-value storage under the configured key', async () => {
+    const storage = createMapStorage();
+    const store = createKeyValueTokenStore(storage, { key: 'my-app.tokens' });
+
+    await store.set(tokens);
+
+    expect(JSON.parse(storage.data.get('my-app.tokens')!)).toEqual(tokens);
+    expect(await store.get()).toEqual(tokens);
+  });
+
+  it('should ignore malformed stored values', async () => {
+    const storage = createMapStorage();
+    storage.data.set('ease.tokens', '{not json');
+
+    expect(await createKeyValueTokenStore(storage).get()).toBeNull();
+  });
+
+  it('should accept synchronous Web Storage', async () => {
+    const data: Record<string, string> = {};
+    const sessionStorage = {
+      getItem: (key: string) => data[key] ?? null,
+      setItem: (key: string, value: string) => {
+        data[key] = value;
+      },
+      removeItem: (key: string) => {
+        delete data[key];
+      },
+    };
+    const store = createWebStorageTokenStore(sessionStorage);
+
+    await store.set(tokens);
+    expect(await store.get()).toEqual(tokens);
+    await store.clear();
+    expect(data).toEqual({});
+  });
+
+  it('should reject a missing Web Storage', () => {
+    expect(() => createWebStorageTokenStore(undefined)).toThrow(ValidationError);
+  });
+
+  it('should encrypt tokens at rest with AES-GCM', async () => {
+    const storage = createMapStorage();
+    const store = createEncryptedTokenStore(storage, await generateKey());
+
+    await store.set(tokens);
+
+    const stored = storage.data.get('ease.tokens')!;
+    expect(stored).not.toContain('access-token-123');
+    expect(await store.get()).toEqual(tokens);
+  });
+
+  it('should treat values encrypted with another key as missing', async () => {
+    const storage = createMapStorage();
+    await createEncryptedTokenStore(storage, await generateKey()).set(tokens);
+
+    expect(await createEncryptedTokenStore(storage, await generateKey()).get()).toBeNull();
+  });
+});
+
+describe('Session persistence', () => {
+  const jsonResponse = (status: number, data: unknown): TransportResponse => ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: '',
+    headers: new Headers(),
+    json: async () => data,
+  });
+
+  const setup = (tokenStore: TokenStore) => {
+    const send = jest.fn(async (request: TransportRequest) =>
+      request.url.endsWith('/logout') ? jsonResponse(200, {}) : jsonResponse(200, tokens),
+    );
+    return createEaseClient({ logLevel: LogLevel.SILENT, transport: { send }, tokenStore });
+  };
+
+  it('should persist tokens after login and clear them on logout', async () => {
+    const store = createMemoryTokenStore();
+    const client = setup(store);
+
+    await client.login.loginCallback(
+      { id: 'credential-id', rawId: 'raw', type: 'public-key', response: {} as any },
+      'session-id',
+    );
+    expect(await store.get()).toEqual(tokens);
+
+    await client.logout.logout(tokens.accessToken);
+    expect(await store.get()).toBeNull();
+    expect(client.session.isAuthenticated).toBe(false);
+  });
+
+  it('should persist refreshed tokens', async () => {
+    const store = createMemoryTokenStore();
+    const client = setup(store);
+    await client.session.set({ accessToken: 'old-access-token', refreshToken: 'old-refresh-token' });
+
+    await client.refresh.refreshToken('old-refresh-token');
+
+    expect(await store.get()).toEqual(tokens);
+  });
+
+  it('should leave the session alone when refreshing the token of another account', async () => {
+    const store = createMemoryTokenStore();
+    const client = setup(store);
+    const current = { accessToken: 'own-access-token', refreshToken: 'own-refresh-token' };
+    await client.session.set(current);
+
+    await expect(client.refresh.refreshToken('other-refresh-token')).resolves.toEqual(tokens);
+
+    expect(client.session.accessToken).toBe(current.accessToken);
+    expect(await store.get()).toEqual(current);
+  });
+
+  it('should restore tokens saved by a previous run', async () => {
+    const store = createMemoryTokenStore();
+    await store.set(tokens);
+    const client = setup(store);
+
+    expect(client.session.isAuthenticated).toBe(false);
+    expect(await client.session.restore()).toEqual(tokens);
+    expect(client.session.accessToken).toBe(tokens.accessToken);
+  });
+
+  it('should not fail authentication when the store fails', async () => {
+    const store: TokenStore = {
+      get: jest.fn(),
+      set: jest.fn().mockRejectedValue(new Error('disk full')),
+      clear: jest.fn(),
+    };
+    const client = setup(store);
+    await client.session.set({ accessToken: 'old-access-token', refreshToken: 'old-refresh-token' });
+
+    await expect(client.refresh.refreshToken('old-refresh-token')).resolves.toEqual(tokens);
+    expect(client.session.accessToken).toBe(tokens.accessToken);
+  });
+});
@@ -35,9 +35,17 @@ describe('Transaction API', () => {
 
       const result = await getAddresses(accessToken);
 
-      expect(mockApi).toHaveBeenCalledWith('/transaction/keys/addresses', 'GET', null, {
-        Authorization: `Bearer ${accessToken}`,
-      });
+      expect(mockApi).toHaveBeenCalledWith(
+        '/transaction/keys/addresses',
+        'GET',
+        null,
+        {
+          Authorization: `Bearer ${accessToken}`,
+        },
+        false,
+        false,
+        undefined,
+      );
       console.log('(***)', result);
       expect(result).toEqual([
         { address: 'addr1', derivationPath: 'path1', coin: 'EASE' },
@@ -74,9 +82,17 @@ describe('Transaction API', () => {
 
       const result = await createKeys(accessToken, mockInput as any);
 
-      expect(mockApi).toHaveBeenCalledWith(`/transaction/keys/create`, 'POST', mockInput, {
-        Authorization: `Bearer ${accessToken}`,
-      });
+      expect(mockApi).toHaveBeenCalledWith(
+        `/transaction/keys/create`,
+        'POST',
+        mockInput,
+        {
+          Authorization: `Bearer ${accessToken}`,
+        },
+        false,
+        false,
+        undefined,
+      );
       expect(result).toEqual(mockResponse);
     });
 
@@ -102,12 +118,28 @@ describe('Transaction API', () => {
 
       const result = await createTransaction(accessToken, mockIntent);
 
-      expect(mockApi).toHaveBeenCalledWith('/transaction/create', 'POST', mockIntent, {
-        Authorization: `Bearer ${accessToken}`,
-      });
+      expect(mockApi).toHaveBeenCalledWith(
+        '/transaction/create',
+        'POST',
+        { ...mockIntent, chainID: '0001' },
+        { Authorization: `Bearer ${accessToken}` },
+        false,
+        false,
+        undefined,
+      );
       expect(result).toEqual(mockResponse);
     });
 
+    it('should keep the chain of the intent, and send none for other coins', async () => {
+      mockApi.mockResolvedValue({ success: true, data: mockResponse });
+
+      await createTransaction(accessToken, { ...mockIntent, chainID: '0002' });
+      await createTransaction(accessToken, { ...mockIntent, coin: 'BTC' });
+
+      expect(mockApi.mock.calls[0][2]).toEqual({ ...mockIntent, chainID: '0002' });
+      expect(mockApi.mock.calls[1][2]).toEqual({ ...mockIntent, coin: 'BTC' });
+    });
+
     it('should throw EaseSDKError on API failure', async () => {
       const apiError = new APIError('Failed to create transaction', 500);
       mockApi.mockResolvedValueOnce({ success: false, error: apiError });
@@ -136,6 +168,9 @@ describe('Transaction API', () => {
         'POST',
         {},
         { Authorization: `Bearer ${accessToken}` },
+        false,
+        false,
+        undefined,
       );
       expect(result).toEqual(mockResponse);
     });
@@ -162,10 +197,18 @@ describe('Transaction API', () => {
 
       const result = await signTransactionCallback(accessToken, mockSessionId, mockInput as any);
 
-      expect(mockApi).toHaveBeenCalledWith(`/transaction/sign/callback`, 'POST', mockInput, {
-        'X-Session-Id': mockSessionId,
-        Authorization: `Bearer ${accessToken}`,
-      });
+      expect(mockApi).toHaveBeenCalledWith(
+        `/transaction/sign/callback`,
+        'POST',
+        mockInput,
+        {
+          'X-Session-Id': mockSessionId,
+          Authorization: `Bearer ${accessToken}`,
+        },
+        false,
+        false,
+        undefined,
+      );
       expect(result).toEqual(mockResponse);
     });
 
@@ -63,6 +63,19 @@ describe('Error Utils', () => {
       expect(json.timestamp).toBeInstanceOf(Date);
       expect(json.stack).toBeDefined();
     });
+
+    it('should only mark failures a later attempt may not run into as retryable', () => {
+      expect(new NetworkError('Request timed out').isRetryable).toBe(true);
+      expect(createErrorFromAPIResponse(503, {}).isRetryable).toBe(true);
+      expect(createErrorFromAPIResponse(429, {}).isRetryable).toBe(true);
+      expect(new APIError('Bad gateway', 502).isRetryable).toBe(true);
+      expect(new OTPError('Too many requests', ErrorCode.RATE_LIMIT_ERROR).isRetryable).toBe(true);
+
+      expect(new ValidationError('Invalid amount', 'amount', -1).isRetryable).toBe(false);
+      expect(new AuthenticationError('Invalid token').isRetryable).toBe(false);
+      expect(createErrorFromAPIResponse(409, {}).isRetryable).toBe(false);
+      expect(new EaseSDKError({ code: ErrorCode.REQUEST_ABORTED, message: 'Request aborted' }).isRetryable).toBe(false);
+    });
   });
 
   describe('Specific Error Classes', () => {
@@ -145,6 +158,13 @@ describe('Error Utils', () => {
   });
 
   describe('createErrorFromAPIResponse', () => {
+    it('should map a step-up demand to STEP_UP_REQUIRED', () => {
+      const error = createErrorFromAPIResponse(403, { code: 'STEP_UP_REQUIRED', error: 'Re-authenticate' });
+
+      expect(error.code).toBe(ErrorCode.STEP_UP_REQUIRED);
+      expect(error.message).toBe('Re-authenticate');
+    });
+
     it('should create error from API response with error field', () => {
       const responseData = { error: 'Invalid request' };
       const error = createErrorFromAPIResponse(400, responseData, { url: 'test' });
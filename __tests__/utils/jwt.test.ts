@@ -0,0 +1,60 @@
+import { decodeJwt, getTokenExpiry, isTokenExpired } from '../../src/utils/jwt';
+import { ValidationError } from '../../src/utils/errors';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const makeJwt = (claims: Record<string, unknown>) =>
+  `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.signature`;
+
+describe('JWT utilities', () => {
+  describe('decodeJwt', () => {
+    it('should decode the standard claims', () => {
+      const claims = decodeJwt(makeJwt({ sub: 'user-1', iat: 1700000000, exp: 1700000900, role: 'user' }));
+
+      expect(claims).toEqual({ sub: 'user-1', iat: 1700000000, exp: 1700000900, role: 'user' });
+    });
+
+    it('should normalize the chain ID claim', () => {
+      expect(decodeJwt(makeJwt({ chainID: '0001' })).chainID).toBe('0001');
+      expect(decodeJwt(makeJwt({ chainId: '0002' })).chainID).toBe('0002');
+      expect(decodeJwt(makeJwt({ chain_id: 3 })).chainID).toBe('3');
+    });
+
+    it('should decode UTF-8 payloads', () => {
+      expect(decodeJwt(makeJwt({ name: 'José Ñandú' })).name).toBe('José Ñandú');
+    });
+
+    it('should throw ValidationError for malformed tokens', () => {
+      expect(() => decodeJwt('not-a-jwt')).toThrow(ValidationError);
+      expect(() => decodeJwt('a.%%%.c')).toThrow(ValidationError);
+      expect(() => decodeJwt(`a.${encode([1, 2])}.c`)).toThrow(ValidationError);
+    });
+  });
+
+  describe('getTokenExpiry', () => {
+    it('should return the exp claim as a date', () => {
+      expect(getTokenExpiry(makeJwt({ exp: 1700000900 }))).toEqual(new Date(1700000900 * 1000));
+    });
+
+    it('should return undefined for opaque tokens or tokens without exp', () => {
+      expect(getTokenExpiry('opaque-access-token')).toBeUndefined();
+      expect(getTokenExpiry(makeJwt({ sub: 'user-1' }))).toBeUndefined();
+    });
+  });
+
+  describe('isTokenExpired', () => {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+
+    it('should compare exp with the current time', () => {
+      expect(isTokenExpired(makeJwt({ exp: nowSeconds - 1 }))).toBe(true);
+      expect(isTokenExpired(makeJwt({ exp: nowSeconds + 600 }))).toBe(false);
+    });
+
+    it('should treat tokens expiring within the margin as expired', () => {
+      expect(isTokenExpired(makeJwt({ exp: nowSeconds + 30 }), 60)).toBe(true);
+    });
+
+    it('should not report tokens without exp as expired', () => {
+      expect(isTokenExpired('opaque-access-token')).toBe(false);
+    });
+  });
+});
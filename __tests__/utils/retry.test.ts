@@ -0,0 +1,87 @@
+import { APIError, ErrorCode, EaseSDKError, NetworkError, ValidationError } from '../../src/utils/errors';
+import { logger, LogLevel } from '../../src/utils/logger';
+import { isRetryableError, retry } from '../../src/utils/retry';
+
+describe('retry', () => {
+  beforeAll(() => {
+    logger.configure({ level: LogLevel.SILENT });
+  });
+
+  afterAll(() => {
+    logger.configure({ level: LogLevel.DEBUG });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should retry retryable failures until an attempt succeeds', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new NetworkError('offline'))
+      .mockRejectedValueOnce(new APIError('Unavailable', 503))
+      .mockResolvedValueOnce('ok');
+
+    await expect(retry(fn, { delay: 1 })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry validation errors and other errors that fail again', async () => {
+    const invalid = new ValidationError('Invalid amount', 'amount', -1);
+    const fn = jest.fn().mockRejectedValue(invalid);
+
+    await expect(retry(fn, { delay: 1 })).rejects.toBe(invalid);
+    await expect(retry(jest.fn().mockRejectedValue(new Error('bug')), { delay: 1 })).rejects.toThrow('bug');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(new APIError('Not found', 404), [404])).toBe(true);
+  });
+
+  it('should wait a random time up to the exponential backoff', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    const fn = jest.fn().mockRejectedValueOnce(new NetworkError('offline')).mockResolvedValueOnce('ok');
+
+    const result = retry(fn, { delay: 1000, factor: 2 });
+    await jest.advanceTimersByTimeAsync(499);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should wait as long as Retry-After says, unless that exceeds maxDelay', async () => {
+    jest.useFakeTimers();
+    const rateLimited = (retryAfterMs: number) =>
+      new EaseSDKError({
+        code: ErrorCode.RATE_LIMIT_ERROR,
+        message: 'Slow down',
+        statusCode: 429,
+        context: { retryAfterMs },
+      });
+    const fn = jest.fn().mockRejectedValueOnce(rateLimited(2000)).mockResolvedValueOnce('ok');
+
+    const result = retry(fn, { delay: 1 });
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+
+    const tooLong = rateLimited(60000);
+    await expect(retry(jest.fn().mockRejectedValue(tooLong), { maxDelay: 30000 })).rejects.toBe(tooLong);
+  });
+
+  it('should stop waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    const failure = new NetworkError('offline');
+    const fn = jest.fn().mockRejectedValue(failure);
+
+    const result = retry(fn, { delay: 60000, jitter: false, signal: controller.signal });
+    controller.abort();
+
+    await expect(result).rejects.toBe(failure);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,96 @@
+import { createEaseClient } from '../../src/client';
+import { configure } from '../../src/config';
+import { getChain } from '../../src/chains';
+import { getEnvironment } from '../../src/utils/environment';
+import { ValidationError } from '../../src/utils/errors';
+import { logger, LogLevel } from '../../src/utils/logger';
+import { findTestEndpoints, getUrl, registerEnvironment, setUrlOverrides } from '../../src/utils/urls';
+
+describe('Service URLs', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it('should override some services of a client and keep the others', () => {
+    const client = createEaseClient({
+      logLevel: LogLevel.SILENT,
+      urls: { EASE_API: 'http://localhost:8080/', EASE_CHAIN_API: 'http://localhost:8888' },
+    });
+
+    expect(client.getUrl('EASE_API')).toBe('http://localhost:8080');
+    expect(client.getUrl('EASE_RELAY')).toBe('https://relay.ease.tech');
+    expect(client.chains.getChain().apiURL).toBe('http://localhost:8888');
+    expect(getChain().apiURL).not.toBe('http://localhost:8888'); // other clients keep theirs
+  });
+
+  it('should reject unknown services and malformed URLs', () => {
+    expect(() => createEaseClient({ urls: { EASE_APII: 'http://localhost' } as any })).toThrow(ValidationError);
+    expect(() => createEaseClient({ urls: { EASE_API: 'localhost:8080' } })).toThrow(
+      'The EASE_API URL must be an absolute http(s) URL',
+    );
+    expect(() => createEaseClient({ urls: { EASE_API: 'ftp://ease.tech' } })).toThrow(ValidationError);
+  });
+
+  it('should register custom environments derived from a built-in one', () => {
+    const unregister = registerEnvironment('local', { EASE_API: 'http://localhost:8080' });
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, environment: 'local' });
+
+    expect(client.getUrl('EASE_API')).toBe('http://localhost:8080');
+    expect(client.getUrl('MEMPOOL_SPACE')).toBe('https://mempool.space/testnet');
+    expect(client.chains.getChain().name).toBe('EASE Testnet');
+
+    unregister();
+
+    expect(() => client.getUrl('EASE_API')).toThrow('Unknown environment: local');
+    expect(() => createEaseClient({ environment: 'local' })).toThrow(ValidationError);
+    expect(() => registerEnvironment('production', {})).toThrow(ValidationError);
+  });
+
+  it('should check the whole configuration before applying any of it', () => {
+    const client = createEaseClient({ logLevel: LogLevel.SILENT, appName: 'Before', environment: 'staging' });
+
+    expect(() =>
+      client.configure({ appName: 'After', urls: { EASE_API: 'http://localhost' }, environment: 'qa' }),
+    ).toThrow(ValidationError);
+    expect(() =>
+      client.configure({ appName: 'After', environment: 'production', urls: { EASE_API: 'localhost' } }),
+    ).toThrow(ValidationError);
+    expect(() => client.configure({ environment: 'production', cache: { maxEntries: 0 } })).toThrow(ValidationError);
+
+    expect(client.getAppName()).toBe('Before');
+    expect(client.getEnvironment()).toBe('staging');
+    expect(client.getUrl('EASE_API')).toBe('https://staging.api.ease.tech');
+  });
+
+  it('should warn when production is mixed with test endpoints', () => {
+    const client = createEaseClient({ logLevel: LogLevel.WARN, urls: { EASE_API: 'https://staging.api.ease.tech' } });
+    expect(warn).not.toHaveBeenCalled();
+
+    client.configure({ environment: 'production' });
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('uses test endpoints for:'), 'EASE_API');
+    expect(findTestEndpoints('production', { EASE_CHAIN_API: 'http://192.168.1.20:8888' })).toEqual(['EASE_CHAIN_API']);
+    expect(findTestEndpoints('production', { EASE_API: 'https://api.ease.tech' })).toEqual([]);
+    expect(findTestEndpoints('staging', { EASE_API: 'http://localhost' })).toEqual([]);
+  });
+
+  it('should apply overrides to the free functions through configure()', () => {
+    const environment = getEnvironment();
+    logger.configure({ level: LogLevel.SILENT });
+    try {
+      configure({ urls: { EASE_API: 'http://host.docker.internal:8080' } });
+
+      expect(getUrl('EASE_API')).toBe('http://host.docker.internal:8080');
+    } finally {
+      setUrlOverrides({});
+      configure({ environment });
+      logger.configure({ level: LogLevel.DEBUG });
+    }
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  base64UrlToBuffer,
+  bufferToBase64Url,
+  createCredential,
+  getCredential,
+  isConditionalMediationAvailable,
+  serializeCredential,
+  toCreationOptions,
+  toRequestOptions,
+  WebAuthnCredentials,
+} from '../../src/utils/webauthn';
+import { ErrorCode, WebAuthnError } from '../../src/utils/errors';
+
+const bytes = (...values: number[]) => new Uint8Array(values).buffer;
+
+const fakeAttestation = () => ({
+  id: 'AQID',
+  rawId: bytes(1, 2, 3),
+  type: 'public-key',
+  response: {
+    clientDataJSON: bytes(4, 5),
+    attestationObject: bytes(6, 7, 8),
+    getTransports: () => ['internal'],
+  },
+  getClientExtensionResults: () => ({ credProps: { rk: true } }),
+});
+
+const fakeAssertion = () => ({
+  id: 'AQID',
+  rawId: bytes(1, 2, 3),
+  type: 'public-key',
+  response: {
+    clientDataJSON: bytes(4, 5),
+    authenticatorData: bytes(9),
+    signature: bytes(250, 251, 252, 253),
+    userHandle: null,
+  },
+  getClientExtensionResults: () => ({}),
+});
+
+const authenticator = (result: () => Promise<unknown>): jest.Mocked<WebAuthnCredentials> => ({
+  create: jest.fn(result) as jest.Mocked<WebAuthnCredentials>['create'],
+  get: jest.fn(result) as jest.Mocked<WebAuthnCredentials>['get'],
+});
+
+describe('WebAuthn utilities', () => {
+  describe('base64url', () => {
+    it('should round-trip bytes without padding or URL-unsafe characters', () => {
+      const buffer = bytes(250, 251, 252, 253, 254, 255);
+      const encoded = bufferToBase64Url(buffer);
+
+      expect(encoded).toBe('-vv8_f7_');
+      expect(new Uint8Array(base64UrlToBuffer(encoded))).toEqual(new Uint8Array(buffer));
+    });
+
+    it('should accept standard padded base64 and typed array views', () => {
+      expect(new Uint8Array(base64UrlToBuffer('AQ=='))).toEqual(new Uint8Array([1]));
+      expect(bufferToBase64Url(new Uint8Array([0, 1, 2, 3]).subarray(1))).toBe('AQID');
+    });
+  });
+
+  describe('option conversion', () => {
+    it('should decode the binary fields of creation options', () => {
+      const options = toCreationOptions({
+        challenge: 'AQID',
+        rp: { name: 'Ease' },
+        user: { id: 'BAU', name: 'user', displayName: 'User' },
+        pubKeyCredParams: [{ type: 'public-key', alg: -7 }],
+        excludeCredentials: [{ type: 'public-key', id: 'Bg' }],
+      });
+
+      expect(new Uint8Array(options.challenge as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]));
+      expect(new Uint8Array(options.user.id as ArrayBuffer)).toEqual(new Uint8Array([4, 5]));
+      expect(new Uint8Array(options.excludeCredentials![0].id as ArrayBuffer)).toEqual(new Uint8Array([6]));
+      expect(options.rp).toEqual({ name: 'Ease' });
+    });
+
+    it('should decode the binary fields of request options and keep buffers as they are', () => {
+      const challenge = bytes(1);
+      const options = toRequestOptions({
+        challenge,
+        allowCredentials: [{ type: 'public-key', id: 'Bg', transports: ['internal'] }],
+        userVerification: 'required',
+      });
+
+      expect(options.challenge).toBe(challenge);
+      expect(options.allowCredentials![0].transports).toEqual(['internal']);
+      expect(options.userVerification).toBe('required');
+    });
+  });
+
+  describe('serializeCredential', () => {
+    it('should serialize an attestation', () => {
+      expect(serializeCredential(fakeAttestation() as unknown as PublicKeyCredential)).toEqual({
+        id: 'AQID',
+        rawId: 'AQID',
+        type: 'public-key',
+        response: { clientDataJSON: 'BAU', attestationObject: 'BgcI', transports: ['internal'] },
+        clientExtensionResults: { credProps: { rk: true } },
+      });
+    });
+
+    it('should serialize an assertion', () => {
+      expect(serializeCredential(fakeAssertion() as unknown as PublicKeyCredential).response).toEqual({
+        clientDataJSON: 'BAU',
+        authenticatorData: 'CQ',
+        signature: '-vv8_Q',
+        userHandle: null,
+      });
+    });
+  });
+
+  describe('ceremonies', () => {
+    it('should pass decoded options and the abort signal to the credentials container', async () => {
+      const credentials = authenticator(async () => fakeAssertion());
+      const controller = new AbortController();
+
+      const credential = await getCredential({ challenge: 'AQID' }, { credentials, signal: controller.signal });
+
+      expect(credential.id).toBe('AQID');
+      const [request] = credentials.get.mock.calls[0];
+      expect(request!.signal).toBe(controller.signal);
+      expect(new Uint8Array(request!.publicKey!.challenge as ArrayBuffer)).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    it('should map NotAllowedError to USER_CANCELLED', async () => {
+      const credentials = authenticator(async () => {
+        throw new DOMException('The operation either timed out or was not allowed.', 'NotAllowedError');
+      });
+
+      const error = await getCredential({ challenge: 'AQID' }, { credentials }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebAuthnError);
+      expect(error.code).toBe(ErrorCode.USER_CANCELLED);
+    });
+
+    it.each([
+      ['SecurityError', 'create', ErrorCode.WEBAUTHN_SECURITY_ERROR],
+      ['SecurityError', 'get', ErrorCode.WEBAUTHN_SECURITY_ERROR],
+      ['InvalidStateError', 'create', ErrorCode.PASSKEY_ALREADY_REGISTERED],
+      ['InvalidStateError', 'get', ErrorCode.PASSKEY_AUTHENTICATION_FAILED],
+      ['NotSupportedError', 'create', ErrorCode.WEBAUTHN_NOT_SUPPORTED],
+      ['UnknownError', 'get', ErrorCode.WEBAUTHN_NOT_SUPPORTED],
+    ])('should map %s during %s to %s', async (name, operation, code) => {
+      const credentials = authenticator(async () => {
+        throw new DOMException('The operation failed.', name);
+      });
+      const ceremony =
+        operation === 'create'
+          ? createCredential(
+              {
+                challenge: 'AQID',
+                rp: { name: 'Ease' },
+                user: { id: 'AQ', name: 'u', displayName: 'U' },
+                pubKeyCredParams: [],
+              },
+              { credentials },
+            )
+          : getCredential({ challenge: 'AQID' }, { credentials });
+
+      const error = await ceremony.catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebAuthnError);
+      expect(error.code).toBe(code);
+      expect(error.context).toEqual({ operation, name });
+    });
+
+    it('should treat an empty result as a cancellation', async () => {
+      const credentials = authenticator(async () => null);
+
+      await expect(getCredential({ challenge: 'AQID' }, { credentials })).rejects.toMatchObject({
+        code: ErrorCode.USER_CANCELLED,
+      });
+    });
+
+    it('should fail with WEBAUTHN_NOT_SUPPORTED when no credentials container is available', async () => {
+      await expect(getCredential({ challenge: 'AQID' })).rejects.toMatchObject({
+        code: ErrorCode.WEBAUTHN_NOT_SUPPORTED,
+      });
+    });
+  });
+
+  describe('isConditionalMediationAvailable', () => {
+    it('should report the browser capability', async () => {
+      await expect(
+        isConditionalMediationAvailable({ isConditionalMediationAvailable: async () => true }),
+      ).resolves.toBe(true);
+    });
+
+    it('should be false when the check is missing or fails', async () => {
+      await expect(isConditionalMediationAvailable()).resolves.toBe(false);
+      await expect(isConditionalMediationAvailable({})).resolves.toBe(false);
+      await expect(
+        isConditionalMediationAvailable({
+          isConditionalMediationAvailable: async () => {
+            throw new Error('boom');
+          },
+        }),
+      ).resolves.toBe(false);
+    });
+  });
+});
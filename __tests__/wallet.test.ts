@@ -150,21 +150,39 @@ describe('wallet', () => {
       mockFetchExternalBlockchainData.mockResolvedValueOnce('10.0000');
       const balance = await getWalletBalance('EASE', 'testAddress');
       expect(balance).toBe('10.0000');
-      expect(mockFetchExternalBlockchainData).toHaveBeenCalledWith('EASE', 'testAddress', 'balance');
+      expect(mockFetchExternalBlockchainData).toHaveBeenCalledWith(
+        'EASE',
+        'testAddress',
+        'balance',
+        undefined,
+        undefined,
+      );
     });
 
     it('should get BTC wallet balance', async () => {
       mockFetchExternalBlockchainData.mockResolvedValueOnce('1.00000000');
       const balance = await getWalletBalance('BTC', 'testAddress');
       expect(balance).toBe('1.00000000');
-      expect(mockFetchExternalBlockchainData).toHaveBeenCalledWith('BTC', 'testAddress', 'balance');
+      expect(mockFetchExternalBlockchainData).toHaveBeenCalledWith(
+        'BTC',
+        'testAddress',
+        'balance',
+        undefined,
+        undefined,
+      );
     });
 
     it('should get ETH wallet balance', async () => {
       mockFetchExternalBlockchainData.mockResolvedValueOnce('1.00000000');
       const balance = await getWalletBalance('ETH', 'testAddress');
       expect(balance).toBe('1.00000000');
-      expect(mockFetchExternalBlockchainData).toHaveBeenCalledWith('ETH', 'testAddress', 'balance');
+      expect(mockFetchExternalBlockchainData).toHaveBeenCalledWith(
+        'ETH',
+        'testAddress',
+        'balance',
+        undefined,
+        undefined,
+      );
     });
 
     it('should throw NetworkError on API failure for getWalletBalance', async () => {
@@ -205,7 +223,13 @@ describe('wallet', () => {
         { id: 'ease_trx1', type: 'in', amount: '5.0000', explorerURL: '' },
         { id: 'ease_trx2', type: 'out', amount: '2.0000', explorerURL: '' },
       ]);
-      expect(mockFetchExternalBlockchainData).toHaveBeenCalledWith('EASE', 'testAddress', 'history');
+      expect(mockFetchExternalBlockchainData).toHaveBeenCalledWith(
+        'EASE',
+        'testAddress',
+        'history',
+        undefined,
+        undefined,
+      );
     });
 
     it('should get BTC wallet history', async () => {
@@ -218,7 +242,13 @@ describe('wallet', () => {
         { id: 'btc_trx1', type: 'in', amount: '1.00000000', explorerURL: 'https://mempool.space/tx/btc_trx1' },
         { id: 'btc_trx2', type: 'out', amount: '0.50000000', explorerURL: 'https://mempool.space/tx/btc_trx2' },
       ]);
-      expect(mockFetchExternalBlockchainData).toHaveBeenCalledWith('BTC', 'testAddress', 'history');
+      expect(mockFetchExternalBlockchainData).toHaveBeenCalledWith(
+        'BTC',
+        'testAddress',
+        'history',
+        undefined,
+        undefined,
+      );
     });
 
     it('should get ETH wallet history', async () => {
@@ -231,7 +261,13 @@ describe('wallet', () => {
         { id: 'eth_trx1', type: 'in', amount: '2.00000000', explorerURL: 'https://etherscan.io/tx/eth_trx1' },
         { id: 'eth_trx2', type: 'out', amount: '1.00000000', explorerURL: 'https://etherscan.io/tx/eth_trx2' },
       ]);
-      expect(mockFetchExternalBlockchainData).toHaveBeenCalledWith('ETH', 'testAddress', 'history');
+      expect(mockFetchExternalBlockchainData).toHaveBeenCalledWith(
+        'ETH',
+        'testAddress',
+        'history',
+        undefined,
+        undefined,
+      );
     });
 
     it('should throw NetworkError on API failure for getWalletHistory', async () => {
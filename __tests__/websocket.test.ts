@@ -0,0 +1,90 @@
+import { TransportRequest, TransportResponse } from '../src/api/transport';
+import { createEaseClient } from '../src/client';
+import { LogLevel } from '../src/utils/logger';
+
+const jsonResponse = (status: number, data: unknown): TransportResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  headers: new Headers(),
+  json: async () => data,
+});
+
+class FakeWebSocket extends EventTarget {
+  static instances: FakeWebSocket[] = [];
+
+  constructor(readonly url: string) {
+    super();
+    FakeWebSocket.instances.push(this);
+    setTimeout(() => this.dispatchEvent(new Event('open')), 0);
+  }
+
+  close() {
+    this.dispatchEvent(new Event('close'));
+  }
+}
+
+const originalWebSocket = global.WebSocket;
+const tick = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('connectToWebSocket', () => {
+  const handlers = { onMessage: jest.fn(), onError: jest.fn(), onOpen: jest.fn() };
+
+  const setup = (config = {}) => {
+    const send = jest.fn(async (request: TransportRequest) =>
+      jsonResponse(200, { token: `ws-${request.headers.Authorization.replace('Bearer ', '')}` }),
+    );
+    return createEaseClient({ logLevel: LogLevel.SILENT, transport: { send }, ...config });
+  };
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    global.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+  });
+
+  afterEach(() => {
+    global.WebSocket = originalWebSocket;
+  });
+
+  it('should reconnect with the access token the session refreshed', async () => {
+    const client = setup();
+    await client.session.set({ accessToken: 'access-token-1', refreshToken: 'refresh-token-1' });
+
+    const ws = await client.websocket.connectToWebSocket('access-token-1', handlers, { initialDelay: 1 });
+    await client.session.set({ accessToken: 'access-token-2', refreshToken: 'refresh-token-2' });
+    FakeWebSocket.instances[0].dispatchEvent(new Event('close')); // dropped by the server
+    await tick(10);
+
+    expect(FakeWebSocket.instances.map(({ url }) => url)).toEqual([
+      'wss://staging.ws.ease.tech?token=ws-access-token-1',
+      'wss://staging.ws.ease.tech?token=ws-access-token-2',
+    ]);
+    ws.close();
+  });
+
+  it('should keep the token it was given when it is not the session one', async () => {
+    const client = setup();
+    await client.session.set({ accessToken: 'access-token-1', refreshToken: 'refresh-token-1' });
+
+    const ws = await client.websocket.connectToWebSocket('other-access-token', handlers, { initialDelay: 1 });
+    await client.session.set({ accessToken: 'access-token-2', refreshToken: 'refresh-token-2' });
+    FakeWebSocket.instances[0].dispatchEvent(new Event('close'));
+    await tick(10);
+
+    expect(FakeWebSocket.instances[1].url).toContain('token=ws-other-access-token');
+    ws.close();
+  });
+
+  it('should connect to the WebSocket URL of the client environment', async () => {
+    const production = setup({ environment: 'production' });
+    const local = setup({ urls: { EASE_WEBSOCKET: 'ws://localhost:8081' } });
+
+    (await production.websocket.connectToWebSocket('access-token-1', handlers)).close();
+    (await local.websocket.connectToWebSocket('access-token-1', handlers)).close();
+
+    expect(FakeWebSocket.instances.map(({ url }) => url.split('?')[0])).toEqual([
+      'wss://staging.ws.ease.tech',
+      'ws://localhost:8081',
+    ]);
+  });
+});
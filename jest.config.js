@@ -12,6 +12,7 @@ module.exports = {
     '!src/**/*.spec.ts',
   ],
   modulePathIgnorePatterns: ['<rootDir>/src/.*\\.js$'], // Ignore JS files in src
+  moduleFileExtensions: ['ts', 'js', 'json', 'node'], // Resolve TS sources before stale JS artifacts in src
   transform: {
     '^.+\\.ts$': 'ts-jest',
     '^.+\\.js$': 'babel-jest',
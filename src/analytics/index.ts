@@ -1,7 +1,5 @@
-import { getEnvironment } from '../utils/environment';
-import { getUrl } from '../utils/urls';
-import { logger } from '../utils/logger';
-import { getAppName } from '../config';
+import { Logger } from '../utils/logger';
+import { EaseClient, resolveClient } from '../client';
 
 export interface LogEventBody {
   id?: string;
@@ -16,6 +14,7 @@ export interface LogEventBody {
 }
 
 async function sendLogRequest(
+  logger: Logger,
   url: string,
   body: LogEventBody | LogEventBody[],
   failedLogMessage: string,
@@ -39,6 +38,7 @@ async function sendLogRequest(
 }
 
 export async function logEvent(
+  this: EaseClient | void,
   message: string,
   level: 'info' | 'warn' | 'error' | 'debug' = 'info',
   context: Record<string, any> = {},
@@ -46,16 +46,20 @@ export async function logEvent(
   ipAddress?: string,
   userAgent?: string,
 ) {
+  const client = resolveClient(this);
+  const { logger } = client;
+
   try {
-    const url = getUrl('API_LOGGING');
-    const environment = getEnvironment();
+    const url = client.getUrl('API_LOGGING');
+    const environment = client.getEnvironment();
     const timestamp = new Date().toISOString();
-    const appName = getAppName();
+    const appName = client.getAppName();
 
+    const redactor = logger.getRedactor();
     const body: LogEventBody = {
-      message,
+      message: redactor.redact(message),
       level,
-      context: { ...context, appName },
+      context: redactor.redact({ ...context, appName }),
       environment,
       deviceId,
       timestamp,
@@ -63,13 +67,14 @@ export async function logEvent(
       ...(userAgent && { user_agent: userAgent }),
     };
 
-    await sendLogRequest(url, body, 'Failed to log event', 'Error in logEvent');
+    await sendLogRequest(logger, url, body, 'Failed to log event', 'Error in logEvent');
   } catch (error) {
     logger.error('Error in logEvent', error);
   }
 }
 
 export async function logEvents(
+  this: EaseClient | void,
   events: {
     message: string;
     level?: 'info' | 'warn' | 'error' | 'debug';
@@ -79,20 +84,25 @@ export async function logEvents(
     user_agent?: string;
   }[],
 ) {
+  const client = resolveClient(this);
+  const { logger } = client;
+
   try {
-    const url = getUrl('API_LOGGING');
-    const environment = getEnvironment();
+    const url = client.getUrl('API_LOGGING');
+    const environment = client.getEnvironment();
     const timestamp = new Date().toISOString();
 
+    const redactor = logger.getRedactor();
     const body: LogEventBody[] = events.map((event) => ({
       ...event,
+      message: redactor.redact(event.message),
       level: event.level ?? 'info',
       environment,
       timestamp,
-      context: event.context ?? {}, // Ensure context is always defined
+      context: redactor.redact(event.context ?? {}), // Ensure context is always defined
     }));
 
-    await sendLogRequest(url, body, 'Failed to log events', 'Error in logEvents');
+    await sendLogRequest(logger, url, body, 'Failed to log events', 'Error in logEvents');
   } catch (error) {
     logger.error('Error in logEvents', error);
   }
@@ -1,14 +1,29 @@
-import { getUrl } from '../utils/urls';
-import { internalApi, ApiResponse } from './index';
+import { ApiResponse, RequestOptions } from './index';
 import { EaseSDKError, ErrorCode, handleUnknownError } from '../utils/errors';
-import { logger } from '../utils/logger';
+import { EaseClient, resolveClient } from '../client';
 import { Transaction } from '../utils/type';
+import { getChain } from '../chains';
 
 export async function fetchExternalBlockchainData<T>(
+  this: EaseClient | void,
   coin: string,
   address: string,
   action: 'balance' | 'history',
+  chainID?: string,
+  options?: RequestOptions,
 ): Promise<T> {
+  const client = resolveClient(this);
+  const { api, logger } = client;
+
+  // Failed lookups read as an empty balance or history, but a cancelled one must not
+  const request = async (url: string, method: 'GET' | 'POST', body: any): Promise<ApiResponse<any>> => {
+    const response = await api(url, method, body, undefined, false, true, options);
+    if (response.errorDetails?.code === ErrorCode.REQUEST_ABORTED) {
+      throw response.errorDetails;
+    }
+    return response;
+  };
+
   try {
     logger.debug(`Fetching external blockchain data for ${coin}, address: ${address}, action: ${action}`);
     let url: string;
@@ -17,16 +32,17 @@ export async function fetchExternalBlockchainData<T>(
     let response: ApiResponse<any>;
 
     switch (coin.toUpperCase()) {
-      case 'EASE':
+      case 'EASE': {
+        const chain = getChain.call(client, chainID);
         if (action === 'balance') {
-          url = `${getUrl('EASE_CHAIN_API')}/v1/chain/get_currency_balance`;
+          url = `${chain.apiURL}/v1/chain/get_currency_balance`;
           method = 'POST';
           body = {
             account: address,
             code: 'eosio.token',
-            symbol: 'EASE',
+            symbol: chain.tokenSymbol,
           };
-          response = await internalApi(url, method, body, undefined, false, true);
+          response = await request(url, method, body);
           if (!response.success || !Array.isArray(response.data) || response.data.length === 0) {
             logger.warn(`EASE balance API returned empty or non-array result for address: ${address}.`, {
               data: response.data,
@@ -37,8 +53,8 @@ export async function fetchExternalBlockchainData<T>(
 
           return balance as T;
         } else if (action === 'history') {
-          url = `${getUrl('EASE_CHAIN_API')}/v2/history/get_actions`;
-          response = await internalApi(url, method, body, undefined, false, true);
+          url = `${chain.apiURL}/v2/history/get_actions`;
+          response = await request(url, method, body);
 
           if (!response.success || !Array.isArray(response.data.actions)) {
             logger.warn(`EASE history API returned invalid data structure for address: ${address}.`, {
@@ -50,7 +66,9 @@ export async function fetchExternalBlockchainData<T>(
           return response.data.actions
             .filter(
               (a: any) =>
-                a.act?.account === 'eosio.token' && a.act?.name === 'transfer' && a.act?.data?.symbol === 'EASE',
+                a.act?.account === 'eosio.token' &&
+                a.act?.name === 'transfer' &&
+                a.act?.data?.symbol === chain.tokenSymbol,
             )
             .map((action: any) => {
               const { to, quantity } = action.act.data;
@@ -59,15 +77,16 @@ export async function fetchExternalBlockchainData<T>(
                 id: action.trx_id,
                 type,
                 amount: quantity.split(' ')[0],
-                explorerURL: '',
+                explorerURL: chain.explorerURL ? `${chain.explorerURL}/tx/${action.trx_id}` : '',
               } satisfies Transaction;
             });
         }
         break;
+      }
       case 'BTC':
         if (action === 'balance') {
-          url = `${getUrl('MEMPOOL_SPACE')}/api/address/${address}`;
-          response = await internalApi(url, method, body, undefined, false, true);
+          url = `${client.getUrl('MEMPOOL_SPACE')}/api/address/${address}`;
+          response = await request(url, method, body);
           if (!response.success || !response.data || typeof response.data.chain_stats !== 'object') {
             logger.warn(`BTC balance API returned invalid data structure for address: ${address}.`, {
               data: response.data,
@@ -77,8 +96,8 @@ export async function fetchExternalBlockchainData<T>(
           const sats = response.data.chain_stats.funded_txo_sum - response.data.chain_stats.spent_txo_sum;
           return (sats / 1e8).toFixed(8) as T;
         } else if (action === 'history') {
-          url = `${getUrl('MEMPOOL_SPACE')}/api/address/${address}/txs`;
-          response = await internalApi(url, method, body, undefined, false, true);
+          url = `${client.getUrl('MEMPOOL_SPACE')}/api/address/${address}/txs`;
+          response = await request(url, method, body);
           if (!response.success || !Array.isArray(response.data)) {
             logger.warn(`BTC history API returned invalid data structure for address: ${address}.`, {
               data: response.data,
@@ -95,7 +114,7 @@ export async function fetchExternalBlockchainData<T>(
               id: tx.txid,
               type: isIncoming ? 'in' : 'out',
               amount: (amountSats / 1e8).toFixed(8),
-              explorerURL: `${getUrl('MEMPOOL_SPACE')}/tx/${tx.txid}`,
+              explorerURL: `${client.getUrl('MEMPOOL_SPACE')}/tx/${tx.txid}`,
             };
           }) as T;
         }
@@ -103,8 +122,8 @@ export async function fetchExternalBlockchainData<T>(
 
       case 'ETH':
         if (action === 'balance') {
-          url = `${getUrl('ETHERSCAN_PROXY')}/api/balance?address=${address}`;
-          response = await internalApi(url, method, body, undefined, false, true);
+          url = `${client.getUrl('ETHERSCAN_PROXY')}/api/balance?address=${address}`;
+          response = await request(url, method, body);
           logger.debug(`ETH balance API response for address ${coin}:`, JSON.stringify(response));
           if (!response.success || typeof response.data?.result === 'undefined') {
             logger.warn(`ETH balance API returned invalid data structure for address: ${address}.`, {
@@ -114,8 +133,8 @@ export async function fetchExternalBlockchainData<T>(
           }
           return (Number(response.data.result) / 1e18).toFixed(8) as T;
         } else if (action === 'history') {
-          url = `${getUrl('ETHERSCAN_PROXY')}/api/history?address=${address}`;
-          response = await internalApi(url, method, body, undefined, false, true);
+          url = `${client.getUrl('ETHERSCAN_PROXY')}/api/history?address=${address}`;
+          response = await request(url, method, body);
           if (!response.success || !Array.isArray(response.data?.result)) {
             logger.warn(`Etherscan API returned non-array result for transaction history for address: ${address}.`, {
               data: response.data,
@@ -128,7 +147,7 @@ export async function fetchExternalBlockchainData<T>(
               id: tx.hash,
               type,
               amount: (Number(tx.value) / 1e18).toFixed(8),
-              explorerURL: `${getUrl('SEPOLIA_ETHERSCAN')}/tx/${tx.hash}`,
+              explorerURL: `${client.getUrl('SEPOLIA_ETHERSCAN')}/tx/${tx.hash}`,
             };
           }) as T;
         }
@@ -142,6 +161,6 @@ export async function fetchExternalBlockchainData<T>(
       message: `Unsupported action for coin ${coin}: ${action}`,
     });
   } catch (error: unknown) {
-    throw handleUnknownError(error, { coin, address, action, operation: 'fetchExternalBlockchainData' });
+    throw handleUnknownError(error, { coin, address, action, chainID, operation: 'fetchExternalBlockchainData' });
   }
 }
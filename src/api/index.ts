@@ -1,11 +1,13 @@
 // api.ts
-import { getUrl } from '../utils/urls';
-import { logger } from '../utils/logger';
-import { NetworkError, createErrorFromAPIResponse, handleUnknownError } from '../utils/errors';
-import type { EaseSDKError } from '../utils/errors';
-import { getAppName } from '../config';
-import { _notify } from '../core/telemetry';
+import { EaseSDKError, ErrorCode, NetworkError, createErrorFromAPIResponse, handleUnknownError } from '../utils/errors';
+import { parseRetryAfter, retry, RetryOptions } from '../utils/retry';
 import { randomUUID } from '../core/randomId';
+import type { CacheMode } from '../core/cache';
+import type { CircuitOutcome } from '../core/circuitBreaker';
+import { resolveClient } from '../client';
+import type { EaseClient } from '../client';
+import type { HttpMethod, TransportRequest } from './transport';
+import type { ApiRequest } from '../core/middleware';
 
 // ⬇️ if your SDK exposes logEvents in a different path, adjust this import
 import { logEvents } from '../analytics';
@@ -19,7 +21,49 @@ export type ApiResponse<T> = {
   headers?: Headers;
 };
 
-type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
+/**
+ * Per-call options, accepted as the last argument of every function that sends requests.
+ *
+ * @example
+ * const controller = new AbortController();
+ * await getWalletBalance('BTC', address, undefined, { signal: controller.signal, timeoutMs: 10000, retry: {} });
+ */
+export type RequestOptions = {
+  /** Cancels the call, e.g. when the user navigates away. Cancelled calls fail with `REQUEST_ABORTED`. */
+  signal?: AbortSignal;
+  /** How long each attempt may take before it fails with a timeout. Defaults to 5000 ms. */
+  timeoutMs?: number;
+  /**
+   * Retries attempts that time out, fail to connect or get a 429, 408 or temporary 5xx response, honouring
+   * `Retry-After`. Off by default. Requests that are not idempotent are only retried with an `Idempotency-Key`.
+   */
+  retry?: RetryOptions;
+  /**
+   * Sent as the `Idempotency-Key` header, so the server can recognize a retried write. Mutating calls to the EASE
+   * services get a random key when none is given. Pass your own to keep it across calls, e.g. when the user retries.
+   */
+  idempotencyKey?: string;
+  /**
+   * How to use the response cache of the client: `'reload'` skips cached responses, e.g. for pull-to-refresh, and
+   * `'no-store'` neither reads nor writes them. Defaults to `'default'`. See `configure({ cache })`.
+   */
+  cache?: CacheMode;
+};
+
+export const DEFAULT_TIMEOUT_MS = 5000;
+
+// Only failures that say the service itself is unhealthy count against its circuit. 4xx responses mean it is up.
+const circuitOutcomeOf = (response: ApiResponse<unknown> | undefined): CircuitOutcome => {
+  const code = response?.errorDetails?.code;
+  if (!response || code === ErrorCode.REQUEST_ABORTED) return 'cancelled';
+  if (response.success) return 'success';
+  return code === ErrorCode.NETWORK_ERROR || (response.statusCode ?? 0) >= 500 ? 'failure' : 'success';
+};
+
+const MUTATING_METHODS = new Set<HttpMethod>(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+// Sending these twice has the same effect as sending them once
+const IDEMPOTENT_METHODS = new Set<HttpMethod>(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
 
 /* -------------------------- helpers & utilities -------------------------- */
 
@@ -63,8 +107,8 @@ const serviceFrom = (fullUrl: string, fromEnclave: boolean, isAbsoluteUrl: boole
   return 'EXTERNAL';
 };
 
-function resolveRequestMeta(rawUrl: string, fromEnclave: boolean, isAbsoluteUrl: boolean) {
-  const baseUrl = fromEnclave ? getUrl('EASE_RELAY') : getUrl('EASE_API');
+function resolveRequestMeta(client: EaseClient, rawUrl: string, fromEnclave: boolean, isAbsoluteUrl: boolean) {
+  const baseUrl = fromEnclave ? client.getUrl('EASE_RELAY') : client.getUrl('EASE_API');
   const fullUrl = isAbsoluteUrl ? rawUrl : joinBaseAndPath(baseUrl, rawUrl);
   const origin: 'internal' | 'external' = isAbsoluteUrl && !fullUrl.includes(baseUrl) ? 'external' : 'internal';
   const service = serviceFrom(fullUrl, fromEnclave, isAbsoluteUrl);
@@ -76,33 +120,35 @@ function resolveRequestMeta(rawUrl: string, fromEnclave: boolean, isAbsoluteUrl:
 const ANALYTICS_HINTS = ['/analytics', '/events', '/logs'];
 const shouldSkipAnalyticsEvent = (url: string) => ANALYTICS_HINTS.some((h) => url.includes(h));
 
-async function emitLogEvent(kind: 'request' | 'response' | 'error', payload: Record<string, unknown>) {
+async function emitLogEvent(
+  client: EaseClient,
+  kind: 'request' | 'response' | 'error',
+  payload: Record<string, unknown>,
+) {
   try {
     const url = String(payload.url ?? '');
     if (shouldSkipAnalyticsEvent(url)) return; // recursion guard
-    await logEvents([{ message: `transport.${kind}`, context: payload }]);
+
+    // Request bodies are reduced to the fields the endpoint's allowlist names, if it has one
+    const redactor = client.logger.getRedactor();
+    const { body, ...rest } = payload;
+    const context = redactor.redact(rest);
+    if ('body' in payload) {
+      context.body = redactor.redactBody(body, String(payload.path ?? ''));
+    }
+    await logEvents.call(client, [{ message: `transport.${kind}`, context }]);
   } catch {
     // never throw from telemetry
   }
 }
 
-function makeRequestInit(
-  method: HttpMethod,
-  headers: Record<string, string> | undefined,
-  body: unknown,
-  signal: AbortSignal,
-) {
-  const requestHeaders: Record<string, string> = {
-    'Content-Type': 'application/json',
-    ...headers,
-  };
-
-  const init: RequestInit = { method, headers: requestHeaders, signal };
+function makeTransportRequest({ url, method, headers, body }: ApiRequest, signal: AbortSignal) {
+  const request: TransportRequest = { url, method, headers, signal };
 
   let bodySize: number | undefined;
   if (body !== null && body !== undefined && method !== 'GET' && method !== 'HEAD') {
     const bodyString = JSON.stringify(body);
-    init.body = bodyString;
+    request.body = bodyString;
     try {
       bodySize =
         typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(bodyString).byteLength : bodyString.length;
@@ -110,82 +156,191 @@ function makeRequestInit(
       bodySize = bodyString.length;
     }
   }
-  return { init, requestHeaders, bodySize };
+  return { request, bodySize };
 }
 
 /* ------------------------------ main request ----------------------------- */
 
 export async function internalApi<T, B = any>(
+  this: EaseClient | void,
   url: string,
   method: HttpMethod,
   body: B = null as B,
   headers: Record<string, string> | undefined = undefined,
   fromEnclave: boolean = false,
   isAbsoluteUrl: boolean = false,
-  timeout: number = 5000,
+  options: RequestOptions = {},
 ): Promise<ApiResponse<T>> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const client = resolveClient(this);
+  const { logger, telemetry } = client;
+  const { _notify } = telemetry;
+  const { signal, timeoutMs: timeout = DEFAULT_TIMEOUT_MS, idempotencyKey } = options;
 
   const requestId = randomUUID();
   const startPerf = now();
 
   // Resolve all URL/service metadata once (reused in all paths)
-  const { fullUrl, origin, service, path } = resolveRequestMeta(url, fromEnclave, isAbsoluteUrl);
+  const meta = resolveRequestMeta(client, url, fromEnclave, isAbsoluteUrl);
+
+  const apiRequest: ApiRequest = {
+    requestId,
+    url: meta.fullUrl,
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    origin: meta.origin,
+    service: meta.service,
+    client,
+  };
 
-  try {
-    const { init, requestHeaders, bodySize } = makeRequestInit(method, headers, body, controller.signal);
+  // Add correlation header only for internal services
+  if (meta.origin === 'internal') {
+    apiRequest.headers['x-client-request-id'] = requestId;
+  }
+  // Third-party services get no key they would not know what to do with
+  const key = idempotencyKey ?? (meta.origin === 'internal' && MUTATING_METHODS.has(method) ? randomUUID() : undefined);
+  if (key) {
+    apiRequest.headers['Idempotency-Key'] = key;
+  }
 
-    // Add correlation header only for internal services
-    if (origin === 'internal') {
-      requestHeaders['x-client-request-id'] = requestId;
-    }
-    const appName = getAppName();
-    // REQUEST: notify + log
-    const requestCtx = {
-      appName,
-      requestId,
-      method,
-      url: fullUrl,
-      path,
-      startTs: Date.now(),
-      headers: headersToRecord(requestHeaders),
-      bodySize,
-      origin,
-      service,
-      timeoutMs: timeout,
-    };
-    _notify.request(requestCtx);
-    logger.debug('Request', requestCtx);
-    emitLogEvent('request', { ...requestCtx, body }); // fire-and-forget
+  // Sends the (possibly rewritten) request once and maps the outcome. Each attempt gets its own timeout.
+  const attempt = async (request: ApiRequest, controller: AbortController): Promise<ApiResponse<T>> => {
+    const { url: fullUrl, origin, service } = request;
+    const path = toPath(fullUrl);
 
-    // Fetch
-    const response = await fetch(fullUrl, init);
-    const durationMs = Math.round(now() - startPerf);
+    try {
+      if (signal?.aborted) {
+        throw signal.reason ?? new DOMException('The operation was aborted', 'AbortError');
+      }
+      const { request: transportRequest, bodySize } = makeTransportRequest(request, controller.signal);
 
-    logger.debug(`Response ok: ${response.ok} status: ${response.status} for ${fullUrl}`);
+      const appName = client.getAppName();
+      // REQUEST: notify + log
+      const requestCtx = {
+        appName,
+        requestId,
+        method: request.method,
+        url: fullUrl,
+        path,
+        startTs: Date.now(),
+        headers: headersToRecord(request.headers),
+        bodySize,
+        origin,
+        service,
+        timeoutMs: timeout,
+      };
+      _notify.request(requestCtx);
+      logger.debug('Request', requestCtx);
+      emitLogEvent(client, 'request', { ...requestCtx, body: request.body }); // fire-and-forget
+
+      // Send through the client's transport (fetch unless configured otherwise)
+      const response = await client.getTransport().send(transportRequest);
+      const durationMs = Math.round(now() - startPerf);
+
+      logger.debug(`Response ok: ${response.ok} status: ${response.status} for ${fullUrl}`);
+
+      // Not modified: the response cache revalidated its copy with If-None-Match, and serves that
+      const notModified = response.status === 304 && !!request.headers['If-None-Match'];
+
+      // Non-OK → treat as error
+      if (!response.ok && !notModified) {
+        let errorData: any;
+        try {
+          errorData = await response.json();
+        } catch (jsonError) {
+          errorData = {
+            error: `HTTP ${response.status}: ${response.statusText}`,
+            statusCode: response.status,
+            parseError: String(jsonError),
+          };
+        }
+
+        const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+        const apiError = createErrorFromAPIResponse(response.status, errorData, {
+          url,
+          method,
+          headers,
+          ...(retryAfterMs !== undefined && { retryAfterMs }),
+        });
+
+        // ERROR: notify + log
+        const errorCtx = {
+          requestId,
+          url: fullUrl,
+          path,
+          status: response.status,
+          durationMs,
+          origin,
+          service,
+          error: {
+            name: apiError?.name ?? 'HttpError',
+            message: apiError?.message ?? `HTTP ${response.status}`,
+            details: errorData,
+          },
+          responseHeaders: headersToRecord(response.headers),
+        };
+        _notify.error({
+          requestId,
+          url: fullUrl,
+          path,
+          durationMs,
+          error: apiError ?? new Error(`HTTP ${response.status}`),
+          status: response.status,
+          origin,
+          service,
+        });
+        logger.error('Response error', errorCtx);
+        emitLogEvent(client, 'error', { ...errorCtx, body: request.body });
+
+        return {
+          success: false,
+          error: apiError.message,
+          statusCode: response.status,
+          errorDetails: apiError,
+          headers: response.headers,
+        };
+      }
 
-    // Non-OK → treat as error
-    if (!response.ok) {
-      let errorData: any;
+      // Try to parse JSON
+      let data: any;
       try {
-        errorData = await response.json();
+        data = notModified ? undefined : await response.json();
       } catch (jsonError) {
-        errorData = {
-          error: `HTTP ${response.status}: ${response.statusText}`,
-          statusCode: response.status,
-          parseError: String(jsonError),
+        const netErr = new NetworkError('Invalid JSON response from server', jsonError as Error, {
+          url,
+          method,
+          status: response.status,
+        });
+
+        const errorCtx = {
+          requestId,
+          url: fullUrl,
+          path,
+          status: response.status,
+          durationMs,
+          origin,
+          service,
+          error: { name: netErr.name, message: netErr.message },
+          responseHeaders: headersToRecord(response.headers),
         };
+        _notify.error({
+          requestId,
+          url: fullUrl,
+          path,
+          durationMs,
+          error: netErr,
+          status: response.status,
+          origin,
+          service,
+        });
+        logger.error('JSON parse error', errorCtx);
+        emitLogEvent(client, 'error', { ...errorCtx, body: request.body });
+
+        throw netErr;
       }
 
-      const apiError = createErrorFromAPIResponse(response.status, errorData, {
-        url,
-        method,
-        headers,
-      });
-
-      // ERROR: notify + log
-      const errorCtx = {
+      // RESPONSE (success): notify + log summary (no body)
+      const responseCtx = {
         requestId,
         url: fullUrl,
         path,
@@ -193,163 +348,208 @@ export async function internalApi<T, B = any>(
         durationMs,
         origin,
         service,
-        error: {
-          name: apiError?.name ?? 'HttpError',
-          message: apiError?.message ?? `HTTP ${response.status}`,
-          details: errorData,
-        },
         responseHeaders: headersToRecord(response.headers),
       };
-      _notify.error({
+      _notify.response({
         requestId,
         url: fullUrl,
         path,
-        durationMs,
-        error: apiError ?? new Error(`HTTP ${response.status}`),
         status: response.status,
+        durationMs,
+        headers: headersToRecord(response.headers),
         origin,
         service,
       });
-      logger.error('Response error', errorCtx);
-      emitLogEvent('error', { ...errorCtx, body });
+      logger.info('Response', responseCtx);
+      emitLogEvent(client, 'response', { ...responseCtx, body: request.body });
+
+      return { success: true, data, headers: response.headers, ...(notModified && { statusCode: response.status }) };
+    } catch (error: any) {
+      const durationMs = Math.round(now() - startPerf);
+
+      // Cancelled by the caller
+      if (signal?.aborted) {
+        const abortErr = new EaseSDKError({
+          code: ErrorCode.REQUEST_ABORTED,
+          message: 'Request aborted',
+          cause: error instanceof Error ? error : undefined,
+          context: { url, method },
+        });
+
+        _notify.error({
+          requestId,
+          url: fullUrl,
+          path,
+          durationMs,
+          error: abortErr,
+          origin,
+          service,
+        });
+        logger.debug('Request aborted', { requestId, url: fullUrl, path, durationMs });
+
+        return {
+          success: false,
+          error: 'Request aborted',
+          errorDetails: abortErr,
+        };
+      }
 
-      return {
-        success: false,
-        error: apiError.message,
-        statusCode: response.status,
-        errorDetails: apiError,
-      };
-    }
+      // Timeout
+      if (error?.name === 'AbortError' || controller.signal.aborted) {
+        const timeoutErr = new NetworkError('Request timed out', error, { url, method });
+
+        const errorCtx = {
+          requestId,
+          url: fullUrl,
+          path,
+          durationMs,
+          origin,
+          service,
+          error: { name: timeoutErr.name, message: timeoutErr.message },
+          timeoutMs: timeout,
+        };
+        _notify.error({
+          requestId,
+          url: fullUrl,
+          path,
+          durationMs,
+          error: timeoutErr,
+          origin,
+          service,
+        });
+        logger.error('Timeout error', errorCtx);
+        emitLogEvent(client, 'error', { ...errorCtx, body: request.body });
+
+        return {
+          success: false,
+          error: 'Request timed out',
+          errorDetails: timeoutErr,
+        };
+      }
 
-    // Try to parse JSON
-    let data: any;
-    try {
-      data = await response.json();
-    } catch (jsonError) {
-      const netErr = new NetworkError('Invalid JSON response from server', jsonError as Error, {
-        url,
-        method,
-        status: response.status,
-      });
+      // Generic network/unknown error
+      const networkError = handleUnknownError(error, { url, method });
 
       const errorCtx = {
         requestId,
         url: fullUrl,
         path,
-        status: response.status,
         durationMs,
         origin,
         service,
-        error: { name: netErr.name, message: netErr.message },
-        responseHeaders: headersToRecord(response.headers),
+        error: { name: networkError.name, message: networkError.message },
       };
       _notify.error({
         requestId,
         url: fullUrl,
         path,
         durationMs,
-        error: netErr,
-        status: response.status,
+        error: networkError,
         origin,
         service,
       });
-      logger.error('JSON parse error', errorCtx);
-      emitLogEvent('error', { ...errorCtx, body });
+      logger.error('Network error', errorCtx);
+      emitLogEvent(client, 'error', errorCtx);
 
-      throw netErr;
+      return {
+        success: false,
+        error: networkError.message,
+        errorDetails: networkError,
+      };
     }
+  };
 
-    // RESPONSE (success): notify + log summary (no body)
-    const responseCtx = {
-      requestId,
-      url: fullUrl,
-      path,
-      status: response.status,
-      durationMs,
-      origin,
-      service,
-      responseHeaders: headersToRecord(response.headers),
-    };
-    _notify.response({
+  // Fails fast while the service's circuit is open, instead of waiting for a service that keeps failing to time out
+  const rejectByCircuit = (request: ApiRequest): ApiResponse<T> => {
+    const { url: fullUrl, origin, service } = request;
+    const unavailableErr = new EaseSDKError({
+      code: ErrorCode.SERVICE_UNAVAILABLE,
+      message: `${service} is unavailable, its circuit is open`,
+      context: { url, method, service, retryAfterMs: client.circuitBreakers.retryAfterMs(service) },
+    });
+    _notify.error({
       requestId,
       url: fullUrl,
-      path,
-      status: response.status,
-      durationMs,
-      headers: headersToRecord(response.headers),
+      path: toPath(fullUrl),
+      durationMs: 0,
+      error: unavailableErr,
       origin,
       service,
     });
-    logger.info('Response', responseCtx);
-    emitLogEvent('response', { ...responseCtx, body });
-
-    return { success: true, data, headers: response.headers };
-  } catch (error: any) {
-    const durationMs = Math.round(now() - startPerf);
+    logger.debug('Circuit open, failing fast', { requestId, url: fullUrl, service });
 
-    // Timeout
-    if (error?.name === 'AbortError') {
-      const timeoutErr = new NetworkError('Request timed out', error, { url, method });
+    return { success: false, error: unavailableErr.message, errorDetails: unavailableErr };
+  };
 
-      const errorCtx = {
-        requestId,
-        url: fullUrl,
-        path,
-        durationMs,
-        origin,
-        service,
-        error: { name: timeoutErr.name, message: timeoutErr.message },
-        timeoutMs: timeout,
-      };
-      _notify.error({
-        requestId,
-        url: fullUrl,
-        path,
-        durationMs,
-        error: timeoutErr,
-        origin,
-        service,
-      });
-      logger.error('Timeout error', errorCtx);
-      emitLogEvent('error', { ...errorCtx, body });
+  const sendOnce = async (request: ApiRequest): Promise<ApiResponse<T>> => {
+    const { circuitBreakers } = client;
+    if (!signal?.aborted && !circuitBreakers.allow(request.service)) {
+      return rejectByCircuit(request);
+    }
 
-      return {
-        success: false,
-        error: 'Request timed out',
-        errorDetails: timeoutErr,
-      };
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    let response: ApiResponse<T> | undefined;
+    try {
+      response = await attempt(request, controller);
+      return response;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abort);
+      circuitBreakers.record(request.service, circuitOutcomeOf(response));
     }
+  };
 
-    // Generic network/unknown error
-    const networkError = handleUnknownError(error, { url, method });
+  // Innermost handler of the middleware chain, which retries failed attempts if the caller asked for it and repeating
+  // the request is safe
+  const send = async (request: ApiRequest): Promise<ApiResponse<T>> => {
+    if (!options.retry) {
+      return sendOnce(request);
+    }
+    if (!IDEMPOTENT_METHODS.has(request.method) && !request.headers['Idempotency-Key']) {
+      logger.debug('Not retrying a non-idempotent request without an Idempotency-Key', { requestId, method });
+      return sendOnce(request);
+    }
+    let last: ApiResponse<T> | undefined;
+    try {
+      return await retry(
+        async () => {
+          last = await sendOnce(request);
+          if (!last.success && last.errorDetails?.code !== ErrorCode.REQUEST_ABORTED) {
+            throw last.errorDetails; // retry() decides from the error whether to try again
+          }
+          return last;
+        },
+        { ...options.retry, signal },
+        logger,
+      );
+    } catch (error) {
+      if (signal?.aborted) {
+        return sendOnce(request); // cancelled while waiting to retry, which fails fast with REQUEST_ABORTED
+      }
+      return last ?? { success: false, error: String(error), errorDetails: handleUnknownError(error, { url, method }) };
+    }
+  };
 
-    const errorCtx = {
-      requestId,
-      url: fullUrl,
-      path,
-      durationMs,
-      origin,
-      service,
-      error: { name: networkError.name, message: networkError.message },
-    };
-    _notify.error({
+  try {
+    return await client.middleware.run(apiRequest, (request) =>
+      client.cache.run<T>(request, send, { mode: options.cache, signal }),
+    );
+  } catch (error: any) {
+    // A middleware threw instead of returning a response
+    const middlewareError = handleUnknownError(error, { url, method });
+    logger.error('Middleware error', {
       requestId,
-      url: fullUrl,
-      path,
-      durationMs,
-      error: networkError,
-      origin,
-      service,
+      url: meta.fullUrl,
+      error: { name: middlewareError.name, message: middlewareError.message },
     });
-    logger.error('Network error', errorCtx);
-    emitLogEvent('error', errorCtx);
 
     return {
       success: false,
-      error: networkError.message,
-      errorDetails: networkError,
+      error: middlewareError.message,
+      errorDetails: middlewareError,
     };
-  } finally {
-    clearTimeout(timeoutId);
   }
 }
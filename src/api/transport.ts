@@ -0,0 +1,100 @@
+import type { AxiosInstance } from 'axios';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
+
+/**
+ * A fully resolved request handed to a transport by `internalApi`.
+ */
+export interface TransportRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body?: string;
+  signal: AbortSignal;
+}
+
+/**
+ * The subset of the Fetch `Response` that `internalApi` relies on.
+ */
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Headers;
+  json(): Promise<any>;
+}
+
+/**
+ * Sends requests on behalf of `internalApi`.
+ *
+ * A transport must reject with an error named `AbortError` when the request signal aborts, and with a `TypeError`
+ * when the request never reached the server, mirroring `fetch`. Every other outcome, including non-2xx statuses,
+ * must resolve with a response.
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Creates a transport backed by the Fetch API.
+ *
+ * @param {typeof fetch} [fetchImpl] The fetch implementation to use. Defaults to the global `fetch`, resolved on every request.
+ * @returns {Transport} The fetch transport.
+ */
+export function createFetchTransport(fetchImpl?: typeof fetch): Transport {
+  return {
+    send({ url, method, headers, body, signal }) {
+      const doFetch = fetchImpl ?? globalThis.fetch;
+      return doFetch(url, { method, headers, body, signal });
+    },
+  };
+}
+
+/**
+ * Creates a transport backed by an axios instance.
+ *
+ * @param {AxiosInstance} instance The axios instance to send requests with, e.g. one configured with a proxy agent.
+ * @returns {Transport} The axios transport.
+ */
+export function createAxiosTransport(instance: AxiosInstance): Transport {
+  return {
+    async send({ url, method, headers, body, signal }) {
+      try {
+        const response = await instance.request({
+          url,
+          method,
+          headers,
+          data: body,
+          signal,
+          responseType: 'text',
+          transformResponse: (data: unknown) => data,
+          validateStatus: () => true,
+        });
+
+        const responseHeaders = new Headers();
+        Object.entries(response.headers ?? {}).forEach(([key, value]) => {
+          if (value !== undefined && value !== null) {
+            responseHeaders.set(key, Array.isArray(value) ? value.join(', ') : String(value));
+          }
+        });
+
+        return {
+          ok: response.status >= 200 && response.status < 300,
+          status: response.status,
+          statusText: response.statusText,
+          headers: responseHeaders,
+          json: async () => (typeof response.data === 'string' ? JSON.parse(response.data) : response.data),
+        };
+      } catch (error: any) {
+        if (error?.code === 'ERR_CANCELED' || signal.aborted) {
+          const abortError = new Error(error?.message || 'The operation was aborted');
+          abortError.name = 'AbortError';
+          throw abortError;
+        }
+        throw new TypeError(error?.message || 'Network request failed');
+      }
+    },
+  };
+}
+
+export const fetchTransport = createFetchTransport();
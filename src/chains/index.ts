@@ -0,0 +1,112 @@
+import { EaseClient, resolveClient } from '../client';
+import { ValidationError } from '../utils/errors';
+import { shared } from '../utils/shared';
+import { Environment } from '../utils/type';
+import { isProductionEnvironment } from '../utils/urls';
+
+/**
+ * @module chains
+ * @description The EASE chains a deployment can sign users up on and hold balances on.
+ */
+
+/**
+ * A chain users can be registered on.
+ *
+ * @example
+ * registerChain({
+ *   id: '0002',
+ *   name: 'EASE Partner',
+ *   apiURL: 'https://ease-partner.example.com',
+ *   explorerURL: 'https://explorer.example.com',
+ *   tokenSymbol: 'PEASE',
+ *   environments: ['production'],
+ * });
+ */
+export type Chain = {
+  /** Sent to the API as `chainID`. */
+  id: string;
+  name: string;
+  /** Base URL of the chain's API, which serves balances and history. */
+  apiURL: string;
+  /** Base URL of the block explorer, if the chain has one. Transaction links are `<explorerURL>/tx/<id>`. */
+  explorerURL?: string;
+  /** The chain's token, e.g. `EASE`. */
+  tokenSymbol: string;
+  /** The environments the chain exists in. Defaults to all of them. */
+  environments?: Environment[];
+};
+
+/** The chain calls use when neither they nor the client configuration name one. */
+export const DEFAULT_CHAIN_ID = '0001';
+
+const chains = shared('__EASE_SDK_CHAINS__', () => new Map<string, Chain>());
+
+// The built-in chain follows the environment and its EASE_CHAIN_API URL, overrides included
+const builtInChain = (client: EaseClient): Chain => ({
+  id: DEFAULT_CHAIN_ID,
+  name: isProductionEnvironment(client.getEnvironment()) ? 'EASE Mainnet' : 'EASE Testnet',
+  apiURL: client.getUrl('EASE_CHAIN_API'),
+  tokenSymbol: 'EASE',
+});
+
+const existsIn = (chain: Chain, environment: Environment) =>
+  !chain.environments || chain.environments.includes(environment);
+
+/**
+ * Adds a chain, or replaces the one registered with the same ID. Registering the ID of the built-in chain replaces it
+ * in the environments the chain lists.
+ *
+ * @param {Chain} chain The chain.
+ * @returns {() => void} Removes the chain again.
+ * @throws {ValidationError} If the ID, name, API URL or token symbol are missing.
+ */
+export function registerChain(chain: Chain): () => void {
+  for (const field of ['id', 'name', 'apiURL', 'tokenSymbol'] as const) {
+    if (!chain?.[field] || typeof chain[field] !== 'string') {
+      throw new ValidationError(`Chain ${field} is required and must be a string`, field, chain?.[field]);
+    }
+  }
+
+  chains.set(chain.id, chain);
+  return () => {
+    if (chains.get(chain.id) === chain) {
+      chains.delete(chain.id);
+    }
+  };
+}
+
+/**
+ * Returns the chains available in the client's environment, the built-in EASE chain first.
+ *
+ * @returns {Chain[]} The chains.
+ */
+export function getChains(this: EaseClient | void): Chain[] {
+  const client = resolveClient(this);
+  const environment = client.getEnvironment();
+
+  const available = new Map<string, Chain>([[DEFAULT_CHAIN_ID, builtInChain(client)]]);
+  chains.forEach((chain) => {
+    if (existsIn(chain, environment)) {
+      available.set(chain.id, chain);
+    }
+  });
+  return [...available.values()];
+}
+
+/**
+ * Looks up a chain in the client's environment.
+ *
+ * @param {string} [chainID] The chain ID. Defaults to the chain selected with `configure({ chainID })`.
+ * @returns {Chain} The chain.
+ * @throws {ValidationError} If the chain does not exist in the client's environment.
+ */
+export function getChain(this: EaseClient | void, chainID?: string): Chain {
+  const client = resolveClient(this);
+  const id = chainID ?? client.getChainID();
+
+  const chain = getChains.call(client).find((candidate) => candidate.id === id);
+  if (!chain) {
+    throw new ValidationError(`Unknown chain ${id} in ${client.getEnvironment()}`, 'chainID', id);
+  }
+  return chain;
+}
@@ -0,0 +1,58 @@
+import type { ApiMiddleware, ApiRequest } from '../core/middleware';
+import type { Session } from './session';
+
+const BEARER = /^Bearer\s+(.+)$/i;
+
+function bearerToken(headers: Record<string, string>): string | undefined {
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === 'authorization');
+  return entry ? BEARER.exec(entry[1])?.[1]?.trim() : undefined;
+}
+
+function withBearerToken(request: ApiRequest, token: string): ApiRequest {
+  const headers = Object.fromEntries(
+    Object.entries(request.headers).filter(([key]) => key.toLowerCase() !== 'authorization'),
+  );
+  return { ...request, headers: { ...headers, Authorization: `Bearer ${token}` } };
+}
+
+/**
+ * Creates the middleware behind session-aware mode.
+ *
+ * When a request authorized with the access token of the issuing client's session fails with a 401, that session is
+ * refreshed once (shared by every request failing at the same time) and the request is replayed with the new access
+ * token. Requests that were sent with the token a refresh just replaced are replayed without refreshing again. If the
+ * refresh fails, the original 401 response is returned. The session emits `sessionExpired` only if the server
+ * rejected the refresh token.
+ *
+ * @internal
+ */
+export function createAutoRefreshMiddleware(): ApiMiddleware {
+  const replacedTokens = new WeakMap<Session, string>();
+
+  return async (request, next) => {
+    const response = await next(request);
+    if (response.statusCode !== 401) return response;
+
+    const { client } = request;
+    const { session, logger } = client;
+    const token = bearerToken(request.headers);
+    // Only requests authorized by the client's session are retried, which excludes the refresh call itself
+    if (!token || (token !== session.accessToken && token !== replacedTokens.get(session))) return response;
+
+    if (token === session.accessToken) {
+      try {
+        logger.debug('Access token rejected, refreshing session', { requestId: request.requestId });
+        await session.refresh((refreshToken) => client.refresh.refreshToken(refreshToken));
+        replacedTokens.set(session, token);
+      } catch {
+        return response;
+      }
+    }
+
+    const accessToken = session.accessToken;
+    if (!accessToken || accessToken === token) return response;
+
+    logger.debug('Replaying request with refreshed access token', { requestId: request.requestId });
+    return next(withBearerToken(request, accessToken));
+  };
+}
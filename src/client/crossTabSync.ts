@@ -0,0 +1,184 @@
+import { randomUUID } from '../core/randomId';
+import type { EaseClient } from './index';
+import type { RefreshLock } from './session';
+
+export type CrossTabSyncOptions = {
+  /**
+   * Identifies the session across tabs: the BroadcastChannel name, storage key prefix and lock name.
+   * Use a distinct name per client or account. Defaults to `ease-sdk-session`.
+   */
+  name?: string;
+  /** Defaults to the global `BroadcastChannel`. Pass `null` to force the `storage` event fallback. */
+  BroadcastChannel?: typeof BroadcastChannel | null;
+  /** Storage used by the `storage` event fallback and the fallback lock. Defaults to `localStorage`. */
+  storage?: Storage;
+  /** Receives `storage` events. Defaults to `window`. */
+  eventTarget?: EventTarget;
+  /** Defaults to `navigator.locks` (Web Locks API). */
+  locks?: LockManager;
+};
+
+// A notice only: tokens never travel between tabs, the other tabs re-read them from the configured token store
+type SessionMessage = { type: 'session'; sender: string; change: 'tokensChanged' | 'logout' };
+
+type Channel = {
+  post(message: SessionMessage): void;
+  close(): void;
+};
+
+const DEFAULT_NAME = 'ease-sdk-session';
+const LOCK_TTL_MS = 10_000;
+const LOCK_POLL_MS = 50;
+
+/**
+ * The options of a scoped client's sync: its own channel, storage keys and lock, named after the scope.
+ *
+ * @internal
+ */
+export const scopeCrossTabSyncOptions = (options: CrossTabSyncOptions, scope: string): CrossTabSyncOptions => ({
+  ...options,
+  name: `${options.name ?? DEFAULT_NAME}:${scope}`,
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function openBroadcastChannel(
+  Channel: typeof BroadcastChannel,
+  name: string,
+  onMessage: (message: SessionMessage) => void,
+): Channel {
+  const channel = new Channel(name);
+  channel.onmessage = (event: MessageEvent) => onMessage(event.data);
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
+
+// Writing a key fires a `storage` event in every other tab of the same origin; the key is removed right away.
+function openStorageChannel(
+  storage: Storage,
+  eventTarget: EventTarget,
+  name: string,
+  onMessage: (message: SessionMessage) => void,
+): Channel {
+  const key = `${name}:message`;
+  const listener = (event: Event) => {
+    const { key: changedKey, newValue } = event as StorageEvent;
+    if (changedKey !== key || !newValue) return;
+    try {
+      onMessage(JSON.parse(newValue));
+    } catch {
+      // not one of ours
+    }
+  };
+  eventTarget.addEventListener('storage', listener);
+  return {
+    post: (message) => {
+      storage.setItem(key, JSON.stringify({ ...message, nonce: randomUUID() }));
+      storage.removeItem(key);
+    },
+    close: () => eventTarget.removeEventListener('storage', listener),
+  };
+}
+
+function createWebLock(locks: LockManager, name: string): RefreshLock {
+  return (task) => locks.request(`${name}:refresh`, { mode: 'exclusive' }, () => task());
+}
+
+// Best-effort lock for browsers without the Web Locks API: a lease in storage that expires after LOCK_TTL_MS, so a
+// tab closed mid-refresh cannot block the others for longer than that.
+function createStorageLock(storage: Storage, name: string, tabId: string): RefreshLock {
+  const key = `${name}:refresh-lock`;
+
+  const owner = (): string | undefined => {
+    try {
+      const lease = JSON.parse(storage.getItem(key) ?? 'null');
+      return lease && lease.expiresAt > Date.now() ? lease.owner : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const tryAcquire = () => {
+    const current = owner();
+    if (current && current !== tabId) return false;
+    storage.setItem(key, JSON.stringify({ owner: tabId, expiresAt: Date.now() + LOCK_TTL_MS }));
+    return owner() === tabId;
+  };
+
+  return async (task) => {
+    const deadline = Date.now() + LOCK_TTL_MS;
+    while (!tryAcquire() && Date.now() < deadline) {
+      await sleep(LOCK_POLL_MS);
+    }
+    try {
+      return await task();
+    } finally {
+      if (owner() === tabId) storage.removeItem(key);
+    }
+  };
+}
+
+/**
+ * Keeps the session of a client in sync across browser tabs.
+ *
+ * Once a token change (login, refresh, logout, expiry) is written to the token store, a notice is broadcast over a
+ * `BroadcastChannel`, or through `storage` events where it is unavailable. The other tabs then reload their session
+ * from the token store, or clear it after a logout. Refreshes are serialized with a lock (the Web Locks API, or a
+ * storage lease as fallback), and a tab that acquires the lock after another tab refreshed reuses the stored tokens
+ * instead of refreshing again. Without a token store shared by the tabs, only logouts are synced.
+ *
+ * @param {EaseClient} client The client whose session to synchronize.
+ * @param {CrossTabSyncOptions} [options] The channel name and browser APIs to use.
+ * @returns {() => void} A function that stops the synchronization.
+ * @internal
+ */
+export function startCrossTabSync(client: EaseClient, options: CrossTabSyncOptions = {}): () => void {
+  const { session, logger } = client;
+  const name = options.name ?? DEFAULT_NAME;
+  const tabId = randomUUID();
+  const BroadcastChannelImpl =
+    options.BroadcastChannel === undefined ? globalThis.BroadcastChannel : options.BroadcastChannel;
+  const storage = options.storage ?? globalThis.localStorage;
+  const eventTarget = options.eventTarget ?? (globalThis as unknown as { window?: EventTarget }).window;
+  const locks = options.locks ?? globalThis.navigator?.locks;
+
+  const onMessage = (message: SessionMessage) => {
+    if (message?.type !== 'session' || message.sender === tabId) return;
+    if (message.change === 'tokensChanged') {
+      logger.debug('Tokens updated in another tab');
+      // Restoring does not write to the token store, so the change is not echoed back
+      session.restore().catch(() => undefined);
+    } else if (session.isAuthenticated) {
+      logger.debug('Signed out in another tab');
+      session.clear().catch(() => undefined);
+    }
+  };
+
+  let channel: Channel | undefined;
+  if (BroadcastChannelImpl) {
+    channel = openBroadcastChannel(BroadcastChannelImpl, name, onMessage);
+  } else if (storage && eventTarget) {
+    channel = openStorageChannel(storage, eventTarget, name, onMessage);
+  } else {
+    logger.warn('Cross-tab sync needs BroadcastChannel or Web Storage; it is disabled in this environment');
+    return () => undefined;
+  }
+
+  session.setStoreListener((tokens) =>
+    channel?.post({ type: 'session', sender: tabId, change: tokens ? 'tokensChanged' : 'logout' }),
+  );
+
+  if (locks) {
+    session.setRefreshLock(createWebLock(locks, name));
+  } else if (storage) {
+    session.setRefreshLock(createStorageLock(storage, name, tabId));
+  }
+
+  return () => {
+    session.setStoreListener(undefined);
+    channel?.close();
+    session.setRefreshLock(undefined);
+  };
+}
@@ -0,0 +1,557 @@
+import { internalApi, ApiResponse } from '../api';
+import {
+  configure as configureDefault,
+  getAppName as getDefaultAppName,
+  getChainID as getDefaultChainID,
+  setChainID as setDefaultChainID,
+  getTransport as getDefaultTransport,
+  SDKConfig,
+  validateConfig,
+} from '../config';
+import { fetchTransport, Transport } from '../api/transport';
+import { createTransportTelemetry, defaultTransportTelemetry, TransportTelemetry } from '../core/telemetry';
+import { createResponseCache, defaultResponseCache, ResponseCache } from '../core/cache';
+import { CircuitBreakers, createCircuitBreakers, defaultCircuitBreakers } from '../core/circuitBreaker';
+import {
+  ApiMiddleware,
+  createMiddlewarePipeline,
+  defaultMiddlewarePipeline,
+  MiddlewarePipeline,
+} from '../core/middleware';
+import {
+  getEnvironment as getDefaultEnvironment,
+  INVALID_ENVIRONMENT_MESSAGE,
+  isValidEnvironment,
+} from '../utils/environment';
+import { logger as defaultLogger, Logger } from '../utils/logger';
+import { shared } from '../utils/shared';
+import { createRedactor } from '../utils/redaction';
+import { getUrl as getDefaultUrl, resolveUrl, ServiceName, ServiceUrls, warnOnMixedEndpoints } from '../utils/urls';
+import { Environment, TransportObserver } from '../utils/type';
+import { ValidationError } from '../utils/errors';
+import { SDK_VERSION } from '../version';
+import { Session } from './session';
+import { createAutoRefreshMiddleware } from './autoRefresh';
+import { startRefreshScheduler, validateRefreshBeforeExpiry } from './refreshScheduler';
+import { CrossTabSyncOptions, scopeCrossTabSyncOptions, startCrossTabSync } from './crossTabSync';
+
+import { DEFAULT_CHAIN_ID, getChains, getChain, registerChain } from '../chains';
+import { join, joinCallback, performJoin } from '../join';
+import {
+  sendOtp,
+  verifyOtp,
+  getCountries,
+  parsePhoneNumber,
+  toE164,
+  isValidPhoneNumber,
+  formatPhoneNumber,
+} from '../phone';
+import { sendEmailOtp, verifyEmailOtp, isValidEmail } from '../email';
+import { login, loginCallback, performLogin, performConditionalLogin } from '../login';
+import { logout } from '../logout';
+import {
+  truncateAddress,
+  getWalletInfo,
+  ammountToSmallestUnit,
+  explorerUrlFromResponse,
+  getWalletBalance,
+  getWalletHistory,
+} from '../wallet';
+import { getAttestation } from '../enclave';
+import {
+  getAddresses,
+  createKeys,
+  createTransaction,
+  signTransactionOptions,
+  signTransactionCallback,
+} from '../transaction';
+import { refreshToken } from '../refresh';
+import {
+  getGoogleOAuthURL,
+  verifyGoogleOAuthCallback,
+  startGoogleOAuth,
+  completeGoogleOAuth,
+  parseGoogleOAuthRedirect,
+} from '../google';
+import {
+  getOAuthURL,
+  verifyOAuthCallback,
+  startOAuth,
+  completeOAuth,
+  parseOAuthRedirect,
+  registerOAuthProvider,
+  getOAuthProvider,
+  getOAuthProviders,
+} from '../oauth';
+import { getContacts, addContact, deleteContact, searchContacts } from '../contacts';
+import {
+  getPasskeys,
+  renamePasskey,
+  revokePasskey,
+  addPasskey,
+  addPasskeyCallback,
+  performAddPasskey,
+} from '../credentials';
+import { getWSToken, connectToWebSocket, sendMessage } from '../websocket';
+import { stepUpOptions, stepUpCallback, requireFreshAuth, withFreshAuth } from '../stepup';
+import { logEvent, logEvents } from '../analytics';
+import {
+  encryptRecipientData,
+  generateRsaKeyPair,
+  decryptRecipientData,
+  parseAttestationDocument,
+} from '../utils/crypto';
+
+export { Session } from './session';
+export type { SessionEvents } from './session';
+export { SessionManager, createSessionManager } from './sessionManager';
+export type { Account, AddAccountOptions, SessionManagerEvents } from './sessionManager';
+export type { CrossTabSyncOptions } from './crossTabSync';
+
+// Marks clients of every entry point. Not `instanceof`, since every entry point bundles its own copy of the class
+const CLIENT_BRAND = Symbol.for('@ease-protocol/ease-sdk/EaseClient');
+
+const isEaseClient = (scope: unknown): scope is EaseClient =>
+  typeof scope === 'object' && scope !== null && CLIENT_BRAND in scope;
+
+type ApiArgs<B> = Parameters<typeof internalApi<unknown, B>>;
+
+type BoundModule<M> = { [K in keyof M]: OmitThisParameter<M[K]> };
+
+function bindModule<M extends Record<string, (...args: any[]) => any>>(client: EaseClient, module: M): BoundModule<M> {
+  return Object.fromEntries(Object.entries(module).map(([name, fn]) => [name, fn.bind(client)])) as BoundModule<M>;
+}
+
+/**
+ * An isolated EASE SDK instance.
+ *
+ * Each client owns its environment, service URLs, app name, logger, transport, middleware, transport observers,
+ * circuit breakers, response cache and session, so several clients (for example staging and production) can run side by side in one
+ * process. Every SDK module is exposed as a namespace whose methods have the same signatures as the matching free
+ * functions.
+ */
+export class EaseClient {
+  /** @internal */
+  readonly [CLIENT_BRAND] = true;
+  readonly logger: Logger;
+  readonly telemetry: TransportTelemetry;
+  readonly middleware: MiddlewarePipeline;
+  readonly circuitBreakers: CircuitBreakers;
+  readonly cache: ResponseCache;
+  readonly session: Session;
+
+  private parent?: EaseClient;
+  private scopeName?: string;
+  private readonly scopes = new Set<EaseClient>();
+  private environment?: Environment;
+  private urls: Partial<ServiceUrls> = {};
+  private appName?: string;
+  private chainID?: string;
+  private transport?: Transport;
+  private removeAutoRefresh?: () => void;
+  private stopRefreshScheduler?: () => void;
+  private refreshLeadSeconds?: number;
+  private stopCrossTabSync?: () => void;
+  private crossTabSyncOptions?: CrossTabSyncOptions;
+
+  /**
+   * Sends a request through `internalApi` on behalf of this client.
+   */
+  readonly api = <T, B = any>(...args: ApiArgs<B>): Promise<ApiResponse<T>> =>
+    internalApi.apply(this, args) as Promise<ApiResponse<T>>;
+
+  readonly chains = bindModule(this, { getChains, getChain, registerChain });
+  readonly join = bindModule(this, { join, joinCallback, performJoin });
+  readonly phone = bindModule(this, {
+    sendOtp,
+    verifyOtp,
+    getCountries,
+    parsePhoneNumber,
+    toE164,
+    isValidPhoneNumber,
+    formatPhoneNumber,
+  });
+  readonly email = bindModule(this, { sendEmailOtp, verifyEmailOtp, isValidEmail });
+  readonly login = bindModule(this, { login, loginCallback, performLogin, performConditionalLogin });
+  readonly logout = bindModule(this, { logout });
+  readonly wallet = bindModule(this, {
+    truncateAddress,
+    getWalletInfo,
+    ammountToSmallestUnit,
+    explorerUrlFromResponse,
+    getWalletBalance,
+    getWalletHistory,
+  });
+  readonly enclave = bindModule(this, { getAttestation });
+  readonly transaction = bindModule(this, {
+    getAddresses,
+    createKeys,
+    createTransaction,
+    signTransactionOptions,
+    signTransactionCallback,
+  });
+  readonly refresh = bindModule(this, { refreshToken });
+  readonly oauth = bindModule(this, {
+    getOAuthURL,
+    verifyOAuthCallback,
+    startOAuth,
+    completeOAuth,
+    parseOAuthRedirect,
+    registerOAuthProvider,
+    getOAuthProvider,
+    getOAuthProviders,
+  });
+  readonly google = bindModule(this, {
+    getGoogleOAuthURL,
+    verifyGoogleOAuthCallback,
+    startGoogleOAuth,
+    completeGoogleOAuth,
+    parseGoogleOAuthRedirect,
+  });
+  readonly contacts = bindModule(this, { getContacts, addContact, deleteContact, searchContacts });
+  readonly credentials = bindModule(this, {
+    getPasskeys,
+    renamePasskey,
+    revokePasskey,
+    addPasskey,
+    addPasskeyCallback,
+    performAddPasskey,
+  });
+  readonly websocket = bindModule(this, { getWSToken, connectToWebSocket, sendMessage });
+  readonly stepUp = bindModule(this, { stepUpOptions, stepUpCallback, requireFreshAuth, withFreshAuth });
+  readonly analytics = bindModule(this, { logEvent, logEvents });
+  readonly crypto = bindModule(this, {
+    encryptRecipientData,
+    generateRsaKeyPair,
+    decryptRecipientData,
+    parseAttestationDocument,
+  });
+
+  /**
+   * @param {SDKConfig} [config] Initial configuration for this client.
+   * @param {boolean} [shared=false] Internal: when true the client reads and writes the process-wide configuration
+   * used by the free functions instead of owning its own.
+   * @param {EaseClient} [parent] Internal: the client whose configuration a scoped client shares. See `createScope()`.
+   */
+  constructor(config: SDKConfig = {}, shared = false, parent?: EaseClient) {
+    if (parent) {
+      this.parent = parent;
+      this.logger = parent.logger;
+      this.telemetry = parent.telemetry;
+      this.middleware = parent.middleware;
+      this.circuitBreakers = parent.circuitBreakers;
+      this.cache = parent.cache;
+      this.session = this.createSession();
+      return;
+    }
+    if (shared) {
+      this.logger = defaultLogger;
+      this.telemetry = defaultTransportTelemetry;
+      this.middleware = defaultMiddlewarePipeline;
+      this.circuitBreakers = defaultCircuitBreakers;
+      this.cache = defaultResponseCache;
+      this.session = this.createSession();
+      return;
+    }
+
+    this.environment = 'develop';
+    this.appName = `EASE_SDK_DEFAULT_APP_V${SDK_VERSION}`;
+    this.transport = fetchTransport;
+    this.logger = new Logger(() => this.environment);
+    this.telemetry = createTransportTelemetry(this.logger);
+    this.middleware = createMiddlewarePipeline(this.logger);
+    this.circuitBreakers = createCircuitBreakers(this.logger, this.telemetry._notify.circuit);
+    this.cache = createResponseCache(this.logger);
+    this.session = this.createSession();
+    this.configure(config);
+  }
+
+  private get isShared(): boolean {
+    return !this.parent && this.environment === undefined;
+  }
+
+  // Responses cached for an access token are dropped once the session signs out or moves on to other tokens
+  private createSession(): Session {
+    const session = new Session(this.logger);
+    let accessToken: string | undefined;
+    session.on('tokensChanged', ({ tokens }) => {
+      if (accessToken && accessToken !== tokens?.accessToken) {
+        this.cache.clear(accessToken);
+      }
+      accessToken = tokens?.accessToken;
+    });
+    return session;
+  }
+
+  /**
+   * Creates a client that shares this client's environment, URLs, app name, transport, middleware, observers,
+   * circuit breakers and response cache but authenticates with its own session. Scoped clients back the accounts of a `SessionManager`.
+   * Proactive refresh and cross-tab sync, now or when configured later, apply to the scoped client as well. Cross-tab
+   * sync needs a name that identifies the scope in every tab.
+   *
+   * @param {string} [name] Identifies the scope across tabs, e.g. the account name of a `SessionManager`.
+   * @returns {EaseClient} The scoped client.
+   */
+  createScope(name?: string): EaseClient {
+    const scope = new EaseClient({}, false, this);
+    scope.scopeName = name;
+    this.scopes.add(scope);
+    if (this.refreshLeadSeconds !== undefined) {
+      scope.setRefreshBeforeExpiry(this.refreshLeadSeconds);
+    }
+    if (this.crossTabSyncOptions) {
+      scope.startScopeCrossTabSync(this.crossTabSyncOptions);
+    }
+    return scope;
+  }
+
+  /**
+   * Stops the proactive refresh and cross-tab sync of a scoped client, and stops passing later configuration on to it,
+   * e.g. once its account is removed from a `SessionManager`.
+   *
+   * @param {EaseClient} scope A client created by `createScope()`.
+   */
+  releaseScope(scope: EaseClient): void {
+    if (!this.scopes.delete(scope)) return;
+    scope.setRefreshBeforeExpiry(false);
+    scope.setCrossTabSync(false);
+  }
+
+  private startScopeCrossTabSync(options: CrossTabSyncOptions | undefined): void {
+    this.stopCrossTabSync?.();
+    this.stopCrossTabSync =
+      options && this.scopeName !== undefined
+        ? startCrossTabSync(this, scopeCrossTabSyncOptions(options, this.scopeName))
+        : undefined;
+  }
+
+  /**
+   * Updates the configuration of this client. Scoped clients forward the configuration to their parent. The whole
+   * configuration is checked first, so an invalid one changes nothing.
+   *
+   * @param {SDKConfig} config The settings to apply. Omitted fields keep their current value.
+   * @throws {ValidationError} If the environment is not supported, a URL override is invalid, or another setting is
+   * out of range.
+   */
+  configure(config: SDKConfig): void {
+    if (this.parent) {
+      this.parent.configure(config);
+      return;
+    }
+    if (this.isShared) {
+      configureDefault(config);
+      return;
+    }
+    const urls = validateConfig(config);
+    if (config.logLevel !== undefined) {
+      this.logger.configure({ level: config.logLevel });
+    }
+    if (config.redaction) {
+      this.logger.configure({ redactor: createRedactor(config.redaction) });
+    }
+    if (config.appName) {
+      this.appName = config.appName;
+    }
+    if (urls) {
+      this.urls = urls;
+    }
+    if (config.environment) {
+      this.setEnvironment(config.environment);
+    } else if (config.urls) {
+      warnOnMixedEndpoints(this.logger, this.getEnvironment(), this.urls);
+    }
+    if (config.chainID !== undefined) {
+      this.setChainID(config.chainID);
+    }
+    if (config.transport) {
+      this.transport = config.transport;
+    }
+    if (config.autoRefresh !== undefined) {
+      this.setAutoRefresh(config.autoRefresh);
+    }
+    if (config.tokenStore) {
+      this.session.setStore(config.tokenStore);
+    }
+    if (config.refreshBeforeExpiry !== undefined) {
+      this.setRefreshBeforeExpiry(config.refreshBeforeExpiry);
+    }
+    if (config.crossTabSync !== undefined) {
+      this.setCrossTabSync(config.crossTabSync);
+    }
+    if (config.circuitBreaker !== undefined) {
+      this.circuitBreakers.configure(config.circuitBreaker);
+    }
+    if (config.cache !== undefined) {
+      this.cache.configure(config.cache);
+    }
+  }
+
+  /**
+   * Turns session-aware mode on or off. While on, requests that fail with a 401 using the session's access token
+   * trigger a single shared `refreshToken()` call and are replayed with the new token.
+   *
+   * @param {boolean} enabled Whether to refresh and replay automatically.
+   */
+  setAutoRefresh(enabled: boolean): void {
+    if (this.parent) {
+      this.parent.setAutoRefresh(enabled);
+      return;
+    }
+    if (enabled && !this.removeAutoRefresh) {
+      this.removeAutoRefresh = this.addMiddleware(createAutoRefreshMiddleware());
+    } else if (!enabled && this.removeAutoRefresh) {
+      this.removeAutoRefresh();
+      this.removeAutoRefresh = undefined;
+    }
+  }
+
+  /**
+   * Refreshes the session a number of seconds before the access token expires, based on its `exp` claim. Applies to
+   * the scoped clients of this client as well.
+   *
+   * @param {number | false} seconds How many seconds before expiry to refresh, or `false` to stop.
+   * @throws {ValidationError} If `seconds` is negative or not a number.
+   */
+  setRefreshBeforeExpiry(seconds: number | false): void {
+    validateRefreshBeforeExpiry(seconds);
+    this.stopRefreshScheduler?.();
+    this.stopRefreshScheduler = seconds === false ? undefined : startRefreshScheduler(this, seconds);
+    this.refreshLeadSeconds = seconds === false ? undefined : seconds;
+    this.scopes.forEach((scope) => scope.setRefreshBeforeExpiry(seconds));
+  }
+
+  /**
+   * Turns cross-tab session sync on or off. While on, the other browser tabs reload refreshed tokens from the
+   * token store and follow logouts, and only one tab at a time runs the refresh call. Applies to the named scoped clients of this client as well,
+   * each on a channel of its own.
+   *
+   * @param {boolean | CrossTabSyncOptions} options `true` for the defaults, options to customize, or `false` to stop.
+   */
+  setCrossTabSync(options: boolean | CrossTabSyncOptions): void {
+    this.stopCrossTabSync?.();
+    this.crossTabSyncOptions = options === false ? undefined : options === true ? {} : options;
+    this.stopCrossTabSync = this.crossTabSyncOptions && startCrossTabSync(this, this.crossTabSyncOptions);
+    this.scopes.forEach((scope) => scope.startScopeCrossTabSync(this.crossTabSyncOptions));
+  }
+
+  getEnvironment(): Environment {
+    return this.parent ? this.parent.getEnvironment() : (this.environment ?? getDefaultEnvironment());
+  }
+
+  setEnvironment(environment: Environment): void {
+    if (this.parent) {
+      this.parent.setEnvironment(environment);
+      return;
+    }
+    if (this.isShared) {
+      configureDefault({ environment });
+      return;
+    }
+    if (!isValidEnvironment(environment)) {
+      throw new ValidationError(INVALID_ENVIRONMENT_MESSAGE, 'environment', environment);
+    }
+    this.environment = environment;
+    this.logger.info(`Environment set to: ${environment}`);
+    warnOnMixedEndpoints(this.logger, environment, this.urls);
+  }
+
+  /**
+   * Returns the chain calls use when they do not name one.
+   *
+   * @returns {string} The chain ID.
+   */
+  getChainID(): string {
+    if (this.parent) return this.parent.getChainID();
+    return this.isShared ? getDefaultChainID() : (this.chainID ?? DEFAULT_CHAIN_ID);
+  }
+
+  /**
+   * Selects the chain calls use when they do not name one.
+   *
+   * @param {string} chainID The chain ID, e.g. one returned by `getChains()`.
+   * @throws {ValidationError} If the chain ID is not a non-empty string.
+   */
+  setChainID(chainID: string): void {
+    if (this.parent) {
+      this.parent.setChainID(chainID);
+      return;
+    }
+    if (this.isShared) {
+      setDefaultChainID(chainID);
+      return;
+    }
+    if (!chainID || typeof chainID !== 'string') {
+      throw new ValidationError('Chain ID must be a non-empty string', 'chainID', chainID);
+    }
+    this.chainID = chainID;
+  }
+
+  getAppName(): string {
+    return this.parent ? this.parent.getAppName() : (this.appName ?? getDefaultAppName());
+  }
+
+  getTransport(): Transport {
+    return this.parent ? this.parent.getTransport() : (this.transport ?? getDefaultTransport());
+  }
+
+  /**
+   * Resolves the base URL of an upstream service for this client's environment, or its override from
+   * `configure({ urls })`.
+   *
+   * @param {ServiceName} service The service to resolve.
+   * @returns {string} The base URL of the service.
+   */
+  getUrl(service: ServiceName): string {
+    if (this.parent) return this.parent.getUrl(service);
+    return this.environment === undefined ? getDefaultUrl(service) : resolveUrl(this.environment, service, this.urls);
+  }
+
+  /**
+   * Registers an observer for the requests sent by this client.
+   *
+   * @param {TransportObserver} observer The observer to register.
+   * @returns {() => void} A function that removes the observer.
+   */
+  addTransportObserver(observer: TransportObserver): () => void {
+    return this.telemetry.addTransportObserver(observer);
+  }
+
+  /**
+   * Registers a middleware around every request sent by this client. Middleware run in registration order.
+   *
+   * @param {ApiMiddleware} middleware The middleware to register.
+   * @returns {() => void} A function that removes the middleware.
+   */
+  addMiddleware(middleware: ApiMiddleware): () => void {
+    return this.middleware.addMiddleware(middleware);
+  }
+}
+
+/**
+ * Returns the process-wide client that backs the free functions (`login()`, `getAddresses()`, ...).
+ *
+ * @returns {EaseClient} The default client.
+ */
+export function getDefaultClient(): EaseClient {
+  return shared('__EASE_SDK_DEFAULT_CLIENT__', () => new EaseClient({}, true));
+}
+
+/**
+ * Creates an isolated client with its own environment, URLs, logger, transport observers and session.
+ *
+ * @param {SDKConfig} [config] Initial configuration for the client.
+ * @returns {EaseClient} The new client.
+ * @throws {ValidationError} If the configuration is invalid.
+ */
+export function createEaseClient(config: SDKConfig = {}): EaseClient {
+  return new EaseClient(config);
+}
+
+/**
+ * Resolves the client a module function was bound to, falling back to the default client for plain calls.
+ *
+ * @internal
+ */
+export function resolveClient(scope: unknown): EaseClient {
+  return isEaseClient(scope) ? scope : getDefaultClient();
+}
@@ -0,0 +1,91 @@
+import { ValidationError } from '../utils/errors';
+import { getTokenExpiry } from '../utils/jwt';
+import type { EaseClient } from './index';
+
+// setTimeout overflows (and fires immediately) past 2^31 - 1 ms, roughly 24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+// How long to wait before trying again after a refresh that failed without being rejected, e.g. while offline
+const RETRY_DELAY_MS = 30_000;
+
+/**
+ * Checks the lead time of `refreshBeforeExpiry` without starting anything.
+ *
+ * @throws {ValidationError} If `seconds` is negative or not a number.
+ * @internal
+ */
+export function validateRefreshBeforeExpiry(seconds: number | false): void {
+  if (seconds !== false && (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < 0)) {
+    throw new ValidationError('refreshBeforeExpiry must be a non-negative number of seconds', 'seconds', seconds);
+  }
+}
+
+/**
+ * Starts refreshing the client session ahead of access-token expiry.
+ *
+ * The refresh is scheduled `leadSeconds` before the `exp` claim of the current access token and rescheduled whenever
+ * the session tokens change. The lead time is capped at half of the remaining lifetime, so short-lived tokens do not
+ * trigger a refresh loop. Refreshes go through `Session.refresh()`, so they are shared with session-aware mode and a
+ * rejected refresh token emits `sessionExpired`. Other failures, such as being offline, keep the session and try again
+ * 30 seconds later.
+ *
+ * @param {EaseClient} client The client whose session to keep fresh.
+ * @param {number} leadSeconds How many seconds before expiry to refresh.
+ * @returns {() => void} A function that stops the scheduler.
+ * @internal
+ */
+export function startRefreshScheduler(client: EaseClient, leadSeconds: number): () => void {
+  const { session, logger } = client;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const cancel = () => {
+    if (timer !== undefined) clearTimeout(timer);
+    timer = undefined;
+  };
+
+  const start = (callback: () => void, delayMs: number) => {
+    timer = setTimeout(callback, delayMs);
+    // Do not keep Node processes alive just to refresh a token
+    (timer as { unref?: () => void }).unref?.();
+  };
+
+  const refresh = () => {
+    timer = undefined;
+    logger.debug('Refreshing session ahead of access token expiry');
+    // The new tokens reschedule through `tokensChanged`; a rejection has already emitted `sessionExpired`
+    session
+      .refresh((refreshToken) => client.refresh.refreshToken(refreshToken))
+      .catch((error) => {
+        if (stopped || timer !== undefined || !session.refreshToken) return;
+        logger.debug(`Session refresh failed, trying again in ${RETRY_DELAY_MS / 1000}s`, error);
+        start(refresh, RETRY_DELAY_MS);
+      });
+  };
+
+  const schedule = () => {
+    cancel();
+    const { accessToken, refreshToken } = session;
+    if (!accessToken || !refreshToken) return;
+
+    const expiresAt = getTokenExpiry(accessToken);
+    if (!expiresAt) {
+      logger.debug('Access token has no readable exp claim, proactive refresh skipped');
+      return;
+    }
+
+    const remainingMs = expiresAt.getTime() - Date.now();
+    const delayMs = Math.max(0, remainingMs - Math.min(leadSeconds * 1000, remainingMs / 2));
+    const capped = delayMs > MAX_TIMEOUT_MS;
+    start(capped ? schedule : refresh, capped ? MAX_TIMEOUT_MS : delayMs);
+    logger.debug(`Session refresh scheduled in ${Math.round(delayMs / 1000)}s`);
+  };
+
+  const unsubscribe = session.on('tokensChanged', schedule);
+  schedule();
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+    cancel();
+  };
+}
@@ -0,0 +1,222 @@
+import { createEmitter, Emitter } from '../core/events';
+import type { TokenStore } from '../storage';
+import { AuthenticationError, EaseSDKError, ErrorCode, handleUnknownError } from '../utils/errors';
+import { logger as defaultLogger, Logger } from '../utils/logger';
+import { APIDefaultResponse } from '../utils/type';
+
+export type SessionEvents = {
+  /** The token pair was replaced, restored or cleared. `tokens` is `undefined` after a clear. */
+  tokensChanged: { tokens?: APIDefaultResponse };
+  /** The refresh token was rejected; the session has been cleared and the user must sign in again. */
+  sessionExpired: { error: EaseSDKError };
+};
+
+/**
+ * Runs a refresh while holding a lock, so that only one holder of the same session refreshes at a time.
+ */
+export type RefreshLock = <T>(task: () => Promise<T>) => Promise<T>;
+
+const runImmediately: RefreshLock = (task) => task();
+
+/**
+ * Holds the token pair issued to a client by its authentication flows.
+ * Tokens are replaced on every successful login, join, OTP verification, OAuth callback or refresh, and cleared on
+ * logout. They are kept in memory and, when a `TokenStore` is configured, persisted to it as well.
+ */
+export class Session {
+  private tokens?: APIDefaultResponse;
+  private store?: TokenStore;
+  private pendingRefresh?: Promise<APIDefaultResponse>;
+  private refreshLock: RefreshLock = runImmediately;
+  private storeListener?: (tokens?: APIDefaultResponse) => void;
+  private readonly elevatedTokens = new Map<string, { token: string; expiresAt: number }>();
+  private readonly events: Emitter<SessionEvents>;
+
+  constructor(private readonly logger: Logger = defaultLogger) {
+    this.events = createEmitter<SessionEvents>(logger);
+  }
+
+  get accessToken(): string | undefined {
+    return this.tokens?.accessToken;
+  }
+
+  get refreshToken(): string | undefined {
+    return this.tokens?.refreshToken;
+  }
+
+  get isAuthenticated(): boolean {
+    return !!this.tokens?.accessToken;
+  }
+
+  /**
+   * Stores a new token pair in memory and in the token store, if any. Failing to persist is logged, not thrown, so
+   * that a broken storage never fails an otherwise successful authentication.
+   *
+   * @param {APIDefaultResponse} tokens The tokens to store.
+   */
+  async set(tokens: APIDefaultResponse): Promise<void> {
+    const stored = { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken };
+    this.tokens = stored;
+    this.events.emit('tokensChanged', { tokens: stored });
+    try {
+      await this.store?.set(stored);
+    } catch (error) {
+      this.logger.warn('Failed to persist tokens to the token store', error);
+    }
+    this.storeListener?.(stored);
+  }
+
+  /**
+   * Forgets the token pair, in memory and in the token store, if any, along with any elevated tokens.
+   */
+  async clear(): Promise<void> {
+    this.tokens = undefined;
+    this.elevatedTokens.clear();
+    this.events.emit('tokensChanged', { tokens: undefined });
+    try {
+      await this.store?.clear();
+    } catch (error) {
+      this.logger.warn('Failed to clear tokens from the token store', error);
+    }
+    this.storeListener?.(undefined);
+  }
+
+  /**
+   * Sets the store the tokens are persisted to. Call `restore()` afterwards to load previously saved tokens.
+   *
+   * @param {TokenStore | undefined} store The token store, or `undefined` to keep tokens in memory only.
+   */
+  setStore(store: TokenStore | undefined): void {
+    this.store = store;
+  }
+
+  /**
+   * Loads the tokens saved in the token store into this session, e.g. when the app starts.
+   *
+   * @returns {Promise<APIDefaultResponse | undefined>} The restored tokens, or `undefined` if none were saved.
+   */
+  async restore(): Promise<APIDefaultResponse | undefined> {
+    try {
+      const tokens = await this.store?.get();
+      if (tokens) {
+        this.tokens = { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken };
+        this.events.emit('tokensChanged', { tokens: this.tokens });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to restore tokens from the token store', error);
+    }
+    return this.tokens;
+  }
+
+  /**
+   * Stores the short-lived token a step-up re-authentication issued for a sensitive operation. It is kept in memory
+   * only and attached to that operation's requests until it expires. See `requireFreshAuth()`.
+   *
+   * @param {string} operation The operation the token elevates, e.g. `createKeys`.
+   * @param {string} token The elevated token.
+   * @param {number} expiresAt When the token expires, in milliseconds since epoch.
+   */
+  setElevatedToken(operation: string, token: string, expiresAt: number): void {
+    this.elevatedTokens.set(operation, { token, expiresAt });
+  }
+
+  /**
+   * @param {string} operation The sensitive operation.
+   * @returns {string | undefined} The elevated token for the operation, or `undefined` if there is none or it expired.
+   */
+  getElevatedToken(operation: string): string | undefined {
+    const elevated = this.elevatedTokens.get(operation);
+    if (elevated && elevated.expiresAt <= Date.now()) {
+      this.elevatedTokens.delete(operation);
+      return undefined;
+    }
+    return elevated?.token;
+  }
+
+  /**
+   * Subscribes to a session event.
+   *
+   * @param {keyof SessionEvents} event The event to listen for.
+   * @param {Function} listener Called with the event payload.
+   * @returns {() => void} A function that removes the listener.
+   */
+  on<K extends keyof SessionEvents>(event: K, listener: (payload: SessionEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Sets the lock that serializes refreshes across browser tabs. See `EaseClient.setCrossTabSync()`.
+   *
+   * @param {RefreshLock | undefined} lock The lock, or `undefined` to refresh without coordination.
+   */
+  setRefreshLock(lock: RefreshLock | undefined): void {
+    this.refreshLock = lock ?? runImmediately;
+  }
+
+  /**
+   * Sets the function called once `set()` or `clear()` has written to the token store, so that other tabs reading the
+   * same store see the change. See `EaseClient.setCrossTabSync()`.
+   *
+   * @param {Function | undefined} listener Called with the new tokens, or `undefined` after a clear.
+   */
+  setStoreListener(listener: ((tokens?: APIDefaultResponse) => void) | undefined): void {
+    this.storeListener = listener;
+  }
+
+  // Takes over tokens another tab saved in a shared token store, e.g. while this one waited for the refresh lock
+  private async adoptStoredTokens(): Promise<void> {
+    try {
+      const tokens = await this.store?.get();
+      if (tokens && tokens.refreshToken !== this.tokens?.refreshToken) {
+        this.tokens = { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken };
+        this.events.emit('tokensChanged', { tokens: this.tokens });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to read tokens from the token store', error);
+    }
+  }
+
+  /**
+   * Exchanges the stored refresh token for a new token pair. Concurrent callers share a single refresh.
+   * If the server rejects the refresh token, the session is cleared and `sessionExpired` is emitted. Other failures,
+   * such as being offline, keep the tokens, so the refresh can be tried again.
+   *
+   * @param {(refreshToken: string) => Promise<APIDefaultResponse>} refresher Performs the refresh request and stores
+   * the new tokens in this session, like `refreshToken()` does.
+   * @returns {Promise<APIDefaultResponse>} The new token pair.
+   * @throws {AuthenticationError} If there is no refresh token or the server rejects it.
+   * @throws {EaseSDKError} If the refresh could not be completed, e.g. with `NETWORK_ERROR`.
+   */
+  refresh(refresher: (refreshToken: string) => Promise<APIDefaultResponse>): Promise<APIDefaultResponse> {
+    if (this.pendingRefresh) {
+      return this.pendingRefresh;
+    }
+
+    const refreshToken = this.refreshToken;
+    if (!refreshToken) {
+      return Promise.reject(new AuthenticationError('No refresh token available.', ErrorCode.TOKEN_REFRESH_FAILED));
+    }
+
+    this.pendingRefresh = this.refreshLock(async () => {
+      // Another tab may have refreshed (and stored the result) while this one waited for the lock
+      await this.adoptStoredTokens();
+      if (this.tokens && this.tokens.refreshToken !== refreshToken) {
+        return this.tokens;
+      }
+      return refresher(refreshToken);
+    })
+      .catch(async (error) => {
+        const enhancedError = handleUnknownError(error, { operation: 'refreshSession' });
+        if (enhancedError.code === ErrorCode.TOKEN_REFRESH_FAILED) {
+          await this.clear();
+          this.events.emit('sessionExpired', { error: enhancedError });
+        }
+        throw enhancedError;
+      })
+      .finally(() => {
+        this.pendingRefresh = undefined;
+      });
+
+    return this.pendingRefresh;
+  }
+}
@@ -0,0 +1,262 @@
+import { createEmitter, Emitter } from '../core/events';
+import type { TokenStore } from '../storage';
+import { AuthenticationError, ErrorCode, ValidationError } from '../utils/errors';
+import { Address, APIDefaultResponse } from '../utils/type';
+import { getDefaultClient } from './index';
+import type { EaseClient } from './index';
+
+/**
+ * A signed-in (or signing-in) account held by a `SessionManager`.
+ */
+export type Account = {
+  /** The local name the account is registered under, e.g. `personal` or `business`. */
+  name: string;
+  /** The EASE account name, when known. */
+  accountName?: string;
+  /** Addresses cached by `SessionManager.getAddresses()`. Dropped whenever the tokens of the account change. */
+  addresses?: Address[];
+  /** The scoped client whose session holds this account's tokens. */
+  client: EaseClient;
+};
+
+export type AddAccountOptions = {
+  /** Tokens from a previous sign-in. Omit them to sign in through `client.login` / `client.join` afterwards. */
+  tokens?: APIDefaultResponse;
+  accountName?: string;
+  /** Persists this account's tokens. Use a distinct storage key per account. */
+  tokenStore?: TokenStore;
+};
+
+export type SessionManagerEvents = {
+  /** The active account changed. `name` is `undefined` when no account is left. */
+  activeAccountChanged: { name?: string };
+};
+
+/**
+ * Keeps several named sessions side by side, for example a personal and a business account of the same person.
+ *
+ * Every account gets a scoped client (see `EaseClient.createScope()`) that shares the configuration of the manager's
+ * client but holds its own token pair. Authentication flows run on that scoped client store their tokens in the
+ * account, and calls made through it go out with the account's credentials, including session-aware refreshes.
+ */
+export class SessionManager {
+  private readonly accounts = new Map<string, Account>();
+  private readonly stopWatching = new Map<string, () => void>();
+  private activeName?: string;
+  private readonly events: Emitter<SessionManagerEvents>;
+
+  /**
+   * @param {EaseClient} [client] The client whose configuration the accounts share. Defaults to the default client.
+   */
+  constructor(private readonly client: EaseClient = getDefaultClient()) {
+    this.events = createEmitter<SessionManagerEvents>(client.logger);
+  }
+
+  /**
+   * Registers an account. The first account registered becomes the active one.
+   *
+   * @param {string} name The local name of the account.
+   * @param {AddAccountOptions} [options] Initial tokens, account name and token store.
+   * @returns {Promise<EaseClient>} The scoped client of the account.
+   * @throws {ValidationError} If the name is empty or already registered.
+   */
+  async add(name: string, options: AddAccountOptions = {}): Promise<EaseClient> {
+    if (!name || typeof name !== 'string') {
+      throw new ValidationError('Account name is required and must be a string', 'name', name);
+    }
+    if (this.accounts.has(name)) {
+      throw new ValidationError(`Account "${name}" is already registered`, 'name', name);
+    }
+
+    const client = this.client.createScope(name);
+    if (options.tokenStore) {
+      client.session.setStore(options.tokenStore);
+      await client.session.restore();
+    }
+    if (options.tokens) {
+      await client.session.set(options.tokens);
+    }
+
+    const account: Account = { name, accountName: options.accountName, client };
+    this.accounts.set(name, account);
+    // Addresses belong to the signed-in account, which a new token pair or a clear may replace
+    this.stopWatching.set(
+      name,
+      client.session.on('tokensChanged', () => {
+        account.addresses = undefined;
+      }),
+    );
+    this.client.logger.debug(`Account "${name}" added`);
+    if (this.activeName === undefined) {
+      this.setActive(name);
+    }
+    return client;
+  }
+
+  /**
+   * Signs an account out locally: its tokens are cleared (including from its token store) and it is unregistered.
+   * If it was the active account, the next registered account becomes active.
+   *
+   * @param {string} name The local name of the account.
+   * @returns {Promise<void>}
+   */
+  async remove(name: string): Promise<void> {
+    const account = this.accounts.get(name);
+    if (!account) return;
+
+    this.accounts.delete(name);
+    this.stopWatching.get(name)?.();
+    this.stopWatching.delete(name);
+    account.addresses = undefined;
+    await account.client.session.clear();
+    this.client.releaseScope(account.client);
+    this.client.logger.debug(`Account "${name}" removed`);
+
+    if (this.activeName === name) {
+      const [next] = this.accounts.keys();
+      this.activeName = undefined;
+      if (next !== undefined) {
+        this.setActive(next);
+      } else {
+        this.events.emit('activeAccountChanged', { name: undefined });
+      }
+    }
+  }
+
+  has(name: string): boolean {
+    return this.accounts.has(name);
+  }
+
+  get(name: string): Account | undefined {
+    return this.accounts.get(name);
+  }
+
+  /**
+   * @returns {Account[]} The registered accounts, in registration order.
+   */
+  list(): Account[] {
+    return [...this.accounts.values()];
+  }
+
+  /**
+   * Switches the active account.
+   *
+   * @param {string} name The local name of the account.
+   * @throws {ValidationError} If the account is not registered.
+   */
+  setActive(name: string): void {
+    this.require(name);
+    if (this.activeName === name) return;
+
+    this.activeName = name;
+    this.client.logger.debug(`Active account set to "${name}"`);
+    this.events.emit('activeAccountChanged', { name });
+  }
+
+  get active(): Account | undefined {
+    return this.activeName === undefined ? undefined : this.accounts.get(this.activeName);
+  }
+
+  /**
+   * Returns the scoped client of an account, or of the active account when no name is given.
+   *
+   * @param {string} [name] The local name of the account.
+   * @returns {EaseClient} The scoped client.
+   * @throws {ValidationError} If the account is not registered or there is no active account.
+   */
+  use(name?: string): EaseClient {
+    return this.require(name ?? this.activeName).client;
+  }
+
+  /**
+   * Runs a call with the credentials of an account.
+   *
+   * @example
+   * await manager.run('business', (client, accessToken) => client.contacts.getContacts(accessToken));
+   *
+   * @param {string | undefined} name The local name of the account, or `undefined` for the active account.
+   * @param {(client: EaseClient, accessToken: string) => Promise<T>} call The call to make.
+   * @returns {Promise<T>} The result of the call.
+   * @throws {ValidationError} If the account is not registered.
+   * @throws {AuthenticationError} If the account is not signed in.
+   */
+  async run<T>(name: string | undefined, call: (client: EaseClient, accessToken: string) => Promise<T>): Promise<T> {
+    const { client } = this.require(name ?? this.activeName);
+    const { accessToken } = client.session;
+    if (!accessToken) {
+      throw new AuthenticationError(`Account "${name ?? this.activeName}" is not signed in`, ErrorCode.UNAUTHORIZED);
+    }
+    return call(client, accessToken);
+  }
+
+  /**
+   * Returns the addresses of an account, fetching them on first use and serving them from the account afterwards.
+   *
+   * @param {string} [name] The local name of the account, or the active account when omitted.
+   * @param {{ refresh?: boolean }} [options] Pass `refresh: true` to bypass the cached addresses.
+   * @returns {Promise<Address[]>} The addresses of the account.
+   * @throws {ValidationError} If the account is not registered.
+   * @throws {AuthenticationError} If the account is not signed in.
+   */
+  async getAddresses(name?: string, options: { refresh?: boolean } = {}): Promise<Address[]> {
+    const account = this.require(name ?? this.activeName);
+    if (account.addresses && !options.refresh) {
+      return account.addresses;
+    }
+
+    let requestedWith: string | undefined;
+    const addresses = await this.run(account.name, (client, accessToken) => {
+      requestedWith = accessToken;
+      return client.transaction.getAddresses(accessToken, options.refresh ? { cache: 'reload' } : undefined);
+    });
+    // Tokens that changed meanwhile may belong to another account
+    if (account.client.session.accessToken === requestedWith) {
+      account.addresses = addresses;
+    }
+    return addresses;
+  }
+
+  /**
+   * Records the EASE account name of an account.
+   *
+   * @param {string} name The local name of the account.
+   * @param {string} accountName The EASE account name.
+   * @throws {ValidationError} If the account is not registered.
+   */
+  setAccountName(name: string, accountName: string): void {
+    this.require(name).accountName = accountName;
+  }
+
+  /**
+   * Subscribes to a session manager event.
+   *
+   * @param {keyof SessionManagerEvents} event The event to listen for.
+   * @param {Function} listener Called with the event payload.
+   * @returns {() => void} A function that removes the listener.
+   */
+  on<K extends keyof SessionManagerEvents>(event: K, listener: (payload: SessionManagerEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  private require(name: string | undefined): Account {
+    const account = name === undefined ? undefined : this.accounts.get(name);
+    if (!account) {
+      throw new ValidationError(
+        name === undefined ? 'No active account' : `Account "${name}" is not registered`,
+        'name',
+        name,
+      );
+    }
+    return account;
+  }
+}
+
+/**
+ * Creates a session manager whose accounts share the configuration of the given client.
+ *
+ * @param {EaseClient} [client] The client to share. Defaults to the default client.
+ * @returns {SessionManager} The session manager.
+ */
+export function createSessionManager(client?: EaseClient): SessionManager {
+  return new SessionManager(client);
+}
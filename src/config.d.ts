@@ -1,10 +1,65 @@
 import { LogLevel } from './utils/logger';
+import { RedactionPolicy } from './utils/redaction';
 import { Environment } from './utils/type';
+import { ServiceUrls } from './utils/urls';
+import { Transport } from './api/transport';
+import { TokenStore } from './storage';
+import { CrossTabSyncOptions } from './client/crossTabSync';
+import { CacheConfig } from './core/cache';
+import { CircuitBreakerConfig } from './core/circuitBreaker';
 export interface SDKConfig {
   appName?: string;
   environment?: Environment;
+  /**
+   * Replaces the URLs of some services, e.g. to use a local backend with the `develop` environment. Each call replaces
+   * the previous overrides. Production environments log a warning when they are given test or local endpoints.
+   */
+  urls?: Partial<ServiceUrls>;
+  /** The chain calls use when they do not name one, e.g. to register users. Defaults to `'0001'`. See `getChains()`. */
+  chainID?: string;
   logLevel?: LogLevel;
+  /**
+   * How secrets are kept out of log output, transport observers and remote log events. The default rules always apply
+   * unless the policy sets `defaults: false`. See `createRedactor()`.
+   */
+  redaction?: RedactionPolicy;
+  /** Sends every request made by `internalApi`. Defaults to the global `fetch`. */
+  transport?: Transport;
+  /**
+   * Session-aware mode: refresh the session once when requests fail with a 401 and replay them with the new access
+   * token. Defaults to `false`.
+   */
+  autoRefresh?: boolean;
+  /**
+   * Persists the session tokens, e.g. `createWebStorageTokenStore()`. Call `session.restore()` on startup to load
+   * them. Defaults to keeping tokens in memory only.
+   */
+  tokenStore?: TokenStore;
+  /**
+   * Proactively refresh the session this many seconds before the access token expires, based on its `exp` claim.
+   * Off by default.
+   */
+  refreshBeforeExpiry?: number;
+  /**
+   * Browsers only: have the other tabs reload refreshed tokens from the `tokenStore` and follow logouts, and let only
+   * one tab refresh at a time. Off by default.
+   */
+  crossTabSync?: boolean | CrossTabSyncOptions;
+  /**
+   * When to stop sending requests to a service that keeps failing, so calls to it fail fast with
+   * `SERVICE_UNAVAILABLE` instead of waiting for the timeout. On by default. `false` turns it off.
+   */
+  circuitBreaker?: CircuitBreakerConfig | false;
+  /**
+   * How long to keep the responses of reads, like countries, addresses and balances. Identical reads in flight are
+   * always sent once. Responses are cached per session. On by default with `DEFAULT_CACHE_RULES`. `false` turns it off.
+   */
+  cache?: CacheConfig | false;
 }
 export declare function configure(sdkConfig: SDKConfig): void;
 export declare function setAppName(name: string): void;
 export declare function getAppName(): string;
+export declare function setChainID(chainID: string): void;
+export declare function getChainID(): string;
+export declare function setTransport(transport: Transport): void;
+export declare function getTransport(): Transport;
@@ -1,28 +1,156 @@
 import { SDK_VERSION } from './version';
-import { setEnvironment } from './utils/environment';
+import { getEnvironment, INVALID_ENVIRONMENT_MESSAGE, isValidEnvironment, setEnvironment } from './utils/environment';
 import { logger, LogLevel } from './utils/logger';
+import { createRedactor, RedactionPolicy } from './utils/redaction';
 import { Environment } from './utils/type';
+import { ServiceUrls, getUrlOverrides, setUrlOverrides, validateServiceUrls, warnOnMixedEndpoints } from './utils/urls';
+import { ValidationError } from './utils/errors';
+import { fetchTransport, Transport } from './api/transport';
+import type { TokenStore } from './storage';
+import type { CrossTabSyncOptions } from './client/crossTabSync';
+import { CacheConfig, validateCacheConfig } from './core/cache';
+import { CircuitBreakerConfig, validateCircuitBreakerConfig } from './core/circuitBreaker';
+import { getDefaultClient } from './client';
+import { validateRefreshBeforeExpiry } from './client/refreshScheduler';
+import { DEFAULT_CHAIN_ID } from './chains';
+import { shared } from './utils/shared';
 
-const config = {
+const config = shared<{ appName: string; transport: Transport; chainID?: string }>('__EASE_SDK_CONFIG__', () => ({
   appName: `EASE_SDK_DEFAULT_APP_V${SDK_VERSION}`,
-};
+  transport: fetchTransport,
+}));
 
 export interface SDKConfig {
   appName?: string;
   environment?: Environment;
+  /**
+   * Replaces the URLs of some services, e.g. to use a local backend with the `develop` environment. Each call replaces
+   * the previous overrides. Production environments log a warning when they are given test or local endpoints.
+   */
+  urls?: Partial<ServiceUrls>;
+  /** The chain calls use when they do not name one, e.g. to register users. Defaults to `'0001'`. See `getChains()`. */
+  chainID?: string;
   logLevel?: LogLevel;
+  /**
+   * How secrets are kept out of log output, transport observers and remote log events. The default rules always apply
+   * unless the policy sets `defaults: false`. See `createRedactor()`.
+   */
+  redaction?: RedactionPolicy;
+  /** Sends every request made by `internalApi`. Defaults to the global `fetch`. */
+  transport?: Transport;
+  /**
+   * Session-aware mode: refresh the session once when requests fail with a 401 and replay them with the new access
+   * token. Defaults to `false`.
+   */
+  autoRefresh?: boolean;
+  /**
+   * Persists the session tokens, e.g. `createWebStorageTokenStore()`. Call `session.restore()` on startup to load
+   * them. Defaults to keeping tokens in memory only.
+   */
+  tokenStore?: TokenStore;
+  /**
+   * Proactively refresh the session this many seconds before the access token expires, based on its `exp` claim.
+   * Off by default.
+   */
+  refreshBeforeExpiry?: number;
+  /**
+   * Browsers only: have the other tabs reload refreshed tokens from the `tokenStore` and follow logouts, and let only
+   * one tab refresh at a time. Off by default.
+   */
+  crossTabSync?: boolean | CrossTabSyncOptions;
+  /**
+   * When to stop sending requests to a service that keeps failing, so calls to it fail fast with
+   * `SERVICE_UNAVAILABLE` instead of waiting for the timeout. On by default. `false` turns it off.
+   */
+  circuitBreaker?: CircuitBreakerConfig | false;
+  /**
+   * How long to keep the responses of reads, like countries, addresses and balances. Identical reads in flight are
+   * always sent once. Responses are cached per session. On by default with `DEFAULT_CACHE_RULES`. `false` turns it off.
+   */
+  cache?: CacheConfig | false;
 }
 
+/**
+ * Checks a whole configuration before any of it is applied, so an invalid one changes nothing.
+ *
+ * @param {SDKConfig} sdkConfig The configuration to check.
+ * @returns {Partial<ServiceUrls> | undefined} The normalized URL overrides, if the configuration has some.
+ * @throws {ValidationError} If the environment is not supported, a URL override is invalid, or another setting is
+ * out of range.
+ * @internal
+ */
+export function validateConfig(sdkConfig: SDKConfig): Partial<ServiceUrls> | undefined {
+  if (sdkConfig.environment && !isValidEnvironment(sdkConfig.environment)) {
+    throw new ValidationError(INVALID_ENVIRONMENT_MESSAGE, 'environment', sdkConfig.environment);
+  }
+  const urls = sdkConfig.urls && validateServiceUrls(sdkConfig.urls);
+  if (sdkConfig.chainID !== undefined && (!sdkConfig.chainID || typeof sdkConfig.chainID !== 'string')) {
+    throw new ValidationError('Chain ID must be a non-empty string', 'chainID', sdkConfig.chainID);
+  }
+  if (sdkConfig.refreshBeforeExpiry !== undefined) {
+    validateRefreshBeforeExpiry(sdkConfig.refreshBeforeExpiry);
+  }
+  if (sdkConfig.circuitBreaker !== undefined) {
+    validateCircuitBreakerConfig(sdkConfig.circuitBreaker);
+  }
+  if (sdkConfig.cache !== undefined) {
+    validateCacheConfig(sdkConfig.cache);
+  }
+  return urls;
+}
+
+/**
+ * Updates the configuration shared by the module functions and the default client. The whole configuration is
+ * checked first, so an invalid one changes nothing.
+ *
+ * @param {SDKConfig} sdkConfig The settings to apply. Omitted fields keep their current value.
+ * @throws {ValidationError} If the environment is not supported, a URL override is invalid, or another setting is
+ * out of range.
+ */
 export function configure(sdkConfig: SDKConfig) {
+  const urls = validateConfig(sdkConfig);
   if (sdkConfig.appName) {
     setAppName(sdkConfig.appName);
   }
+  if (urls) {
+    setUrlOverrides(urls);
+  }
   if (sdkConfig.environment) {
     setEnvironment(sdkConfig.environment);
   }
+  if (sdkConfig.urls || sdkConfig.environment) {
+    warnOnMixedEndpoints(logger, getEnvironment(), getUrlOverrides());
+  }
+  if (sdkConfig.chainID !== undefined) {
+    setChainID(sdkConfig.chainID);
+  }
   if (sdkConfig.logLevel !== undefined) {
     logger.configure({ level: sdkConfig.logLevel });
   }
+  if (sdkConfig.redaction) {
+    logger.configure({ redactor: createRedactor(sdkConfig.redaction) });
+  }
+  if (sdkConfig.transport) {
+    setTransport(sdkConfig.transport);
+  }
+  if (sdkConfig.autoRefresh !== undefined) {
+    getDefaultClient().setAutoRefresh(sdkConfig.autoRefresh);
+  }
+  if (sdkConfig.tokenStore) {
+    getDefaultClient().session.setStore(sdkConfig.tokenStore);
+  }
+  if (sdkConfig.refreshBeforeExpiry !== undefined) {
+    getDefaultClient().setRefreshBeforeExpiry(sdkConfig.refreshBeforeExpiry);
+  }
+  if (sdkConfig.crossTabSync !== undefined) {
+    getDefaultClient().setCrossTabSync(sdkConfig.crossTabSync);
+  }
+  if (sdkConfig.circuitBreaker !== undefined) {
+    getDefaultClient().circuitBreakers.configure(sdkConfig.circuitBreaker);
+  }
+  if (sdkConfig.cache !== undefined) {
+    getDefaultClient().cache.configure(sdkConfig.cache);
+  }
 }
 
 export function setAppName(name: string) {
@@ -32,3 +160,22 @@ export function setAppName(name: string) {
 export function getAppName(): string {
   return config.appName;
 }
+
+export function setChainID(chainID: string) {
+  if (!chainID || typeof chainID !== 'string') {
+    throw new ValidationError('Chain ID must be a non-empty string', 'chainID', chainID);
+  }
+  config.chainID = chainID;
+}
+
+export function getChainID(): string {
+  return config.chainID ?? DEFAULT_CHAIN_ID;
+}
+
+export function setTransport(transport: Transport) {
+  config.transport = transport;
+}
+
+export function getTransport(): Transport {
+  return config.transport;
+}
@@ -1,26 +1,40 @@
-import { internalApi } from '../api';
-import { logger } from '../utils/logger';
-import { handleUnknownError, isEaseSDKError, ValidationError } from '../utils/errors';
+import type { RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
+import { ErrorCode, handleUnknownError, isEaseSDKError, ValidationError } from '../utils/errors';
+import { stepUpHeaders } from '../stepup';
 import { Contact, SearchUser } from '../utils/type';
 
 /**
  * Retrieves all contacts for the authenticated user.
  *
  * @param {string} accessToken The access token for authorization.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<Contact[]>} A promise that resolves with an array of contact objects.
  * @throws {ValidationError} If the access token is missing or invalid.
  * @throws {Error} If the API call fails or returns an unsuccessful response.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
-export async function getContacts(accessToken: string): Promise<Contact[]> {
+export async function getContacts(
+  this: EaseClient | void,
+  accessToken: string,
+  options?: RequestOptions,
+): Promise<Contact[]> {
+  const { api, logger } = resolveClient(this);
+
   if (!accessToken || typeof accessToken !== 'string') {
     throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
   }
 
   try {
-    const response = await internalApi<Contact[]>('/contacts', 'GET', null, {
-      Authorization: `Bearer ${accessToken.trim()}`,
-    });
+    const response = await api<Contact[]>(
+      '/contacts',
+      'GET',
+      null,
+      { Authorization: `Bearer ${accessToken.trim()}` },
+      false,
+      false,
+      options,
+    );
 
     if (!response.success || !response.data) {
       throw new Error('Failed to get contacts');
@@ -44,12 +58,20 @@ export async function getContacts(accessToken: string): Promise<Contact[]> {
  *
  * @param {string} accessToken The access token for authorization.
  * @param {string} userId The ID of the user to add as a contact.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<{ success: boolean }>} A promise that resolves with a success indicator.
  * @throws {ValidationError} If the access token or user ID are missing or invalid.
  * @throws {Error} If the API call fails or returns an unsuccessful response.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
-export async function addContact(accessToken: string, userId: string): Promise<{ success: boolean }> {
+export async function addContact(
+  this: EaseClient | void,
+  accessToken: string,
+  userId: string,
+  options?: RequestOptions,
+): Promise<{ success: boolean }> {
+  const { api, logger } = resolveClient(this);
+
   if (!accessToken || typeof accessToken !== 'string') {
     throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
   }
@@ -58,13 +80,16 @@ export async function addContact(accessToken: string, userId: string): Promise<{
   }
 
   try {
-    const response = await internalApi<{ success: boolean }>(
+    const response = await api<{ success: boolean }>(
       '/contacts',
       'POST',
       { userId },
       {
         Authorization: `Bearer ${accessToken.trim()}`,
       },
+      false,
+      false,
+      options,
     );
 
     if (!response.success) {
@@ -89,12 +114,20 @@ export async function addContact(accessToken: string, userId: string): Promise<{
  *
  * @param {string} accessToken The access token for authorization.
  * @param {string} id The ID of the contact to delete.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<{ success: boolean }>} A promise that resolves with a success indicator.
  * @throws {ValidationError} If the access token or contact ID are missing or invalid.
  * @throws {Error} If the API call fails or returns an unsuccessful response.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
-export async function deleteContact(accessToken: string, id: string): Promise<{ success: boolean }> {
+export async function deleteContact(
+  this: EaseClient | void,
+  accessToken: string,
+  id: string,
+  options?: RequestOptions,
+): Promise<{ success: boolean }> {
+  const { api, logger, session } = resolveClient(this);
+
   if (!accessToken || typeof accessToken !== 'string') {
     throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
   }
@@ -103,11 +136,23 @@ export async function deleteContact(accessToken: string, id: string): Promise<{
   }
 
   try {
-    const response = await internalApi<{ success: boolean }>(`/contacts/${id}`, 'DELETE', null, {
-      Authorization: `Bearer ${accessToken.trim()}`,
-    });
+    const response = await api<{ success: boolean }>(
+      `/contacts/${id}`,
+      'DELETE',
+      null,
+      {
+        Authorization: `Bearer ${accessToken.trim()}`,
+        ...stepUpHeaders(session, 'deleteContact'),
+      },
+      false,
+      false,
+      options,
+    );
 
     if (!response.success) {
+      if (response.errorDetails?.code === ErrorCode.STEP_UP_REQUIRED) {
+        throw response.errorDetails;
+      }
       throw new Error('Failed to delete contact');
     }
 
@@ -129,12 +174,20 @@ export async function deleteContact(accessToken: string, id: string): Promise<{
  *
  * @param {string} accessToken The access token for authorization.
  * @param {string} query The search query string.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<SearchUser[]>} A promise that resolves with an array of matching user objects.
  * @throws {ValidationError} If the access token or query are missing or invalid.
  * @throws {Error} If the API call fails or returns an unsuccessful response.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
-export async function searchContacts(accessToken: string, query: string): Promise<SearchUser[]> {
+export async function searchContacts(
+  this: EaseClient | void,
+  accessToken: string,
+  query: string,
+  options?: RequestOptions,
+): Promise<SearchUser[]> {
+  const { api, logger } = resolveClient(this);
+
   if (!accessToken || typeof accessToken !== 'string') {
     throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
   }
@@ -143,9 +196,15 @@ export async function searchContacts(accessToken: string, query: string): Promis
   }
 
   try {
-    const response = await internalApi<SearchUser[]>(`/contacts/search?query=${query}`, 'GET', null, {
-      Authorization: `Bearer ${accessToken.trim()}`,
-    });
+    const response = await api<SearchUser[]>(
+      `/contacts/search?query=${query}`,
+      'GET',
+      null,
+      { Authorization: `Bearer ${accessToken.trim()}` },
+      false,
+      false,
+      options,
+    );
 
     if (!response.success || !response.data) {
       throw new Error('Failed to search contacts');
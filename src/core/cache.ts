@@ -0,0 +1,294 @@
+import type { ApiResponse } from '../api';
+import type { HttpMethod } from '../api/transport';
+import { ErrorCode, ValidationError } from '../utils/errors';
+import { logger as defaultLogger, Logger } from '../utils/logger';
+import type { ApiHandler, ApiRequest } from './middleware';
+import { shared } from '../utils/shared';
+
+/**
+ * Which responses to cache, and for how long.
+ *
+ * @example
+ * { service: 'EASE_API', path: '/contacts', ttlMs: 30000, staleWhileRevalidateMs: 300000 }
+ */
+export type CacheRule = {
+  /** The request method. Defaults to `GET`. Reads sent as `POST`, like EASE balances, need a rule to be cached. */
+  method?: HttpMethod;
+  /** The service of the request, e.g. `MEMPOOL_SPACE`. Defaults to any service. */
+  service?: string;
+  /**
+   * Matched against the end of the URL path, so base paths like `/testnet` do not matter. `*` stands for any one
+   * segment, e.g. `/api/address/*`. The query string and body are not matched, but are part of the cache key.
+   */
+  path: string;
+  /** How long a response is served from the cache without asking the server, in milliseconds. */
+  ttlMs: number;
+  /** How long after that a stale response is still served while it is refreshed in the background. Defaults to 0. */
+  staleWhileRevalidateMs?: number;
+};
+
+export type CacheConfig = {
+  /** Added to the default rules, or used instead of them with `defaults: false`. Earlier rules win. */
+  rules?: CacheRule[];
+  /** Whether to apply `DEFAULT_CACHE_RULES`. Defaults to `true`. */
+  defaults?: boolean;
+  /** How many responses to keep. The least recently stored go first. Defaults to 500. */
+  maxEntries?: number;
+};
+
+/**
+ * `'default'` serves cached responses, `'reload'` asks the server and caches the answer, e.g. for pull-to-refresh,
+ * and `'no-store'` neither reads nor writes the cache.
+ */
+export type CacheMode = 'default' | 'reload' | 'no-store';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+export const DEFAULT_CACHE_RULES: CacheRule[] = [
+  { service: 'EASE_API', path: '/phone/countries', ttlMs: 24 * HOUR },
+  { service: 'EASE_API', path: '/transaction/keys/addresses', ttlMs: MINUTE, staleWhileRevalidateMs: 5 * MINUTE },
+  // Balances of EASE chains, BTC and ETH
+  {
+    service: 'EXTERNAL',
+    method: 'POST',
+    path: '/v1/chain/get_currency_balance',
+    ttlMs: 15 * SECOND,
+    staleWhileRevalidateMs: MINUTE,
+  },
+  { service: 'MEMPOOL_SPACE', path: '/api/address/*', ttlMs: 15 * SECOND, staleWhileRevalidateMs: MINUTE },
+  { service: 'ETHERSCAN_PROXY', path: '/api/balance', ttlMs: 15 * SECOND, staleWhileRevalidateMs: MINUTE },
+];
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+type Entry = {
+  response: ApiResponse<unknown>;
+  etag?: string;
+  storedAt: number;
+  rule: CacheRule;
+  service: string;
+};
+
+const toSegments = (path: string) => path.split('/').filter(Boolean);
+
+const matchesPath = (pattern: string[], path: string[]) => {
+  const tail = path.slice(path.length - pattern.length);
+  return pattern.length <= path.length && pattern.every((segment, i) => segment === '*' || segment === tail[i]);
+};
+
+const pathOf = (url: string) => {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url.split('?')[0];
+  }
+};
+
+// Every session, or access token passed explicitly, gets its own partition
+const partitionOf = (request: ApiRequest) => {
+  const name = Object.keys(request.headers).find((header) => header.toLowerCase() === 'authorization');
+  return name ? request.headers[name] : '';
+};
+
+// Each caller gets its own copy of a shared response, so one that changes the data does not change it for the others
+const copyOf = <T>(response: ApiResponse<T>): ApiResponse<T> => {
+  const { data } = response;
+  if (Array.isArray(data)) return { ...response, data: [...data] as T };
+  if (typeof data === 'object' && data !== null) return { ...response, data: { ...data } };
+  return { ...response };
+};
+
+const keyOf = (request: ApiRequest) =>
+  [partitionOf(request), request.method, request.url, JSON.stringify(request.body ?? null)].join('\n');
+
+const validateRule = (rule: CacheRule, index: number) => {
+  if (!rule || typeof rule.path !== 'string' || !rule.path) {
+    throw new ValidationError('Cache rules need a path', `cache.rules.${index}.path`, rule?.path);
+  }
+  for (const field of ['ttlMs', 'staleWhileRevalidateMs'] as const) {
+    const value = rule[field];
+    if ((value !== undefined || field === 'ttlMs') && (typeof value !== 'number' || !(value >= 0))) {
+      throw new ValidationError(`cache.rules.${index}.${field} must be a non-negative number`, field, value);
+    }
+  }
+};
+
+/**
+ * Checks the rules and size of a cache configuration without applying it.
+ *
+ * @throws {ValidationError} If a rule or the size is invalid.
+ * @internal
+ */
+export function validateCacheConfig(config: CacheConfig | false): void {
+  if (config === false) return;
+  config.rules?.forEach(validateRule);
+  if (config.maxEntries !== undefined && (!Number.isInteger(config.maxEntries) || (config.maxEntries as number) < 1)) {
+    throw new ValidationError('cache.maxEntries must be a positive integer', 'maxEntries', config.maxEntries);
+  }
+}
+
+/**
+ * Creates the response cache of a client. It coalesces identical reads in flight and caches the responses that
+ * `DEFAULT_CACHE_RULES` or the configured rules match, per session.
+ *
+ * @param {Logger} [logger] Logs revalidations. Defaults to the SDK logger.
+ * @returns {ResponseCache} The response cache.
+ * @internal
+ */
+export function createResponseCache(logger: Logger = defaultLogger) {
+  const entries = new Map<string, Entry>();
+  const inFlight = new Map<string, Promise<ApiResponse<any>>>();
+  let enabled = true;
+  let rules = DEFAULT_CACHE_RULES;
+  let maxEntries = DEFAULT_MAX_ENTRIES;
+
+  const ruleOf = (request: ApiRequest) => {
+    const path = toSegments(pathOf(request.url));
+    return rules.find(
+      (rule) =>
+        (rule.method ?? 'GET') === request.method &&
+        (rule.service === undefined || rule.service === request.service) &&
+        matchesPath(toSegments(rule.path), path),
+    );
+  };
+
+  const store = (key: string, request: ApiRequest, response: ApiResponse<unknown>, rule: CacheRule) => {
+    entries.delete(key); // re-inserted last, so eviction drops the least recently stored
+    entries.set(key, {
+      response,
+      etag: response.headers?.get('ETag') ?? undefined,
+      storedAt: Date.now(),
+      rule,
+      service: request.service,
+    });
+    while (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value as string);
+    }
+  };
+
+  // Sends the request, or joins the identical one already in flight
+  const load = (key: string, request: ApiRequest, send: ApiHandler, rule: CacheRule | undefined, mode: CacheMode) => {
+    const pending = inFlight.get(key);
+    if (pending) {
+      return { promise: pending, joined: true };
+    }
+
+    const cached = entries.get(key);
+    const conditional =
+      cached?.etag && mode !== 'no-store'
+        ? { ...request, headers: { ...request.headers, 'If-None-Match': cached.etag } }
+        : request;
+    const promise = send(conditional)
+      .then((response) => {
+        if (response.statusCode === 304 && cached) {
+          cached.storedAt = Date.now();
+          return cached.response;
+        }
+        if (response.success && rule && mode !== 'no-store') {
+          store(key, request, response, rule);
+        }
+        return response;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return { promise, joined: false };
+  };
+
+  return {
+    /**
+     * Replaces the rules and size of the cache, or turns it off with `false`. Cached responses are dropped.
+     *
+     * @throws {ValidationError} If a rule or the size is invalid.
+     */
+    configure(config: CacheConfig | false) {
+      validateCacheConfig(config);
+      entries.clear();
+      enabled = config !== false;
+      if (config === false) return;
+
+      rules = [...(config.rules ?? []), ...(config.defaults === false ? [] : DEFAULT_CACHE_RULES)];
+      maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    },
+    /**
+     * Sends a request through the cache. Reads are coalesced with identical reads in flight, and those a rule
+     * matches are served from the cache while fresh, or while stale within their revalidation window. Successful
+     * writes drop the cached responses of the same session and service, since they may have changed them. Every
+     * caller gets its own shallow copy of a shared response.
+     */
+    async run<T>(
+      request: ApiRequest,
+      send: ApiHandler,
+      { mode = 'default', signal }: { mode?: CacheMode; signal?: AbortSignal } = {},
+    ): Promise<ApiResponse<T>> {
+      if (!enabled) {
+        return send(request);
+      }
+      const rule = ruleOf(request);
+      if (!rule && request.method !== 'GET' && request.method !== 'HEAD') {
+        const response = await send(request);
+        if (response.success) {
+          entries.forEach((entry, key) => {
+            if (entry.service === request.service && key.startsWith(`${partitionOf(request)}\n`)) entries.delete(key);
+          });
+        }
+        return response;
+      }
+
+      const key = keyOf(request);
+      const cached = rule && mode === 'default' ? entries.get(key) : undefined;
+      if (cached) {
+        const age = Date.now() - cached.storedAt;
+        if (age < cached.rule.ttlMs) {
+          return copyOf(cached.response as ApiResponse<T>);
+        }
+        if (age < cached.rule.ttlMs + (cached.rule.staleWhileRevalidateMs ?? 0)) {
+          logger.debug('Serving a stale response while revalidating it', { requestId: request.requestId });
+          load(key, request, send, rule, mode).promise.catch(() => undefined);
+          return copyOf(cached.response as ApiResponse<T>);
+        }
+      }
+
+      const { promise, joined } = load(key, request, send, rule, mode);
+      if (!joined) {
+        return copyOf(await promise);
+      }
+      // A caller that joined another one's request can still cancel, and is not cancelled along with it
+      let onAbort = () => undefined as void;
+      const aborted = new Promise<'aborted'>((resolve) => {
+        onAbort = () => resolve('aborted');
+        if (signal?.aborted) onAbort();
+        signal?.addEventListener('abort', onAbort);
+      });
+      try {
+        const response = await Promise.race([promise, aborted]);
+        if (response === 'aborted' || response.errorDetails?.code === ErrorCode.REQUEST_ABORTED) {
+          return send(request); // fails fast with REQUEST_ABORTED if this caller cancelled, or sends it again
+        }
+        return copyOf(response);
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    },
+    /**
+     * Drops the cached responses of an access token, e.g. once the user signed out, or every cached response.
+     *
+     * @param {string} [accessToken] The access token whose responses to drop. Omit it to drop them all.
+     */
+    clear(accessToken?: string) {
+      if (accessToken === undefined) {
+        entries.clear();
+        return;
+      }
+      entries.forEach((_entry, key) => {
+        if (key.startsWith(`Bearer ${accessToken.trim()}\n`)) entries.delete(key);
+      });
+    },
+  };
+}
+
+export type ResponseCache = ReturnType<typeof createResponseCache>;
+
+// Process-wide cache, used by the default client and the free functions.
+export const defaultResponseCache = shared('__EASE_SDK_RESPONSE_CACHE__', () => createResponseCache());
@@ -0,0 +1,199 @@
+import { ValidationError } from '../utils/errors';
+import { logger as defaultLogger, Logger } from '../utils/logger';
+import { CircuitState, CircuitStateChangeCtx } from '../utils/type';
+import { defaultTransportTelemetry } from './telemetry';
+import { shared } from '../utils/shared';
+
+export type CircuitBreakerOptions = {
+  /** Consecutive failures that open the circuit. Defaults to 5. */
+  failureThreshold?: number;
+  /** How long an open circuit fails fast before it lets a trial request through. Defaults to 30000 ms. */
+  resetTimeoutMs?: number;
+  /** Successful trial requests that close a half-open circuit. Defaults to 1. */
+  successThreshold?: number;
+};
+
+/**
+ * The thresholds of the circuit breakers, which stop sending requests to a service that keeps failing. Every service
+ * of `serviceFrom()` (`EASE_API`, `EASE_RELAY`, `MEMPOOL_SPACE`, `ETHERSCAN_PROXY` and `EXTERNAL`) has its own
+ * circuit.
+ *
+ * @example
+ * configure({ circuitBreaker: { failureThreshold: 3, services: { EASE_API: { resetTimeoutMs: 10000 } } } });
+ */
+export type CircuitBreakerConfig = CircuitBreakerOptions & {
+  /** Settings of individual services, or `false` to never open their circuit. */
+  services?: Record<string, CircuitBreakerOptions | false>;
+};
+
+/** How a request ended, as far as the health of its service goes. */
+export type CircuitOutcome = 'success' | 'failure' | 'cancelled';
+
+type Circuit = {
+  state: CircuitState;
+  failures: number;
+  successes: number;
+  openedAt: number;
+  trialInFlight: boolean;
+};
+
+const DEFAULTS: Required<CircuitBreakerOptions> = { failureThreshold: 5, resetTimeoutMs: 30000, successThreshold: 1 };
+
+const validateOptions = (options: CircuitBreakerOptions, field: string) => {
+  (Object.keys(DEFAULTS) as (keyof CircuitBreakerOptions)[]).forEach((name) => {
+    const value = options[name];
+    if (
+      value !== undefined &&
+      (typeof value !== 'number' || !Number.isFinite(value) || value < (name === 'resetTimeoutMs' ? 0 : 1))
+    ) {
+      throw new ValidationError(`${field}.${name} must be a positive number`, `${field}.${name}`, value);
+    }
+  });
+};
+
+/**
+ * Checks the thresholds of a circuit breaker configuration without applying it.
+ *
+ * @throws {ValidationError} If a threshold is not a positive number.
+ * @internal
+ */
+export function validateCircuitBreakerConfig(config: CircuitBreakerConfig | false): void {
+  if (config === false) return;
+  validateOptions(config, 'circuitBreaker');
+  Object.entries(config.services ?? {}).forEach(([service, options]) => {
+    if (options !== false) validateOptions(options, `circuitBreaker.services.${service}`);
+  });
+}
+
+/**
+ * Creates the circuit breakers of a client, one circuit per service. A circuit opens after `failureThreshold`
+ * consecutive failures, fails fast for `resetTimeoutMs`, then lets one trial request through and closes again after
+ * `successThreshold` successful trials.
+ *
+ * @param {Logger} [logger] Logs state changes. Defaults to the SDK logger.
+ * @param {(ctx: CircuitStateChangeCtx) => void} [onStateChange] Called whenever a circuit changes state.
+ * @returns {CircuitBreakers} The circuit breakers.
+ * @internal
+ */
+export function createCircuitBreakers(
+  logger: Logger = defaultLogger,
+  onStateChange: (ctx: CircuitStateChangeCtx) => void = () => undefined,
+) {
+  const circuits = new Map<string, Circuit>();
+  let config: CircuitBreakerConfig | false = {};
+
+  const optionsOf = (service: string): Required<CircuitBreakerOptions> | undefined => {
+    const serviceOptions = config === false ? false : config.services?.[service];
+    if (config === false || serviceOptions === false) return undefined;
+    return { ...DEFAULTS, ...config, ...serviceOptions };
+  };
+
+  const circuitOf = (service: string): Circuit => {
+    let circuit = circuits.get(service);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: 0, successes: 0, openedAt: 0, trialInFlight: false };
+      circuits.set(service, circuit);
+    }
+    return circuit;
+  };
+
+  const transition = (service: string, circuit: Circuit, to: CircuitState) => {
+    const from = circuit.state;
+    const failures = circuit.failures;
+    circuit.state = to;
+    circuit.successes = 0;
+    circuit.trialInFlight = false;
+    if (to === 'open') circuit.openedAt = Date.now();
+    if (to === 'closed') circuit.failures = 0;
+
+    const log = to === 'open' ? logger.warn : logger.info;
+    log.call(logger, `Circuit of ${service} is ${to}`, { from, failures });
+    onStateChange({ service, from, to, failures, timestamp: Date.now() });
+  };
+
+  return {
+    /**
+     * Replaces the thresholds. Circuits keep their state, and `false` closes them all for good.
+     *
+     * @throws {ValidationError} If a threshold is not a positive number.
+     */
+    configure(next: CircuitBreakerConfig | false) {
+      validateCircuitBreakerConfig(next);
+      config = next;
+      if (next === false) {
+        circuits.forEach((circuit, service) => {
+          if (circuit.state !== 'closed') transition(service, circuit, 'closed');
+        });
+      }
+    },
+    /**
+     * Whether a request to the service may go out. An open circuit turns half-open once its reset timeout elapsed,
+     * and then lets a single trial request through at a time.
+     */
+    allow(service: string): boolean {
+      const options = optionsOf(service);
+      const circuit = circuits.get(service);
+      if (!options || !circuit || circuit.state === 'closed') return true;
+
+      if (circuit.state === 'open') {
+        if (Date.now() - circuit.openedAt < options.resetTimeoutMs) return false;
+        transition(service, circuit, 'half-open');
+      }
+      if (circuit.trialInFlight) return false;
+      circuit.trialInFlight = true;
+      return true;
+    },
+    /** Counts the outcome of a request that `allow()` let through. */
+    record(service: string, outcome: CircuitOutcome) {
+      const options = optionsOf(service);
+      if (!options) return;
+      const circuit = circuitOf(service);
+      circuit.trialInFlight = false;
+
+      if (outcome === 'failure') {
+        circuit.failures += 1;
+        if (
+          circuit.state === 'half-open' ||
+          (circuit.state === 'closed' && circuit.failures >= options.failureThreshold)
+        ) {
+          transition(service, circuit, 'open');
+        }
+      } else if (outcome === 'success') {
+        if (circuit.state === 'half-open') {
+          circuit.successes += 1;
+          if (circuit.successes >= options.successThreshold) transition(service, circuit, 'closed');
+        } else {
+          circuit.failures = 0;
+        }
+      }
+    },
+    /** How long the circuit keeps failing fast, in milliseconds. 0 unless it is open. */
+    retryAfterMs(service: string): number {
+      const options = optionsOf(service);
+      const circuit = circuits.get(service);
+      if (!options || circuit?.state !== 'open') return 0;
+      return Math.max(0, circuit.openedAt + options.resetTimeoutMs - Date.now());
+    },
+    /** The state of the service's circuit. */
+    getState(service: string): CircuitState {
+      return circuits.get(service)?.state ?? 'closed';
+    },
+    /** Closes the circuit of a service, or of every service, e.g. once the app knows the network is back. */
+    reset(service?: string) {
+      circuits.forEach((circuit, name) => {
+        if ((service === undefined || name === service) && circuit.state !== 'closed') {
+          transition(name, circuit, 'closed');
+        }
+      });
+      if (service === undefined) circuits.clear();
+      else circuits.delete(service);
+    },
+  };
+}
+
+export type CircuitBreakers = ReturnType<typeof createCircuitBreakers>;
+
+// Process-wide circuits, used by the default client and the free functions.
+export const defaultCircuitBreakers = shared('__EASE_SDK_CIRCUIT_BREAKERS__', () =>
+  createCircuitBreakers(defaultLogger, defaultTransportTelemetry._notify.circuit),
+);
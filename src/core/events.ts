@@ -0,0 +1,29 @@
+import { logger as defaultLogger, Logger } from '../utils/logger';
+
+// core/events.ts
+export function createEmitter<Events extends Record<string, unknown>>(logger: Logger = defaultLogger) {
+  const listeners: { [K in keyof Events]?: Array<(payload: Events[K]) => void> } = {};
+
+  return {
+    on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void) {
+      const list = (listeners[event] ??= []);
+      list.push(listener);
+      return () => {
+        const i = list.indexOf(listener);
+        if (i >= 0) list.splice(i, 1);
+      };
+    },
+    emit<K extends keyof Events>(event: K, payload: Events[K]) {
+      [...(listeners[event] ?? [])].forEach((listener) => {
+        try {
+          listener(payload);
+        } catch (error) {
+          // a failing listener must not break the SDK flow that emitted the event
+          logger.warn(`Listener for "${String(event)}" threw`, error);
+        }
+      });
+    },
+  };
+}
+
+export type Emitter<Events extends Record<string, unknown>> = ReturnType<typeof createEmitter<Events>>;
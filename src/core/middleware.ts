@@ -0,0 +1,63 @@
+import { logger as defaultLogger, Logger } from '../utils/logger';
+import type { ApiResponse } from '../api';
+import type { HttpMethod } from '../api/transport';
+import type { EaseClient } from '../client';
+import { shared } from '../utils/shared';
+
+/**
+ * The outgoing request as seen by middleware. Middleware may mutate `url`, `method`, `headers` and `body` in place
+ * or pass a modified copy to `next`.
+ */
+export type ApiRequest = {
+  requestId: string;
+  url: string; // fully resolved URL
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body: unknown; // serialized to JSON by internalApi
+  origin: 'internal' | 'external';
+  service: string;
+  client: EaseClient; // the client the request is sent on behalf of
+};
+
+export type ApiHandler = (request: ApiRequest) => Promise<ApiResponse<any>>;
+
+/**
+ * Wraps every `internalApi` call. Call `next` to continue down the chain, or return an `ApiResponse` without calling
+ * it to short-circuit. Failures arrive as responses with `success: false`, so both responses and errors can be
+ * transformed or replaced from the value `next` resolves with.
+ */
+export type ApiMiddleware = (request: ApiRequest, next: ApiHandler) => Promise<ApiResponse<any>>;
+
+// core/middleware.ts
+export function createMiddlewarePipeline(logger: Logger = defaultLogger) {
+  const middlewares: ApiMiddleware[] = [];
+
+  return {
+    addMiddleware(m: ApiMiddleware) {
+      logger.debug('Adding middleware');
+      middlewares.push(m);
+      return () => {
+        logger.debug('Removing middleware');
+        const i = middlewares.indexOf(m);
+        if (i >= 0) middlewares.splice(i, 1);
+      };
+    },
+    // Middleware run in registration order on the way out and in reverse order on the way back.
+    run<T>(request: ApiRequest, handler: (request: ApiRequest) => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> {
+      const chain = [...middlewares]; // snapshot, so (un)registering mid-request does not reorder this one
+      const dispatch = (index: number, req: ApiRequest): Promise<ApiResponse<T>> => {
+        const middleware = chain[index];
+        if (!middleware) return handler(req);
+        return middleware(req, (next) => dispatch(index + 1, next ?? req));
+      };
+      return dispatch(0, request);
+    },
+  };
+}
+
+export type MiddlewarePipeline = ReturnType<typeof createMiddlewarePipeline>;
+
+// Process-wide middleware, used by the default client and the free functions.
+export const defaultMiddlewarePipeline = shared('__EASE_SDK_MIDDLEWARE__', () => createMiddlewarePipeline());
+
+export const { addMiddleware } = defaultMiddlewarePipeline;
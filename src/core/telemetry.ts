@@ -1,21 +1,46 @@
-import { logger } from '../utils/logger';
-import { TransportErrorCtx, TransportObserver, TransportRequestCtx, TransportResponseCtx } from '../utils/type';
+import { logger as defaultLogger, Logger } from '../utils/logger';
+import {
+  CircuitStateChangeCtx,
+  TransportErrorCtx,
+  TransportObserver,
+  TransportRequestCtx,
+  TransportResponseCtx,
+} from '../utils/type';
+import { shared } from '../utils/shared';
 
 // core/telemetry.ts
-const observers: TransportObserver[] = [];
+export function createTransportTelemetry(logger: Logger = defaultLogger) {
+  const observers: TransportObserver[] = [];
 
-export function addTransportObserver(o: TransportObserver) {
-  logger.debug('Adding transport observer');
-  observers.push(o);
-  return () => {
-    logger.debug('Removing transport observer');
-    const i = observers.indexOf(o);
-    if (i >= 0) observers.splice(i, 1);
+  const notify = <T>(ctx: T, call: (observer: TransportObserver, redacted: T) => void) => {
+    if (observers.length === 0) return;
+    const redacted = logger.getRedactor().redact(ctx);
+    observers.forEach((o) => call(o, redacted));
+  };
+
+  return {
+    addTransportObserver(o: TransportObserver) {
+      logger.debug('Adding transport observer');
+      observers.push(o);
+      return () => {
+        logger.debug('Removing transport observer');
+        const i = observers.indexOf(o);
+        if (i >= 0) observers.splice(i, 1);
+      };
+    },
+    // Observers receive redacted copies of the contexts, since they commonly forward them to third parties
+    _notify: {
+      request: (ctx: TransportRequestCtx) => notify(ctx, (o, redacted) => o.onRequest?.(redacted)),
+      response: (ctx: TransportResponseCtx) => notify(ctx, (o, redacted) => o.onResponse?.(redacted)),
+      error: (ctx: TransportErrorCtx) => notify(ctx, (o, redacted) => o.onError?.(redacted)),
+      circuit: (ctx: CircuitStateChangeCtx) => notify(ctx, (o, redacted) => o.onCircuitStateChange?.(redacted)),
+    },
   };
 }
 
-export const _notify = {
-  request: (ctx: TransportRequestCtx) => observers.forEach((o) => o.onRequest?.(ctx)),
-  response: (ctx: TransportResponseCtx) => observers.forEach((o) => o.onResponse?.(ctx)),
-  error: (ctx: TransportErrorCtx) => observers.forEach((o) => o.onError?.(ctx)),
-};
+export type TransportTelemetry = ReturnType<typeof createTransportTelemetry>;
+
+// Process-wide observers, used by the default client and the free functions.
+export const defaultTransportTelemetry = shared('__EASE_SDK_TRANSPORT_TELEMETRY__', () => createTransportTelemetry());
+
+export const { addTransportObserver, _notify } = defaultTransportTelemetry;
@@ -0,0 +1,439 @@
+import type { RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
+import { JoinResponse, OptionsResp, Passkey, PublicKeyCredential } from '../utils/type';
+import {
+  APIError,
+  AuthenticationError,
+  WebAuthnError,
+  ValidationError,
+  ErrorCode,
+  handleUnknownError,
+  isEaseSDKError,
+} from '../utils/errors';
+import { createCredential, WebAuthnCeremonyOptions } from '../utils/webauthn';
+import { stepUpHeaders } from '../stepup';
+
+/**
+ * Lists the passkeys registered to the authenticated user's account.
+ *
+ * @param {string} accessToken The access token for authorization.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+ * @returns {Promise<Passkey[]>} A promise that resolves with the registered passkeys.
+ * @throws {ValidationError} If the access token is missing or invalid.
+ * @throws {AuthenticationError} If the access token is invalid or expired.
+ * @throws {APIError} If the API call fails or returns an unsuccessful response.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function getPasskeys(
+  this: EaseClient | void,
+  accessToken: string,
+  options?: RequestOptions,
+): Promise<Passkey[]> {
+  const { api, logger } = resolveClient(this);
+
+  if (!accessToken || typeof accessToken !== 'string') {
+    throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
+  }
+
+  try {
+    const response = await api<Passkey[]>(
+      '/credentials',
+      'GET',
+      null,
+      { Authorization: `Bearer ${accessToken.trim()}` },
+      false,
+      false,
+      options,
+    );
+
+    if (!response.success || !response.data) {
+      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
+        throw response.errorDetails;
+      }
+      throw new APIError(response.error || 'Failed to get passkeys', response.statusCode);
+    }
+
+    return response.data;
+  } catch (error) {
+    if (isEaseSDKError(error)) {
+      throw error;
+    }
+    const enhancedError = handleUnknownError(error, {
+      operation: 'getPasskeys',
+    });
+    logger.error('Unexpected error in getPasskeys:', enhancedError);
+    throw enhancedError;
+  }
+}
+
+/**
+ * Renames a passkey, e.g. to tell a phone and a security key apart.
+ *
+ * @param {string} accessToken The access token for authorization.
+ * @param {string} id The ID of the passkey.
+ * @param {string} name The new name.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+ * @returns {Promise<Passkey>} A promise that resolves with the renamed passkey.
+ * @throws {ValidationError} If the access token, ID or name are missing or invalid.
+ * @throws {AuthenticationError} If the access token is invalid or expired.
+ * @throws {APIError} If the passkey does not exist or the API call fails.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function renamePasskey(
+  this: EaseClient | void,
+  accessToken: string,
+  id: string,
+  name: string,
+  options?: RequestOptions,
+): Promise<Passkey> {
+  const { api, logger } = resolveClient(this);
+
+  if (!accessToken || typeof accessToken !== 'string') {
+    throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
+  }
+  if (!id || typeof id !== 'string') {
+    throw new ValidationError('Passkey ID is required and must be a string', 'id', id);
+  }
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    throw new ValidationError('Name is required and must be a non-empty string', 'name', name);
+  }
+
+  try {
+    const response = await api<Passkey>(
+      `/credentials/${encodeURIComponent(id)}`,
+      'PATCH',
+      { name: name.trim() },
+      {
+        Authorization: `Bearer ${accessToken.trim()}`,
+      },
+      false,
+      false,
+      options,
+    );
+
+    if (!response.success || !response.data) {
+      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
+        throw response.errorDetails;
+      }
+      throw new APIError(response.error || 'Failed to rename passkey', response.statusCode, undefined, { id });
+    }
+
+    return response.data;
+  } catch (error) {
+    if (isEaseSDKError(error)) {
+      throw error;
+    }
+    const enhancedError = handleUnknownError(error, {
+      operation: 'renamePasskey',
+      id,
+    });
+    logger.error('Unexpected error in renamePasskey:', enhancedError);
+    throw enhancedError;
+  }
+}
+
+/**
+ * Revokes a passkey. It can no longer be used to log in; the authenticator keeps its copy until the user deletes it.
+ *
+ * @param {string} accessToken The access token for authorization.
+ * @param {string} id The ID of the passkey.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+ * @returns {Promise<{ success: boolean }>} A promise that resolves with a success indicator.
+ * @throws {ValidationError} If the access token or ID are missing or invalid.
+ * @throws {AuthenticationError} If the access token is invalid or expired.
+ * @throws {APIError} If the passkey does not exist, is the last one of the account, or the API call fails.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function revokePasskey(
+  this: EaseClient | void,
+  accessToken: string,
+  id: string,
+  options?: RequestOptions,
+): Promise<{ success: boolean }> {
+  const { api, logger, session } = resolveClient(this);
+
+  if (!accessToken || typeof accessToken !== 'string') {
+    throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
+  }
+  if (!id || typeof id !== 'string') {
+    throw new ValidationError('Passkey ID is required and must be a string', 'id', id);
+  }
+
+  try {
+    const response = await api<{ success: boolean }>(
+      `/credentials/${encodeURIComponent(id)}`,
+      'DELETE',
+      null,
+      {
+        Authorization: `Bearer ${accessToken.trim()}`,
+        ...stepUpHeaders(session, 'revokePasskey'),
+      },
+      false,
+      false,
+      options,
+    );
+
+    if (!response.success) {
+      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
+        throw response.errorDetails;
+      }
+      throw new APIError(response.error || 'Failed to revoke passkey', response.statusCode, undefined, { id });
+    }
+
+    logger.debug('Passkey revoked:', { id: id.substring(0, 8) + '***' });
+    return { success: true };
+  } catch (error) {
+    if (isEaseSDKError(error)) {
+      throw error;
+    }
+    const enhancedError = handleUnknownError(error, {
+      operation: 'revokePasskey',
+      id,
+    });
+    logger.error('Unexpected error in revokePasskey:', enhancedError);
+    throw enhancedError;
+  }
+}
+
+/**
+ * Starts registering an additional passkey for the authenticated user by fetching WebAuthn creation options.
+ * This is the first step of adding a passkey, followed by `addPasskeyCallback()`.
+ *
+ * @param {string} accessToken The access token for authorization.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+ * @returns {Promise<JoinResponse>} A promise that resolves with the WebAuthn public key credential creation options and a session ID.
+ * @throws {ValidationError} If the access token is missing or invalid.
+ * @throws {AuthenticationError} If the access token is invalid or expired.
+ * @throws {WebAuthnError} If passkey creation options are not available or missing from the response.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function addPasskey(
+  this: EaseClient | void,
+  accessToken: string,
+  options?: RequestOptions,
+): Promise<JoinResponse> {
+  const { api, logger } = resolveClient(this);
+
+  if (!accessToken || typeof accessToken !== 'string') {
+    throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
+  }
+
+  try {
+    const response = await api<OptionsResp>(
+      '/credentials/options',
+      'POST',
+      null,
+      { Authorization: `Bearer ${accessToken.trim()}` },
+      false,
+      false,
+      options,
+    );
+
+    if (!response.success) {
+      logger.error('Passkey options request failed:', {
+        tokenPrefix: accessToken.substring(0, 8) + '***',
+        error: response.error,
+        statusCode: response.statusCode,
+      });
+
+      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
+        throw response.errorDetails;
+      }
+
+      if (response.statusCode === 401) {
+        throw new AuthenticationError('Invalid or expired access token', ErrorCode.UNAUTHORIZED, {
+          tokenPrefix: accessToken.substring(0, 8),
+        });
+      }
+
+      throw new WebAuthnError(
+        response.error || 'Failed to get passkey creation options',
+        ErrorCode.PASSKEY_CREATION_FAILED,
+        { tokenPrefix: accessToken.substring(0, 8) },
+      );
+    }
+
+    const publicKey = response.data?.publicKey;
+    if (!publicKey) {
+      throw new WebAuthnError(
+        'Invalid response: missing WebAuthn creation options',
+        ErrorCode.PASSKEY_CREATION_FAILED,
+        { tokenPrefix: accessToken.substring(0, 8) },
+      );
+    }
+
+    const sessionId = response.headers?.get('X-Session-Id');
+    if (!sessionId) {
+      logger.warn('Missing session ID in passkey options response headers');
+      throw new WebAuthnError('Invalid response: missing session ID', ErrorCode.PASSKEY_CREATION_FAILED, {
+        tokenPrefix: accessToken.substring(0, 8),
+      });
+    }
+
+    logger.debug('Passkey options retrieved successfully:', {
+      tokenPrefix: accessToken.substring(0, 8) + '***',
+      sessionId: sessionId.substring(0, 8) + '***',
+    });
+
+    return {
+      publicKey,
+      sessionId,
+    };
+  } catch (error) {
+    if (isEaseSDKError(error)) {
+      throw error;
+    }
+
+    const enhancedError = handleUnknownError(error, {
+      operation: 'addPasskey',
+      tokenPrefix: accessToken.substring(0, 8),
+    });
+
+    logger.error('Unexpected error in addPasskey:', enhancedError);
+    throw enhancedError;
+  }
+}
+
+/**
+ * Completes registering an additional passkey by sending the created WebAuthn credential back to the API.
+ * This is the second step of adding a passkey, following `addPasskey()`.
+ *
+ * @param {PublicKeyCredential} credential The WebAuthn credential obtained from the user's authenticator.
+ * @param {string} accessToken The access token for authorization.
+ * @param {string} sessionId The session ID received from the `addPasskey()` function.
+ * @param {string} [name] Optional name for the passkey.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+ * @returns {Promise<Passkey>} A promise that resolves with the registered passkey.
+ * @throws {ValidationError} If any required parameters are invalid or missing.
+ * @throws {AuthenticationError} If the access token is invalid or expired.
+ * @throws {WebAuthnError} If the WebAuthn attestation is invalid or passkey creation fails.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function addPasskeyCallback(
+  this: EaseClient | void,
+  credential: PublicKeyCredential,
+  accessToken: string,
+  sessionId: string,
+  name?: string,
+  options?: RequestOptions,
+): Promise<Passkey> {
+  const { api, logger } = resolveClient(this);
+
+  if (!credential) {
+    throw new ValidationError('WebAuthn credential is required', 'credential', credential);
+  }
+  if (!accessToken || typeof accessToken !== 'string') {
+    throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
+  }
+  if (!sessionId || typeof sessionId !== 'string') {
+    throw new ValidationError('Session ID is required and must be a string', 'sessionId', sessionId);
+  }
+  if (!credential.id || !credential.response || credential.type !== 'public-key') {
+    throw new ValidationError('Invalid WebAuthn credential format', 'credential', {
+      hasId: !!credential.id,
+      hasResponse: !!credential.response,
+      type: credential.type,
+    });
+  }
+
+  try {
+    const response = await api<Passkey>(
+      '/credentials/callback',
+      'POST',
+      { response: credential, name },
+      {
+        Authorization: `Bearer ${accessToken.trim()}`,
+        'X-Session-Id': sessionId.trim(),
+      },
+      false,
+      false,
+      options,
+    );
+
+    if (!response.success) {
+      logger.error('Passkey callback failed:', {
+        tokenPrefix: accessToken.substring(0, 8) + '***',
+        sessionId: sessionId.substring(0, 8) + '***',
+        credentialId: credential.id.substring(0, 8) + '***',
+        error: response.error,
+        statusCode: response.statusCode,
+      });
+
+      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
+        throw response.errorDetails;
+      }
+
+      if (response.statusCode === 401) {
+        throw new AuthenticationError('Invalid or expired access token', ErrorCode.UNAUTHORIZED, {
+          tokenPrefix: accessToken.substring(0, 8),
+          sessionId: sessionId.substring(0, 8),
+        });
+      }
+
+      throw new WebAuthnError(
+        response.error || (response.statusCode === 400 ? 'Invalid WebAuthn attestation' : 'Passkey creation failed'),
+        ErrorCode.PASSKEY_CREATION_FAILED,
+        { tokenPrefix: accessToken.substring(0, 8), sessionId: sessionId.substring(0, 8) },
+      );
+    }
+
+    if (!response.data || !response.data.id) {
+      throw new WebAuthnError('Invalid response: missing passkey', ErrorCode.PASSKEY_CREATION_FAILED, {
+        sessionId: sessionId.substring(0, 8),
+      });
+    }
+
+    logger.debug('Passkey added successfully:', {
+      sessionId: sessionId.substring(0, 8) + '***',
+      credentialId: credential.id.substring(0, 8) + '***',
+    });
+
+    return response.data;
+  } catch (error) {
+    if (isEaseSDKError(error)) {
+      throw error;
+    }
+
+    const enhancedError = handleUnknownError(error, {
+      operation: 'addPasskeyCallback',
+      tokenPrefix: accessToken.substring(0, 8),
+      sessionId: sessionId.substring(0, 8),
+      credentialId: credential.id?.substring(0, 8),
+    });
+
+    logger.error('Unexpected error in addPasskeyCallback:', enhancedError);
+    throw enhancedError;
+  }
+}
+
+/**
+ * Runs the whole ceremony of adding a passkey: fetches the options with `addPasskey()`, creates the passkey through
+ * `navigator.credentials.create()` (or the injected credentials container), and completes it with
+ * `addPasskeyCallback()`.
+ *
+ * @param {string} accessToken The access token for authorization.
+ * @param {string} [name] Optional name for the passkey.
+ * @param {WebAuthnCeremonyOptions & RequestOptions} [options] The credentials container, and the abort signal,
+ * timeout and retry settings of the prompt and requests.
+ * @returns {Promise<Passkey>} A promise that resolves with the registered passkey.
+ * @throws {ValidationError} If the access token is missing or invalid.
+ * @throws {WebAuthnError} With `USER_CANCELLED` if the user dismissed the prompt or it timed out or was aborted, with
+ * `PASSKEY_ALREADY_REGISTERED` if the authenticator already holds a passkey for the account, with
+ * `WEBAUTHN_SECURITY_ERROR` if the page is not allowed to use passkeys, with `WEBAUTHN_NOT_SUPPORTED` if WebAuthn is
+ * unavailable or the authenticator failed, or if passkey creation fails.
+ * @throws {AuthenticationError} If the access token is invalid or expired.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function performAddPasskey(
+  this: EaseClient | void,
+  accessToken: string,
+  name?: string,
+  options: WebAuthnCeremonyOptions & RequestOptions = {},
+): Promise<Passkey> {
+  const { logger } = resolveClient(this);
+
+  const { sessionId, publicKey } = await addPasskey.call(this, accessToken, options);
+  const credential = await createCredential(publicKey, options, logger);
+
+  return addPasskeyCallback.call(this, credential, accessToken, sessionId, name, options);
+}
@@ -0,0 +1,275 @@
+import type { RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
+import { APIDefaultResponse, SendOtpResponse } from '../utils/type';
+
+import { OTPError, ValidationError, ErrorCode, handleUnknownError, isEaseSDKError } from '../utils/errors';
+import { clearOtpRecord, getOtpRecord, rateLimitError, recordFailedAttempt, startOtpRecord } from '../phone/session';
+import { EmailOtpSession } from './session';
+
+export { EmailOtpSession } from './session';
+
+// RFC 5322 dot-atom local part and a hostname of LDH labels with an alphabetic top-level domain
+const EMAIL_REGEX =
+  /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?\.)+[A-Za-z]{2,63}$/;
+const MAX_LOCAL_PART_LENGTH = 64;
+const MAX_EMAIL_LENGTH = 254;
+
+/**
+ * Checks whether an email address is well formed. Quoted local parts and IP address literals, which mail providers
+ * practically never issue, are not accepted.
+ *
+ * @param {string} email The email address.
+ * @returns {boolean} Whether the address is valid.
+ */
+export function isValidEmail(email: string): boolean {
+  if (typeof email !== 'string') {
+    return false;
+  }
+  const address = email.trim();
+  return (
+    address.length <= MAX_EMAIL_LENGTH && address.indexOf('@') <= MAX_LOCAL_PART_LENGTH && EMAIL_REGEX.test(address)
+  );
+}
+
+// The domain is case-insensitive; the local part is kept as typed
+const normalizeEmail = (email: string) => {
+  const address = email.trim();
+  const at = address.lastIndexOf('@');
+  return address.substring(0, at) + address.substring(at).toLowerCase();
+};
+
+const maskEmail = (email: string) => email.substring(0, 3) + '***';
+
+/**
+ * Sends a One-Time Password (OTP) to the specified email address. Another code for the same address can only be
+ * requested once the resend cooldown of the previous one has run out.
+ *
+ * @param {string} email The email address to send the OTP to.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+ * @returns {Promise<EmailOtpSession>} A promise that resolves with the session of the code, which tracks its resend
+ * cooldown, verification attempts and expiry.
+ * @throws {ValidationError} If the email address is missing.
+ * @throws {OTPError} With `INVALID_EMAIL` if the email address is malformed, with `RATE_LIMIT_ERROR` and
+ * `context.retryAfterMs` if a code was requested too recently, or if the API call fails to send the OTP.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function sendEmailOtp(
+  this: EaseClient | void,
+  email: string,
+  options?: RequestOptions,
+): Promise<EmailOtpSession> {
+  const client = resolveClient(this);
+  const { api, logger } = client;
+
+  // Input validation
+  if (!email || typeof email !== 'string') {
+    throw new ValidationError('Email address is required and must be a string', 'email', email);
+  }
+
+  if (!isValidEmail(email)) {
+    throw new OTPError('Invalid email address', ErrorCode.INVALID_EMAIL, { emailPrefix: email.substring(0, 3) });
+  }
+
+  const address = normalizeEmail(email);
+  const previous = getOtpRecord(client, address);
+  const cooldownMs = previous ? previous.resendAvailableAt - Date.now() : 0;
+  if (cooldownMs > 0) {
+    throw new OTPError('Please wait before requesting another code', ErrorCode.RATE_LIMIT_ERROR, {
+      emailPrefix: email.substring(0, 3),
+      retryAfterMs: cooldownMs,
+    });
+  }
+
+  try {
+    const response = await api<SendOtpResponse>(
+      `/email/send-otp`,
+      'POST',
+      { email: address },
+      undefined,
+      false,
+      false,
+      options,
+    );
+
+    if (!response.success) {
+      logger.error('Email OTP send failed:', {
+        email: maskEmail(email), // Mask email for privacy
+        error: response.error,
+        statusCode: response.statusCode,
+      });
+
+      if (response.statusCode === 429) {
+        const error = rateLimitError(response, { emailPrefix: email.substring(0, 3) });
+        if (previous && error.context?.retryAfterMs !== undefined) {
+          previous.resendAvailableAt = Date.now() + error.context.retryAfterMs;
+        }
+        throw error;
+      }
+
+      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
+        throw response.errorDetails;
+      }
+
+      throw new OTPError(response.error || 'Failed to send OTP', ErrorCode.OTP_SEND_FAILED, {
+        emailPrefix: email.substring(0, 3),
+      });
+    }
+
+    const record = startOtpRecord(client, address, response.data);
+    return new EmailOtpSession(client, address, record);
+  } catch (error) {
+    if (isEaseSDKError(error)) {
+      throw error;
+    }
+
+    const enhancedError = handleUnknownError(error, {
+      operation: 'sendEmailOtp',
+      emailPrefix: email.substring(0, 3),
+    });
+
+    logger.error('Unexpected error in sendEmailOtp:', enhancedError);
+    throw enhancedError;
+  }
+}
+
+/**
+ * Verifies a One-Time Password (OTP) sent to an email address.
+ *
+ * @param {string} email The email address associated with the OTP.
+ * @param {string} otpCode The OTP received by the user.
+ * @param {string} [chainID] The chain to register the user on. Defaults to the chain selected with
+ * `configure({ chainID })`.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+ * @returns {Promise<APIDefaultResponse>} A promise that resolves with an access token and refresh token upon successful verification.
+ * @throws {ValidationError} If any of the input parameters are invalid or missing.
+ * @throws {OTPError} With `INVALID_EMAIL` if the email address is malformed, with `INVALID_OTP` and
+ * `context.attemptsRemaining` if the code is wrong, with `RATE_LIMIT_ERROR` and `context.retryAfterMs` if there were
+ * too many attempts, or if the OTP verification fails due to expiration or other API errors.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function verifyEmailOtp(
+  this: EaseClient | void,
+  email: string,
+  otpCode: string,
+  chainID?: string,
+  options?: RequestOptions,
+): Promise<APIDefaultResponse> {
+  const client = resolveClient(this);
+  const { api, logger, session } = client;
+  chainID ??= client.getChainID();
+
+  // Input validation
+  if (!email || typeof email !== 'string') {
+    throw new ValidationError('Email address is required and must be a string', 'email', email);
+  }
+
+  if (!isValidEmail(email)) {
+    throw new OTPError('Invalid email address', ErrorCode.INVALID_EMAIL, { emailPrefix: email.substring(0, 3) });
+  }
+
+  if (!otpCode || typeof otpCode !== 'string') {
+    throw new ValidationError('OTP code is required and must be a string', 'otpCode', otpCode);
+  }
+
+  // Basic OTP validation
+  const otpRegex = /^\d{4,8}$/; // 4-8 digits
+  if (!otpRegex.test(otpCode.trim())) {
+    throw new ValidationError('OTP code must be 4-8 digits', 'otpCode', otpCode);
+  }
+
+  if (!chainID || typeof chainID !== 'string') {
+    throw new ValidationError('Chain ID is required and must be a string', 'chainID', chainID);
+  }
+
+  logger.debug('Verifying email OTP:', {
+    email: maskEmail(email),
+    otpLength: otpCode.length,
+    chainID,
+  });
+
+  try {
+    const response = await api<APIDefaultResponse>(
+      '/email/verify-otp',
+      'POST',
+      {
+        email: normalizeEmail(email),
+        otpCode: otpCode.trim(),
+        chainID: chainID.trim(),
+      },
+      undefined,
+      false,
+      false,
+      options,
+    );
+
+    if (!response.success) {
+      logger.error('Email OTP verification failed:', {
+        email: maskEmail(email),
+        otpLength: otpCode.length,
+        chainID,
+        error: response.error,
+        statusCode: response.statusCode,
+      });
+
+      if (response.statusCode === 429) {
+        throw rateLimitError(response, { emailPrefix: email.substring(0, 3) });
+      }
+
+      // Map common OTP verification errors
+      if (response.statusCode === 400) {
+        const attemptsRemaining = recordFailedAttempt(
+          client,
+          normalizeEmail(email),
+          response.errorDetails?.context?.responseData?.attemptsRemaining,
+        );
+        throw new OTPError(response.error || 'Invalid OTP code', ErrorCode.INVALID_OTP, {
+          emailPrefix: email.substring(0, 3),
+          attemptsRemaining,
+        });
+      }
+
+      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
+        throw response.errorDetails;
+      }
+
+      if (response.statusCode === 401) {
+        throw new OTPError('OTP code has expired', ErrorCode.OTP_EXPIRED, {
+          emailPrefix: email.substring(0, 3),
+        });
+      }
+
+      throw new OTPError(response.error || 'OTP verification failed', ErrorCode.OTP_VERIFY_FAILED, {
+        emailPrefix: email.substring(0, 3),
+      });
+    }
+
+    if (!response.data || !response.data.accessToken || !response.data.refreshToken) {
+      throw new OTPError('Invalid response: missing authentication tokens', ErrorCode.OTP_VERIFY_FAILED, {
+        emailPrefix: email.substring(0, 3),
+      });
+    }
+
+    const { accessToken, refreshToken } = response.data;
+
+    clearOtpRecord(client, normalizeEmail(email));
+    await session.set({ accessToken, refreshToken });
+    return {
+      accessToken,
+      refreshToken,
+    };
+  } catch (error) {
+    if (isEaseSDKError(error)) {
+      throw error;
+    }
+
+    const enhancedError = handleUnknownError(error, {
+      operation: 'verifyEmailOtp',
+      emailPrefix: email.substring(0, 3),
+      otpLength: otpCode.length,
+      chainID,
+    });
+
+    logger.error('Unexpected error in verifyEmailOtp:', enhancedError);
+    throw enhancedError;
+  }
+}
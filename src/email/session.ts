@@ -0,0 +1,37 @@
+import type { EaseClient } from '../client';
+import type { RequestOptions } from '../api';
+import { APIDefaultResponse } from '../utils/type';
+import { BaseOtpSession, OtpRecord } from '../phone/session';
+
+/**
+ * The OTP sent to an email address, returned by `sendEmailOtp()`. It has the same timers as the `OtpSession` of a
+ * phone number.
+ *
+ * @example
+ * const otp = await sendEmailOtp('ada@example.com');
+ * const stop = otp.onTick(({ resendCooldownMs }) => renderResendButton(resendCooldownMs));
+ * await otp.verify(code);
+ * stop();
+ */
+export class EmailOtpSession extends BaseOtpSession {
+  constructor(
+    client: EaseClient,
+    /** The normalized email address the code was sent to. */
+    readonly email: string,
+    record: OtpRecord,
+  ) {
+    super(client, record);
+  }
+
+  resend(options?: RequestOptions): Promise<EmailOtpSession> {
+    return this.client.email.sendEmailOtp(this.email, options);
+  }
+
+  verify(otpCode: string, chainID?: string, options?: RequestOptions): Promise<APIDefaultResponse> {
+    return this.client.email.verifyEmailOtp(this.email, otpCode, chainID, options);
+  }
+
+  toJSON() {
+    return { email: this.email, ...super.toJSON() };
+  }
+}
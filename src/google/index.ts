@@ -1,97 +1,123 @@
-import { internalApi as api } from '../api';
-import { logger } from '../utils/logger';
-import { AuthenticationError, ErrorCode, handleUnknownError, isEaseSDKError } from '../utils/errors';
+import type { RequestOptions } from '../api';
+import { EaseClient } from '../client';
+import {
+  completeOAuth,
+  getOAuthURL,
+  parseOAuthRedirect,
+  startOAuth,
+  verifyOAuthCallback,
+  OAuthFlowOptions,
+  OAuthPKCE,
+  OAuthPlatform,
+  OAuthRedirect,
+} from '../oauth';
 import { GoogleOAuthURLResponse, GoogleOAuthCallbackRequest, GoogleOAuthCallbackResponse } from '../utils/type';
 
+/**
+ * @module google
+ * @description Google sign-in, the built-in provider of the `oauth` module.
+ */
+
+export type GoogleOAuthPlatform = OAuthPlatform;
+export type GoogleOAuthPKCE = OAuthPKCE;
+export type GoogleOAuthOptions = OAuthFlowOptions;
+export type GoogleOAuthRedirect = OAuthRedirect;
+
 /**
  * Retrieves the Google OAuth URL for initiating the authentication flow.
  *
  * @param {'web' | 'mobile'} platform The platform from which the OAuth flow is initiated ('web' or 'mobile').
+ * @param {GoogleOAuthPKCE} [pkce] The state and PKCE challenge to bind the flow to. `startGoogleOAuth()` generates them.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<GoogleOAuthURLResponse>} A promise that resolves with the Google OAuth URL.
  * @throws {AuthenticationError} If the API call fails or returns an invalid response.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
-export async function getGoogleOAuthURL(platform: 'web' | 'mobile'): Promise<GoogleOAuthURLResponse> {
-  try {
-    const response = await api<GoogleOAuthURLResponse>(`/oauth/google?platform=${platform}`, 'GET');
-
-    if (!response.success) {
-      logger.error('Google OAuth URL request failed:', {
-        error: response.error,
-        statusCode: response.statusCode,
-      });
-
-      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
-        throw response.errorDetails;
-      }
-
-      throw new AuthenticationError(
-        response.error || 'Failed to get Google OAuth URL',
-        ErrorCode.AUTHENTICATION_FAILED,
-      );
-    }
-
-    if (!response.data) {
-      throw new AuthenticationError('Invalid response: missing authURL', ErrorCode.AUTHENTICATION_FAILED);
-    }
-
-    return response.data;
-  } catch (error) {
-    if (isEaseSDKError(error)) {
-      throw error;
-    }
-
-    const enhancedError = handleUnknownError(error, {
-      operation: 'getGoogleOAuthURL',
-    });
-
-    logger.error('Unexpected error in getGoogleOAuthURL:', enhancedError);
-    throw enhancedError;
-  }
+export function getGoogleOAuthURL(
+  this: EaseClient | void,
+  platform: GoogleOAuthPlatform,
+  pkce?: GoogleOAuthPKCE,
+  options?: RequestOptions,
+): Promise<GoogleOAuthURLResponse> {
+  return getOAuthURL.call(this, 'google', platform, pkce, options);
 }
 
 /**
  * Verifies the Google OAuth callback data to obtain access and refresh tokens.
  *
  * @param {GoogleOAuthCallbackRequest} callbackData The data received from the Google OAuth callback.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<GoogleOAuthCallbackResponse>} A promise that resolves with the access token and refresh token.
  * @throws {AuthenticationError} If the API call fails or returns an invalid response.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
-export async function verifyGoogleOAuthCallback(
+export function verifyGoogleOAuthCallback(
+  this: EaseClient | void,
   callbackData: GoogleOAuthCallbackRequest,
+  options?: RequestOptions,
 ): Promise<GoogleOAuthCallbackResponse> {
-  try {
-    const response = await api<GoogleOAuthCallbackResponse>('/oauth/google', 'POST', callbackData, undefined, false);
-
-    if (!response.success) {
-      logger.error('Google OAuth callback failed:', {
-        error: response.error,
-        statusCode: response.statusCode,
-      });
-
-      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
-        throw response.errorDetails;
-      }
-
-      throw new AuthenticationError(response.error || 'Google OAuth callback failed', ErrorCode.AUTHENTICATION_FAILED);
-    }
-
-    if (!response.data) {
-      throw new AuthenticationError('Invalid response: missing tokens', ErrorCode.AUTHENTICATION_FAILED);
-    }
+  return verifyOAuthCallback.call(this, 'google', callbackData, options);
+}
 
-    return response.data;
-  } catch (error) {
-    if (isEaseSDKError(error)) {
-      throw error;
-    }
+/**
+ * Starts a Google sign-in. It generates a state and a PKCE verifier, keeps them in the storage until the user comes
+ * back, and returns the URL to send the user to. Open it in the browser, or in an in-app browser on mobile.
+ *
+ * @example
+ * const { authURL } = await startGoogleOAuth('web');
+ * window.location.assign(authURL);
+ *
+ * @param {GoogleOAuthPlatform} platform The platform from which the OAuth flow is initiated ('web' or 'mobile').
+ * @param {GoogleOAuthOptions} [options] Where to keep the pending flow, how long it stays valid, and the request
+ * settings.
+ * @returns {Promise<{ authURL: string; state: string }>} The Google OAuth URL and the state it carries.
+ * @throws {ValidationError} If WebCrypto is not available in this environment.
+ * @throws {AuthenticationError} If the API call fails or returns an invalid response.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export function startGoogleOAuth(
+  this: EaseClient | void,
+  platform: GoogleOAuthPlatform,
+  options: GoogleOAuthOptions = {},
+): Promise<{ authURL: string; state: string }> {
+  return startOAuth.call(this, 'google', platform, options);
+}
 
-    const enhancedError = handleUnknownError(error, {
-      operation: 'verifyGoogleOAuthCallback',
-    });
+/**
+ * Reads the OAuth parameters from the URL Google redirected to, on the web, or from the deep link that reopened the
+ * app, on mobile. Parameters in the query and in the fragment are both read.
+ *
+ * @param {string} url The redirect URL or deep link, e.g. `window.location.href` or `myapp://oauth?code=...`.
+ * @returns {GoogleOAuthRedirect} The code and state, or the error Google reported.
+ */
+export function parseGoogleOAuthRedirect(url: string): GoogleOAuthRedirect {
+  return parseOAuthRedirect(url);
+}
 
-    logger.error('Unexpected error in verifyGoogleOAuthCallback:', enhancedError);
-    throw enhancedError;
-  }
+/**
+ * Completes a Google sign-in started with `startGoogleOAuth()`. It checks that the redirect carries the state of the
+ * pending flow and that the flow has not expired, then exchanges the code and PKCE verifier for the session tokens.
+ * The pending flow is discarded either way, so a redirect can only be used once.
+ *
+ * @example
+ * const tokens = await completeGoogleOAuth(window.location.href);
+ *
+ * @param {string | GoogleOAuthRedirect} redirect The redirect URL or deep link, or its parsed parameters.
+ * @param {string} [chainID] The chain to register the user on. Defaults to the chain selected with
+ * `configure({ chainID })`.
+ * @param {GoogleOAuthOptions} [options] The storage and lifetime `startGoogleOAuth()` was called with, and the
+ * request settings.
+ * @returns {Promise<GoogleOAuthCallbackResponse>} A promise that resolves with the access token and refresh token.
+ * @throws {AuthenticationError} With `OAUTH_ACCESS_DENIED` if the user declined, `OAUTH_STATE_MISMATCH` if no flow is
+ * pending or the state differs, `OAUTH_EXPIRED` if the flow was started more than `ttlMs` ago, or
+ * `AUTHENTICATION_FAILED` if Google reported another error or the exchange fails.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export function completeGoogleOAuth(
+  this: EaseClient | void,
+  redirect: string | GoogleOAuthRedirect,
+  chainID?: string,
+  options: GoogleOAuthOptions = {},
+): Promise<GoogleOAuthCallbackResponse> {
+  return completeOAuth.call(this, 'google', redirect, chainID, options);
 }
@@ -1,21 +1,60 @@
+export * from './chains';
 export * from './join';
 export * from './phone';
+export * from './email';
 export * from './login';
 export * from './logout';
 export * from './wallet';
 export * from './enclave';
 export * from './transaction';
 export * from './refresh';
+export * from './oauth';
 export * from './google';
 export * from './contacts';
+export * from './credentials';
+export { stepUpOptions, stepUpCallback, requireFreshAuth, withFreshAuth, STEP_UP_HEADER } from './stepup';
+export type { SensitiveOperation, FreshAuthOptions } from './stepup';
 export * from './websocket';
 export * from './analytics';
+export * from './storage';
 export { configure } from './config';
+export { registerEnvironment } from './utils/urls';
+export type { ServiceUrls, ServiceName } from './utils/urls';
 export type { SDKConfig } from './config';
+export {
+  EaseClient,
+  Session,
+  createEaseClient,
+  getDefaultClient,
+  SessionManager,
+  createSessionManager,
+} from './client';
+export type { SessionEvents, Account, AddAccountOptions, SessionManagerEvents, CrossTabSyncOptions } from './client';
+export { createFetchTransport, createAxiosTransport } from './api/transport';
+export type { Transport, TransportRequest, TransportResponse, HttpMethod } from './api/transport';
+export { DEFAULT_TIMEOUT_MS } from './api';
+export type { ApiResponse, RequestOptions } from './api';
+export type { RetryOptions } from './utils/retry';
+export type { ApiRequest, ApiHandler, ApiMiddleware } from './core/middleware';
+export type { CircuitBreakerConfig, CircuitBreakerOptions } from './core/circuitBreaker';
+export { DEFAULT_CACHE_RULES } from './core/cache';
+export type { CacheConfig, CacheMode, CacheRule } from './core/cache';
 
 // Re-export logger, errors, and types for convenience
-export { logger, LogLevel } from './utils/logger';
+export { logger, Logger, LogLevel } from './utils/logger';
 export type { LoggerConfig } from './utils/logger';
+export { createRedactor, DEFAULT_REDACTION_RULES } from './utils/redaction';
+export type { RedactionPolicy, RedactionRule, Redactor } from './utils/redaction';
+export { decodeJwt, getTokenExpiry, isTokenExpired } from './utils/jwt';
+export type { JwtClaims } from './utils/jwt';
+export {
+  base64UrlToBuffer,
+  bufferToBase64Url,
+  createCredential,
+  getCredential,
+  isConditionalMediationAvailable,
+} from './utils/webauthn';
+export type { WebAuthnCredentials, WebAuthnCeremonyOptions, PublicKeyCredentialSupport } from './utils/webauthn';
 
 export {
   EaseSDKError,
@@ -34,6 +73,7 @@ export type { ErrorDetails } from './utils/errors';
 export type {
   APIDefaultResponse,
   Country,
+  SendOtpResponse,
   AuthenticatorTransport,
   COSEAlgorithmIdentifier,
   UserVerificationRequirement,
@@ -66,9 +106,23 @@ export type {
   SignTransactionOptionsResponse,
   SignTransactionCallbackInput,
   SignTransactionCallbackResponse,
+  StepUpOptionsResponse,
+  StepUpCallbackResponse,
+  OAuthURLResponse,
+  OAuthCallbackRequest,
+  OAuthCallbackResponse,
   GoogleOAuthCallbackRequest,
   GoogleOAuthURLResponse,
   GoogleOAuthCallbackResponse,
   Contact,
   SearchUser,
+  Passkey,
+  Environment,
+  BuiltInEnvironment,
+  TransportObserver,
+  TransportRequestCtx,
+  TransportResponseCtx,
+  TransportErrorCtx,
+  CircuitState,
+  CircuitStateChangeCtx,
 } from './utils/type';
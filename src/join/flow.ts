@@ -0,0 +1,403 @@
+import { createEmitter, Emitter } from '../core/events';
+import { EaseSDKError, ErrorCode, handleUnknownError, ValidationError } from '../utils/errors';
+import { retry } from '../utils/retry';
+import {
+  JoinCallbackResponse,
+  PublicKeyCredential,
+  PublicKeyCredentialCreationOptions,
+  RecipientData,
+} from '../utils/type';
+import { createCredential, WebAuthnCeremonyOptions } from '../utils/webauthn';
+import { getDefaultClient } from '../client';
+import type { EaseClient } from '../client';
+import type { OtpSession } from '../phone';
+
+/**
+ * The states of a `JoinFlow`. Each state records the last step that succeeded; a failed step leaves the flow in the
+ * state it was in, with the failure in `snapshot().error`.
+ */
+export type JoinFlowState =
+  | 'idle'
+  | 'otpSent'
+  | 'otpVerified'
+  | 'passkeyOptionsReceived'
+  | 'passkeyCreated'
+  | 'keysGenerated'
+  | 'recipientDataEncrypted'
+  | 'registered'
+  | 'completed';
+
+export type JoinFlowStep =
+  | 'sendOtp'
+  | 'verifyOtp'
+  | 'join'
+  | 'createPasskey'
+  | 'generateKeys'
+  | 'encryptRecipientData'
+  | 'joinCallback'
+  | 'decryptMnemonic';
+
+/**
+ * What the user enters to register, once their phone number is verified.
+ */
+export type JoinFlowInput = {
+  displayName: string;
+  accountName: string;
+  /** Encrypts the wallet backup. */
+  password?: string;
+  /** Restores an existing wallet instead of creating a new one. */
+  mnemonic?: string;
+};
+
+export type JoinFlowResult = {
+  accessToken: string;
+  refreshToken: string;
+  /**
+   * The recovery phrase of the new wallet. Show it to the user once and do not store it. Only `register()`, `resume()`
+   * and `retry()` return it; snapshots and the `completed` event leave it out.
+   */
+  mnemonic?: string;
+};
+
+/**
+ * Everything a `JoinFlow` needs to resume, as plain JSON. It contains the session tokens, the password and mnemonic
+ * the user entered until they are encrypted, and a private key until registration completes: store it as securely as
+ * the tokens themselves. It never contains the recovered mnemonic.
+ */
+export type JoinFlowSnapshot = {
+  version: 1;
+  state: JoinFlowState;
+  countryCode?: string;
+  phone?: string;
+  chainID?: string;
+  accessToken?: string; // issued by verifyOtp, authorizes the join steps
+  input?: JoinFlowInput;
+  sessionId?: string;
+  publicKey?: PublicKeyCredentialCreationOptions;
+  credential?: PublicKeyCredential;
+  keyPair?: { publicKey: string; privateKey: string };
+  recipientData?: RecipientData;
+  registration?: JoinCallbackResponse;
+  result?: JoinFlowResult;
+  error?: { step: JoinFlowStep; code: ErrorCode; message: string };
+};
+
+export type JoinFlowEvents = {
+  stateChanged: { from: JoinFlowState; to: JoinFlowState; snapshot: JoinFlowSnapshot };
+  /** A step started, succeeded or failed. Retried attempts of a step are reported once. */
+  progress: {
+    step: JoinFlowStep;
+    status: 'started' | 'succeeded' | 'failed';
+    completedSteps: number;
+    totalSteps: number;
+    error?: EaseSDKError;
+  };
+  /** Without the mnemonic, which only the call that completed the flow returns. */
+  completed: { result: JoinFlowResult };
+};
+
+export type JoinFlowOptions = {
+  /** The credentials container used to create the passkey. Defaults to `navigator.credentials`. */
+  credentials?: WebAuthnCeremonyOptions['credentials'];
+  /** How often each step is retried after a network or server error. User-driven steps are never retried. */
+  retries?: Partial<Record<JoinFlowStep, number>>;
+  /** The delay before the first retry, doubled for each further one. Defaults to 1000. */
+  retryDelayMs?: number;
+};
+
+// The allowed transitions: the states a step may run from, and the state it leads to.
+const TRANSITIONS: Record<JoinFlowStep, { from: JoinFlowState[]; to: JoinFlowState }> = {
+  sendOtp: { from: ['idle', 'otpSent'], to: 'otpSent' },
+  verifyOtp: { from: ['otpSent'], to: 'otpVerified' },
+  join: { from: ['otpVerified'], to: 'passkeyOptionsReceived' },
+  createPasskey: { from: ['passkeyOptionsReceived'], to: 'passkeyCreated' },
+  generateKeys: { from: ['passkeyCreated'], to: 'keysGenerated' },
+  encryptRecipientData: { from: ['keysGenerated'], to: 'recipientDataEncrypted' },
+  joinCallback: { from: ['recipientDataEncrypted'], to: 'registered' },
+  decryptMnemonic: { from: ['registered'], to: 'completed' },
+};
+
+const STEPS = Object.keys(TRANSITIONS) as JoinFlowStep[];
+const STATES = ['idle', ...STEPS.map((step) => TRANSITIONS[step].to)] as JoinFlowState[];
+
+const DEFAULT_RETRIES: Record<JoinFlowStep, number> = {
+  sendOtp: 0, // resending is the user's call
+  verifyOtp: 0,
+  join: 2,
+  createPasskey: 0, // a cancelled prompt must not pop up again
+  generateKeys: 2,
+  encryptRecipientData: 2,
+  joinCallback: 1,
+  decryptMnemonic: 2,
+};
+
+/**
+ * Drives a registration from phone verification to the new wallet's recovery phrase:
+ * `sendOtp` → `verifyOtp` → `join` → passkey creation → `generateRsaKeyPair` → `encryptRecipientData` →
+ * `joinCallback` → `decryptRecipientData`.
+ *
+ * Each step calls the matching SDK function on the flow's client. Save `snapshot()` whenever the state changes to
+ * resume the flow after the app is backgrounded or reloaded, and bind the UI to the `progress` events.
+ *
+ * @example
+ * const flow = new JoinFlow();
+ * flow.on('stateChanged', ({ snapshot }) => saveSecurely(snapshot));
+ * await flow.sendOtp('+1', '5551234567');
+ * await flow.verifyOtp(code);
+ * const { mnemonic } = await flow.register({ displayName: 'Ada', accountName: 'ada', password });
+ */
+export class JoinFlow {
+  private data: JoinFlowSnapshot;
+  private readonly events: Emitter<JoinFlowEvents>;
+
+  /**
+   * @param {EaseClient} [client] The client the steps run on. Defaults to the default client.
+   * @param {JoinFlowSnapshot} [snapshot] A snapshot to resume from.
+   * @param {JoinFlowOptions} [options] The credentials container and retry policy.
+   * @throws {ValidationError} If the snapshot is not one this version of the SDK can resume.
+   */
+  constructor(
+    private readonly client: EaseClient = getDefaultClient(),
+    snapshot?: JoinFlowSnapshot,
+    private readonly options: JoinFlowOptions = {},
+  ) {
+    if (snapshot && (snapshot.version !== 1 || !STATES.includes(snapshot.state))) {
+      throw new ValidationError('Unsupported join flow snapshot', 'snapshot', {
+        version: snapshot.version,
+        state: snapshot.state,
+      });
+    }
+    this.data = snapshot ? { ...snapshot } : { version: 1, state: 'idle' };
+    this.events = createEmitter<JoinFlowEvents>(client.logger);
+  }
+
+  get state(): JoinFlowState {
+    return this.data.state;
+  }
+
+  /**
+   * @returns {JoinFlowSnapshot} A JSON-serializable copy of the flow's state and collected data.
+   */
+  snapshot(): JoinFlowSnapshot {
+    return JSON.parse(JSON.stringify(this.data));
+  }
+
+  /**
+   * Subscribes to a join flow event.
+   *
+   * @param {keyof JoinFlowEvents} event The event to listen for.
+   * @param {Function} listener Called with the event payload.
+   * @returns {() => void} A function that removes the listener.
+   */
+  on<K extends keyof JoinFlowEvents>(event: K, listener: (payload: JoinFlowEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Sends the verification code. Call it again to resend the code, or to correct the phone number.
+   *
+   * @param {string} countryCode The country dial code (e.g., '+1').
+   * @param {string} phone The phone number.
+   * @param {string} [chainID] The chain to register on. Defaults to the client's chain, and is kept in the snapshot so
+   * a resumed flow registers on the same chain.
+   * @returns {Promise<OtpSession>} The session of the code, with its resend cooldown and expiry.
+   * @throws {ValidationError} If the code was already verified.
+   * @throws {OTPError} If the phone number is invalid, a code was requested too recently, or the code could not be sent.
+   */
+  async sendOtp(countryCode: string, phone: string, chainID?: string): Promise<OtpSession> {
+    let otp: OtpSession | undefined;
+    await this.run('sendOtp', async () => {
+      otp = await this.client.phone.sendOtp(countryCode, phone);
+      return { countryCode, phone, chainID: chainID ?? this.client.getChainID() };
+    });
+    return otp as OtpSession;
+  }
+
+  /**
+   * Verifies the code the user received.
+   *
+   * @param {string} otpCode The code.
+   * @returns {Promise<void>}
+   * @throws {ValidationError} If no code was sent yet, or the code is malformed.
+   * @throws {OTPError} If the code is wrong or expired.
+   */
+  async verifyOtp(otpCode: string): Promise<void> {
+    await this.run('verifyOtp', async () => {
+      const { countryCode = '', phone = '', chainID } = this.data;
+      const { accessToken } = await this.client.phone.verifyOtp(countryCode, phone, otpCode, chainID);
+      return { accessToken };
+    });
+  }
+
+  /**
+   * Registers the verified user: creates their passkey and wallet keys and completes the join.
+   *
+   * @param {JoinFlowInput} input The display name, account name and wallet secrets.
+   * @param {WebAuthnCeremonyOptions} [ceremony] The abort signal for the passkey prompt.
+   * @returns {Promise<JoinFlowResult>} The session tokens and the recovery phrase.
+   * @throws {ValidationError} If the phone number is not verified yet, or the input is invalid.
+   * @throws {EaseSDKError} The error of the failing step. Call `retry()` to continue from it.
+   */
+  async register(input: JoinFlowInput, ceremony: WebAuthnCeremonyOptions = {}): Promise<JoinFlowResult> {
+    if (!input?.displayName || !input.accountName) {
+      throw new ValidationError('Display name and account name are required', 'input', input);
+    }
+    if (this.data.state !== 'otpVerified') {
+      throw new ValidationError(`Cannot register in state "${this.data.state}"`, 'state', this.data.state);
+    }
+    this.data.input = { ...input };
+    return this.resume(ceremony);
+  }
+
+  /**
+   * Runs the remaining registration steps, e.g. after restoring a snapshot or after a failed step.
+   *
+   * @param {WebAuthnCeremonyOptions} [ceremony] The abort signal for the passkey prompt.
+   * @returns {Promise<JoinFlowResult>} The session tokens and the recovery phrase.
+   * @throws {ValidationError} If the phone number is not verified or `register()` was not called yet.
+   * @throws {EaseSDKError} The error of the failing step.
+   */
+  async resume(ceremony: WebAuthnCeremonyOptions = {}): Promise<JoinFlowResult> {
+    const { client } = this;
+    if (STATES.indexOf(this.data.state) < STATES.indexOf('otpVerified') || !this.data.input) {
+      throw new ValidationError(`Cannot resume registration in state "${this.data.state}"`, 'state', this.data.state);
+    }
+
+    let mnemonic: string | undefined;
+    while (this.data.state !== 'completed') {
+      const data = this.data as Required<JoinFlowSnapshot>;
+      const { input } = data;
+      switch (this.data.state) {
+        case 'otpVerified':
+          await this.run('join', async () => {
+            const { publicKey, sessionId } = await client.join.join(data.accessToken, input.displayName);
+            return { publicKey, sessionId };
+          });
+          break;
+        case 'passkeyOptionsReceived':
+          await this.run('createPasskey', async () => {
+            const credential = await createCredential(
+              data.publicKey,
+              { ...ceremony, credentials: ceremony.credentials ?? this.options.credentials },
+              client.logger,
+            );
+            return { credential };
+          });
+          break;
+        case 'passkeyCreated':
+          await this.run('generateKeys', async () => ({ keyPair: await client.crypto.generateRsaKeyPair() }));
+          break;
+        case 'keysGenerated':
+          await this.run('encryptRecipientData', async () => {
+            const { public_key } = await client.enclave.getAttestation();
+            const recipientData = await client.crypto.encryptRecipientData(public_key, {
+              mnemonic: input.mnemonic,
+              password: input.password,
+            });
+            // Encrypted now; keep the secrets the user entered out of the snapshot
+            return { recipientData, input: { displayName: input.displayName, accountName: input.accountName } };
+          });
+          break;
+        case 'recipientDataEncrypted':
+          await this.run('joinCallback', async () => ({
+            registration: await client.join.joinCallback(
+              data.credential,
+              data.accessToken,
+              data.sessionId,
+              input.accountName,
+              data.keyPair.publicKey,
+              data.recipientData,
+            ),
+          }));
+          break;
+        case 'registered':
+          await this.run('decryptMnemonic', async () => {
+            const { accessToken, refreshToken, recipientData } = data.registration;
+            const decrypted = await client.crypto.decryptRecipientData(data.keyPair.privateKey, recipientData);
+            mnemonic = typeof decrypted === 'string' ? decrypted : decrypted?.mnemonic;
+            // The private key and the encrypted secrets are no longer needed; drop them from the snapshot, and keep
+            // the mnemonic out of it
+            return {
+              result: { accessToken, refreshToken },
+              keyPair: undefined,
+              recipientData: undefined,
+              registration: undefined,
+            };
+          });
+          break;
+      }
+    }
+
+    const result = this.data.result!;
+    this.events.emit('completed', { result: { ...result } });
+    return mnemonic === undefined ? result : { ...result, mnemonic };
+  }
+
+  /**
+   * Runs the step that failed last once more, and the rest of the registration after it.
+   *
+   * @param {WebAuthnCeremonyOptions} [ceremony] The abort signal for the passkey prompt.
+   * @returns {Promise<JoinFlowResult | void>} The result once registration completes; nothing for OTP steps.
+   * @throws {ValidationError} If no step failed, or the failed step needs new user input (`verifyOtp`).
+   * @throws {EaseSDKError} The error of the failing step.
+   */
+  async retry(ceremony: WebAuthnCeremonyOptions = {}): Promise<JoinFlowResult | void> {
+    const { error, countryCode, phone, chainID } = this.data;
+    if (!error) {
+      throw new ValidationError('No failed step to retry', 'state', this.data.state);
+    }
+    if (error.step === 'sendOtp') {
+      await this.sendOtp(countryCode ?? '', phone ?? '', chainID);
+      return;
+    }
+    if (error.step === 'verifyOtp') {
+      throw new ValidationError('Call verifyOtp() with the code the user entered', 'step', error.step);
+    }
+    return this.resume(ceremony);
+  }
+
+  private async run(step: JoinFlowStep, task: () => Promise<Partial<JoinFlowSnapshot>>): Promise<void> {
+    const { from, to } = TRANSITIONS[step];
+    const current = this.data.state;
+    if (!from.includes(current)) {
+      throw new ValidationError(`Cannot run step "${step}" in state "${current}"`, 'state', current);
+    }
+
+    const totalSteps = STEPS.length;
+    const completedSteps = STATES.indexOf(current);
+    this.events.emit('progress', { step, status: 'started', completedSteps, totalSteps });
+
+    let update: Partial<JoinFlowSnapshot>;
+    try {
+      update = await retry(task, {
+        retries: this.options.retries?.[step] ?? DEFAULT_RETRIES[step],
+        delay: this.options.retryDelayMs ?? 1000,
+      });
+    } catch (error) {
+      const enhancedError = handleUnknownError(error, { operation: 'joinFlow', step });
+      this.data.error = { step, code: enhancedError.code, message: enhancedError.message };
+      this.client.logger.warn(`Join flow step "${step}" failed:`, { code: enhancedError.code });
+      this.events.emit('progress', { step, status: 'failed', completedSteps, totalSteps, error: enhancedError });
+      throw enhancedError;
+    }
+
+    this.data = { ...this.data, ...update, state: to, error: undefined };
+    this.client.logger.debug(`Join flow: ${current} -> ${to}`);
+    this.events.emit('progress', { step, status: 'succeeded', completedSteps: STATES.indexOf(to), totalSteps });
+    if (current !== to) {
+      this.events.emit('stateChanged', { from: current, to, snapshot: this.snapshot() });
+    }
+  }
+}
+
+/**
+ * Starts a join flow, or resumes one from a snapshot.
+ *
+ * @param {EaseClient} [client] The client the steps run on. Defaults to the default client.
+ * @param {JoinFlowSnapshot} [snapshot] A snapshot to resume from.
+ * @param {JoinFlowOptions} [options] The credentials container and retry policy.
+ * @returns {JoinFlow} The join flow.
+ */
+export function createJoinFlow(client?: EaseClient, snapshot?: JoinFlowSnapshot, options?: JoinFlowOptions): JoinFlow {
+  return new JoinFlow(client, snapshot, options);
+}
@@ -1,6 +1,6 @@
-import { internalApi } from '../api';
+import type { RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
 import { JoinResponse, OptionsResp, PublicKeyCredential, JoinCallbackResponse, RecipientData } from '../utils/type';
-import { logger } from '../utils/logger';
 import {
   AuthenticationError,
   WebAuthnError,
@@ -9,6 +9,18 @@ import {
   handleUnknownError,
   isEaseSDKError,
 } from '../utils/errors';
+import { createCredential, WebAuthnCeremonyOptions } from '../utils/webauthn';
+
+export { JoinFlow, createJoinFlow } from './flow';
+export type {
+  JoinFlowState,
+  JoinFlowStep,
+  JoinFlowInput,
+  JoinFlowResult,
+  JoinFlowSnapshot,
+  JoinFlowEvents,
+  JoinFlowOptions,
+} from './flow';
 
 /**
  * Initiates the join (registration) process by fetching WebAuthn options from the API.
@@ -16,13 +28,21 @@ import {
  *
  * @param {string} accessToken The access token for authorization.
  * @param {string} displayName The display name for the new user.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<JoinResponse>} A promise that resolves with the WebAuthn public key credential creation options and a session ID.
  * @throws {ValidationError} If the access token or display name are invalid or missing.
  * @throws {AuthenticationError} If the access token is invalid or expired.
  * @throws {WebAuthnError} If passkey creation options are not available or missing from the response.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
-export async function join(accessToken: string, displayName: string): Promise<JoinResponse> {
+export async function join(
+  this: EaseClient | void,
+  accessToken: string,
+  displayName: string,
+  options?: RequestOptions,
+): Promise<JoinResponse> {
+  const { api, logger } = resolveClient(this);
+
   if (!accessToken || typeof accessToken !== 'string') {
     throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
   }
@@ -34,7 +54,7 @@ export async function join(accessToken: string, displayName: string): Promise<Jo
   }
 
   try {
-    const response = await internalApi<OptionsResp>(
+    const response = await api<OptionsResp>(
       '/join/options',
       'POST',
       {
@@ -44,6 +64,8 @@ export async function join(accessToken: string, displayName: string): Promise<Jo
         Authorization: `Bearer ${accessToken.trim()}`,
       },
       false,
+      false,
+      options,
     );
 
     if (!response.success) {
@@ -137,6 +159,7 @@ export async function join(accessToken: string, displayName: string): Promise<Jo
  * @param {RecipientData} recipientData Encrypted recipient data.
  * @param {string} [mnemonic] Optional mnemonic phrase for wallet recovery.
  * @param {string} [password] Optional password for wallet encryption.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<JoinCallbackResponse>} A promise that resolves with success status, new access token, refresh token, and recipient data.
  * @throws {ValidationError} If any required parameters are invalid or missing.
  * @throws {AuthenticationError} If the access token is invalid or expired.
@@ -144,6 +167,7 @@ export async function join(accessToken: string, displayName: string): Promise<Jo
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
 export async function joinCallback(
+  this: EaseClient | void,
   credential: PublicKeyCredential,
   accessToken: string,
   sessionId: string,
@@ -152,7 +176,10 @@ export async function joinCallback(
   recipientData: RecipientData,
   mnemonic?: string,
   password?: string,
+  options?: RequestOptions,
 ): Promise<JoinCallbackResponse> {
+  const { api, logger, session } = resolveClient(this);
+
   if (!credential) {
     throw new ValidationError('WebAuthn credential is required', 'credential', credential);
   }
@@ -185,7 +212,7 @@ export async function joinCallback(
   }
 
   try {
-    const responseCallback = await internalApi<JoinCallbackResponse>(
+    const responseCallback = await api<JoinCallbackResponse>(
       '/join/callback',
       'POST',
       {
@@ -202,6 +229,7 @@ export async function joinCallback(
       },
       false,
       false,
+      options,
     );
 
     if (!responseCallback.success) {
@@ -270,6 +298,7 @@ export async function joinCallback(
       hasRefreshToken: !!refreshToken,
     });
 
+    await session.set({ accessToken: newAccessToken, refreshToken });
     return {
       accessToken: newAccessToken,
       refreshToken,
@@ -294,3 +323,56 @@ export async function joinCallback(
     throw enhancedError;
   }
 }
+
+/**
+ * Runs the whole passkey registration ceremony: fetches the options with `join()`, creates a passkey through
+ * `navigator.credentials.create()` (or the injected credentials container), and completes it with `joinCallback()`.
+ *
+ * @param {string} accessToken The access token for authorization.
+ * @param {string} displayName The display name for the new user.
+ * @param {string} accountName The desired account name for the new user.
+ * @param {string} recipientPublicKey The public key of the recipient.
+ * @param {RecipientData} recipientData Encrypted recipient data.
+ * @param {string} [mnemonic] Optional mnemonic phrase for wallet recovery.
+ * @param {string} [password] Optional password for wallet encryption.
+ * @param {WebAuthnCeremonyOptions & RequestOptions} [options] The credentials container, and the abort signal,
+ * timeout and retry settings of the prompt and requests.
+ * @returns {Promise<JoinCallbackResponse>} A promise that resolves with the new access token, refresh token, and recipient data.
+ * @throws {ValidationError} If any required parameters are invalid or missing.
+ * @throws {WebAuthnError} With `USER_CANCELLED` if the user dismissed the prompt or it timed out or was aborted, with
+ * `PASSKEY_ALREADY_REGISTERED` if the authenticator already holds a passkey for the account, with
+ * `WEBAUTHN_SECURITY_ERROR` if the page is not allowed to use passkeys, with `WEBAUTHN_NOT_SUPPORTED` if WebAuthn is
+ * unavailable or the authenticator failed, or if passkey creation fails.
+ * @throws {AuthenticationError} If the access token is invalid or expired.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function performJoin(
+  this: EaseClient | void,
+  accessToken: string,
+  displayName: string,
+  accountName: string,
+  recipientPublicKey: string,
+  recipientData: RecipientData,
+  mnemonic?: string,
+  password?: string,
+  options: WebAuthnCeremonyOptions & RequestOptions = {},
+): Promise<JoinCallbackResponse> {
+  const { logger } = resolveClient(this);
+
+  const { sessionId, publicKey } = await join.call(this, accessToken, displayName, options);
+  const credential = await createCredential(publicKey, options, logger);
+  logger.debug('Passkey created:', { credentialId: credential.id.substring(0, 8) + '***' });
+
+  return joinCallback.call(
+    this,
+    credential,
+    accessToken,
+    sessionId,
+    accountName,
+    recipientPublicKey,
+    recipientData,
+    mnemonic,
+    password,
+    options,
+  );
+}
@@ -1,6 +1,6 @@
-import { internalApi as api } from '../api';
+import type { RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
 import { APIDefaultResponse, LoginResp, PublicKeyCredential } from '../utils/type';
-import { logger } from '../utils/logger';
 import {
   AuthenticationError,
   WebAuthnError,
@@ -9,19 +9,34 @@ import {
   handleUnknownError,
   isEaseSDKError,
 } from '../utils/errors';
+import {
+  getCredential,
+  isConditionalMediationAvailable,
+  PublicKeyCredentialSupport,
+  WebAuthnCeremonyOptions,
+} from '../utils/webauthn';
+
+export type ConditionalLoginOptions = Omit<WebAuthnCeremonyOptions, 'mediation'> &
+  RequestOptions & {
+    /** Used for capability detection. Defaults to the global `PublicKeyCredential`. */
+    PublicKeyCredential?: PublicKeyCredentialSupport;
+  };
 
 /**
  * Initiates the login process by fetching WebAuthn options from the API.
  * This function is the first step in authenticating a user with a passkey.
  *
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<LoginResp>} A promise that resolves with the session ID and WebAuthn public key credential request options.
  * @throws {AuthenticationError} If the API call fails, or if the response is missing crucial data like session ID or public key options.
  * @throws {WebAuthnError} If WebAuthn options are not supported or missing from the response.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
-export async function login(): Promise<LoginResp> {
+export async function login(this: EaseClient | void, options?: RequestOptions): Promise<LoginResp> {
+  const { api, logger } = resolveClient(this);
+
   try {
-    const response = await api<LoginResp>('/login/options', 'POST', null, undefined, false);
+    const response = await api<LoginResp>('/login/options', 'POST', null, undefined, false, false, options);
 
     if (!response.success) {
       logger.error('Login options request failed:', {
@@ -80,13 +95,21 @@ export async function login(): Promise<LoginResp> {
  *
  * @param {PublicKeyCredential} credential The WebAuthn credential obtained from the user's authenticator.
  * @param {string} sessionId The session ID received from the `login()` function.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<APIDefaultResponse>} A promise that resolves with an access token and refresh token upon successful authentication.
  * @throws {ValidationError} If the credential or session ID are invalid or missing.
  * @throws {AuthenticationError} If authentication fails due to invalid credentials, expired session, or missing tokens in the response.
  * @throws {WebAuthnError} If the WebAuthn assertion is invalid.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
-export async function loginCallback(credential: PublicKeyCredential, sessionId: string): Promise<APIDefaultResponse> {
+export async function loginCallback(
+  this: EaseClient | void,
+  credential: PublicKeyCredential,
+  sessionId: string,
+  options?: RequestOptions,
+): Promise<APIDefaultResponse> {
+  const { api, logger, session } = resolveClient(this);
+
   // Input validation
   if (!credential) {
     throw new ValidationError('WebAuthn credential is required', 'credential', credential);
@@ -114,6 +137,8 @@ export async function loginCallback(credential: PublicKeyCredential, sessionId:
         'X-Session-Id': sessionId,
       },
       false,
+      false,
+      options,
     );
 
     if (!response.success) {
@@ -158,6 +183,7 @@ export async function loginCallback(credential: PublicKeyCredential, sessionId:
 
     const { accessToken, refreshToken } = response.data;
 
+    await session.set({ accessToken, refreshToken });
     return {
       accessToken,
       refreshToken,
@@ -177,3 +203,91 @@ export async function loginCallback(credential: PublicKeyCredential, sessionId:
     throw enhancedError;
   }
 }
+
+/**
+ * Runs the whole passkey login ceremony: fetches the options with `login()`, asks the authenticator for an assertion
+ * through `navigator.credentials.get()` (or the injected credentials container), and completes it with
+ * `loginCallback()`.
+ *
+ * @param {WebAuthnCeremonyOptions & RequestOptions} [options] The credentials container, and the abort signal,
+ * timeout and retry settings of the prompt and requests.
+ * @returns {Promise<APIDefaultResponse>} A promise that resolves with an access token and refresh token upon successful authentication.
+ * @throws {WebAuthnError} With `USER_CANCELLED` if the user dismissed the prompt or it timed out or was aborted, or with
+ * `WEBAUTHN_NOT_SUPPORTED` if WebAuthn is unavailable or the authenticator failed.
+ * @throws {AuthenticationError} If the API rejects the login.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function performLogin(
+  this: EaseClient | void,
+  options: WebAuthnCeremonyOptions & RequestOptions = {},
+): Promise<APIDefaultResponse> {
+  const { logger } = resolveClient(this);
+
+  const { sessionId, publicKey } = await login.call(this, options);
+  const credential = await getCredential(publicKey, options, logger);
+  logger.debug('Passkey assertion obtained:', { credentialId: credential.id.substring(0, 8) + '***' });
+
+  return loginCallback.call(this, credential, sessionId, options);
+}
+
+/**
+ * Starts a passkey login through form autofill (`mediation: 'conditional'`). The browser offers the user's passkeys in
+ * the suggestions of an input with `autocomplete="username webauthn"`, and the returned promise stays pending until
+ * the user picks one, which then completes the login like `performLogin()`.
+ *
+ * Abort the request with `options.signal`, e.g. when the user starts typing a phone number instead, before starting a
+ * modal login or when leaving the page. Cancellation is not an error: the promise then resolves with `undefined`, as
+ * it does when the user dismisses the prompt that follows picking a passkey.
+ *
+ * @example
+ * const controller = new AbortController();
+ * if (await isConditionalMediationAvailable()) {
+ *   performConditionalLogin({ signal: controller.signal }).then((tokens) => tokens && onSignedIn(tokens));
+ * }
+ * phoneInput.addEventListener('input', () => controller.abort(), { once: true });
+ *
+ * @param {ConditionalLoginOptions} [options] The abort signal, credentials container and capability check to use, and
+ * the timeout and retry settings of the requests.
+ * @returns {Promise<APIDefaultResponse | undefined>} The access and refresh tokens, or `undefined` if cancelled.
+ * @throws {WebAuthnError} With `WEBAUTHN_NOT_SUPPORTED` if the browser does not support conditional mediation or the
+ * authenticator failed.
+ * @throws {AuthenticationError} If the API rejects the login.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function performConditionalLogin(
+  this: EaseClient | void,
+  options: ConditionalLoginOptions = {},
+): Promise<APIDefaultResponse | undefined> {
+  const { logger } = resolveClient(this);
+  const { signal, credentials, PublicKeyCredential: support, ...requestOptions } = options;
+
+  if (!(await isConditionalMediationAvailable(support))) {
+    throw new WebAuthnError('Passkey autofill is not supported in this browser', ErrorCode.WEBAUTHN_NOT_SUPPORTED);
+  }
+
+  const loginOptions = await login.call(this, { ...requestOptions, signal }).catch((error) => {
+    if (signal?.aborted) {
+      return undefined;
+    }
+    throw error;
+  });
+  if (!loginOptions || signal?.aborted) {
+    logger.debug('Conditional passkey login cancelled');
+    return undefined;
+  }
+  const { sessionId, publicKey } = loginOptions;
+
+  let credential: PublicKeyCredential;
+  try {
+    credential = await getCredential(publicKey, { credentials, signal, mediation: 'conditional' }, logger);
+  } catch (error) {
+    if (signal?.aborted || (isEaseSDKError(error) && error.code === ErrorCode.USER_CANCELLED)) {
+      logger.debug('Conditional passkey login cancelled');
+      return undefined;
+    }
+    throw error;
+  }
+
+  // The user picked a passkey, so the login completes even if the signal aborts from now on
+  return loginCallback.call(this, credential, sessionId, requestOptions);
+}
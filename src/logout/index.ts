@@ -1,18 +1,22 @@
-import { internalApi as api } from '../api';
-import { logger } from '../utils/logger';
+import type { RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
 
 import { AuthenticationError, ValidationError, ErrorCode, handleUnknownError, isEaseSDKError } from '../utils/errors';
+import { stepUpHeaders } from '../stepup';
 
 /**
- * Logs out the user by invalidating the provided access token.
+ * Logs out the user by invalidating the provided access token. The client session is cleared if it holds that token.
  *
  * @param {string} accessToken The access token to invalidate.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<void>} A promise that resolves when the logout request is successfully processed.
  * @throws {ValidationError} If the access token is missing or invalid.
  * @throws {AuthenticationError} If the access token is invalid or expired, or if logout otherwise fails.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
-export async function logout(accessToken: string): Promise<void> {
+export async function logout(this: EaseClient | void, accessToken: string, options?: RequestOptions): Promise<void> {
+  const { api, logger, session } = resolveClient(this);
+
   // Input validation
   if (!accessToken || typeof accessToken !== 'string') {
     throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
@@ -28,7 +32,15 @@ export async function logout(accessToken: string): Promise<void> {
       tokenPrefix: accessToken.substring(0, 8) + '***',
     });
 
-    const responseCallback = await api('/logout', 'POST', {}, { Authorization: `Bearer ${accessToken.trim()}` }, false);
+    const responseCallback = await api(
+      '/logout',
+      'POST',
+      {},
+      { Authorization: `Bearer ${accessToken.trim()}`, ...stepUpHeaders(session, 'logout') },
+      false,
+      false,
+      options,
+    );
 
     if (!responseCallback.success) {
       logger.error('Logout request failed:', {
@@ -52,6 +64,11 @@ export async function logout(accessToken: string): Promise<void> {
         tokenPrefix: accessToken.substring(0, 8),
       });
     }
+
+    // Another account's token, e.g. one of a `SessionManager`, leaves this session signed in
+    if (accessToken.trim() === session.accessToken) {
+      await session.clear();
+    }
   } catch (error) {
     if (isEaseSDKError(error)) {
       throw error;
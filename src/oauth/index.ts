@@ -0,0 +1,541 @@
+import type { RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
+import type { KeyValueStorage } from '../storage';
+import { AuthenticationError, ErrorCode, ValidationError, handleUnknownError, isEaseSDKError } from '../utils/errors';
+import { OAuthURLResponse, OAuthCallbackRequest, OAuthCallbackResponse } from '../utils/type';
+import { shared } from '../utils/shared';
+import { bufferToBase64Url } from '../utils/webauthn';
+
+/**
+ * @module oauth
+ * @description Sign-in with third-party identity providers through the EASE API, with PKCE and state verification.
+ */
+
+export type OAuthPlatform = 'web' | 'mobile';
+
+/**
+ * What changes for a provider on one platform. Unset fields fall back to the provider's.
+ */
+export type OAuthPlatformConfig = {
+  scopes?: string[];
+  /** Extra parameters for the authorization URL, e.g. Apple's `response_mode`. */
+  params?: Record<string, string>;
+  /** Whether to bind the flow to a PKCE challenge. */
+  pkce?: boolean;
+};
+
+/**
+ * An identity provider the EASE API can sign users in with.
+ *
+ * @example
+ * registerOAuthProvider({
+ *   id: 'apple',
+ *   name: 'Apple',
+ *   authURLEndpoint: '/oauth/apple',
+ *   callbackEndpoint: '/oauth/apple',
+ *   scopes: ['name', 'email'],
+ *   pkce: false,
+ *   platforms: { web: { params: { response_mode: 'form_post' } } },
+ * });
+ */
+export type OAuthProvider = OAuthPlatformConfig & {
+  /** Identifies the provider in `startOAuth()`, `completeOAuth()` and the storage key of pending flows. */
+  id: string;
+  /** Used in error messages. */
+  name: string;
+  /** The API path that returns the provider's authorization URL. */
+  authURLEndpoint: string;
+  /**
+   * The API path that exchanges the authorization code for session tokens. The code is redacted from the logged
+   * request bodies of paths under `/oauth/`; add a `{ path: 'code', endpoint }` redaction rule for other paths.
+   */
+  callbackEndpoint: string;
+  platforms?: Partial<Record<OAuthPlatform, OAuthPlatformConfig>>;
+};
+
+/**
+ * The state and PKCE challenge of a flow, sent along when requesting the authorization URL.
+ */
+export type OAuthPKCE = {
+  state: string;
+  /** Omitted when the provider does not use PKCE on the platform. */
+  codeChallenge?: string;
+};
+
+export type OAuthFlowOptions = RequestOptions & {
+  /**
+   * Keeps the state and PKCE verifier between `startOAuth()` and `completeOAuth()`. Web pages navigate away during
+   * the flow, so the default is `sessionStorage`, falling back to memory where there is none.
+   */
+  storage?: KeyValueStorage;
+  /** The storage key of the pending flow. Defaults to `ease.oauth.<provider id>`. */
+  key?: string;
+  /** How long the user may take to sign in with the provider. Defaults to 10 minutes. */
+  ttlMs?: number;
+};
+
+/**
+ * The parameters the provider appends to the redirect URL or deep link.
+ */
+export type OAuthRedirect = {
+  code?: string;
+  state?: string;
+  error?: string;
+  errorDescription?: string;
+};
+
+type PendingOAuth = {
+  provider: string;
+  state: string;
+  codeVerifier?: string;
+  platform: OAuthPlatform;
+  startedAt: number;
+};
+
+const DEFAULT_OAUTH_TTL_MS = 10 * 60_000;
+
+export const GOOGLE_OAUTH_PROVIDER: OAuthProvider = {
+  id: 'google',
+  name: 'Google',
+  authURLEndpoint: '/oauth/google',
+  callbackEndpoint: '/oauth/google',
+  scopes: ['openid', 'email', 'profile'],
+};
+
+const providers = shared(
+  '__EASE_SDK_OAUTH_PROVIDERS__',
+  () => new Map<string, OAuthProvider>([[GOOGLE_OAUTH_PROVIDER.id, GOOGLE_OAUTH_PROVIDER]]),
+);
+
+/**
+ * Adds an identity provider, or replaces the one registered with the same ID.
+ *
+ * @param {OAuthProvider} provider The provider.
+ * @returns {() => void} Removes the provider again.
+ * @throws {ValidationError} If the ID or endpoints are missing.
+ */
+export function registerOAuthProvider(provider: OAuthProvider): () => void {
+  if (!provider?.id || typeof provider.id !== 'string') {
+    throw new ValidationError('Provider ID is required and must be a string', 'id', provider?.id);
+  }
+  for (const field of ['authURLEndpoint', 'callbackEndpoint'] as const) {
+    if (typeof provider[field] !== 'string' || !provider[field].startsWith('/')) {
+      throw new ValidationError(`${field} must be an API path starting with '/'`, field, provider[field]);
+    }
+  }
+
+  providers.set(provider.id, provider);
+  return () => {
+    if (providers.get(provider.id) === provider) {
+      providers.delete(provider.id);
+    }
+  };
+}
+
+/**
+ * Returns the registered identity providers, Google first.
+ *
+ * @returns {OAuthProvider[]} The providers.
+ */
+export function getOAuthProviders(): OAuthProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Looks up a registered identity provider.
+ *
+ * @param {string | OAuthProvider} provider The provider ID, or a provider that need not be registered.
+ * @returns {OAuthProvider} The provider.
+ * @throws {ValidationError} If no provider is registered with the ID.
+ */
+export function getOAuthProvider(provider: string | OAuthProvider): OAuthProvider {
+  if (typeof provider !== 'string') {
+    return provider;
+  }
+  const registered = providers.get(provider);
+  if (!registered) {
+    throw new ValidationError(`Unknown OAuth provider: ${provider}`, 'provider', provider);
+  }
+  return registered;
+}
+
+const platformConfig = (provider: OAuthProvider, platform: OAuthPlatform) => ({
+  scopes: provider.platforms?.[platform]?.scopes ?? provider.scopes,
+  params: { ...provider.params, ...provider.platforms?.[platform]?.params },
+  pkce: provider.platforms?.[platform]?.pkce ?? provider.pkce ?? true,
+});
+
+// Used where there is no sessionStorage, e.g. React Native, where the app keeps running during the flow
+const memoryStorage: KeyValueStorage = shared('__EASE_SDK_OAUTH_FLOWS__', () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+});
+
+const resolveFlowOptions = (provider: OAuthProvider, options: OAuthFlowOptions) => ({
+  storage: options.storage ?? globalThis.sessionStorage ?? memoryStorage,
+  key: options.key ?? `ease.oauth.${provider.id}`,
+  ttlMs: options.ttlMs ?? DEFAULT_OAUTH_TTL_MS,
+});
+
+function randomBase64Url(byteLength: number): string {
+  const crypto = globalThis.crypto;
+  if (!crypto?.getRandomValues) {
+    throw new ValidationError('WebCrypto is not available in this environment', 'crypto.getRandomValues', undefined);
+  }
+  return bufferToBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+async function toCodeChallenge(codeVerifier: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new ValidationError('WebCrypto is not available in this environment', 'crypto.subtle', undefined);
+  }
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return bufferToBase64Url(digest);
+}
+
+/**
+ * Retrieves a provider's authorization URL for initiating the authentication flow.
+ *
+ * @param {string | OAuthProvider} provider The provider ID, e.g. `'google'`, or the provider.
+ * @param {OAuthPlatform} platform The platform from which the OAuth flow is initiated ('web' or 'mobile').
+ * @param {OAuthPKCE} [pkce] The state, and the PKCE challenge if the provider uses PKCE, to bind the flow to.
+ * `startOAuth()` generates them.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+ * @returns {Promise<OAuthURLResponse>} A promise that resolves with the authorization URL.
+ * @throws {ValidationError} If the provider is not registered.
+ * @throws {AuthenticationError} If the API call fails or returns an invalid response.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function getOAuthURL(
+  this: EaseClient | void,
+  provider: string | OAuthProvider,
+  platform: OAuthPlatform,
+  pkce?: OAuthPKCE,
+  options?: RequestOptions,
+): Promise<OAuthURLResponse> {
+  const { api, logger } = resolveClient(this);
+  const { id, name, authURLEndpoint } = getOAuthProvider(provider);
+
+  const query = new URLSearchParams({ platform });
+  if (pkce) {
+    query.set('state', pkce.state);
+  }
+  if (pkce?.codeChallenge) {
+    query.set('code_challenge', pkce.codeChallenge);
+    query.set('code_challenge_method', 'S256');
+  }
+
+  try {
+    const response = await api<OAuthURLResponse>(
+      `${authURLEndpoint}?${query}`,
+      'GET',
+      undefined,
+      undefined,
+      false,
+      false,
+      options,
+    );
+
+    if (!response.success) {
+      logger.error(`${name} OAuth URL request failed:`, {
+        error: response.error,
+        statusCode: response.statusCode,
+      });
+
+      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
+        throw response.errorDetails;
+      }
+
+      throw new AuthenticationError(
+        response.error || `Failed to get ${name} OAuth URL`,
+        ErrorCode.AUTHENTICATION_FAILED,
+      );
+    }
+
+    if (!response.data) {
+      throw new AuthenticationError('Invalid response: missing authURL', ErrorCode.AUTHENTICATION_FAILED);
+    }
+
+    return response.data;
+  } catch (error) {
+    if (isEaseSDKError(error)) {
+      throw error;
+    }
+
+    const enhancedError = handleUnknownError(error, {
+      operation: 'getOAuthURL',
+      provider: id,
+    });
+
+    logger.error('Unexpected error in getOAuthURL:', enhancedError);
+    throw enhancedError;
+  }
+}
+
+/**
+ * Verifies a provider's callback data to obtain access and refresh tokens.
+ *
+ * @param {string | OAuthProvider} provider The provider ID, e.g. `'google'`, or the provider.
+ * @param {OAuthCallbackRequest} callbackData The data received from the provider's callback.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+ * @returns {Promise<OAuthCallbackResponse>} A promise that resolves with the access token and refresh token.
+ * @throws {ValidationError} If the provider is not registered.
+ * @throws {AuthenticationError} If the API call fails or returns an invalid response.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function verifyOAuthCallback(
+  this: EaseClient | void,
+  provider: string | OAuthProvider,
+  callbackData: OAuthCallbackRequest,
+  options?: RequestOptions,
+): Promise<OAuthCallbackResponse> {
+  const { api, logger, session } = resolveClient(this);
+  const { id, name, callbackEndpoint } = getOAuthProvider(provider);
+
+  try {
+    const response = await api<OAuthCallbackResponse>(
+      callbackEndpoint,
+      'POST',
+      callbackData,
+      undefined,
+      false,
+      false,
+      options,
+    );
+
+    if (!response.success) {
+      logger.error(`${name} OAuth callback failed:`, {
+        error: response.error,
+        statusCode: response.statusCode,
+      });
+
+      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
+        throw response.errorDetails;
+      }
+
+      throw new AuthenticationError(response.error || `${name} OAuth callback failed`, ErrorCode.AUTHENTICATION_FAILED);
+    }
+
+    if (!response.data || !response.data.accessToken || !response.data.refreshToken) {
+      throw new AuthenticationError('Invalid response: missing tokens', ErrorCode.AUTHENTICATION_FAILED);
+    }
+
+    await session.set(response.data);
+    return response.data;
+  } catch (error) {
+    if (isEaseSDKError(error)) {
+      throw error;
+    }
+
+    const enhancedError = handleUnknownError(error, {
+      operation: 'verifyOAuthCallback',
+      provider: id,
+    });
+
+    logger.error('Unexpected error in verifyOAuthCallback:', enhancedError);
+    throw enhancedError;
+  }
+}
+
+/**
+ * Starts a sign-in with a provider. It generates a state and, unless the provider opts out, a PKCE verifier, keeps
+ * them in the storage until the user comes back, and returns the URL to send the user to. Open it in the browser, or
+ * in an in-app browser on mobile.
+ *
+ * @example
+ * const { authURL } = await startOAuth('google', 'web');
+ * window.location.assign(authURL);
+ *
+ * @param {string | OAuthProvider} provider The provider ID, e.g. `'google'`, or the provider.
+ * @param {OAuthPlatform} platform The platform from which the OAuth flow is initiated ('web' or 'mobile').
+ * @param {OAuthFlowOptions} [options] Where to keep the pending flow, how long it stays valid, and the request
+ * settings.
+ * @returns {Promise<{ authURL: string; state: string }>} The authorization URL and the state it carries.
+ * @throws {ValidationError} If the provider is not registered or WebCrypto is not available in this environment.
+ * @throws {AuthenticationError} If the API call fails or returns an invalid response.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function startOAuth(
+  this: EaseClient | void,
+  provider: string | OAuthProvider,
+  platform: OAuthPlatform,
+  options: OAuthFlowOptions = {},
+): Promise<{ authURL: string; state: string }> {
+  const { logger } = resolveClient(this);
+  const resolved = getOAuthProvider(provider);
+  const { storage, key } = resolveFlowOptions(resolved, options);
+  const { scopes, params, pkce } = platformConfig(resolved, platform);
+
+  const requestedState = randomBase64Url(32);
+  const codeVerifier = pkce ? randomBase64Url(32) : undefined;
+  const codeChallenge = codeVerifier ? await toCodeChallenge(codeVerifier) : undefined;
+
+  const { authURL } = await getOAuthURL.call(
+    this,
+    resolved,
+    platform,
+    { state: requestedState, codeChallenge },
+    options,
+  );
+  if (!authURL) {
+    throw new AuthenticationError('Invalid response: missing authURL', ErrorCode.AUTHENTICATION_FAILED);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(authURL);
+  } catch (error) {
+    throw handleUnknownError(error, { operation: 'startOAuth', provider: resolved.id });
+  }
+  // The declared scopes and parameters fill in what the API left out, and so does the state, which the provider
+  // returns in the redirect. The challenge is always ours, as only this flow holds its verifier.
+  const state = url.searchParams.get('state') || requestedState;
+  if (scopes?.length && !url.searchParams.has('scope')) {
+    url.searchParams.set('scope', scopes.join(' '));
+  }
+  Object.entries(params).forEach(([name, value]) => {
+    if (!url.searchParams.has(name)) url.searchParams.set(name, value);
+  });
+  url.searchParams.set('state', state);
+  if (codeChallenge) {
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+  }
+
+  const pending: PendingOAuth = { provider: resolved.id, state, codeVerifier, platform, startedAt: Date.now() };
+  await storage.setItem(key, JSON.stringify(pending));
+  logger.debug('OAuth started:', { provider: resolved.id, platform, state: state.substring(0, 8) + '***' });
+
+  return { authURL: url.toString(), state };
+}
+
+/**
+ * Reads the OAuth parameters from the URL the provider redirected to, on the web, or from the deep link that
+ * reopened the app, on mobile. Parameters in the query and in the fragment are both read.
+ *
+ * @param {string} url The redirect URL or deep link, e.g. `window.location.href` or `myapp://oauth?code=...`.
+ * @returns {OAuthRedirect} The code and state, or the error the provider reported.
+ */
+export function parseOAuthRedirect(url: string): OAuthRedirect {
+  const params = new URLSearchParams();
+  const queryStart = url.indexOf('?');
+  const fragmentStart = url.indexOf('#');
+  const query =
+    queryStart < 0 ? '' : url.substring(queryStart + 1, fragmentStart > queryStart ? fragmentStart : undefined);
+  const fragment = fragmentStart < 0 ? '' : url.substring(fragmentStart + 1);
+  [query, fragment].forEach((part) => new URLSearchParams(part).forEach((value, name) => params.set(name, value)));
+
+  return {
+    code: params.get('code') ?? undefined,
+    state: params.get('state') ?? undefined,
+    error: params.get('error') ?? undefined,
+    errorDescription: params.get('error_description') ?? undefined,
+  };
+}
+
+/**
+ * Completes a sign-in started with `startOAuth()`. It checks that the redirect carries the state of the pending flow
+ * and that the flow has not expired, then exchanges the code, and PKCE verifier, for the session tokens. The pending
+ * flow is discarded either way, so a redirect can only be used once.
+ *
+ * @example
+ * const tokens = await completeOAuth('google', window.location.href);
+ *
+ * @param {string | OAuthProvider} provider The provider ID, e.g. `'google'`, or the provider.
+ * @param {string | OAuthRedirect} redirect The redirect URL or deep link, or its parsed parameters.
+ * @param {string} [chainID] The chain to register the user on. Defaults to the chain selected with
+ * `configure({ chainID })`.
+ * @param {OAuthFlowOptions} [options] The storage and lifetime `startOAuth()` was called with, and the request
+ * settings.
+ * @returns {Promise<OAuthCallbackResponse>} A promise that resolves with the access token and refresh token.
+ * @throws {ValidationError} If the provider is not registered.
+ * @throws {AuthenticationError} With `OAUTH_ACCESS_DENIED` if the user declined, `OAUTH_STATE_MISMATCH` if no flow is
+ * pending or the state differs, `OAUTH_EXPIRED` if the flow was started more than `ttlMs` ago, or
+ * `AUTHENTICATION_FAILED` if the provider reported another error or the exchange fails.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function completeOAuth(
+  this: EaseClient | void,
+  provider: string | OAuthProvider,
+  redirect: string | OAuthRedirect,
+  chainID?: string,
+  options: OAuthFlowOptions = {},
+): Promise<OAuthCallbackResponse> {
+  const client = resolveClient(this);
+  const { logger } = client;
+  const resolved = getOAuthProvider(provider);
+  const { storage, key, ttlMs } = resolveFlowOptions(resolved, options);
+
+  const { code, state, error, errorDescription } =
+    typeof redirect === 'string' ? parseOAuthRedirect(redirect) : redirect;
+
+  const stored = await storage.getItem(key);
+  await storage.removeItem(key);
+  let pending: PendingOAuth | undefined;
+  try {
+    pending = stored ? (JSON.parse(stored) as PendingOAuth) : undefined;
+  } catch {
+    pending = undefined;
+  }
+
+  if (error) {
+    logger.warn(`${resolved.name} OAuth returned an error:`, { error, errorDescription });
+    if (error === 'access_denied' || error === 'user_cancelled_authorize') {
+      throw new AuthenticationError(`${resolved.name} sign-in was cancelled`, ErrorCode.OAUTH_ACCESS_DENIED, {
+        provider: resolved.id,
+        error,
+      });
+    }
+    throw new AuthenticationError(
+      errorDescription || `${resolved.name} sign-in failed: ${error}`,
+      ErrorCode.AUTHENTICATION_FAILED,
+      { provider: resolved.id, error },
+    );
+  }
+
+  if (!pending?.state || pending.provider !== resolved.id) {
+    throw new AuthenticationError(`No ${resolved.name} sign-in is in progress`, ErrorCode.OAUTH_STATE_MISMATCH, {
+      provider: resolved.id,
+    });
+  }
+
+  if (!state || state !== pending.state) {
+    logger.warn('OAuth state mismatch:', { provider: resolved.id });
+    throw new AuthenticationError(
+      `The ${resolved.name} sign-in response does not match this session`,
+      ErrorCode.OAUTH_STATE_MISMATCH,
+      { provider: resolved.id },
+    );
+  }
+
+  if (Date.now() - pending.startedAt > ttlMs) {
+    throw new AuthenticationError(
+      `The ${resolved.name} sign-in took too long, please try again`,
+      ErrorCode.OAUTH_EXPIRED,
+      { provider: resolved.id, startedAt: new Date(pending.startedAt).toISOString() },
+    );
+  }
+
+  if (!code) {
+    throw new AuthenticationError('Invalid response: missing authorization code', ErrorCode.AUTHENTICATION_FAILED, {
+      provider: resolved.id,
+    });
+  }
+
+  return verifyOAuthCallback.call(
+    this,
+    resolved,
+    {
+      code,
+      state,
+      chainID: chainID ?? client.getChainID(),
+      codeVerifier: pending.codeVerifier,
+    },
+    options,
+  );
+}
@@ -1,6 +1,6 @@
-import { internalApi as api } from '../api';
-import { APIDefaultResponse, Country } from '../utils/type';
-import { logger } from '../utils/logger';
+import type { RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
+import { APIDefaultResponse, Country, SendOtpResponse } from '../utils/type';
 
 import {
   OTPError,
@@ -10,18 +10,43 @@ import {
   isEaseSDKError,
   AuthenticationError,
 } from '../utils/errors';
+import { parsePhoneNumber } from './number';
+import {
+  OtpSession,
+  clearOtpRecord,
+  getOtpRecord,
+  rateLimitError,
+  recordFailedAttempt,
+  startOtpRecord,
+} from './session';
+
+export * from './number';
+export { BaseOtpSession, OtpSession } from './session';
 
 /**
- * Sends a One-Time Password (OTP) to the specified phone number.
+ * Sends a One-Time Password (OTP) to the specified phone number. The number is normalized first, so
+ * `'+1 (555) 123-4567'` and `'5551234567'` reach the API the same way. Another code for the same number can only be
+ * requested once the resend cooldown of the previous one has run out.
  *
- * @param {string} countryCode The country dial code (e.g., '+1', '+44').
- * @param {string} phone The phone number to send the OTP to.
- * @returns {Promise<{ success: boolean }>} A promise that resolves with a success indicator.
- * @throws {ValidationError} If the country code or phone number are invalid or missing.
- * @throws {OTPError} If the API call fails to send the OTP.
+ * @param {string} countryCode The country dial code (e.g., '+1', '+44') or ISO code (e.g., 'US').
+ * @param {string} phone The phone number to send the OTP to, in national or international format.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+ * @returns {Promise<OtpSession>} A promise that resolves with the session of the code, which tracks its resend cooldown,
+ * verification attempts and expiry.
+ * @throws {ValidationError} If the country code or phone number are missing.
+ * @throws {OTPError} With `INVALID_PHONE_NUMBER` if the phone number is invalid, with `RATE_LIMIT_ERROR` and
+ * `context.retryAfterMs` if a code was requested too recently, or if the API call fails to send the OTP.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
-export async function sendOtp(countryCode: string, phone: string): Promise<{ success: boolean }> {
+export async function sendOtp(
+  this: EaseClient | void,
+  countryCode: string,
+  phone: string,
+  options?: RequestOptions,
+): Promise<OtpSession> {
+  const client = resolveClient(this);
+  const { api, logger } = client;
+
   // Input validation
   if (!countryCode || typeof countryCode !== 'string') {
     throw new ValidationError('Country code is required and must be a string', 'countryCode', countryCode);
@@ -31,22 +56,30 @@ export async function sendOtp(countryCode: string, phone: string): Promise<{ suc
     throw new ValidationError('Phone number is required and must be a string', 'phone', phone);
   }
 
-  // Basic phone number validation
-  const phoneRegex = /^[\d\s\-\+\(\)]+$/;
-  if (!phoneRegex.test(phone)) {
-    throw new ValidationError('Invalid phone number format', 'phone', phone);
+  const { dialCode, nationalNumber, e164 } = parsePhoneNumber(phone, countryCode);
+
+  const previous = getOtpRecord(client, e164);
+  const cooldownMs = previous ? previous.resendAvailableAt - Date.now() : 0;
+  if (cooldownMs > 0) {
+    throw new OTPError('Please wait before requesting another code', ErrorCode.RATE_LIMIT_ERROR, {
+      countryCode,
+      phonePrefix: phone.substring(0, 3),
+      retryAfterMs: cooldownMs,
+    });
   }
 
   try {
-    const response = await api(
+    const response = await api<SendOtpResponse>(
       `/phone/send-otp`,
       'POST',
       {
-        countryCode: countryCode.trim(),
-        phone: phone.trim(),
+        countryCode: dialCode,
+        phone: nationalNumber,
       },
       undefined,
       false,
+      false,
+      options,
     );
 
     if (!response.success) {
@@ -59,6 +92,14 @@ export async function sendOtp(countryCode: string, phone: string): Promise<{ suc
         statusCode: response.statusCode,
       });
 
+      if (response.statusCode === 429) {
+        const error = rateLimitError(response, { countryCode, phonePrefix: phone.substring(0, 3) });
+        if (previous && error.context?.retryAfterMs !== undefined) {
+          previous.resendAvailableAt = Date.now() + error.context.retryAfterMs;
+        }
+        throw error;
+      }
+
       if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
         throw response.errorDetails;
       }
@@ -69,7 +110,8 @@ export async function sendOtp(countryCode: string, phone: string): Promise<{ suc
       });
     }
 
-    return { success: true };
+    const record = startOtpRecord(client, e164, response.data);
+    return new OtpSession(client, dialCode, nationalNumber, e164, record);
   } catch (error) {
     if (isEaseSDKError(error)) {
       throw error;
@@ -89,21 +131,31 @@ export async function sendOtp(countryCode: string, phone: string): Promise<{ suc
 /**
  * Verifies a One-Time Password (OTP) for a given phone number.
  *
- * @param {string} countryCode The country dial code (e.g., '+1', '+44').
- * @param {string} phone The phone number associated with the OTP.
+ * @param {string} countryCode The country dial code (e.g., '+1', '+44') or ISO code (e.g., 'US').
+ * @param {string} phone The phone number associated with the OTP, in national or international format.
  * @param {string} otpCode The OTP received by the user.
- * @param {string} [chainID='0001'] The chain ID for the verification (defaults to '0001').
+ * @param {string} [chainID] The chain to register the user on. Defaults to the chain selected with
+ * `configure({ chainID })`.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<APIDefaultResponse>} A promise that resolves with an access token and refresh token upon successful verification.
  * @throws {ValidationError} If any of the input parameters are invalid or missing.
- * @throws {OTPError} If the OTP verification fails due to invalid code, expiration, or other API errors.
+ * @throws {OTPError} With `INVALID_PHONE_NUMBER` if the phone number is invalid, with `INVALID_OTP` and
+ * `context.attemptsRemaining` if the code is wrong, with `RATE_LIMIT_ERROR` and `context.retryAfterMs` if there were
+ * too many attempts, or if the OTP verification fails due to expiration or other API errors.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
 export async function verifyOtp(
+  this: EaseClient | void,
   countryCode: string,
   phone: string,
   otpCode: string,
-  chainID: string = '0001', // hardcoded for now since we haven't implemented chain selection neither chainIds in the backend.
+  chainID?: string,
+  options?: RequestOptions,
 ): Promise<APIDefaultResponse> {
+  const client = resolveClient(this);
+  const { api, logger, session } = client;
+  chainID ??= client.getChainID();
+
   // Input validation
   if (!countryCode || typeof countryCode !== 'string') {
     throw new ValidationError('Country code is required and must be a string', 'countryCode', countryCode);
@@ -127,6 +179,8 @@ export async function verifyOtp(
     throw new ValidationError('Chain ID is required and must be a string', 'chainID', chainID);
   }
 
+  const { dialCode, nationalNumber, e164 } = parsePhoneNumber(phone, countryCode);
+
   logger.debug('Verifying OTP:', {
     countryCode,
     phonePrefix: phone.substring(0, 3) + '***',
@@ -139,13 +193,15 @@ export async function verifyOtp(
       '/phone/verify-otp',
       'POST',
       {
-        countryCode: countryCode.trim(),
-        phone: phone.trim(),
+        countryCode: dialCode,
+        phone: nationalNumber,
         otpCode: otpCode.trim(),
         chainID: chainID.trim(),
       },
       undefined,
       false,
+      false,
+      options,
     );
 
     if (!response.success) {
@@ -158,18 +214,28 @@ export async function verifyOtp(
         statusCode: response.statusCode,
       });
 
-      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
-        throw response.errorDetails;
+      if (response.statusCode === 429) {
+        throw rateLimitError(response, { countryCode, phonePrefix: phone.substring(0, 3) });
       }
 
       // Map common OTP verification errors
       if (response.statusCode === 400) {
+        const attemptsRemaining = recordFailedAttempt(
+          client,
+          e164,
+          response.errorDetails?.context?.responseData?.attemptsRemaining,
+        );
         throw new OTPError(response.error || 'Invalid OTP code', ErrorCode.INVALID_OTP, {
           countryCode,
           phonePrefix: phone.substring(0, 3),
+          attemptsRemaining,
         });
       }
 
+      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
+        throw response.errorDetails;
+      }
+
       if (response.statusCode === 401) {
         throw new OTPError('OTP code has expired', ErrorCode.OTP_EXPIRED, {
           countryCode,
@@ -192,6 +258,8 @@ export async function verifyOtp(
 
     const { accessToken, refreshToken } = response.data;
 
+    clearOtpRecord(client, e164);
+    await session.set({ accessToken, refreshToken });
     return {
       accessToken,
       refreshToken,
@@ -217,13 +285,16 @@ export async function verifyOtp(
 /**
  * Retrieves a list of supported countries for phone number operations.
  *
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<Country[]>} A promise that resolves with an array of country objects.
  * @throws {AuthenticationError} If the API call fails to fetch countries or returns an invalid response.
  * @throws {EaseSDKError} For any unexpected errors during the operation.
  */
-export async function getCountries(): Promise<Country[]> {
+export async function getCountries(this: EaseClient | void, options?: RequestOptions): Promise<Country[]> {
+  const { api, logger } = resolveClient(this);
+
   try {
-    const response = await api<Country[]>('/phone/countries', 'GET', null, undefined, false);
+    const response = await api<Country[]>('/phone/countries', 'GET', null, undefined, false, false, options);
 
     if (!response.success) {
       logger.error('Failed to fetch countries:', {
@@ -0,0 +1,311 @@
+import { Country } from '../utils/type';
+import { ErrorCode, OTPError } from '../utils/errors';
+
+/**
+ * What the SDK knows about the numbering plan of a country.
+ */
+export type PhoneNumberMetadata = {
+  /** The country dial code, e.g. `+44`. */
+  dialCode: string;
+  /** The valid lengths of the national significant number, i.e. without the dial code and trunk prefix. */
+  lengths: number[];
+  /** The trunk prefix dialled before national numbers within the country, e.g. `0`. */
+  nationalPrefix?: string;
+  /** The national format, with a `#` for every digit of the national significant number. */
+  format?: string;
+};
+
+export type ParsedPhoneNumber = {
+  /** The ISO 3166-1 alpha-2 code of the country, if it is known. */
+  country?: string;
+  dialCode: string;
+  /** The national significant number, digits only. */
+  nationalNumber: string;
+  /** The number in E.164 format, e.g. `+15551234567`. */
+  e164: string;
+};
+
+/**
+ * Numbering plans of the countries the SDK validates, keyed by ISO 3166-1 alpha-2 code. Countries sharing a dial
+ * code are listed with the main country of the code first. Numbers of other countries are checked against the
+ * E.164 limits only.
+ */
+export const PHONE_NUMBER_METADATA: Readonly<Record<string, PhoneNumberMetadata>> = {
+  US: { dialCode: '+1', lengths: [10], format: '(###) ###-####' },
+  CA: { dialCode: '+1', lengths: [10], format: '(###) ###-####' },
+  GB: { dialCode: '+44', lengths: [9, 10], nationalPrefix: '0', format: '#### ######' },
+  IE: { dialCode: '+353', lengths: [7, 8, 9], nationalPrefix: '0', format: '## ### ####' },
+  FR: { dialCode: '+33', lengths: [9], nationalPrefix: '0', format: '# ## ## ## ##' },
+  DE: { dialCode: '+49', lengths: [6, 7, 8, 9, 10, 11, 12, 13], nationalPrefix: '0', format: '### ########' },
+  ES: { dialCode: '+34', lengths: [9], format: '### ## ## ##' },
+  IT: { dialCode: '+39', lengths: [6, 7, 8, 9, 10, 11], format: '### ### ####' },
+  PT: { dialCode: '+351', lengths: [9], format: '### ### ###' },
+  NL: { dialCode: '+31', lengths: [9], nationalPrefix: '0', format: '# ########' },
+  BE: { dialCode: '+32', lengths: [8, 9], nationalPrefix: '0', format: '### ## ## ##' },
+  CH: { dialCode: '+41', lengths: [9], nationalPrefix: '0', format: '## ### ## ##' },
+  AT: { dialCode: '+43', lengths: [4, 5, 6, 7, 8, 9, 10, 11, 12, 13], nationalPrefix: '0', format: '### #######' },
+  SE: { dialCode: '+46', lengths: [7, 8, 9], nationalPrefix: '0', format: '##-### ## ##' },
+  NO: { dialCode: '+47', lengths: [8], format: '### ## ###' },
+  DK: { dialCode: '+45', lengths: [8], format: '## ## ## ##' },
+  FI: { dialCode: '+358', lengths: [5, 6, 7, 8, 9, 10, 11, 12], nationalPrefix: '0', format: '## ### ####' },
+  PL: { dialCode: '+48', lengths: [9], format: '### ### ###' },
+  RU: { dialCode: '+7', lengths: [10], nationalPrefix: '8', format: '### ###-##-##' },
+  UA: { dialCode: '+380', lengths: [9], nationalPrefix: '0', format: '## ### ## ##' },
+  TR: { dialCode: '+90', lengths: [10], nationalPrefix: '0', format: '### ### ## ##' },
+  IL: { dialCode: '+972', lengths: [8, 9], nationalPrefix: '0', format: '##-###-####' },
+  AE: { dialCode: '+971', lengths: [8, 9], nationalPrefix: '0', format: '## ### ####' },
+  SA: { dialCode: '+966', lengths: [9], nationalPrefix: '0', format: '## ### ####' },
+  EG: { dialCode: '+20', lengths: [9, 10], nationalPrefix: '0', format: '### ### ####' },
+  NG: { dialCode: '+234', lengths: [8, 10], nationalPrefix: '0', format: '### ### ####' },
+  KE: { dialCode: '+254', lengths: [9], nationalPrefix: '0', format: '### ######' },
+  ZA: { dialCode: '+27', lengths: [9], nationalPrefix: '0', format: '## ### ####' },
+  IN: { dialCode: '+91', lengths: [10], nationalPrefix: '0', format: '##### #####' },
+  PK: { dialCode: '+92', lengths: [9, 10], nationalPrefix: '0', format: '### #######' },
+  CN: { dialCode: '+86', lengths: [10, 11], nationalPrefix: '0', format: '### #### ####' },
+  HK: { dialCode: '+852', lengths: [8], format: '#### ####' },
+  JP: { dialCode: '+81', lengths: [9, 10], nationalPrefix: '0', format: '##-####-####' },
+  KR: { dialCode: '+82', lengths: [8, 9, 10], nationalPrefix: '0', format: '##-####-####' },
+  SG: { dialCode: '+65', lengths: [8], format: '#### ####' },
+  MY: { dialCode: '+60', lengths: [9, 10], nationalPrefix: '0', format: '##-### ####' },
+  TH: { dialCode: '+66', lengths: [8, 9], nationalPrefix: '0', format: '## ### ####' },
+  VN: { dialCode: '+84', lengths: [9, 10], nationalPrefix: '0', format: '## ### ## ##' },
+  PH: { dialCode: '+63', lengths: [10], nationalPrefix: '0', format: '### ### ####' },
+  ID: { dialCode: '+62', lengths: [9, 10, 11, 12], nationalPrefix: '0', format: '###-####-####' },
+  AU: { dialCode: '+61', lengths: [9], nationalPrefix: '0', format: '### ### ###' },
+  NZ: { dialCode: '+64', lengths: [8, 9, 10], nationalPrefix: '0', format: '## ### ####' },
+  BR: { dialCode: '+55', lengths: [10, 11], format: '(##) #####-####' },
+  MX: { dialCode: '+52', lengths: [10], format: '## #### ####' },
+  AR: { dialCode: '+54', lengths: [10], nationalPrefix: '0', format: '## ####-####' },
+  CO: { dialCode: '+57', lengths: [10], format: '### #######' },
+  CL: { dialCode: '+56', lengths: [9], format: '# #### ####' },
+  PE: { dialCode: '+51', lengths: [8, 9], nationalPrefix: '0', format: '### ### ###' },
+};
+
+// E.164 numbers have at most 15 digits including the dial code
+const E164_MAX_DIGITS = 15;
+const MIN_NATIONAL_LENGTH = 4;
+
+// Separators users type or paste between digits
+const SEPARATORS = /[\s\-().\/]/g;
+
+type ResolvedCountry = { code?: string; dialCode: string; metadata?: PhoneNumberMetadata };
+
+const digitsOf = (dialCode: string) => dialCode.replace(/\D/g, '');
+
+const invalid = (message: string, input: string) =>
+  new OTPError(message, ErrorCode.INVALID_PHONE_NUMBER, { phonePrefix: input.substring(0, 3) });
+
+function metadataForDialCode(dialCode: string): [string, PhoneNumberMetadata] | undefined {
+  return Object.entries(PHONE_NUMBER_METADATA).find(([, metadata]) => metadata.dialCode === dialCode);
+}
+
+/**
+ * Resolves a country given as a `Country`, an ISO code or a dial code. With a `countries` list only those countries
+ * are accepted, and countries the bundled metadata does not know are still resolved from their dial code.
+ */
+function resolveCountry(country: Country | string, countries?: Country[]): ResolvedCountry | undefined {
+  const value = typeof country === 'string' ? country.trim() : country.code;
+
+  if (typeof country === 'string' && /^\+?\d+$/.test(value)) {
+    const dialCode = `+${digitsOf(value)}`;
+    if (countries && !countries.some((c) => digitsOf(c.dial_code) === digitsOf(dialCode))) {
+      return undefined;
+    }
+    const known = metadataForDialCode(dialCode);
+    return known ? { code: known[0], dialCode, metadata: known[1] } : { dialCode };
+  }
+
+  const code = value.toUpperCase();
+  const listed = (countries ?? (typeof country === 'string' ? [] : [country])).find(
+    (c) => c.code.toUpperCase() === code,
+  );
+  if (countries && !listed) {
+    return undefined;
+  }
+  const metadata = PHONE_NUMBER_METADATA[code];
+  const dialCode = listed ? `+${digitsOf(listed.dial_code)}` : metadata?.dialCode;
+  return dialCode ? { code, dialCode, metadata } : undefined;
+}
+
+/**
+ * Finds the country of an international number by its longest matching dial code, preferring `preferred` when
+ * several countries share it.
+ */
+function resolveInternational(
+  digits: string,
+  preferred: ResolvedCountry | undefined,
+  countries?: Country[],
+): ResolvedCountry | undefined {
+  if (preferred && digits.startsWith(digitsOf(preferred.dialCode))) {
+    return preferred;
+  }
+  const dialCodes = countries
+    ? countries.map((c) => c.dial_code)
+    : Object.values(PHONE_NUMBER_METADATA).map((metadata) => metadata.dialCode);
+  const dialCode = dialCodes.filter((code) => digits.startsWith(digitsOf(code))).sort((a, b) => b.length - a.length)[0];
+  return dialCode ? resolveCountry(dialCode, countries) : undefined;
+}
+
+function isValidLength(nationalNumber: string, country: ResolvedCountry): boolean {
+  if (country.metadata) {
+    return country.metadata.lengths.includes(nationalNumber.length);
+  }
+  return (
+    nationalNumber.length >= MIN_NATIONAL_LENGTH &&
+    nationalNumber.length + digitsOf(country.dialCode).length <= E164_MAX_DIGITS
+  );
+}
+
+/**
+ * Drops a trunk prefix, or a dial code typed without the `+`, when the rest is a number of valid length.
+ */
+function toNationalNumber(digits: string, country: ResolvedCountry): string {
+  const prefixes = [country.metadata?.nationalPrefix, digitsOf(country.dialCode)];
+  for (const prefix of prefixes) {
+    if (prefix && !isValidLength(digits, country) && digits.startsWith(prefix)) {
+      const rest = digits.substring(prefix.length);
+      if (isValidLength(rest, country)) {
+        return rest;
+      }
+    }
+  }
+  return digits;
+}
+
+/**
+ * Parses a phone number typed in national or international format.
+ *
+ * @example
+ * parsePhoneNumber('+1 (555) 123-4567'); // { country: 'US', dialCode: '+1', nationalNumber: '5551234567', e164: '+15551234567' }
+ * parsePhoneNumber('020 7946 0958', 'GB'); // { country: 'GB', dialCode: '+44', nationalNumber: '2079460958', e164: '+442079460958' }
+ *
+ * @param {string} input The phone number. Spaces, dashes, dots, slashes and parentheses are ignored.
+ * @param {Country | string} [country] The country of national numbers, as a `Country`, an ISO code or a dial code.
+ * @param {Country[]} [countries] The supported countries, e.g. from `getCountries()`. Numbers of other countries are rejected.
+ * @returns {ParsedPhoneNumber} The parsed number.
+ * @throws {OTPError} With `INVALID_PHONE_NUMBER` if the number is malformed, of an unsupported or unknown country,
+ * or of an invalid length for its country.
+ */
+export function parsePhoneNumber(input: string, country?: Country | string, countries?: Country[]): ParsedPhoneNumber {
+  if (typeof input !== 'string') {
+    throw invalid('Phone number must be a string', String(input));
+  }
+
+  const compact = input.trim().replace(SEPARATORS, '');
+  if (!/^\+?\d+$/.test(compact)) {
+    throw invalid('Phone number may only contain digits, spaces, dashes, dots and parentheses', input);
+  }
+
+  const preferred = country ? resolveCountry(country, countries) : undefined;
+  if (country && !preferred) {
+    throw invalid(`Unsupported country: ${typeof country === 'string' ? country : country.code}`, input);
+  }
+
+  const international = compact.startsWith('+');
+  const digits = international ? compact.substring(1) : compact;
+  const resolved = international ? resolveInternational(digits, preferred, countries) : preferred;
+  if (!resolved) {
+    throw invalid(
+      international ? 'Unknown or unsupported country dial code' : 'A country is required for national numbers',
+      input,
+    );
+  }
+
+  const national = international ? digits.substring(digitsOf(resolved.dialCode).length) : digits;
+  const nationalNumber = toNationalNumber(national, resolved);
+  if (!isValidLength(nationalNumber, resolved)) {
+    throw invalid(`Invalid phone number length for ${resolved.code ?? resolved.dialCode}`, input);
+  }
+
+  return {
+    country: resolved.code,
+    dialCode: resolved.dialCode,
+    nationalNumber,
+    e164: `${resolved.dialCode}${nationalNumber}`,
+  };
+}
+
+/**
+ * Normalizes a phone number to E.164, e.g. `+15551234567`.
+ *
+ * @param {string} input The phone number.
+ * @param {Country | string} [country] The country of national numbers.
+ * @param {Country[]} [countries] The supported countries.
+ * @returns {string} The number in E.164 format.
+ * @throws {OTPError} With `INVALID_PHONE_NUMBER` if the number is invalid.
+ */
+export function toE164(input: string, country?: Country | string, countries?: Country[]): string {
+  return parsePhoneNumber(input, country, countries).e164;
+}
+
+/**
+ * Checks whether a phone number is valid for its country.
+ *
+ * @param {string} input The phone number.
+ * @param {Country | string} [country] The country of national numbers.
+ * @param {Country[]} [countries] The supported countries.
+ * @returns {boolean} Whether `parsePhoneNumber()` accepts the number.
+ */
+export function isValidPhoneNumber(input: string, country?: Country | string, countries?: Country[]): boolean {
+  try {
+    parsePhoneNumber(input, country, countries);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Fills the format with as many digits as there are; separators only appear once a digit follows them
+function applyFormat(digits: string, format: string | undefined): string {
+  if (!format || digits.length > format.replace(/[^#]/g, '').length) {
+    return digits;
+  }
+  let result = '';
+  let index = 0;
+  for (const char of format) {
+    if (index >= digits.length) {
+      break;
+    }
+    result += char === '#' ? digits[index++] : char;
+  }
+  return result;
+}
+
+/**
+ * Formats a phone number as the user types it, in national format or, if it starts with `+`, in international
+ * format. Partial numbers are formatted as far as they go, and input that does not fit the country's format is
+ * returned as digits.
+ *
+ * @example
+ * formatPhoneNumber('555123', 'US'); // '(555) 123'
+ * formatPhoneNumber('+4420794', 'GB'); // '+44 2079 4'
+ *
+ * @param {string} input The phone number typed so far.
+ * @param {Country | string} [country] The country of national numbers.
+ * @returns {string} The formatted number.
+ */
+export function formatPhoneNumber(input: string, country?: Country | string): string {
+  const compact = input.replace(/[^\d+]/g, '');
+  const preferred = country ? resolveCountry(country) : undefined;
+
+  if (compact.startsWith('+')) {
+    const digits = compact.substring(1).replace(/\+/g, '');
+    const resolved = resolveInternational(digits, preferred);
+    if (!resolved) {
+      return `+${digits}`;
+    }
+    const dialDigits = digitsOf(resolved.dialCode);
+    const national = digits.substring(dialDigits.length);
+    // International format drops the national punctuation
+    const format = resolved.metadata?.format?.replace(/[()]/g, '').replace(/-/g, ' ');
+    return national ? `+${dialDigits} ${applyFormat(national, format)}` : `+${digits}`;
+  }
+
+  const digits = compact.replace(/\+/g, '');
+  const prefix = preferred?.metadata?.nationalPrefix;
+  if (prefix && digits.startsWith(prefix)) {
+    const rest = digits.substring(prefix.length);
+    return `${prefix}${applyFormat(rest, preferred?.metadata?.format)}`;
+  }
+  return applyFormat(digits, preferred?.metadata?.format);
+}
@@ -0,0 +1,255 @@
+import type { EaseClient } from '../client';
+import type { ApiResponse, RequestOptions } from '../api';
+import { APIDefaultResponse, SendOtpResponse } from '../utils/type';
+import { ErrorCode, OTPError } from '../utils/errors';
+import { parseRetryAfter } from '../utils/retry';
+import { shared } from '../utils/shared';
+
+// Used when the send-otp response does not say otherwise
+const DEFAULT_OTP_TTL_MS = 5 * 60_000;
+const DEFAULT_RESEND_COOLDOWN_MS = 30_000;
+const DEFAULT_OTP_ATTEMPTS = 3;
+
+/** @internal */
+export type OtpRecord = {
+  sentAt: number;
+  expiresAt: number;
+  resendAvailableAt: number;
+  attemptsRemaining: number;
+};
+
+// OTP state per client and destination (E.164 number or email address), shared by every session of the destination
+const records = shared('__EASE_SDK_OTP_RECORDS__', () => new WeakMap<EaseClient, Map<string, OtpRecord>>());
+
+const recordsOf = (client: EaseClient) => {
+  let map = records.get(client);
+  if (!map) {
+    map = new Map();
+    records.set(client, map);
+  }
+  return map;
+};
+
+/**
+ * Maps a 429 from an OTP endpoint to `RATE_LIMIT_ERROR`, with the wait from `Retry-After`, or a `retryAfter` field in
+ * the body, in `context.retryAfterMs`.
+ *
+ * @internal
+ */
+export function rateLimitError(response: ApiResponse<unknown>, context: Record<string, any>): OTPError {
+  const retryAfterMs =
+    parseRetryAfter(response.headers?.get('Retry-After')) ??
+    parseRetryAfter(response.errorDetails?.context?.responseData?.retryAfter);
+  return new OTPError(response.error || 'Too many requests, try again later', ErrorCode.RATE_LIMIT_ERROR, {
+    ...context,
+    retryAfterMs,
+  });
+}
+
+/**
+ * Returns the OTP state of a number or email address, if a code was sent to it through the client.
+ *
+ * @internal
+ */
+export function getOtpRecord(client: EaseClient, destination: string): OtpRecord | undefined {
+  return records.get(client)?.get(destination);
+}
+
+/**
+ * Records a code sent to a number or email address. Sessions of an earlier code for it follow the new one.
+ *
+ * @internal
+ */
+export function startOtpRecord(
+  client: EaseClient,
+  destination: string,
+  response: SendOtpResponse | undefined,
+  now: number = Date.now(),
+): OtpRecord {
+  const map = recordsOf(client);
+  map.forEach((record, key) => {
+    if (record.expiresAt <= now && record.resendAvailableAt <= now) {
+      map.delete(key);
+    }
+  });
+
+  const fresh: OtpRecord = {
+    sentAt: now,
+    expiresAt: now + (response?.expiresIn !== undefined ? response.expiresIn * 1000 : DEFAULT_OTP_TTL_MS),
+    resendAvailableAt:
+      now + (response?.resendAfter !== undefined ? response.resendAfter * 1000 : DEFAULT_RESEND_COOLDOWN_MS),
+    attemptsRemaining: response?.attemptsRemaining ?? DEFAULT_OTP_ATTEMPTS,
+  };
+  const record = map.get(destination);
+  if (record) {
+    return Object.assign(record, fresh);
+  }
+  map.set(destination, fresh);
+  return fresh;
+}
+
+/**
+ * Forgets the OTP state of a number or email address once its code was verified.
+ *
+ * @internal
+ */
+export function clearOtpRecord(client: EaseClient, destination: string): void {
+  records.get(client)?.delete(destination);
+}
+
+/**
+ * Decrements the attempts left for a code after a wrong one was entered, unless the API reported them.
+ *
+ * @internal
+ */
+export function recordFailedAttempt(client: EaseClient, destination: string, reported: unknown): number | undefined {
+  const otp = getOtpRecord(client, destination);
+  let attemptsRemaining: number | undefined;
+  if (typeof reported === 'number') {
+    attemptsRemaining = reported;
+  } else if (otp) {
+    attemptsRemaining = Math.max(0, otp.attemptsRemaining - 1);
+  }
+  if (otp && attemptsRemaining !== undefined) {
+    otp.attemptsRemaining = attemptsRemaining;
+  }
+  return attemptsRemaining;
+}
+
+/**
+ * A code sent by `sendOtp()` or `sendEmailOtp()`. It tracks when another code may be requested, how many verification
+ * attempts are left and when the code expires, so the UI can show timers without its own bookkeeping.
+ *
+ * All sessions of a number or email address reflect its latest code: `resend()` updates this session as well as
+ * returning it.
+ */
+export abstract class BaseOtpSession {
+  /** Kept for callers of the former `{ success: boolean }` return value of `sendOtp()` and `sendEmailOtp()`. */
+  readonly success = true;
+
+  protected constructor(
+    protected readonly client: EaseClient,
+    private readonly record: OtpRecord,
+  ) {}
+
+  get sentAt(): Date {
+    return new Date(this.record.sentAt);
+  }
+
+  get expiresAt(): Date {
+    return new Date(this.record.expiresAt);
+  }
+
+  get resendAvailableAt(): Date {
+    return new Date(this.record.resendAvailableAt);
+  }
+
+  /** Verification attempts left before the code is locked. */
+  get attemptsRemaining(): number {
+    return this.record.attemptsRemaining;
+  }
+
+  /** Milliseconds until `resend()` is allowed, or 0. */
+  get resendCooldownMs(): number {
+    return Math.max(0, this.record.resendAvailableAt - Date.now());
+  }
+
+  get canResend(): boolean {
+    return this.resendCooldownMs === 0;
+  }
+
+  /** Milliseconds until the code expires, or 0. */
+  get expiresInMs(): number {
+    return Math.max(0, this.record.expiresAt - Date.now());
+  }
+
+  get isExpired(): boolean {
+    return this.expiresInMs === 0;
+  }
+
+  /**
+   * Calls the listener now and then every `intervalMs` until both the resend cooldown and the expiry have run out.
+   *
+   * @param {(session: this) => void} listener Receives this session; read the timers from it.
+   * @param {number} [intervalMs=1000] How often to call the listener.
+   * @returns {() => void} Stops the ticks.
+   */
+  onTick(listener: (session: this) => void, intervalMs: number = 1000): () => void {
+    const tick = () => {
+      listener(this);
+      if (this.canResend && this.isExpired) {
+        stop();
+      }
+    };
+    const timer = setInterval(tick, intervalMs);
+    const stop = () => clearInterval(timer);
+    tick();
+    return stop;
+  }
+
+  /**
+   * Requests a new code for the same number or email address.
+   *
+   * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+   * @returns {Promise<BaseOtpSession>} The session of the new code.
+   * @throws {OTPError} With `RATE_LIMIT_ERROR` if the cooldown has not run out; `context.retryAfterMs` says how long
+   * to wait.
+   */
+  abstract resend(options?: RequestOptions): Promise<BaseOtpSession>;
+
+  /**
+   * Verifies a code sent to this number or email address.
+   *
+   * @param {string} otpCode The code the user entered.
+   * @param {string} [chainID] The chain ID for the verification.
+   * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+   * @returns {Promise<APIDefaultResponse>} The access token and refresh token.
+   * @throws {OTPError} With `INVALID_OTP` and `context.attemptsRemaining` if the code is wrong.
+   */
+  abstract verify(otpCode: string, chainID?: string, options?: RequestOptions): Promise<APIDefaultResponse>;
+
+  toJSON() {
+    return {
+      sentAt: this.sentAt,
+      expiresAt: this.expiresAt,
+      resendAvailableAt: this.resendAvailableAt,
+      attemptsRemaining: this.attemptsRemaining,
+    };
+  }
+}
+
+/**
+ * The OTP sent to a phone number, returned by `sendOtp()`.
+ *
+ * @example
+ * const otp = await sendOtp('+1', '5551234567');
+ * const stop = otp.onTick(({ resendCooldownMs }) => renderResendButton(resendCooldownMs));
+ * await otp.verify(code);
+ * stop();
+ */
+export class OtpSession extends BaseOtpSession {
+  constructor(
+    client: EaseClient,
+    /** The dial code the code was sent to, e.g. `+1`. */
+    readonly countryCode: string,
+    /** The national significant number the code was sent to. */
+    readonly phone: string,
+    /** The number in E.164 format. */
+    readonly e164: string,
+    record: OtpRecord,
+  ) {
+    super(client, record);
+  }
+
+  resend(options?: RequestOptions): Promise<OtpSession> {
+    return this.client.phone.sendOtp(this.countryCode, this.phone, options);
+  }
+
+  verify(otpCode: string, chainID?: string, options?: RequestOptions): Promise<APIDefaultResponse> {
+    return this.client.phone.verifyOtp(this.countryCode, this.phone, otpCode, chainID, options);
+  }
+
+  toJSON() {
+    return { countryCode: this.countryCode, phone: this.phone, e164: this.e164, ...super.toJSON() };
+  }
+}
@@ -1,18 +1,28 @@
-import { internalApi as api } from '../api';
-import { logger } from '../utils/logger';
-import { AuthenticationError, ErrorCode, ValidationError, handleUnknownError } from '../utils/errors';
+import type { ApiResponse, RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
+import { AuthenticationError, EaseSDKError, ErrorCode, ValidationError, handleUnknownError } from '../utils/errors';
 import { APIDefaultResponse } from '../utils/type';
 
+// Only the server saying no means the refresh token is spent; being offline or a failing service does not
+const isRejection = (res: ApiResponse<unknown>) =>
+  res.statusCode === 400 || res.statusCode === 401 || res.errorDetails?.code === ErrorCode.UNAUTHORIZED;
+
 /**
- * Refreshes the access token using a provided refresh token.
+ * Refreshes the access token using a provided refresh token. The client session stores the new tokens if it holds
+ * that refresh token.
  *
  * @param {string} refreshToken The refresh token to use for obtaining a new access token.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<APIDefaultResponse>} A promise that resolves with the new access token and refresh token.
  * @throws {ValidationError} If the refresh token is missing or invalid.
- * @throws {AuthenticationError} If the token refresh fails due to invalid credentials, missing tokens in the response, or other authentication issues.
- * @throws {EaseSDKError} For any unexpected errors during the operation.
+ * @throws {AuthenticationError} With `TOKEN_REFRESH_FAILED` if the server rejects the refresh token, or with
+ * `AUTHENTICATION_FAILED` if the response is missing tokens.
+ * @throws {EaseSDKError} If the refresh could not be completed, e.g. `NETWORK_ERROR` while offline or
+ * `SERVICE_UNAVAILABLE` while the service fails. The refresh token may still be valid.
  */
-export async function refreshToken(refreshToken: string) {
+export async function refreshToken(this: EaseClient | void, refreshToken: string, options?: RequestOptions) {
+  const { api, logger, session } = resolveClient(this);
+
   if (!refreshToken) {
     throw new ValidationError(ErrorCode.INVALID_INPUT, 'Refresh token is required.');
   }
@@ -25,26 +35,32 @@ export async function refreshToken(refreshToken: string) {
       null,
       { Authorization: `Bearer ${refreshToken.trim()}` },
       false,
+      false,
+      options,
     );
 
     if (!res.success) {
       logger.error('Token refresh failed', res);
-      throw new AuthenticationError(res.error || 'Token refresh failed', ErrorCode.TOKEN_REFRESH_FAILED);
+      if (isRejection(res)) {
+        throw new AuthenticationError(res.error || 'Token refresh failed', ErrorCode.TOKEN_REFRESH_FAILED);
+      }
+      throw res.errorDetails ?? new EaseSDKError({ code: ErrorCode.UNKNOWN_ERROR, message: 'Token refresh failed' });
     }
 
     if (!res.data?.accessToken || !res.data?.refreshToken) {
       logger.error('Token refresh response is missing tokens', res.data);
-      throw new AuthenticationError('Invalid token response.', ErrorCode.TOKEN_REFRESH_FAILED);
+      throw new AuthenticationError('Invalid token response.', ErrorCode.AUTHENTICATION_FAILED);
     }
 
+    // Another account's token, e.g. one of a `SessionManager`, leaves this session as it is
+    if (refreshToken.trim() === session.refreshToken) {
+      await session.set(res.data);
+    }
     return res.data;
   } catch (error) {
     const enhancedError = handleUnknownError(error, { operation: 'refreshToken' });
 
     logger.error('An unexpected error occurred during token refresh:', enhancedError);
-    if (enhancedError instanceof AuthenticationError) {
-      throw enhancedError;
-    }
-    throw new AuthenticationError('An unexpected error occurred.', ErrorCode.TOKEN_REFRESH_FAILED);
+    throw enhancedError;
   }
 }
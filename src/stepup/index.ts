@@ -0,0 +1,319 @@
+import type { RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
+import type { Session } from '../client';
+import { PublicKeyCredential, StepUpCallbackResponse, StepUpOptionsResponse } from '../utils/type';
+import {
+  AuthenticationError,
+  WebAuthnError,
+  ValidationError,
+  ErrorCode,
+  handleUnknownError,
+  isEaseSDKError,
+} from '../utils/errors';
+import { getTokenExpiry } from '../utils/jwt';
+import { getCredential, WebAuthnCeremonyOptions } from '../utils/webauthn';
+
+/**
+ * Operations the API may refuse with `ErrorCode.STEP_UP_REQUIRED` until the user re-authenticates with a passkey.
+ * Other operation names are passed through, so newer API operations can be elevated before the SDK lists them.
+ */
+export type SensitiveOperation = 'createKeys' | 'deleteContact' | 'logout' | 'revokePasskey' | (string & {});
+
+export type FreshAuthOptions = WebAuthnCeremonyOptions &
+  RequestOptions & {
+    /** Defaults to the access token of the client's session. */
+    accessToken?: string;
+    /** Re-authenticate even if the session holds an elevated token for the operation that has not expired yet. */
+    force?: boolean;
+  };
+
+/** The header elevated tokens are sent in. */
+export const STEP_UP_HEADER = 'X-Step-Up-Token';
+
+// Lifetime assumed for elevated tokens that carry neither `expiresIn` nor a JWT `exp` claim
+const DEFAULT_ELEVATED_TOKEN_TTL_MS = 60_000;
+
+/**
+ * Returns the step-up header for a sensitive operation when the session holds a valid elevated token for it.
+ *
+ * @internal
+ */
+export function stepUpHeaders(session: Session, operation: SensitiveOperation): Record<string, string> {
+  const token = session.getElevatedToken(operation);
+  return token ? { [STEP_UP_HEADER]: token } : {};
+}
+
+/**
+ * Initiates a step-up re-authentication by fetching WebAuthn options for a sensitive operation.
+ * This is the first step of re-authenticating, followed by `stepUpCallback()`; `requireFreshAuth()` runs both.
+ *
+ * @param {string} accessToken The access token for authorization.
+ * @param {SensitiveOperation} operation The operation to elevate.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+ * @returns {Promise<StepUpOptionsResponse>} A promise that resolves with the WebAuthn request options and a session ID.
+ * @throws {ValidationError} If the access token or operation are missing or invalid.
+ * @throws {AuthenticationError} If the access token is invalid or expired.
+ * @throws {WebAuthnError} If the WebAuthn options or the session ID are missing from the response.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function stepUpOptions(
+  this: EaseClient | void,
+  accessToken: string,
+  operation: SensitiveOperation,
+  options?: RequestOptions,
+): Promise<StepUpOptionsResponse> {
+  const { api, logger } = resolveClient(this);
+
+  if (!accessToken || typeof accessToken !== 'string') {
+    throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
+  }
+  if (!operation || typeof operation !== 'string') {
+    throw new ValidationError('Operation is required and must be a string', 'operation', operation);
+  }
+
+  try {
+    const response = await api<Omit<StepUpOptionsResponse, 'sessionId'>>(
+      '/step-up/options',
+      'POST',
+      { operation },
+      { Authorization: `Bearer ${accessToken.trim()}` },
+      false,
+      false,
+      options,
+    );
+
+    if (!response.success) {
+      logger.error('Step-up options request failed:', {
+        operation,
+        error: response.error,
+        statusCode: response.statusCode,
+      });
+
+      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
+        throw response.errorDetails;
+      }
+
+      if (response.statusCode === 401) {
+        throw new AuthenticationError('Invalid or expired access token', ErrorCode.UNAUTHORIZED, { operation });
+      }
+
+      throw new AuthenticationError(
+        response.error || 'Failed to get step-up options',
+        ErrorCode.AUTHENTICATION_FAILED,
+        { operation },
+      );
+    }
+
+    const publicKey = response.data?.publicKey;
+    if (!publicKey) {
+      throw new WebAuthnError('Invalid response: missing WebAuthn options', ErrorCode.WEBAUTHN_NOT_SUPPORTED, {
+        operation,
+      });
+    }
+
+    const sessionId = response.headers?.get('X-Session-Id');
+    if (!sessionId) {
+      logger.error('Missing session ID in step-up options response headers');
+      throw new AuthenticationError('Session ID not found in response', ErrorCode.SESSION_EXPIRED, { operation });
+    }
+
+    logger.debug('Step-up options retrieved successfully:', {
+      operation,
+      sessionId: sessionId.substring(0, 8) + '***',
+    });
+
+    return { publicKey, sessionId };
+  } catch (error) {
+    if (isEaseSDKError(error)) {
+      throw error;
+    }
+
+    const enhancedError = handleUnknownError(error, {
+      operation: 'stepUpOptions',
+      stepUpOperation: operation,
+    });
+
+    logger.error('Unexpected error in stepUpOptions:', enhancedError);
+    throw enhancedError;
+  }
+}
+
+/**
+ * Completes a step-up re-authentication by sending the WebAuthn assertion back to the API. The elevated token it
+ * returns is stored in the client's session and attached to the operation's requests until it expires.
+ *
+ * @param {PublicKeyCredential} credential The WebAuthn assertion obtained from the user's authenticator.
+ * @param {string} accessToken The access token for authorization.
+ * @param {string} sessionId The session ID received from `stepUpOptions()`.
+ * @param {SensitiveOperation} operation The operation being elevated.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
+ * @returns {Promise<StepUpCallbackResponse>} A promise that resolves with the elevated token.
+ * @throws {ValidationError} If any required parameters are invalid or missing.
+ * @throws {AuthenticationError} If the assertion is rejected or the access token is invalid or expired.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function stepUpCallback(
+  this: EaseClient | void,
+  credential: PublicKeyCredential,
+  accessToken: string,
+  sessionId: string,
+  operation: SensitiveOperation,
+  options?: RequestOptions,
+): Promise<StepUpCallbackResponse> {
+  const { api, logger, session } = resolveClient(this);
+
+  if (!credential || !credential.id || !credential.response || credential.type !== 'public-key') {
+    throw new ValidationError('Invalid WebAuthn credential format', 'credential', {
+      hasId: !!credential?.id,
+      hasResponse: !!credential?.response,
+      type: credential?.type,
+    });
+  }
+  if (!accessToken || typeof accessToken !== 'string') {
+    throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
+  }
+  if (!sessionId || typeof sessionId !== 'string') {
+    throw new ValidationError('Session ID is required and must be a string', 'sessionId', sessionId);
+  }
+
+  try {
+    const response = await api<StepUpCallbackResponse>(
+      '/step-up/callback',
+      'POST',
+      { response: credential },
+      {
+        Authorization: `Bearer ${accessToken.trim()}`,
+        'X-Session-Id': sessionId,
+      },
+      false,
+      false,
+      options,
+    );
+
+    if (!response.success) {
+      logger.error('Step-up callback failed:', {
+        operation,
+        sessionId: sessionId.substring(0, 8) + '***',
+        error: response.error,
+        statusCode: response.statusCode,
+      });
+
+      if (response.errorDetails && isEaseSDKError(response.errorDetails)) {
+        throw response.errorDetails;
+      }
+
+      throw new AuthenticationError(
+        response.error || 'Step-up authentication failed',
+        response.statusCode === 401 ? ErrorCode.INVALID_CREDENTIALS : ErrorCode.AUTHENTICATION_FAILED,
+        { operation, sessionId: sessionId.substring(0, 8) },
+      );
+    }
+
+    if (!response.data?.elevatedToken) {
+      throw new AuthenticationError('Invalid response: missing elevated token', ErrorCode.AUTHENTICATION_FAILED, {
+        operation,
+        sessionId: sessionId.substring(0, 8),
+      });
+    }
+
+    const { elevatedToken, expiresIn } = response.data;
+    const expiresAt =
+      expiresIn !== undefined
+        ? Date.now() + expiresIn * 1000
+        : (getTokenExpiry(elevatedToken)?.getTime() ?? Date.now() + DEFAULT_ELEVATED_TOKEN_TTL_MS);
+    session.setElevatedToken(operation, elevatedToken, expiresAt);
+    logger.debug('Step-up authentication successful:', { operation, expiresAt: new Date(expiresAt).toISOString() });
+
+    return { elevatedToken, expiresIn };
+  } catch (error) {
+    if (isEaseSDKError(error)) {
+      throw error;
+    }
+
+    const enhancedError = handleUnknownError(error, {
+      operation: 'stepUpCallback',
+      stepUpOperation: operation,
+      sessionId: sessionId.substring(0, 8),
+    });
+
+    logger.error('Unexpected error in stepUpCallback:', enhancedError);
+    throw enhancedError;
+  }
+}
+
+/**
+ * Makes sure the session holds a fresh elevated token for a sensitive operation, prompting the user for a passkey
+ * assertion when it does not. Sensitive calls made through the same client attach the token automatically.
+ *
+ * This generalizes the `signTransactionOptions()`/`signTransactionCallback()` pattern to any operation.
+ *
+ * @example
+ * await requireFreshAuth('createKeys');
+ * await createKeys(accessToken, input);
+ *
+ * @param {SensitiveOperation} operation The operation to elevate.
+ * @param {FreshAuthOptions} [options] The access token and credentials container to use, and the abort signal,
+ * timeout and retry settings of the prompt and requests.
+ * @returns {Promise<string>} The elevated token.
+ * @throws {AuthenticationError} With `UNAUTHORIZED` if there is no access token, or if re-authentication fails.
+ * @throws {WebAuthnError} With `USER_CANCELLED` if the user dismissed the prompt, or `WEBAUTHN_NOT_SUPPORTED` if
+ * WebAuthn is unavailable or the authenticator failed.
+ * @throws {EaseSDKError} For any unexpected errors during the operation.
+ */
+export async function requireFreshAuth(
+  this: EaseClient | void,
+  operation: SensitiveOperation,
+  options: FreshAuthOptions = {},
+): Promise<string> {
+  const { logger, session } = resolveClient(this);
+
+  const accessToken = options.accessToken ?? session.accessToken;
+  if (!accessToken) {
+    throw new AuthenticationError('Step-up authentication requires a signed-in session', ErrorCode.UNAUTHORIZED, {
+      operation,
+    });
+  }
+
+  const current = options.force ? undefined : session.getElevatedToken(operation);
+  if (current) {
+    return current;
+  }
+
+  const { sessionId, publicKey } = await stepUpOptions.call(this, accessToken, operation, options);
+  const credential = await getCredential(publicKey, options, logger);
+  const { elevatedToken } = await stepUpCallback.call(this, credential, accessToken, sessionId, operation, options);
+  return elevatedToken;
+}
+
+/**
+ * Runs a sensitive call, and if the API refuses it with `STEP_UP_REQUIRED`, re-authenticates with
+ * `requireFreshAuth()` and runs it once more.
+ *
+ * @example
+ * await withFreshAuth('deleteContact', () => deleteContact(accessToken, contactId));
+ *
+ * @param {SensitiveOperation} operation The operation the call performs.
+ * @param {() => Promise<T>} call The call to make.
+ * @param {FreshAuthOptions} [options] Passed to `requireFreshAuth()`.
+ * @returns {Promise<T>} The result of the call.
+ * @throws {EaseSDKError} Any error of the call or of the re-authentication.
+ */
+export async function withFreshAuth<T>(
+  this: EaseClient | void,
+  operation: SensitiveOperation,
+  call: () => Promise<T>,
+  options: FreshAuthOptions = {},
+): Promise<T> {
+  const { logger } = resolveClient(this);
+
+  try {
+    return await call();
+  } catch (error) {
+    if (!isEaseSDKError(error) || error.code !== ErrorCode.STEP_UP_REQUIRED) {
+      throw error;
+    }
+    logger.debug('Step-up required, re-authenticating:', { operation });
+    await requireFreshAuth.call(this, operation, { ...options, force: true });
+    return call();
+  }
+}
@@ -0,0 +1,184 @@
+import { ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { APIDefaultResponse } from '../utils/type';
+
+/**
+ * @module storage
+ * @description Token stores that persist the token pair held by a client session.
+ */
+
+/**
+ * Persists the token pair of a session. Configure one with `configure({ tokenStore })` or
+ * `createEaseClient({ tokenStore })` and the SDK saves the tokens after every login, join, OTP verification,
+ * Google OAuth callback and refresh, and clears them on logout.
+ */
+export interface TokenStore {
+  get(): Promise<APIDefaultResponse | null>;
+  set(tokens: APIDefaultResponse): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * A string key-value storage. Both the synchronous Web Storage API and asynchronous storages such as
+ * `@react-native-async-storage/async-storage` satisfy this shape; other libraries (for example
+ * `expo-secure-store` or `react-native-keychain`) can be adapted with a few lines.
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export type TokenStoreOptions = {
+  /** The storage key the tokens are saved under. Defaults to `ease.tokens`. */
+  key?: string;
+};
+
+const DEFAULT_KEY = 'ease.tokens';
+const IV_LENGTH = 12;
+
+/**
+ * Creates a token store that keeps the tokens in memory for the lifetime of the process.
+ *
+ * @returns {TokenStore} The memory token store.
+ */
+export function createMemoryTokenStore(): TokenStore {
+  let tokens: APIDefaultResponse | null = null;
+
+  return {
+    async get() {
+      return tokens;
+    },
+    async set(next) {
+      tokens = { accessToken: next.accessToken, refreshToken: next.refreshToken };
+    },
+    async clear() {
+      tokens = null;
+    },
+  };
+}
+
+/**
+ * Creates a token store on top of any string key-value storage, such as React Native secure storage libraries.
+ *
+ * @param {KeyValueStorage} storage The storage to save the serialized tokens in.
+ * @param {TokenStoreOptions} [options] The storage key to use.
+ * @returns {TokenStore} The key-value token store.
+ */
+export function createKeyValueTokenStore(storage: KeyValueStorage, options: TokenStoreOptions = {}): TokenStore {
+  const key = options.key ?? DEFAULT_KEY;
+
+  return {
+    async get() {
+      const value = await storage.getItem(key);
+      return value ? parseTokens(value) : null;
+    },
+    async set(tokens) {
+      await storage.setItem(key, serializeTokens(tokens));
+    },
+    async clear() {
+      await storage.removeItem(key);
+    },
+  };
+}
+
+/**
+ * Creates a token store backed by the browser Web Storage API.
+ *
+ * @param {KeyValueStorage} [storage] `localStorage` (the default) or `sessionStorage`.
+ * @param {TokenStoreOptions} [options] The storage key to use.
+ * @returns {TokenStore} The Web Storage token store.
+ * @throws {ValidationError} If no Web Storage is available in this environment.
+ */
+export function createWebStorageTokenStore(
+  storage: KeyValueStorage | undefined = globalThis.localStorage,
+  options: TokenStoreOptions = {},
+): TokenStore {
+  if (!storage) {
+    throw new ValidationError('Web Storage is not available in this environment', 'storage', storage);
+  }
+  return createKeyValueTokenStore(storage, options);
+}
+
+/**
+ * Creates a token store that encrypts the tokens with AES-GCM (WebCrypto) before writing them to the storage.
+ * A fresh IV is generated for every write. Values that fail to decrypt, for example after the key was rotated, are
+ * treated as missing.
+ *
+ * @param {KeyValueStorage} storage The storage to save the encrypted tokens in.
+ * @param {CryptoKey} key An AES-GCM key allowed to `encrypt` and `decrypt`, ideally non-extractable.
+ * @param {TokenStoreOptions} [options] The storage key to use.
+ * @returns {TokenStore} The encrypted token store.
+ * @throws {ValidationError} If WebCrypto is not available in this environment.
+ */
+export function createEncryptedTokenStore(
+  storage: KeyValueStorage,
+  key: CryptoKey,
+  options: TokenStoreOptions = {},
+): TokenStore {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new ValidationError('WebCrypto is not available in this environment', 'crypto.subtle', undefined);
+  }
+  const storageKey = options.key ?? DEFAULT_KEY;
+
+  return {
+    async get() {
+      const value = await storage.getItem(storageKey);
+      if (!value) return null;
+
+      try {
+        const bytes = base64ToBytes(value);
+        const plaintext = await subtle.decrypt(
+          { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) },
+          key,
+          bytes.slice(IV_LENGTH),
+        );
+        return parseTokens(new TextDecoder().decode(plaintext));
+      } catch (error) {
+        logger.warn('Failed to decrypt stored tokens, ignoring them', error);
+        return null;
+      }
+    },
+    async set(tokens) {
+      const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+      const ciphertext = await subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(serializeTokens(tokens)),
+      );
+
+      const bytes = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+      bytes.set(iv);
+      bytes.set(new Uint8Array(ciphertext), IV_LENGTH);
+      await storage.setItem(storageKey, bytesToBase64(bytes));
+    },
+    async clear() {
+      await storage.removeItem(storageKey);
+    },
+  };
+}
+
+function serializeTokens({ accessToken, refreshToken }: APIDefaultResponse): string {
+  return JSON.stringify({ accessToken, refreshToken });
+}
+
+function parseTokens(value: string): APIDefaultResponse | null {
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed?.accessToken === 'string' && typeof parsed?.refreshToken === 'string') {
+      return { accessToken: parsed.accessToken, refreshToken: parsed.refreshToken };
+    }
+  } catch (error) {
+    logger.warn('Stored tokens are not valid JSON, ignoring them', error);
+  }
+  return null;
+}
+
+function base64ToBytes(base64String: string): Uint8Array {
+  return Uint8Array.from(atob(base64String), (c) => c.charCodeAt(0));
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
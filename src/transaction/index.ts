@@ -1,4 +1,5 @@
-import { internalApi as api } from '../api';
+import type { RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
 import {
   Address,
   CreateKeysInput,
@@ -9,8 +10,8 @@ import {
   SignTransactionOptionsResponse,
   TransactionIntent,
 } from '../utils/type';
-import { logger } from '../utils/logger';
 import { EaseSDKError, ErrorCode, handleUnknownError, ValidationError } from '../utils/errors';
+import { stepUpHeaders } from '../stepup';
 
 /**
  * Validates the provided access token.
@@ -28,17 +29,30 @@ const validateAccessToken = (token: string) => {
  * Retrieves a list of addresses associated with the authenticated user.
  *
  * @param {string} accessToken The access token for authorization.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<Address[]>} A promise that resolves with an array of address objects.
  * @throws {ValidationError} If the access token is invalid or missing.
  * @throws {EaseSDKError} If the API call fails or returns an invalid response.
  */
-export async function getAddresses(accessToken: string): Promise<Address[]> {
+export async function getAddresses(
+  this: EaseClient | void,
+  accessToken: string,
+  options?: RequestOptions,
+): Promise<Address[]> {
+  const { api, logger } = resolveClient(this);
+
   validateAccessToken(accessToken);
   try {
     logger.debug('Attempting to fetch addresses.');
-    const res = await api<Address[]>('/transaction/keys/addresses', 'GET', null, {
-      Authorization: `Bearer ${accessToken.trim()}`,
-    });
+    const res = await api<Address[]>(
+      '/transaction/keys/addresses',
+      'GET',
+      null,
+      { Authorization: `Bearer ${accessToken.trim()}` },
+      false,
+      false,
+      options,
+    );
     if (!res.success || !res.data) {
       logger.error(`Failed to fetch addresses. Error: ${res.error || 'Unknown error'}`, res.error);
       throw new EaseSDKError({ code: ErrorCode.API_ERROR, message: res.error || 'Unknown error fetching addresses' });
@@ -61,11 +75,19 @@ export async function getAddresses(accessToken: string): Promise<Address[]> {
  *
  * @param {string} accessToken The access token for authorization.
  * @param {CreateKeysInput} input The input data for creating keys, including account name, recipient public key, and recipient data.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<CreateKeysResponse>} A promise that resolves with the response containing recipient data.
  * @throws {ValidationError} If the access token or input are invalid or missing.
  * @throws {EaseSDKError} If the API call fails or returns an invalid response.
  */
-export async function createKeys(accessToken: string, input: CreateKeysInput): Promise<CreateKeysResponse> {
+export async function createKeys(
+  this: EaseClient | void,
+  accessToken: string,
+  input: CreateKeysInput,
+  options?: RequestOptions,
+): Promise<CreateKeysResponse> {
+  const { api, logger, session } = resolveClient(this);
+
   validateAccessToken(accessToken);
   if (!input || typeof input !== 'object') {
     throw new ValidationError(ErrorCode.INVALID_INPUT, 'Input for createKeys must be an object.');
@@ -73,11 +95,23 @@ export async function createKeys(accessToken: string, input: CreateKeysInput): P
 
   try {
     logger.debug(`Attempting to create keys with input: ${JSON.stringify(input)}`);
-    const res = await api<CreateKeysResponse>(`/transaction/keys/create`, 'POST', input, {
-      Authorization: `Bearer ${accessToken.trim()}`,
-    });
+    const res = await api<CreateKeysResponse>(
+      `/transaction/keys/create`,
+      'POST',
+      input,
+      {
+        Authorization: `Bearer ${accessToken.trim()}`,
+        ...stepUpHeaders(session, 'createKeys'),
+      },
+      false,
+      false,
+      options,
+    );
     if (!res.success || !res.data) {
       logger.error(`Failed to create keys. Error: ${res.error || 'Unknown error'}`, res.error);
+      if (res.errorDetails?.code === ErrorCode.STEP_UP_REQUIRED) {
+        throw res.errorDetails;
+      }
       throw new EaseSDKError({ code: ErrorCode.API_ERROR, message: res.error || 'Unknown error creating keys' });
     }
     logger.info('Successfully created keys.');
@@ -93,24 +127,41 @@ export async function createKeys(accessToken: string, input: CreateKeysInput): P
  *
  * @param {string} accessToken The access token for authorization.
  * @param {TransactionIntent} intent The transaction intent details, including from, to, coin, amount, and optional memo.
+ * EASE transactions are created on `intent.chainID`, or the client's chain when it is omitted.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request. Pass an `idempotencyKey`
+ * before retrying, so a transaction is not created twice.
  * @returns {Promise<CreateTransactionResponse>} A promise that resolves with the created transaction response.
  * @throws {ValidationError} If the access token or intent are invalid or missing.
  * @throws {EaseSDKError} If the API call fails or returns an invalid response.
  */
 export async function createTransaction(
+  this: EaseClient | void,
   accessToken: string,
   intent: TransactionIntent,
+  options?: RequestOptions,
 ): Promise<CreateTransactionResponse> {
+  const client = resolveClient(this);
+  const { api, logger } = client;
+
   validateAccessToken(accessToken);
   if (!intent || typeof intent !== 'object') {
     throw new ValidationError(ErrorCode.INVALID_INPUT, 'Intent for createTransaction must be an object.');
   }
+  if (intent.coin?.toUpperCase() === 'EASE' && !intent.chainID) {
+    intent = { ...intent, chainID: client.getChainID() };
+  }
 
   try {
     logger.debug('Attempting to create transaction.', intent);
-    const res = await api<CreateTransactionResponse>('/transaction/create', 'POST', intent, {
-      Authorization: `Bearer ${accessToken.trim()}`,
-    });
+    const res = await api<CreateTransactionResponse>(
+      '/transaction/create',
+      'POST',
+      intent,
+      { Authorization: `Bearer ${accessToken.trim()}` },
+      false,
+      false,
+      options,
+    );
     if (!res.success || !res.data) {
       logger.error('Failed to create transaction.', res.error || 'Unknown error');
       throw new EaseSDKError({ code: ErrorCode.API_ERROR, message: res.error || 'Unknown error creating transaction' });
@@ -127,11 +178,18 @@ export async function createTransaction(
  * Retrieves options required to sign a transaction.
  *
  * @param {string} accessToken The access token for authorization.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<SignTransactionOptionsResponse>} A promise that resolves with the sign transaction options, including a session ID.
  * @throws {ValidationError} If the access token is invalid or missing.
  * @throws {EaseSDKError} If the API call fails or returns an invalid response.
  */
-export async function signTransactionOptions(accessToken: string): Promise<SignTransactionOptionsResponse> {
+export async function signTransactionOptions(
+  this: EaseClient | void,
+  accessToken: string,
+  options?: RequestOptions,
+): Promise<SignTransactionOptionsResponse> {
+  const { api, logger } = resolveClient(this);
+
   validateAccessToken(accessToken);
   try {
     logger.debug('Attempting to get sign transaction options.');
@@ -140,6 +198,9 @@ export async function signTransactionOptions(accessToken: string): Promise<SignT
       'POST',
       {},
       { Authorization: `Bearer ${accessToken.trim()}` },
+      false,
+      false,
+      options,
     );
     if (!res.success || !res.data) {
       logger.error(`Failed to get sign transaction options. Error: ${res.error || 'Unknown error'}`, res.error);
@@ -166,15 +227,20 @@ export async function signTransactionOptions(accessToken: string): Promise<SignT
  * @param {string} accessToken The access token for authorization.
  * @param {string} sessionId The session ID obtained from `signTransactionOptions`.
  * @param {SignTransactionCallbackInput} input The input data for the signed transaction callback.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<SignTransactionCallbackResponse>} A promise that resolves with the response from the signed transaction callback.
  * @throws {ValidationError} If the access token, session ID, or input are invalid or missing.
  * @throws {EaseSDKError} If the API call fails or returns an invalid response.
  */
 export async function signTransactionCallback(
+  this: EaseClient | void,
   accessToken: string,
   sessionId: string,
   input: SignTransactionCallbackInput,
+  options?: RequestOptions,
 ): Promise<SignTransactionCallbackResponse> {
+  const { api, logger } = resolveClient(this);
+
   validateAccessToken(accessToken);
   if (typeof sessionId !== 'string' || sessionId.length === 0) {
     throw new ValidationError(ErrorCode.INVALID_INPUT, 'Session ID must be a non-empty string.');
@@ -187,10 +253,18 @@ export async function signTransactionCallback(
     logger.debug(
       `Attempting to sign transaction callback for session: ${sessionId} with input: ${JSON.stringify(input)}`,
     );
-    const res = await api<SignTransactionCallbackResponse>(`/transaction/sign/callback`, 'POST', input, {
-      Authorization: `Bearer ${accessToken.trim()}`,
-      'X-Session-Id': sessionId,
-    });
+    const res = await api<SignTransactionCallbackResponse>(
+      `/transaction/sign/callback`,
+      'POST',
+      input,
+      {
+        Authorization: `Bearer ${accessToken.trim()}`,
+        'X-Session-Id': sessionId,
+      },
+      false,
+      false,
+      options,
+    );
     if (!res.success || !res.data) {
       logger.error(
         `Failed to sign transaction callback for session: ${sessionId}. Error: ${res.error || 'Unknown error'}`,
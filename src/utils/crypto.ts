@@ -1,7 +1,7 @@
-import { getUrl } from './urls';
 import { decode } from 'cbor2';
+import type { RequestOptions } from '../api';
 import { AttestationDocument, RecipientData } from './type';
-import { internalApi } from '../api';
+import { EaseClient, resolveClient } from '../client';
 import { logger } from './logger';
 
 /**
@@ -10,22 +10,32 @@ import { logger } from './logger';
  * @template T The type of the data to be encrypted.
  * @param {string} publicKeyBase64 The public key in Base64 format.
  * @param {T} data The data to be encrypted.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<RecipientData<T>>} A promise that resolves with the encrypted recipient data.
  * @throws {Error} If the encryption fails or the API returns an invalid response.
  */
-export async function encryptRecipientData<T>(publicKeyBase64: string, data: T): Promise<RecipientData<T>> {
+export async function encryptRecipientData<T>(
+  this: EaseClient | void,
+  publicKeyBase64: string,
+  data: T,
+  options?: RequestOptions,
+): Promise<RecipientData<T>> {
+  const client = resolveClient(this);
+  const { api, logger } = client;
+
   try {
-    const url = `${getUrl('ETHERSCAN_PROXY')}/api/encrypt`;
+    const url = `${client.getUrl('ETHERSCAN_PROXY')}/api/encrypt`;
 
     logger.debug(`Requesting encryption of recipient data from internal API: ${url}`);
 
-    const response = await internalApi<RecipientData<T>>(
+    const response = await api<RecipientData<T>>(
       url,
       'POST',
       { publicKeyBase64, data },
       undefined,
       false,
       true,
+      options,
     );
 
     if (!response.success) {
@@ -123,20 +133,25 @@ export function parseAttestationDocument(attestationDocBase64: string): Attestat
 /**
  * Generates a new RSA key pair (public and private keys).
  *
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<{ publicKey: string; privateKey: string }>} A promise that resolves with the generated RSA public and private keys in string format.
  * @throws {Error} If the key pair generation fails or the API returns an invalid response.
  */
-export async function generateRsaKeyPair() {
+export async function generateRsaKeyPair(this: EaseClient | void, options?: RequestOptions) {
+  const client = resolveClient(this);
+  const { api, logger } = client;
+
   try {
-    const url = `${getUrl('ETHERSCAN_PROXY')}/api/generateKeysPair`;
+    const url = `${client.getUrl('ETHERSCAN_PROXY')}/api/generateKeysPair`;
     logger.debug(`Requesting RSA key pair generation from internal API: ${url}`);
-    const response = await internalApi<{ publicKey: string; privateKey: string }>(
+    const response = await api<{ publicKey: string; privateKey: string }>(
       url,
       'GET',
       null,
       undefined,
       false,
       true,
+      options,
     );
 
     if (!response.success) {
@@ -163,20 +178,30 @@ export async function generateRsaKeyPair() {
  *
  * @param {string} privateKeyBase64 The private key in Base64 format.
  * @param {RecipientData} recipientData The encrypted recipient data.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<any>} A promise that resolves with the decrypted data.
  * @throws {Error} If the decryption fails or the API returns an invalid response.
  */
-export async function decryptRecipientData(privateKeyBase64: string, recipientData: RecipientData) {
+export async function decryptRecipientData(
+  this: EaseClient | void,
+  privateKeyBase64: string,
+  recipientData: RecipientData,
+  options?: RequestOptions,
+) {
+  const client = resolveClient(this);
+  const { api, logger } = client;
+
   try {
-    const url = `${getUrl('ETHERSCAN_PROXY')}/api/decrypt`;
+    const url = `${client.getUrl('ETHERSCAN_PROXY')}/api/decrypt`;
     logger.debug(`Requesting decryption from internal API: ${url}`);
-    const response = await internalApi<any>(
+    const response = await api<any>(
       url,
       'POST',
       { privateKeyBase64, data: recipientData },
       undefined,
       false,
       true,
+      options,
     );
 
     if (!response.data) {
@@ -1,8 +1,21 @@
 import { logger } from './logger';
 import { Environment } from './type';
 
-const VALID_ENVIRONMENTS: Set<Environment> = new Set(['develop', 'staging', 'production']);
+const BUILT_IN_ENVIRONMENTS: ReadonlySet<Environment> = new Set(['develop', 'staging', 'production']);
+export const INVALID_ENVIRONMENT_MESSAGE =
+  'Invalid environment. Please use "develop", "staging", "production", or one added with registerEnvironment().';
 const ENVIRONMENT_KEY = '__EASE_SDK_CURRENT_ENVIRONMENT__';
+/** Where `registerEnvironment()` keeps the environments it adds, shared by every entry point of the SDK. */
+export const CUSTOM_ENVIRONMENTS_KEY = '__EASE_SDK_CUSTOM_ENVIRONMENTS__';
+
+/**
+ * Whether the environment is built in or currently registered with `registerEnvironment()`, by any entry point.
+ *
+ * @internal
+ */
+export const isValidEnvironment = (environment: Environment): boolean =>
+  BUILT_IN_ENVIRONMENTS.has(environment) ||
+  !!((globalThis as any)[CUSTOM_ENVIRONMENTS_KEY] as Map<string, unknown> | undefined)?.has(environment);
 
 // Ensure the global environment variable is initialized only once
 if ((globalThis as any)[ENVIRONMENT_KEY] === undefined) {
@@ -10,8 +23,8 @@ if ((globalThis as any)[ENVIRONMENT_KEY] === undefined) {
 }
 
 export const setEnvironment = (environment: Environment) => {
-  if (!VALID_ENVIRONMENTS.has(environment)) {
-    throw new Error('Invalid environment. Please use "develop", "staging", or "production".');
+  if (!isValidEnvironment(environment)) {
+    throw new Error(INVALID_ENVIRONMENT_MESSAGE);
   }
   (globalThis as any)[ENVIRONMENT_KEY] = environment;
   logger.info(`Environment set to: ${environment}`);
@@ -3,6 +3,7 @@ export enum ErrorCode {
   NETWORK_ERROR = 'NETWORK_ERROR',
   API_ERROR = 'API_ERROR',
   TIMEOUT_ERROR = 'TIMEOUT_ERROR',
+  REQUEST_ABORTED = 'REQUEST_ABORTED', // the caller cancelled the request through its AbortSignal
   RATE_LIMIT_ERROR = 'RATE_LIMIT_ERROR',
 
   // Authentication errors
@@ -11,18 +12,27 @@ export enum ErrorCode {
   SESSION_EXPIRED = 'SESSION_EXPIRED',
   UNAUTHORIZED = 'UNAUTHORIZED',
   TOKEN_REFRESH_FAILED = 'TOKEN_REFRESH_FAILED',
+  STEP_UP_REQUIRED = 'STEP_UP_REQUIRED', // the operation needs a fresh passkey assertion, see requireFreshAuth()
 
-  // Phone/OTP errors
+  // Phone/Email/OTP errors
   INVALID_PHONE_NUMBER = 'INVALID_PHONE_NUMBER',
+  INVALID_EMAIL = 'INVALID_EMAIL',
   INVALID_OTP = 'INVALID_OTP',
   OTP_EXPIRED = 'OTP_EXPIRED',
   OTP_SEND_FAILED = 'OTP_SEND_FAILED',
   OTP_VERIFY_FAILED = 'OTP_VERIFY_FAILED',
 
+  // OAuth errors
+  OAUTH_STATE_MISMATCH = 'OAUTH_STATE_MISMATCH', // the redirect does not belong to the flow this client started
+  OAUTH_ACCESS_DENIED = 'OAUTH_ACCESS_DENIED', // the user declined consent
+  OAUTH_EXPIRED = 'OAUTH_EXPIRED', // the flow was started too long ago
+
   // WebAuthn/Passkey errors
   WEBAUTHN_NOT_SUPPORTED = 'WEBAUTHN_NOT_SUPPORTED',
   PASSKEY_CREATION_FAILED = 'PASSKEY_CREATION_FAILED',
   PASSKEY_AUTHENTICATION_FAILED = 'PASSKEY_AUTHENTICATION_FAILED',
+  PASSKEY_ALREADY_REGISTERED = 'PASSKEY_ALREADY_REGISTERED', // the authenticator already holds a passkey for the account
+  WEBAUTHN_SECURITY_ERROR = 'WEBAUTHN_SECURITY_ERROR', // the page origin does not match the relying party, or is insecure
   USER_CANCELLED = 'USER_CANCELLED',
 
   // Validation errors
@@ -45,6 +55,16 @@ export interface ErrorDetails {
   timestamp?: Date;
 }
 
+// Failures a later attempt may not run into: no answer arrived, or the server asked to come back later
+const RETRYABLE_CODES = new Set<ErrorCode>([
+  ErrorCode.NETWORK_ERROR,
+  ErrorCode.TIMEOUT_ERROR,
+  ErrorCode.RATE_LIMIT_ERROR,
+  ErrorCode.SERVICE_UNAVAILABLE,
+]);
+
+export const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
 export class EaseSDKError extends Error {
   public readonly code: ErrorCode;
   public readonly statusCode?: number;
@@ -67,6 +87,17 @@ export class EaseSDKError extends Error {
     }
   }
 
+  /**
+   * Whether sending the same request again may succeed: the connection failed or timed out, or the server answered
+   * with 408, 429 or a temporary 5xx. Validation, authentication and other client errors are not retryable.
+   */
+  get isRetryable(): boolean {
+    return (
+      RETRYABLE_CODES.has(this.code) ||
+      (this.statusCode !== undefined && RETRYABLE_STATUS_CODES.includes(this.statusCode))
+    );
+  }
+
   toJSON() {
     return {
       name: this.name,
@@ -184,7 +215,10 @@ export function createErrorFromAPIResponse(
   responseData: any,
   context?: Record<string, any>,
 ): EaseSDKError {
-  const errorCode = mapHTTPStatusToErrorCode(statusCode);
+  const errorCode =
+    responseData?.code === ErrorCode.STEP_UP_REQUIRED
+      ? ErrorCode.STEP_UP_REQUIRED
+      : mapHTTPStatusToErrorCode(statusCode);
   const message = responseData?.error || responseData?.message || `HTTP ${statusCode} error`;
 
   return new EaseSDKError({
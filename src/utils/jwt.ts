@@ -0,0 +1,79 @@
+import { ValidationError } from './errors';
+
+/**
+ * The claims of an EASE access token. Only the claims the SDK relies on are typed; all others are passed through.
+ */
+export type JwtClaims = {
+  exp?: number; // seconds since epoch
+  iat?: number; // seconds since epoch
+  sub?: string;
+  chainID?: string;
+  [claim: string]: unknown;
+};
+
+/**
+ * Decodes the payload of a JWT. The signature is NOT verified, so the result must only be used for client-side
+ * decisions such as scheduling a refresh, never for authorization.
+ *
+ * @param {string} token The JWT to decode.
+ * @returns {JwtClaims} The decoded claims. The chain ID is normalized to `chainID` whether the token carries it as
+ * `chainID`, `chainId` or `chain_id`.
+ * @throws {ValidationError} If the token is not a well-formed JWT.
+ */
+export function decodeJwt(token: string): JwtClaims {
+  const parts = typeof token === 'string' ? token.trim().split('.') : [];
+  if (parts.length !== 3 || !parts[1]) {
+    throw new ValidationError('Token is not a well-formed JWT', 'token', 'expected three dot-separated parts');
+  }
+
+  let claims: unknown;
+  try {
+    claims = JSON.parse(base64UrlDecode(parts[1]));
+  } catch {
+    throw new ValidationError('Token payload is not valid base64url-encoded JSON', 'token', 'invalid payload');
+  }
+  if (!claims || typeof claims !== 'object' || Array.isArray(claims)) {
+    throw new ValidationError('Token payload is not a JSON object', 'token', 'invalid payload');
+  }
+
+  const { chainID, chainId, chain_id } = claims as Record<string, unknown>;
+  const chain = chainID ?? chainId ?? chain_id;
+  return chain === undefined ? (claims as JwtClaims) : { ...(claims as JwtClaims), chainID: String(chain) };
+}
+
+/**
+ * Returns when a JWT expires.
+ *
+ * @param {string} token The JWT to inspect.
+ * @returns {Date | undefined} The expiry, or `undefined` if the token is malformed or has no `exp` claim.
+ */
+export function getTokenExpiry(token: string): Date | undefined {
+  try {
+    const { exp } = decodeJwt(token);
+    return typeof exp === 'number' ? new Date(exp * 1000) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks whether a JWT is expired, or will be within the given number of seconds.
+ * Tokens without a readable `exp` claim are reported as not expired, leaving the decision to the server.
+ *
+ * @param {string} token The JWT to inspect.
+ * @param {number} [withinSeconds=0] Treat the token as expired this many seconds early.
+ * @returns {boolean} Whether the token is (about to be) expired.
+ */
+export function isTokenExpired(token: string, withinSeconds: number = 0): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== undefined && expiry.getTime() - withinSeconds * 1000 <= Date.now();
+}
+
+function base64UrlDecode(input: string): string {
+  const base64 = input
+    .replace(/-/g, '+')
+    .replace(/_/g, '/')
+    .padEnd(Math.ceil(input.length / 4) * 4, '=');
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
@@ -1,5 +1,7 @@
 import { SDK_VERSION } from '../version';
 import { getEnvironment } from './environment';
+import { defaultRedactor, Redactor } from './redaction';
+import { shared } from './shared';
 
 export enum LogLevel {
   DEBUG = 0,
@@ -13,48 +15,67 @@ export interface LoggerConfig {
   level?: LogLevel;
   prefix?: string;
   packageVersion?: string;
+  /** Applied to every message and argument before it is printed. Defaults to the default redaction rules. */
+  redactor?: Redactor;
 }
 
-class Logger {
+export class Logger {
   private config: LoggerConfig = {
     level: LogLevel.DEBUG,
     packageVersion: SDK_VERSION,
+    redactor: defaultRedactor,
   };
 
+  /**
+   * @param environment Resolves the environment tag printed with every message. Defaults to the process-wide environment.
+   */
+  constructor(private readonly environment: () => string | undefined = () => getEnvironment()) {}
+
   configure(config: Partial<LoggerConfig>): void {
     this.config = { ...this.config, ...config };
   }
 
+  /**
+   * The redactor of this logger, which transport telemetry and remote log events apply as well.
+   *
+   * @returns {Redactor} The redactor.
+   */
+  getRedactor(): Redactor {
+    return this.config.redactor ?? defaultRedactor;
+  }
+
   private formatMessage(level: LogLevel, message: string): string {
     const levelTag = `[${LogLevel[level]}]`;
-    const envTag = getEnvironment() ? `[${getEnvironment()}]` : '';
+    const environment = this.environment();
+    const envTag = environment ? `[${environment}]` : '';
     const prefix = this.config.prefix || `[ease-sdk@${this.config.packageVersion || SDK_VERSION}]`;
-    return `${prefix}${envTag} ${levelTag} ${message}`;
+    return `${prefix}${envTag} ${levelTag} ${this.getRedactor().redact(message)}`;
   }
 
   debug(message: string, ...args: any[]): void {
     if (this.config.level! <= LogLevel.DEBUG) {
-      console.debug(this.formatMessage(LogLevel.DEBUG, message), ...args);
+      console.debug(this.formatMessage(LogLevel.DEBUG, message), ...this.getRedactor().redact(args));
     }
   }
 
   info(message: string, ...args: any[]): void {
     if (this.config.level! <= LogLevel.INFO) {
-      console.info(this.formatMessage(LogLevel.INFO, message), ...args);
+      console.info(this.formatMessage(LogLevel.INFO, message), ...this.getRedactor().redact(args));
     }
   }
 
   warn(message: string, ...args: any[]): void {
     if (this.config.level! <= LogLevel.WARN) {
-      console.warn(this.formatMessage(LogLevel.WARN, message), ...args);
+      console.warn(this.formatMessage(LogLevel.WARN, message), ...this.getRedactor().redact(args));
     }
   }
 
   error(message: string, ...args: any[]): void {
     if (this.config.level! <= LogLevel.ERROR) {
-      console.error(this.formatMessage(LogLevel.ERROR, message), ...args);
+      console.error(this.formatMessage(LogLevel.ERROR, message), ...this.getRedactor().redact(args));
     }
   }
 }
 
-export const logger = new Logger();
+// Process-wide logger, used by the default client and the free functions.
+export const logger = shared('__EASE_SDK_LOGGER__', () => new Logger());
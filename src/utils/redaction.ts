@@ -0,0 +1,194 @@
+/**
+ * Keeps secrets out of logs, transport telemetry and the remote logging endpoint.
+ *
+ * A field is redacted when a rule matches it:
+ * - `path` matches a dot-separated field path, where `*` stands for any one field and array indices are skipped, e.g.
+ *   `recipientData.data` or `*.password`. With an `endpoint`, it only applies to the request bodies of that endpoint,
+ *   named like the endpoints of `allow`.
+ * - `key` matches the field name at any depth.
+ * - `value` matches inside string values, which redacts e.g. tokens embedded in messages and URLs.
+ */
+export type RedactionRule = { path: string; endpoint?: string } | { key: RegExp } | { value: RegExp };
+
+export type RedactionPolicy = {
+  /** Added to the default rules, or used instead of them with `defaults: false`. */
+  rules?: RedactionRule[];
+  /**
+   * Whether to apply `DEFAULT_REDACTION_RULES`, which cover mnemonics, passwords, private keys, OTP and OAuth codes,
+   * and tokens. Defaults to `true`.
+   */
+  defaults?: boolean;
+  /**
+   * Per endpoint, the only request body fields that may be logged, as field paths like those of `path` rules. The
+   * endpoint is a URL path, and may end with `*` to match every path that starts with it, e.g. `'/wallet/*'`. Rules
+   * still apply to the allowed fields.
+   */
+  allow?: Record<string, string[]>;
+  /** Replaces redacted values. Defaults to `'[REDACTED]'`. */
+  replacement?: string;
+};
+
+export type Redactor = {
+  /** Returns a copy of the value with every field a rule matches replaced. Errors keep their prototype. */
+  redact<T>(value: T): T;
+  /**
+   * Like `redact`, after dropping the fields of a request body that the endpoint's allowlist does not name, and with
+   * the path rules of the endpoint applied as well.
+   */
+  redactBody<T>(body: T, endpoint?: string): T;
+};
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { key: /mnemonic/i },
+  { key: /pass(word|phrase)/i },
+  { key: /private_?key/i },
+  { key: /secret/i },
+  { key: /^otp(_?code)?$/i },
+  { path: 'code', endpoint: '/oauth/*' }, // the authorization code of OAuth callback bodies
+  { key: /^code_?verifier$/i },
+  { key: /token$/i },
+  { key: /^(authorization|cookie|set-cookie|x-step-up-token)$/i },
+  { value: /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g }, // JWTs
+  { value: /\bBearer\s+[\w.~+/-]+=*/gi },
+];
+
+const DEFAULT_REPLACEMENT = '[REDACTED]';
+const MAX_DEPTH = 10;
+
+// A quoted JSON key and its value, so secrets inside serialized bodies are caught too
+const JSON_PAIR = /"((?:[^"\\]|\\.)+)"\s*:\s*("(?:[^"\\]|\\.)*"|-?\d[\d.eE+-]*|true|false|null)/g;
+
+const toSegments = (path: string) => path.split('.').filter(Boolean);
+
+const matchesEndpoint = (pattern: string, endpoint: string) =>
+  pattern.endsWith('*') ? endpoint.startsWith(pattern.slice(0, -1)) : endpoint === pattern;
+
+const matchesPath = (pattern: string[], path: string[]) =>
+  pattern.length === path.length && pattern.every((segment, i) => segment === '*' || segment === path[i]);
+
+// Whether the path is allowed, or leads to or lies under an allowed path
+const allowedBy = (patterns: string[][], path: string[]) =>
+  patterns.some((pattern) => {
+    const length = Math.min(pattern.length, path.length);
+    return pattern.slice(0, length).every((segment, i) => segment === '*' || segment === path[i]);
+  });
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null);
+
+/**
+ * Creates a redactor from a policy.
+ *
+ * @example
+ * const redactor = createRedactor({
+ *   rules: [{ path: 'recipientData.data' }, { key: /^ssn$/i }],
+ *   allow: { '/phone/send-otp': ['countryCode'] },
+ * });
+ *
+ * @param {RedactionPolicy} [policy] The rules, allowlists and replacement.
+ * @returns {Redactor} The redactor.
+ */
+export function createRedactor(policy: RedactionPolicy = {}): Redactor {
+  const rules = [...(policy.defaults === false ? [] : DEFAULT_REDACTION_RULES), ...(policy.rules ?? [])];
+  const replacement = policy.replacement ?? DEFAULT_REPLACEMENT;
+  const paths = rules.flatMap((rule) => ('path' in rule && !rule.endpoint ? [toSegments(rule.path)] : []));
+  const endpointPaths = rules.flatMap((rule) =>
+    'path' in rule && rule.endpoint ? [[rule.endpoint, toSegments(rule.path)] as const] : [],
+  );
+  const keys = rules.flatMap((rule) => ('key' in rule ? [rule.key] : []));
+  const values = rules.flatMap((rule) => ('value' in rule ? [rule.value] : []));
+  const allowlists = Object.entries(policy.allow ?? {}).map(
+    ([endpoint, fields]) => [endpoint, fields.map(toSegments)] as const,
+  );
+
+  const testKey = (key: string) =>
+    keys.some((pattern) => {
+      pattern.lastIndex = 0;
+      return pattern.test(key);
+    });
+
+  const redactString = (value: string) => {
+    let redacted = value.replace(JSON_PAIR, (pair, key: string) =>
+      testKey(key) ? `"${key}":${JSON.stringify(replacement)}` : pair,
+    );
+    values.forEach((pattern) => {
+      redacted = redacted.replace(pattern, replacement);
+    });
+    return redacted;
+  };
+
+  // Within request bodies, the allowlist and the path rules of the endpoint
+  type BodyScope = { allowed?: string[][]; paths: string[][] };
+
+  const visit = (value: unknown, path: string[], body: BodyScope | undefined, seen: WeakSet<object>): unknown => {
+    if (typeof value === 'string') {
+      return redactString(value);
+    }
+    if (typeof value !== 'object' || value === null || path.length > MAX_DEPTH) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value.map((item) => visit(item, path, body, seen));
+    }
+
+    const isError = value instanceof Error;
+    if (!isError && !isPlainObject(value)) {
+      return value; // Headers, Dates, buffers and the like are logged as they are
+    }
+
+    const copy: Record<string, unknown> = isError ? Object.create(Object.getPrototypeOf(value)) : {};
+    Object.entries(value).forEach(([key, field]) => {
+      const fieldPath = [...path, key];
+      if (isError && key === 'code') {
+        copy[key] = field; // the error code, which says what went wrong without revealing anything
+      } else if (body?.allowed && !allowedBy(body.allowed, fieldPath)) {
+        copy[key] = replacement;
+      } else if (
+        testKey(key) ||
+        paths.some((pattern) => matchesPath(pattern, fieldPath)) ||
+        body?.paths.some((pattern) => matchesPath(pattern, fieldPath))
+      ) {
+        copy[key] = field === undefined || field === null ? field : replacement;
+      } else {
+        copy[key] = visit(field, fieldPath, body, seen);
+      }
+    });
+    if (isError) {
+      // name, message and stack are not enumerable on most errors
+      Object.defineProperty(copy, 'message', {
+        value: redactString(value.message),
+        configurable: true,
+        writable: true,
+      });
+      Object.defineProperty(copy, 'stack', {
+        value: value.stack && redactString(value.stack),
+        configurable: true,
+        writable: true,
+      });
+    }
+    return copy;
+  };
+
+  const scopeOf = (endpoint: string | undefined): BodyScope | undefined => {
+    if (!endpoint) return undefined;
+    return {
+      allowed: allowlists.find(([pattern]) => matchesEndpoint(pattern, endpoint))?.[1],
+      paths: endpointPaths.flatMap(([pattern, segments]) => (matchesEndpoint(pattern, endpoint) ? [segments] : [])),
+    };
+  };
+
+  return {
+    redact: <T>(value: T) => visit(value, [], undefined, new WeakSet()) as T,
+    redactBody: <T>(body: T, endpoint?: string) => visit(body, [], scopeOf(endpoint), new WeakSet()) as T,
+  };
+}
+
+/** Applies the default rules. Used until `configure({ redaction })` sets another policy. */
+export const defaultRedactor = createRedactor();
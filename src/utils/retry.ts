@@ -1,36 +1,124 @@
-import { logger } from './logger';
+import { handleUnknownError } from './errors';
+import { logger as defaultLogger, Logger } from './logger';
 
-interface RetryOptions {
+export interface RetryOptions {
+  /** How many times to retry after the first attempt. Defaults to 3. */
   retries?: number;
+  /** The backoff before the first retry, in milliseconds. Defaults to 1000. */
   delay?: number;
+  /** How much the backoff grows with each retry. Defaults to 2. */
   factor?: number;
+  /** The longest wait between attempts. A `Retry-After` asking for longer ends the retries. Defaults to 30000. */
   maxDelay?: number;
+  /** The HTTP statuses worth retrying. Defaults to those of `isRetryable`: 408, 429, 500, 502, 503 and 504. */
   retryableStatusCodes?: number[];
+  /**
+   * Whether to wait a random time up to the backoff ("full jitter"), so that clients which failed together do not
+   * retry together. Defaults to `true`.
+   */
+  jitter?: boolean;
+  /** Ends the wait between attempts early, and the retries with it. */
+  signal?: AbortSignal;
 }
 
-export async function retry<T>(fn: () => Promise<T>, options?: RetryOptions): Promise<T> {
+/**
+ * Parses a `Retry-After` value, given in seconds or as an HTTP date, into the number of milliseconds to wait.
+ *
+ * @param {string | number | null | undefined} value The header value, or a number of seconds from a response body.
+ * @param {number} [now] The current time in milliseconds.
+ * @returns {number | undefined} The delay in milliseconds, or `undefined` if the value is missing or malformed.
+ */
+export function parseRetryAfter(
+  value: string | number | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value === 'number' || /^\s*\d+(\.\d+)?\s*$/.test(value)) {
+    const seconds = Number(value);
+    return Number.isFinite(seconds) && seconds >= 0 ? Math.ceil(seconds * 1000) : undefined;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Whether a failed attempt is worth repeating. SDK errors decide through `isRetryable`, unless a custom list of
+ * statuses is given. Other errors are retried only if they are connection failures.
+ *
+ * @param {unknown} error The error of the attempt.
+ * @param {number[]} [retryableStatusCodes] The HTTP statuses worth retrying, instead of the default ones.
+ * @returns {boolean} Whether to retry.
+ */
+export function isRetryableError(error: unknown, retryableStatusCodes?: number[]): boolean {
+  const sdkError = handleUnknownError(error);
+  if (retryableStatusCodes && sdkError.statusCode !== undefined) {
+    return retryableStatusCodes.includes(sdkError.statusCode);
+  }
+  return sdkError.isRetryable;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+
+/**
+ * Calls `fn` until it succeeds, it fails with an error that is not retryable or the retries run out. Waits with
+ * exponential backoff and full jitter between attempts, or as long as the error's `context.retryAfterMs` says, which
+ * `internalApi` fills from the `Retry-After` header.
+ *
+ * @template T The result of `fn`.
+ * @param {() => Promise<T>} fn The attempt.
+ * @param {RetryOptions} [options] How often and how long to wait.
+ * @param {Logger} [logger] Where to log the retries.
+ * @returns {Promise<T>} The result of the first successful attempt.
+ * @throws The error of the last attempt.
+ */
+export async function retry<T>(
+  fn: () => Promise<T>,
+  options?: RetryOptions,
+  logger: Logger = defaultLogger,
+): Promise<T> {
   const {
     retries = 3,
     delay = 1000,
     factor = 2,
     maxDelay = 30000,
-    retryableStatusCodes = [429, 500, 502, 503, 504],
+    retryableStatusCodes,
+    jitter = true,
+    signal,
   } = options || {};
 
-  let currentDelay = delay;
-  for (let i = 0; i <= retries; i++) {
+  for (let i = 0; ; i++) {
     try {
       return await fn();
     } catch (error: any) {
-      const statusCode = error?.statusCode || error?.response?.status;
-      if (i < retries && (statusCode === undefined || retryableStatusCodes.includes(statusCode))) {
-        logger.warn(`Attempt ${i + 1} failed. Retrying in ${currentDelay}ms...`, error);
-        await new Promise((resolve) => setTimeout(resolve, currentDelay));
-        currentDelay = Math.min(currentDelay * factor, maxDelay);
-      } else {
-        throw error; // Re-throw the error if it's not retryable or max retries reached
+      if (i >= retries || signal?.aborted || !isRetryableError(error, retryableStatusCodes)) {
+        throw error;
+      }
+
+      const retryAfterMs = handleUnknownError(error).context?.retryAfterMs;
+      if (typeof retryAfterMs === 'number' && retryAfterMs > maxDelay) {
+        logger.warn(`Attempt ${i + 1} failed. The server asks to wait ${retryAfterMs}ms, longer than ${maxDelay}ms`);
+        throw error;
+      }
+      const backoff = Math.min(delay * factor ** i, maxDelay);
+      const wait =
+        typeof retryAfterMs === 'number' ? retryAfterMs : Math.round(jitter ? Math.random() * backoff : backoff);
+
+      logger.warn(`Attempt ${i + 1} failed. Retrying in ${wait}ms...`, error);
+      await sleep(wait, signal);
+      if (signal?.aborted) {
+        throw error;
       }
     }
   }
-  throw new Error('Retry function failed unexpectedly.'); // Should not be reached
 }
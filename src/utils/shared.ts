@@ -0,0 +1,18 @@
+/**
+ * Returns the process-wide value stored under `key` on globalThis, creating it on first use.
+ *
+ * Every entry point of the SDK (`./config`, `./wallet`, ...) is bundled on its own, with its own copy of each module.
+ * State kept in a module variable would therefore exist once per entry point. Shared through globalThis, like the
+ * current environment, it exists once per process.
+ *
+ * @param {string} key The well-known key, e.g. `__EASE_SDK_CONFIG__`.
+ * @param {() => T} create Creates the value when no entry point has yet.
+ * @returns {T} The shared value.
+ */
+export function shared<T>(key: string, create: () => T): T {
+  const store = globalThis as Record<string, unknown>;
+  if (store[key] === undefined) {
+    store[key] = create();
+  }
+  return store[key] as T;
+}
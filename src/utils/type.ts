@@ -9,6 +9,13 @@ export type Country = {
   dial_code: string;
 };
 
+export type SendOtpResponse = {
+  success?: boolean;
+  expiresIn?: number; // seconds until the code expires
+  resendAfter?: number; // seconds until another code may be requested
+  attemptsRemaining?: number; // verification attempts allowed for the code
+};
+
 // WebAuthn Base Types
 export type AuthenticatorTransport = 'usb' | 'nfc' | 'ble' | 'internal';
 
@@ -145,6 +152,7 @@ export type TransactionIntent = {
   coin: string;
   amount: number;
   memo?: string;
+  chainID?: string; // EASE transactions only; defaults to the client's chain, see getChains()
 };
 
 export type CreateKeysInput = {
@@ -177,6 +185,16 @@ export type SignTransactionOptionsResponse = {
   sessionId: string;
 };
 
+export type StepUpOptionsResponse = {
+  publicKey: PublicKeyCredentialRequestOptions;
+  sessionId: string;
+};
+
+export type StepUpCallbackResponse = {
+  elevatedToken: string;
+  expiresIn?: number; // seconds
+};
+
 export type AttestationDocument = {
   module_id: string;
   digest: string;
@@ -204,22 +222,30 @@ export type SignTransactionCallbackResponse = {
   response: unknown;
 };
 
-export type GoogleOAuthURLResponse = {
+export type OAuthURLResponse = {
   authURL: string;
 };
 
-export type GoogleOAuthCallbackRequest = {
+export type OAuthCallbackRequest = {
   code: string;
   state: string;
-  chainID: string;
+  chainID: string; // the chain to register the user on, see getChains()
+  codeVerifier?: string; // PKCE verifier of the flow started with startOAuth()
 };
 
-export type GoogleOAuthCallbackResponse = {
+export type OAuthCallbackResponse = {
   accessToken: string;
   refreshToken: string;
 };
 
-export type Environment = 'develop' | 'staging' | 'production';
+export type GoogleOAuthURLResponse = OAuthURLResponse;
+export type GoogleOAuthCallbackRequest = OAuthCallbackRequest;
+export type GoogleOAuthCallbackResponse = OAuthCallbackResponse;
+
+export type BuiltInEnvironment = 'develop' | 'staging' | 'production';
+
+// Any other name must be registered with registerEnvironment() first
+export type Environment = BuiltInEnvironment | (string & {});
 
 export type Contact = {
   id: string;
@@ -232,6 +258,15 @@ export type SearchUser = {
   accountName: string;
 };
 
+export type Passkey = {
+  id: string; // base64url credential ID
+  name?: string;
+  authenticatorName?: string; // e.g. "iCloud Keychain", from the authenticator's AAGUID
+  transports: AuthenticatorTransport[];
+  createdAt: string;
+  lastUsedAt?: string | null; // null until the passkey is first used to log in
+};
+
 export type TransportRequestCtx = {
   requestId: string;
   method: string;
@@ -266,8 +301,19 @@ export type TransportErrorCtx = {
   service?: string;
 };
 
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitStateChangeCtx = {
+  service: string; // e.g., "MEMPOOL_SPACE"
+  from: CircuitState;
+  to: CircuitState;
+  failures: number; // consecutive failures that led to the change
+  timestamp: number; // Date.now()
+};
+
 export type TransportObserver = {
   onRequest?(ctx: TransportRequestCtx): void;
   onResponse?(ctx: TransportResponseCtx): void;
   onError?(ctx: TransportErrorCtx): void;
+  onCircuitStateChange?(ctx: CircuitStateChangeCtx): void;
 };
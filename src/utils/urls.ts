@@ -1,7 +1,9 @@
-import { getEnvironment } from './environment';
-import { Environment } from './type';
+import { CUSTOM_ENVIRONMENTS_KEY, getEnvironment } from './environment';
+import { ValidationError } from './errors';
+import { logger as defaultLogger, Logger } from './logger';
+import { BuiltInEnvironment, Environment } from './type';
 
-type ServiceUrls = {
+export type ServiceUrls = {
   EASE_API: string;
   EASE_CHAIN_API: string;
   EASE_RELAY: string;
@@ -9,9 +11,11 @@ type ServiceUrls = {
   ETHERSCAN_PROXY: string;
   SEPOLIA_ETHERSCAN: string;
   API_LOGGING: string;
+  /** The `ws(s)` URL `connectToWebSocket()` connects to. */
+  EASE_WEBSOCKET: string;
 };
 
-const urls: Record<Environment, ServiceUrls> = {
+const urls: Record<BuiltInEnvironment, ServiceUrls> = {
   develop: {
     EASE_API: 'https://staging.api.ease.tech',
     EASE_CHAIN_API: 'https://ease-testnet.ease.tech',
@@ -20,6 +24,7 @@ const urls: Record<Environment, ServiceUrls> = {
     ETHERSCAN_PROXY: 'https://etherscan-proxy-am1u.vercel.app',
     SEPOLIA_ETHERSCAN: 'https://sepolia.etherscan.io',
     API_LOGGING: 'https://app-logging.vercel.app/api/logs',
+    EASE_WEBSOCKET: 'wss://staging.ws.ease.tech',
   },
   staging: {
     EASE_API: 'https://staging.api.ease.tech',
@@ -29,6 +34,7 @@ const urls: Record<Environment, ServiceUrls> = {
     ETHERSCAN_PROXY: 'https://etherscan-proxy-am1u.vercel.app',
     SEPOLIA_ETHERSCAN: 'https://sepolia.etherscan.io',
     API_LOGGING: 'https://app-logging.vercel.app/api/logs',
+    EASE_WEBSOCKET: 'wss://staging.ws.ease.tech',
   },
   production: {
     EASE_API: 'https://api.ease.tech',
@@ -38,10 +44,186 @@ const urls: Record<Environment, ServiceUrls> = {
     ETHERSCAN_PROXY: 'https://etherscan-proxy-am1u.vercel.app',
     SEPOLIA_ETHERSCAN: 'https://etherscan.io',
     API_LOGGING: 'https://app-logging.vercel.app/api/logs',
+    EASE_WEBSOCKET: 'wss://staging.ws.ease.tech', // the only socket host so far, override it with configure({ urls })
   },
 };
 
-export const getUrl = (service: keyof typeof urls.develop) => {
+export type ServiceName = keyof ServiceUrls;
+
+type CustomEnvironment = { base: BuiltInEnvironment; urls: ServiceUrls };
+
+// Shared through globalThis, like the current environment, so every entry point of the SDK sees them
+const ENVIRONMENTS_KEY = CUSTOM_ENVIRONMENTS_KEY;
+const URL_OVERRIDES_KEY = '__EASE_SDK_URL_OVERRIDES__';
+
+if ((globalThis as any)[ENVIRONMENTS_KEY] === undefined) {
+  (globalThis as any)[ENVIRONMENTS_KEY] = new Map<string, CustomEnvironment>();
+}
+if ((globalThis as any)[URL_OVERRIDES_KEY] === undefined) {
+  (globalThis as any)[URL_OVERRIDES_KEY] = {};
+}
+
+const customEnvironments = (): Map<string, CustomEnvironment> => (globalThis as any)[ENVIRONMENTS_KEY];
+
+const isBuiltIn = (environment: Environment): environment is BuiltInEnvironment =>
+  Object.prototype.hasOwnProperty.call(urls, environment);
+
+const baseOf = (environment: Environment): BuiltInEnvironment | undefined =>
+  isBuiltIn(environment) ? environment : customEnvironments().get(environment)?.base;
+
+const urlsOf = (environment: Environment): ServiceUrls => {
+  const resolved = isBuiltIn(environment) ? urls[environment] : customEnvironments().get(environment)?.urls;
+  if (!resolved) {
+    throw new ValidationError(
+      `Unknown environment: ${environment}. It was never registered or has been removed`,
+      'environment',
+      environment,
+    );
+  }
+  return resolved;
+};
+
+/**
+ * Checks service URL overrides and normalizes them: every service must exist and every URL must be absolute
+ * `http(s)`, or `ws(s)` for `EASE_WEBSOCKET`. Trailing slashes are removed, since paths are appended to the URLs.
+ *
+ * @param {Partial<ServiceUrls>} overrides The URLs to check.
+ * @returns {Partial<ServiceUrls>} The normalized URLs.
+ * @throws {ValidationError} If a service is unknown or a URL is malformed.
+ */
+export function validateServiceUrls(overrides: Partial<ServiceUrls>): Partial<ServiceUrls> {
+  if (!overrides || typeof overrides !== 'object') {
+    throw new ValidationError('Service URLs must be an object', 'urls', overrides);
+  }
+
+  const normalized: Partial<ServiceUrls> = {};
+  Object.entries(overrides).forEach(([service, url]) => {
+    if (!Object.prototype.hasOwnProperty.call(urls.production, service)) {
+      throw new ValidationError(`Unknown service: ${service}`, `urls.${service}`, url);
+    }
+    let parsed: URL | undefined;
+    try {
+      parsed = typeof url === 'string' ? new URL(url) : undefined;
+    } catch {
+      parsed = undefined;
+    }
+    const scheme = service === 'EASE_WEBSOCKET' ? 'ws' : 'http';
+    if (!parsed || (parsed.protocol !== `${scheme}:` && parsed.protocol !== `${scheme}s:`)) {
+      throw new ValidationError(`The ${service} URL must be an absolute ${scheme}(s) URL`, `urls.${service}`, url);
+    }
+    normalized[service as ServiceName] = (url as string).replace(/\/+$/, '');
+  });
+  return normalized;
+}
+
+/**
+ * Adds an environment, such as a local backend, that `configure({ environment })` then accepts. Services it does not
+ * override keep the URLs of its base environment.
+ *
+ * @example
+ * registerEnvironment('local', { EASE_API: 'http://localhost:8080', EASE_CHAIN_API: 'http://localhost:8888' });
+ * configure({ environment: 'local' });
+ *
+ * @param {string} name The name of the environment.
+ * @param {Partial<ServiceUrls>} overrides The URLs that differ from the base environment.
+ * @param {'develop' | 'staging' | 'production'} [base='develop'] The environment it is derived from. Chains and
+ * production checks treat it like its base.
+ * @returns {() => void} Removes the environment again. Clients still set to it then fail to resolve URLs.
+ * @throws {ValidationError} If the name is missing or built in, or an override is invalid.
+ */
+export function registerEnvironment(
+  name: string,
+  overrides: Partial<ServiceUrls>,
+  base: BuiltInEnvironment = 'develop',
+): () => void {
+  if (!name || typeof name !== 'string') {
+    throw new ValidationError('Environment name is required and must be a string', 'name', name);
+  }
+  if (isBuiltIn(name)) {
+    throw new ValidationError(`${name} is built in. Override its URLs with configure({ urls }) instead`, 'name', name);
+  }
+  if (!isBuiltIn(base)) {
+    throw new ValidationError(
+      'Invalid base environment. Please use "develop", "staging", or "production".',
+      'base',
+      base,
+    );
+  }
+
+  const environment: CustomEnvironment = { base, urls: { ...urls[base], ...validateServiceUrls(overrides) } };
+  customEnvironments().set(name, environment);
+  warnOnMixedEndpoints(defaultLogger, name, {});
+
+  return () => {
+    if (customEnvironments().get(name) === environment) {
+      customEnvironments().delete(name);
+    }
+  };
+}
+
+/**
+ * Whether the environment is production or derived from it.
+ *
+ * @internal
+ */
+export const isProductionEnvironment = (environment: Environment) => baseOf(environment) === 'production';
+
+const isLocalHost = (hostname: string) =>
+  hostname === 'localhost' ||
+  hostname === '[::1]' ||
+  hostname === 'host.docker.internal' ||
+  /\.(localhost|local|internal)$/.test(hostname) ||
+  /^(127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.)/.test(hostname);
+
+/**
+ * Returns the services of a production environment that point at test or local endpoints.
+ *
+ * @internal
+ */
+export function findTestEndpoints(environment: Environment, overrides: Partial<ServiceUrls> = {}): ServiceName[] {
+  if (!isProductionEnvironment(environment)) {
+    return [];
+  }
+  const testUrls = new Set([...Object.values(urls.develop), ...Object.values(urls.staging)]);
+  const resolved = { ...urlsOf(environment), ...overrides };
+
+  return (Object.keys(resolved) as ServiceName[]).filter((service) => {
+    const url = resolved[service];
+    if (url === urls.production[service]) {
+      return false;
+    }
+    return testUrls.has(url) || isLocalHost(new URL(url).hostname);
+  });
+}
+
+/**
+ * Logs a warning when a production environment points some services at test or local endpoints.
+ *
+ * @internal
+ */
+export function warnOnMixedEndpoints(logger: Logger, environment: Environment, overrides: Partial<ServiceUrls>) {
+  const services = findTestEndpoints(environment, overrides);
+  if (services.length > 0) {
+    logger.warn(`The ${environment} environment uses test endpoints for:`, services.join(', '));
+  }
+}
+
+/**
+ * Sets the service URL overrides of the process-wide configuration used by the free functions.
+ *
+ * @internal
+ */
+export const setUrlOverrides = (overrides: Partial<ServiceUrls>) => {
+  (globalThis as any)[URL_OVERRIDES_KEY] = overrides;
+};
+
+export const getUrlOverrides = (): Partial<ServiceUrls> => (globalThis as any)[URL_OVERRIDES_KEY];
+
+export const resolveUrl = (environment: Environment, service: ServiceName, overrides: Partial<ServiceUrls> = {}) => {
+  return overrides[service] ?? urlsOf(environment)[service];
+};
+
+export const getUrl = (service: ServiceName) => {
   const environment = getEnvironment() as Environment;
-  return urls[environment][service];
+  return resolveUrl(environment, service, getUrlOverrides());
 };
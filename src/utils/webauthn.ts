@@ -0,0 +1,268 @@
+import { ErrorCode, WebAuthnError } from './errors';
+import { logger as defaultLogger, Logger } from './logger';
+import type {
+  AuthenticatorTransport as TransportJSON,
+  PublicKeyCredential as SerializedCredential,
+  PublicKeyCredentialCreationOptions as CreationOptionsJSON,
+  PublicKeyCredentialDescriptor as DescriptorJSON,
+  PublicKeyCredentialRequestOptions as RequestOptionsJSON,
+} from './type';
+
+/**
+ * The part of `navigator.credentials` the WebAuthn ceremonies use. Inject a fake to run them without a browser.
+ */
+export type WebAuthnCredentials = Pick<CredentialsContainer, 'create' | 'get'>;
+
+export type WebAuthnCeremonyOptions = {
+  /** Defaults to `navigator.credentials`. */
+  credentials?: WebAuthnCredentials;
+  /** Aborts the ceremony, e.g. when the user navigates away. */
+  signal?: AbortSignal;
+  /** How the browser prompts for an existing passkey. `conditional` offers passkeys in form autofill. */
+  mediation?: CredentialMediationRequirement;
+};
+
+/**
+ * The static side of the `PublicKeyCredential` interface used for capability detection.
+ */
+export type PublicKeyCredentialSupport = {
+  isConditionalMediationAvailable?: () => Promise<boolean>;
+};
+
+/**
+ * Decodes a base64url (or standard base64) string.
+ *
+ * @param {string} value The encoded value.
+ * @returns {ArrayBuffer} The decoded bytes.
+ */
+export function base64UrlToBuffer(value: string): ArrayBuffer {
+  const base64 = value
+    .replace(/-/g, '+')
+    .replace(/_/g, '/')
+    .padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)).buffer;
+}
+
+/**
+ * Encodes bytes as unpadded base64url, the encoding the EASE API expects for credential fields.
+ *
+ * @param {ArrayBuffer | ArrayBufferView} buffer The bytes to encode.
+ * @returns {string} The base64url string.
+ */
+export function bufferToBase64Url(buffer: ArrayBuffer | ArrayBufferView): string {
+  const bytes = ArrayBuffer.isView(buffer)
+    ? new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+    : new Uint8Array(buffer);
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+const toBuffer = (value: ArrayBuffer | string): ArrayBuffer =>
+  typeof value === 'string' ? base64UrlToBuffer(value) : value;
+
+const toDescriptor = (descriptor: DescriptorJSON): PublicKeyCredentialDescriptor => ({
+  ...descriptor,
+  id: toBuffer(descriptor.id),
+});
+
+/**
+ * Converts the creation options returned by `join()` into the form `navigator.credentials.create()` accepts.
+ *
+ * @param {CreationOptionsJSON} options The options from the API.
+ * @returns {PublicKeyCredentialCreationOptions} The options with binary fields decoded.
+ */
+export function toCreationOptions(options: CreationOptionsJSON): PublicKeyCredentialCreationOptions {
+  return {
+    ...options,
+    challenge: toBuffer(options.challenge),
+    user: { ...options.user, id: toBuffer(options.user.id) },
+    excludeCredentials: options.excludeCredentials?.map(toDescriptor),
+  } as PublicKeyCredentialCreationOptions;
+}
+
+/**
+ * Converts the request options returned by `login()` into the form `navigator.credentials.get()` accepts.
+ *
+ * @param {RequestOptionsJSON} options The options from the API.
+ * @returns {PublicKeyCredentialRequestOptions} The options with binary fields decoded.
+ */
+export function toRequestOptions(options: RequestOptionsJSON): PublicKeyCredentialRequestOptions {
+  return {
+    ...options,
+    challenge: toBuffer(options.challenge),
+    allowCredentials: options.allowCredentials?.map(toDescriptor),
+  } as PublicKeyCredentialRequestOptions;
+}
+
+/**
+ * Serializes a credential returned by the browser into the shape `loginCallback()` and `joinCallback()` send.
+ *
+ * @param {PublicKeyCredential} credential The credential from `navigator.credentials.create()` or `.get()`.
+ * @returns {SerializedCredential} The credential with binary fields encoded as base64url.
+ */
+export function serializeCredential(credential: PublicKeyCredential): SerializedCredential {
+  const response = credential.response as AuthenticatorResponse &
+    Partial<AuthenticatorAttestationResponse & AuthenticatorAssertionResponse>;
+  const serializedResponse =
+    'attestationObject' in response && response.attestationObject
+      ? {
+          clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+          attestationObject: bufferToBase64Url(response.attestationObject),
+          transports: response.getTransports?.() as TransportJSON[] | undefined,
+        }
+      : {
+          clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+          authenticatorData: bufferToBase64Url(response.authenticatorData as ArrayBuffer),
+          signature: bufferToBase64Url(response.signature as ArrayBuffer),
+          userHandle: response.userHandle ? bufferToBase64Url(response.userHandle) : null,
+        };
+
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: 'public-key',
+    response: serializedResponse,
+    clientExtensionResults: credential.getClientExtensionResults?.() ?? {},
+  };
+}
+
+/**
+ * Maps a failed WebAuthn ceremony to an SDK error. The browser reports both a dismissed prompt and a timeout as
+ * `NotAllowedError`, so both surface as `USER_CANCELLED`. `InvalidStateError` means the authenticator already holds a
+ * passkey for the account when creating one, and `SecurityError` a page the relying party does not allow. Every
+ * other failure means the authenticator or browser cannot complete the ceremony.
+ *
+ * @internal
+ */
+export function toWebAuthnError(error: unknown, operation: 'create' | 'get'): WebAuthnError {
+  const name = (error as { name?: string } | null)?.name;
+  const message = (error as { message?: string } | null)?.message;
+  if (name === 'NotAllowedError' || name === 'AbortError') {
+    return new WebAuthnError('The passkey prompt was cancelled or timed out', ErrorCode.USER_CANCELLED, {
+      operation,
+      name,
+    });
+  }
+  if (name === 'InvalidStateError') {
+    return operation === 'create'
+      ? new WebAuthnError(
+          'A passkey for this account is already registered on this authenticator',
+          ErrorCode.PASSKEY_ALREADY_REGISTERED,
+          { operation, name },
+        )
+      : new WebAuthnError(message || 'The passkey could not be used', ErrorCode.PASSKEY_AUTHENTICATION_FAILED, {
+          operation,
+          name,
+        });
+  }
+  if (name === 'SecurityError') {
+    return new WebAuthnError(message || 'Passkeys are not allowed on this page', ErrorCode.WEBAUTHN_SECURITY_ERROR, {
+      operation,
+      name,
+    });
+  }
+  return new WebAuthnError(message || 'The WebAuthn ceremony failed', ErrorCode.WEBAUTHN_NOT_SUPPORTED, {
+    operation,
+    name,
+  });
+}
+
+/**
+ * Checks whether the browser can offer passkeys in form autofill (`mediation: 'conditional'`). Browsers without it
+ * would show a modal prompt instead, so check before starting a conditional login.
+ *
+ * @param {PublicKeyCredentialSupport} [publicKeyCredential] Defaults to the global `PublicKeyCredential`.
+ * @returns {Promise<boolean>} Whether conditional mediation is available.
+ */
+export async function isConditionalMediationAvailable(
+  publicKeyCredential: PublicKeyCredentialSupport | undefined = (
+    globalThis as { PublicKeyCredential?: PublicKeyCredentialSupport }
+  ).PublicKeyCredential,
+): Promise<boolean> {
+  if (typeof publicKeyCredential?.isConditionalMediationAvailable !== 'function') {
+    return false;
+  }
+  try {
+    return await publicKeyCredential.isConditionalMediationAvailable();
+  } catch {
+    return false;
+  }
+}
+
+function resolveCredentials(credentials: WebAuthnCredentials | undefined): WebAuthnCredentials {
+  const container = credentials ?? globalThis.navigator?.credentials;
+  if (!container) {
+    throw new WebAuthnError('WebAuthn is not available in this environment', ErrorCode.WEBAUTHN_NOT_SUPPORTED);
+  }
+  return container;
+}
+
+async function runCeremony(
+  operation: 'create' | 'get',
+  ceremony: () => Promise<Credential | null>,
+  logger: Logger,
+): Promise<SerializedCredential> {
+  let credential: Credential | null;
+  try {
+    credential = await ceremony();
+  } catch (error) {
+    const mapped = toWebAuthnError(error, operation);
+    logger.debug(`WebAuthn ${operation} failed:`, { code: mapped.code, name: (error as Error)?.name });
+    throw mapped;
+  }
+  if (!credential || credential.type !== 'public-key') {
+    throw new WebAuthnError('No passkey was selected', ErrorCode.USER_CANCELLED, { operation });
+  }
+  return serializeCredential(credential as PublicKeyCredential);
+}
+
+/**
+ * Creates a passkey with the options returned by `join()`.
+ *
+ * @param {CreationOptionsJSON} publicKey The creation options from the API.
+ * @param {WebAuthnCeremonyOptions} [options] The credentials container and abort signal to use.
+ * @param {Logger} [logger] The logger of the calling client.
+ * @returns {Promise<SerializedCredential>} The new credential, ready for `joinCallback()`.
+ * @throws {WebAuthnError} `USER_CANCELLED` if the prompt was dismissed, timed out or aborted;
+ * `PASSKEY_ALREADY_REGISTERED` if the authenticator already holds a passkey for the account; `WEBAUTHN_SECURITY_ERROR`
+ * if the page is not allowed to use the relying party; `WEBAUTHN_NOT_SUPPORTED` if WebAuthn is unavailable or the
+ * authenticator failed.
+ */
+export async function createCredential(
+  publicKey: CreationOptionsJSON,
+  options: WebAuthnCeremonyOptions = {},
+  logger: Logger = defaultLogger,
+): Promise<SerializedCredential> {
+  const credentials = resolveCredentials(options.credentials);
+  return runCeremony(
+    'create',
+    () => credentials.create({ publicKey: toCreationOptions(publicKey), signal: options.signal }),
+    logger,
+  );
+}
+
+/**
+ * Asserts an existing passkey with the options returned by `login()`.
+ *
+ * @param {RequestOptionsJSON} publicKey The request options from the API.
+ * @param {WebAuthnCeremonyOptions} [options] The credentials container, abort signal and mediation to use.
+ * @param {Logger} [logger] The logger of the calling client.
+ * @returns {Promise<SerializedCredential>} The assertion, ready for `loginCallback()`.
+ * @throws {WebAuthnError} `USER_CANCELLED` if the prompt was dismissed, timed out or aborted;
+ * `WEBAUTHN_SECURITY_ERROR` if the page is not allowed to use the relying party; `WEBAUTHN_NOT_SUPPORTED` if WebAuthn
+ * is unavailable or the authenticator failed.
+ */
+export async function getCredential(
+  publicKey: RequestOptionsJSON,
+  options: WebAuthnCeremonyOptions = {},
+  logger: Logger = defaultLogger,
+): Promise<SerializedCredential> {
+  const credentials = resolveCredentials(options.credentials);
+  return runCeremony(
+    'get',
+    () =>
+      credentials.get({ publicKey: toRequestOptions(publicKey), signal: options.signal, mediation: options.mediation }),
+    logger,
+  );
+}
@@ -1,8 +1,12 @@
-import { getUrl } from '../utils/urls';
 import { EaseSDKError, ErrorCode, handleUnknownError } from '../utils/errors';
-import { logger } from '../utils/logger';
+import type { RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
 import { Transaction } from '../utils/type'; // Assuming Transaction type is already defined in type.ts
 import { fetchExternalBlockchainData } from '../api/externalApi';
+import { getChain } from '../chains';
+
+const fetchBalance = fetchExternalBlockchainData<string>;
+const fetchHistory = fetchExternalBlockchainData<Transaction[]>;
 
 /**
  * Truncates a given blockchain address for display purposes.
@@ -83,20 +87,30 @@ export function ammountToSmallestUnit(coin: string, amount: number): number {
  *
  * @param {string} coin The ticker symbol of the cryptocurrency (e.g., 'BTC', 'ETH').
  * @param {string} trxId The transaction response object or ID from which to construct the URL.
+ * @param {string} [chainID] For EASE transactions, the chain they were sent on. Defaults to the client's chain.
  * @returns {string} The URL to the transaction on the respective blockchain explorer, or an empty string if not supported.
  * @throws {EaseSDKError} If the input coin is not a non-empty string.
  */
-export function explorerUrlFromResponse(coin: string, trxId: string): string {
+export function explorerUrlFromResponse(
+  this: EaseClient | void,
+  coin: string,
+  trxId: string,
+  chainID?: string,
+): string {
+  const client = resolveClient(this);
+
   if (typeof coin !== 'string' || coin.length === 0) {
     throw new EaseSDKError({ code: ErrorCode.INVALID_INPUT, message: 'Coin must be a non-empty string.' });
   }
   switch (coin.toUpperCase()) {
-    case 'EASE':
-      return '';
+    case 'EASE': {
+      const { explorerURL } = getChain.call(client, chainID);
+      return explorerURL ? `${explorerURL}/tx/${trxId}` : '';
+    }
     case 'BTC':
-      return `${getUrl('MEMPOOL_SPACE')}/tx/${trxId}`;
+      return `${client.getUrl('MEMPOOL_SPACE')}/tx/${trxId}`;
     case 'ETH':
-      return `${getUrl('SEPOLIA_ETHERSCAN')}/tx/${trxId}`;
+      return `${client.getUrl('SEPOLIA_ETHERSCAN')}/tx/${trxId}`;
     default:
       return '';
   }
@@ -107,10 +121,21 @@ export function explorerUrlFromResponse(coin: string, trxId: string): string {
  *
  * @param {string} coin The ticker symbol of the cryptocurrency (e.g., 'EASE', 'BTC', 'ETH').
  * @param {string} address The wallet address.
+ * @param {string} [chainID] For EASE, the chain to read the balance from. Defaults to the client's chain.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<string>} A promise that resolves with the wallet balance as a string.
  * @throws {EaseSDKError} If the input coin or address are invalid, or if the coin type is unsupported.
  */
-export async function getWalletBalance(coin: string, address: string): Promise<string> {
+export async function getWalletBalance(
+  this: EaseClient | void,
+  coin: string,
+  address: string,
+  chainID?: string,
+  options?: RequestOptions,
+): Promise<string> {
+  const client = resolveClient(this);
+  const { logger } = client;
+
   if (typeof coin !== 'string' || coin.length === 0) {
     throw new EaseSDKError({ code: ErrorCode.INVALID_INPUT, message: 'Coin must be a non-empty string.' });
   }
@@ -123,19 +148,19 @@ export async function getWalletBalance(coin: string, address: string): Promise<s
 
     switch (coin.toUpperCase()) {
       case 'EASE': {
-        const balance = await fetchExternalBlockchainData<string>('EASE', address, 'balance');
+        const balance = await fetchBalance.call(client, 'EASE', address, 'balance', chainID, options);
         logger.info(`Successfully retrieved EASE balance for address: ${address}. Balance: ${balance}`);
         return balance;
       }
 
       case 'BTC': {
-        const balance = await fetchExternalBlockchainData<string>('BTC', address, 'balance');
+        const balance = await fetchBalance.call(client, 'BTC', address, 'balance', undefined, options);
         logger.info(`Successfully retrieved BTC balance for address: ${address}. Balance: ${balance}`);
         return balance;
       }
 
       case 'ETH': {
-        const balance = await fetchExternalBlockchainData<string>('ETH', address, 'balance');
+        const balance = await fetchBalance.call(client, 'ETH', address, 'balance', undefined, options);
         logger.info(`Successfully retrieved ETH balance for address: ${address}. Balance: ${balance}`);
         return balance;
       }
@@ -144,7 +169,7 @@ export async function getWalletBalance(coin: string, address: string): Promise<s
         throw new EaseSDKError({ code: ErrorCode.INVALID_INPUT, message: `Unsupported coin: ${coin}` });
     }
   } catch (error: unknown) {
-    const enhancedError = handleUnknownError(error, { coin, address, operation: 'getWalletBalance' });
+    const enhancedError = handleUnknownError(error, { coin, address, chainID, operation: 'getWalletBalance' });
     throw enhancedError;
   }
 }
@@ -154,10 +179,21 @@ export async function getWalletBalance(coin: string, address: string): Promise<s
  *
  * @param {string} coin The ticker symbol of the cryptocurrency (e.g., 'EASE', 'BTC', 'ETH').
  * @param {string} address The wallet address.
+ * @param {string} [chainID] For EASE, the chain to read the history from. Defaults to the client's chain.
+ * @param {RequestOptions} [options] Cancellation, timeout and retry settings of the request.
  * @returns {Promise<Transaction[]>} A promise that resolves with an array of transaction objects.
  * @throws {EaseSDKError} If the input coin or address are invalid, or if the coin type is unsupported.
  */
-export async function getWalletHistory(coin: string, address: string): Promise<Transaction[]> {
+export async function getWalletHistory(
+  this: EaseClient | void,
+  coin: string,
+  address: string,
+  chainID?: string,
+  options?: RequestOptions,
+): Promise<Transaction[]> {
+  const client = resolveClient(this);
+  const { logger } = client;
+
   if (typeof coin !== 'string' || coin.length === 0) {
     throw new EaseSDKError({ code: ErrorCode.INVALID_INPUT, message: 'Coin must be a non-empty string.' });
   }
@@ -170,19 +206,19 @@ export async function getWalletHistory(coin: string, address: string): Promise<T
 
     switch (coin.toUpperCase()) {
       case 'EASE': {
-        const txs = await fetchExternalBlockchainData<Transaction[]>(coin, address, 'history');
+        const txs = await fetchHistory.call(client, coin, address, 'history', chainID, options);
         logger.info(`Successfully retrieved EASE history for address: ${address}. Found ${txs.length} transactions.`);
         return txs;
       }
 
       case 'BTC': {
-        const txs = await fetchExternalBlockchainData<Transaction[]>(coin, address, 'history');
+        const txs = await fetchHistory.call(client, coin, address, 'history', undefined, options);
         logger.info(`Successfully retrieved BTC history for address: ${address}. Found ${txs.length} transactions.`);
         return txs;
       }
 
       case 'ETH': {
-        const txs = await fetchExternalBlockchainData<Transaction[]>(coin, address, 'history');
+        const txs = await fetchHistory.call(client, coin, address, 'history', undefined, options);
         logger.info(`Successfully retrieved ETH history for address: ${address}. Found ${txs.length} transactions.`);
 
         return txs;
@@ -192,7 +228,7 @@ export async function getWalletHistory(coin: string, address: string): Promise<T
         throw new EaseSDKError({ code: ErrorCode.INVALID_INPUT, message: `Unsupported coin: ${coin}` });
     }
   } catch (error: unknown) {
-    const enhancedError = handleUnknownError(error, { coin, address, operation: 'getWalletHistory' });
+    const enhancedError = handleUnknownError(error, { coin, address, chainID, operation: 'getWalletHistory' });
 
     throw enhancedError;
   }
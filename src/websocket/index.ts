@@ -1,5 +1,5 @@
-import { internalApi as api } from '../api';
-import { logger } from '../utils/logger';
+import type { RequestOptions } from '../api';
+import { EaseClient, resolveClient } from '../client';
 import { AuthenticationError, ValidationError, ErrorCode, handleUnknownError, isEaseSDKError } from '../utils/errors';
 
 /**
@@ -14,6 +14,7 @@ import { AuthenticationError, ValidationError, ErrorCode, handleUnknownError, is
  * The token is short-lived and should be refreshed periodically.
  *
  * @param {string} accessToken - The user's access token.
+ * @param {RequestOptions} [options] - Cancellation, timeout and retry settings of the request.
  * @returns {Promise<string>} A promise that resolves to the WebSocket token.
  *
  * @throws {ValidationError} If the access token is missing or invalid.
@@ -21,7 +22,13 @@ import { AuthenticationError, ValidationError, ErrorCode, handleUnknownError, is
  * @throws {APIError} If the API request fails for any other reason.
  * @throws {NetworkError} If a network error occurs.
  */
-export async function getWSToken(accessToken: string): Promise<string> {
+export async function getWSToken(
+  this: EaseClient | void,
+  accessToken: string,
+  options?: RequestOptions,
+): Promise<string> {
+  const { api, logger } = resolveClient(this);
+
   if (!accessToken || typeof accessToken !== 'string') {
     throw new ValidationError('Access token is required and must be a string', 'accessToken', accessToken);
   }
@@ -40,6 +47,9 @@ export async function getWSToken(accessToken: string): Promise<string> {
       'POST',
       {},
       { Authorization: `Bearer ${accessToken.trim()}` },
+      false,
+      false,
+      options,
     );
 
     if (!responseCallback.success) {
@@ -113,20 +123,37 @@ export interface ReconnectionConfig {
 /**
  * Connects to the EASE WebSocket server and sets up event handlers with automatic reconnection.
  *
+ * Reconnects fetch a new WebSocket token. When the client session refreshes the access token the connection was opened
+ * with, they use the new access token.
+ *
  * @param {string} accessToken - The user's access token.
  * @param {WebSocketHandlers} handlers - An object containing callback functions for `onMessage`, `onError`, and `onOpen` events.
  * @param {ReconnectionConfig} [reconnectionConfig] - Configuration for automatic reconnection.
  * @returns {Promise<WebSocket>} A promise that resolves to the WebSocket instance. The `close` method on the instance is modified to prevent automatic reconnection.
  */
 export function connectToWebSocket(
+  this: EaseClient | void,
   accessToken: string,
   handlers: WebSocketHandlers,
   reconnectionConfig?: ReconnectionConfig,
 ): Promise<WebSocket> {
+  const client = resolveClient(this);
+  const { logger } = client;
+
   let ws: WebSocket | null = null;
   let reconnectionAttempts = 0;
   let isClosed = false;
 
+  // Reconnects follow the session once it refreshes the token the connection was opened with
+  let token = accessToken;
+  let sessionToken = client.session.accessToken;
+  const stopFollowingSession = client.session.on('tokensChanged', ({ tokens }) => {
+    if (tokens?.accessToken && sessionToken === token) {
+      token = tokens.accessToken;
+    }
+    sessionToken = tokens?.accessToken;
+  });
+
   const { enabled = true, maxAttempts = 5, initialDelay = 1000, maxDelay = 30000 } = reconnectionConfig || {};
 
   return new Promise<WebSocket>((resolve, reject) => {
@@ -136,9 +163,8 @@ export function connectToWebSocket(
       if (isClosed) return;
 
       try {
-        const token = await getWSToken(accessToken);
-        const url = `wss://staging.ws.ease.tech?token=${token}`;
-        ws = new WebSocket(url);
+        const wsToken = await getWSToken.call(client, token);
+        ws = new WebSocket(`${client.getUrl('EASE_WEBSOCKET')}?token=${wsToken}`);
 
         ws.addEventListener('open', () => {
           logger.debug('WebSocket connection opened');
@@ -151,6 +177,7 @@ export function connectToWebSocket(
             const originalClose = ws.close.bind(ws);
             ws.close = (...args) => {
               isClosed = true;
+              stopFollowingSession();
               originalClose(...args);
             };
             resolve(ws);
@@ -170,6 +197,7 @@ export function connectToWebSocket(
           } else {
             const error = new Error('WebSocket reconnection failed after maximum attempts.');
             logger.error('WebSocket reconnection failed after maximum attempts.');
+            stopFollowingSession();
             handlers.onError(error);
             if (!promiseFulfilled) {
               promiseFulfilled = true;
@@ -179,6 +207,7 @@ export function connectToWebSocket(
         });
       } catch (error) {
         handlers.onError(error as Error);
+        stopFollowingSession();
         if (!promiseFulfilled) {
           promiseFulfilled = true;
           reject(error as Error);
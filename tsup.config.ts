@@ -6,19 +6,26 @@ export default defineConfig({
     'src/enclave/index.ts',
     'src/login/index.ts',
     'src/join/index.ts',
+    'src/chains/index.ts',
     'src/logout/index.ts',
     'src/phone/index.ts',
+    'src/email/index.ts',
     'src/transaction/index.ts',
     'src/wallet/index.ts',
     'src/utils/type.ts',
     'src/utils/crypto.ts',
     'src/refresh/index.ts',
+    'src/oauth/index.ts',
     'src/google/index.ts',
     'src/contacts/index.ts',
+    'src/credentials/index.ts',
+    'src/stepup/index.ts',
     'src/websocket/index.ts',
     'src/analytics/index.ts',
     'src/core/telemetry.ts',
     'src/config.ts',
+    'src/client/index.ts',
+    'src/storage/index.ts',
   ], // ← point to your file(s)
   format: ['esm', 'cjs'],
   outDir: 'dist',